@@ -0,0 +1,305 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Users } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  fetchAuctionRounds,
+  fetchRoundBids,
+  openAuctionRound,
+  placeAuctionBid,
+  closeAuctionRound,
+  getTakeBounds,
+  computeRoundOutcome,
+} from "@/lib/chit-auction";
+import { sumSlots } from "@/lib/membership-slots";
+
+interface AuctionRoomProps {
+  open: boolean;
+  onClose: () => void;
+  thriftSystemId: string;
+  isAdmin?: boolean;
+}
+
+const AuctionRoom = ({ open, onClose, thriftSystemId, isAdmin = false }: AuctionRoomProps) => {
+  const queryClient = useQueryClient();
+  const [take, setTake] = useState("");
+  const [watching, setWatching] = useState(0);
+
+  const { data: currentUser } = useQuery({
+    queryKey: ['currentUser'],
+    queryFn: async () => {
+      const { data: { user }, error } = await supabase.auth.getUser();
+      if (error) throw error;
+      return user;
+    },
+  });
+
+  const { data: rounds, isLoading: loadingRounds } = useQuery({
+    queryKey: ['auctionRounds', thriftSystemId],
+    queryFn: () => fetchAuctionRounds(thriftSystemId),
+    enabled: open,
+  });
+
+  // Every slot pays into the pot and can win one round
+  const { data: activeSlots = [] } = useQuery({
+    queryKey: ['activeMemberSlots', thriftSystemId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('memberships')
+        .select('user_id, slot_count')
+        .eq('thrift_system_id', thriftSystemId)
+        .eq('status', 'active');
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: open,
+  });
+
+  const openRound = rounds?.find((round) => round.status === 'open');
+  const lastRound = rounds?.filter((round) => round.status === 'closed').pop();
+  const openRoundId = openRound?.id;
+
+  const { data: bids = [] } = useQuery({
+    queryKey: ['auctionBids', openRoundId],
+    queryFn: () => fetchRoundBids(openRoundId!),
+    enabled: open && Boolean(openRoundId),
+  });
+
+  // Follow rounds and bids live, and count who is in the room
+  useEffect(() => {
+    if (!open) return;
+
+    const channel = supabase.channel(`auction-room:${thriftSystemId}`);
+
+    channel
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'auction_rounds', filter: `thrift_system_id=eq.${thriftSystemId}` },
+        () => queryClient.invalidateQueries({ queryKey: ['auctionRounds', thriftSystemId] })
+      )
+      .on('presence', { event: 'sync' }, () => {
+        setWatching(Object.keys(channel.presenceState()).length);
+      });
+
+    if (openRoundId) {
+      channel.on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'auction_bids', filter: `round_id=eq.${openRoundId}` },
+        () => queryClient.invalidateQueries({ queryKey: ['auctionBids', openRoundId] })
+      );
+    }
+
+    channel.subscribe((status) => {
+      if (status === 'SUBSCRIBED') {
+        channel.track({ joined_at: new Date().toISOString() });
+      }
+    });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [open, thriftSystemId, openRoundId, queryClient]);
+
+  const openMutation = useMutation({
+    mutationFn: () => openAuctionRound(thriftSystemId),
+    onSuccess: () => {
+      toast.success("Auction round opened");
+      queryClient.invalidateQueries({ queryKey: ['auctionRounds', thriftSystemId] });
+    },
+    onError: (error) => {
+      console.error("Error opening auction round:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to open auction round");
+    }
+  });
+
+  const bidMutation = useMutation({
+    mutationFn: () => placeAuctionBid(openRound!, Number(take)),
+    onSuccess: () => {
+      toast.success("Bid placed");
+      setTake("");
+      queryClient.invalidateQueries({ queryKey: ['auctionBids', openRoundId] });
+    },
+    onError: (error) => {
+      console.error("Error placing bid:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to place bid");
+    }
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: () => closeAuctionRound(openRoundId!),
+    onSuccess: (result) => {
+      toast.success(
+        result.unbid
+          ? "Round closed with no bids. The longest-waiting member takes the pot with no discount."
+          : "Round closed. The winner's payout and dividends have been recorded."
+      );
+      queryClient.invalidateQueries({ queryKey: ['auctionRounds', thriftSystemId] });
+      queryClient.invalidateQueries({ queryKey: ['payouts'] });
+    },
+    onError: (error) => {
+      console.error("Error closing auction round:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to close auction round");
+    }
+  });
+
+  const slotCount = sumSlots(activeSlots);
+  const mySlots = activeSlots.find((membership) => membership.user_id === currentUser?.id)?.slot_count || 0;
+  const myWins = (rounds || []).filter((round) => round.winner_id && round.winner_id === currentUser?.id).length;
+  const canBid = Boolean(openRound && currentUser && myWins < mySlots);
+  const lowestBid = bids[0];
+  const bounds = openRound ? getTakeBounds(openRound) : null;
+  const preview =
+    openRound && take ? computeRoundOutcome(openRound, Number(take), Math.max(slotCount - 1, 0)) : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Auction Room
+            <Badge variant="outline" className="gap-1">
+              <Users className="h-3 w-3" />
+              {watching}
+            </Badge>
+          </DialogTitle>
+          <DialogDescription>
+            Members not yet paid bid the amount they will accept from this round's pot.
+            The lowest take wins and the discount is shared among everyone else.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loadingRounds ? (
+          <div className="flex justify-center items-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : openRound ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="text-xs text-muted-foreground">Round</p>
+                <p className="font-medium">{openRound.period_number}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Pot</p>
+                <p className="font-medium">₦{openRound.pot_amount}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Organizer commission</p>
+                <p className="font-medium">₦{openRound.commission_amount}</p>
+              </div>
+            </div>
+
+            <p className="text-sm">
+              {lowestBid
+                ? `Lowest take: ₦${lowestBid.take_amount} by ${lowestBid.profiles?.full_name || "Unknown Member"}`
+                : "No bids yet"}
+            </p>
+
+            {bids.length > 0 && (
+              <div className="max-h-60 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Member</TableHead>
+                      <TableHead>Take</TableHead>
+                      <TableHead>Time</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {bids.map((bid) => (
+                      <TableRow key={bid.id}>
+                        <TableCell>{bid.profiles?.full_name || "Unknown Member"}</TableCell>
+                        <TableCell>₦{bid.take_amount}</TableCell>
+                        <TableCell>{new Date(bid.created_at).toLocaleTimeString()}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {canBid && bounds && (
+              <div className="space-y-2">
+                <Label htmlFor="auction-take">Amount you will take (₦{bounds.min} – ₦{bounds.max})</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="auction-take"
+                    type="number"
+                    min={bounds.min}
+                    max={lowestBid ? lowestBid.take_amount : bounds.max}
+                    value={take}
+                    onChange={(e) => setTake(e.target.value)}
+                    placeholder={lowestBid ? `Below ₦${lowestBid.take_amount}` : `Up to ₦${bounds.max}`}
+                  />
+                  <Button onClick={() => bidMutation.mutate()} disabled={!take || bidMutation.isPending}>
+                    {bidMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Place Bid
+                  </Button>
+                </div>
+                {preview && preview.discount >= 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    If this wins, each other hand receives about ₦{preview.dividendPerSlot} in dividends.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-2 text-sm">
+            {lastRound ? (
+              <p>
+                Round {lastRound.period_number} closed with a winning take of ₦{lastRound.winning_take}.
+                Each other hand was credited ₦{lastRound.dividend_amount}.
+              </p>
+            ) : (
+              <p className="text-muted-foreground">No auction rounds have been held yet.</p>
+            )}
+            {!isAdmin && (
+              <p className="text-muted-foreground">Waiting for the organizer to open the next round.</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          {isAdmin && (openRound ? (
+            <Button onClick={() => closeMutation.mutate()} disabled={closeMutation.isPending}>
+              {closeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Close Round
+            </Button>
+          ) : (
+            <Button onClick={() => openMutation.mutate()} disabled={openMutation.isPending}>
+              {openMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Open Round {(lastRound?.period_number || 0) + 1}
+            </Button>
+          ))}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AuctionRoom;
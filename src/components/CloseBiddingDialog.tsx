@@ -0,0 +1,143 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { previewBidResolution, closeBidding } from "@/lib/bid-resolution";
+import { countSlotsBy, formatSlotName } from "@/lib/membership-slots";
+
+interface CloseBiddingDialogProps {
+  open: boolean;
+  onClose: () => void;
+  thriftSystemId: string;
+  onBiddingClosed?: () => void;
+}
+
+const CloseBiddingDialog = ({ open, onClose, thriftSystemId, onBiddingClosed }: CloseBiddingDialogProps) => {
+  const queryClient = useQueryClient();
+
+  const { data: assignments, isLoading, error } = useQuery({
+    queryKey: ['bidResolutionPreview', thriftSystemId],
+    queryFn: () => previewBidResolution(thriftSystemId),
+    enabled: open,
+    retry: false,
+  });
+
+  const slotsByMember = countSlotsBy(assignments || [], (assignment) => assignment.member_id);
+
+  const closeMutation = useMutation({
+    mutationFn: () => closeBidding(thriftSystemId),
+    onSuccess: () => {
+      toast.success("Bidding closed and positions assigned");
+      queryClient.invalidateQueries({ queryKey: ['preferences', thriftSystemId] });
+      queryClient.invalidateQueries({ queryKey: ['userPreference', thriftSystemId] });
+      queryClient.invalidateQueries({ queryKey: ['rotationSchedulePreview', thriftSystemId] });
+      onBiddingClosed?.();
+      onClose();
+    },
+    onError: (error) => {
+      console.error("Error closing bidding:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to close bidding");
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Close Bidding</DialogTitle>
+          <DialogDescription>
+            Contested positions go to the highest bid; ties go to whoever asked first.
+            Outbid members are moved to the nearest open position.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{(error as Error).message}</AlertDescription>
+          </Alert>
+        ) : assignments && assignments.length > 0 ? (
+          <div className="max-h-80 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Position</TableHead>
+                  <TableHead>Member</TableHead>
+                  <TableHead>Requested</TableHead>
+                  <TableHead>Outcome</TableHead>
+                  <TableHead>Premium</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {assignments.map((assignment) => (
+                  <TableRow key={assignment.preference_id}>
+                    <TableCell>{assignment.actual_position}</TableCell>
+                    <TableCell>
+                      {formatSlotName(
+                        assignment.full_name || "Unknown Member",
+                        assignment.slot_number,
+                        slotsByMember.get(assignment.member_id) || 1
+                      )}
+                    </TableCell>
+                    <TableCell>{assignment.preferred_position}</TableCell>
+                    <TableCell>
+                      <Badge variant={assignment.status === "outbid" ? "secondary" : "default"}>
+                        {assignment.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{assignment.premium > 0 ? `₦${assignment.premium}` : "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-center text-muted-foreground py-4">No position preferences submitted</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={closeMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => closeMutation.mutate()}
+            disabled={!assignments || closeMutation.isPending}
+          >
+            {closeMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Closing...
+              </>
+            ) : (
+              "Close Bidding"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CloseBiddingDialog;
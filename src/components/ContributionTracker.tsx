@@ -17,6 +17,11 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { describeLatePolicy } from "@/lib/late-penalties";
+import { getContributionBalance, recordContributionPayment } from "@/lib/contribution-payments";
+import { formatSlotName } from "@/lib/membership-slots";
+import PaymentCheckout from "@/components/PaymentCheckout";
+import { getCommittedAmount, getExpectedCycleTotal, setCommittedAmount } from "@/lib/contribution-commitments";
 
 interface ContributionTrackerProps {
   thriftSystemId: string;
@@ -79,6 +84,22 @@ const ContributionTracker = ({ thriftSystemId }: ContributionTrackerProps) => {
     enabled: Boolean(thriftSystemId) && Boolean(currentUser),
   });
 
+  // What every active member has committed to, for the cycle total
+  const { data: commitments = [] } = useQuery({
+    queryKey: ['commitments', thriftSystemId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('memberships')
+        .select('slot_count, committed_amount')
+        .eq('thrift_system_id', thriftSystemId)
+        .eq('status', 'active');
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: Boolean(thriftSystemId),
+  });
+
   // Get all contributions for this thrift system
   const { data: contributions, isLoading } = useQuery({
     queryKey: ['contributions', thriftSystemId],
@@ -93,9 +114,20 @@ const ContributionTracker = ({ thriftSystemId }: ContributionTrackerProps) => {
           memberships (
             id,
             user_id,
+            slot_count,
             profiles (
               full_name
             )
+          ),
+          contribution_penalties (
+            id,
+            penalty_date,
+            amount,
+            reason
+          ),
+          payment_allocations (
+            amount,
+            allocation_type
           )
         `)
         .eq('memberships.thrift_system_id', thriftSystemId);
@@ -114,9 +146,22 @@ const ContributionTracker = ({ thriftSystemId }: ContributionTrackerProps) => {
       
       const { data, error } = await supabase
         .from('contributions')
-        .select('*')
+        .select(`
+          *,
+          contribution_penalties (
+            id,
+            penalty_date,
+            amount,
+            reason
+          ),
+          payment_allocations (
+            amount,
+            allocation_type
+          )
+        `)
         .eq('membership_id', membership.id)
-        .order('due_date', { ascending: true });
+        .order('due_date', { ascending: true })
+        .order('slot_number', { ascending: true });
       
       if (error) throw error;
       return data;
@@ -124,7 +169,17 @@ const ContributionTracker = ({ thriftSystemId }: ContributionTrackerProps) => {
     enabled: Boolean(membership),
   });
 
-  // Make a payment
+  const isAdmin = Boolean(currentUser) && thriftSystem?.admin_id === currentUser?.id;
+  const isOwnContribution = selectedContribution?.membership_id === membership?.id;
+
+  const onPaid = () => {
+    queryClient.invalidateQueries({ queryKey: ['contributions'] });
+    queryClient.invalidateQueries({ queryKey: ['userContributions'] });
+    setShowPaymentDialog(false);
+  };
+
+  // The admin records cash they were handed by another member. Members pay
+  // their own contributions through PaymentCheckout.
   const paymentMutation = useMutation({
     mutationFn: async ({
       contributionId,
@@ -134,39 +189,38 @@ const ContributionTracker = ({ thriftSystemId }: ContributionTrackerProps) => {
       amount: number;
     }) => {
       if (!currentUser) throw new Error("Not authenticated");
-      
-      // In a real implementation, you would integrate with a payment gateway here
-      // For now, we'll simulate a successful payment
-      
-      // Update the contribution status
-      const { error } = await supabase
-        .from('contributions')
-        .update({
-          status: 'completed',
-          payment_date: new Date().toISOString(),
-          amount
-        })
-        .eq('id', contributionId);
-      
-      if (error) throw error;
-      
-      return { success: true };
+      return recordContributionPayment(contributionId, amount, "Cash");
     },
-    onSuccess: () => {
-      toast.success("Payment processed successfully!");
-      queryClient.invalidateQueries({ queryKey: ['contributions'] });
-      queryClient.invalidateQueries({ queryKey: ['userContributions'] });
-      setShowPaymentDialog(false);
+    onSuccess: (result) => {
+      toast.success(
+        result.status === 'completed'
+          ? "Cash payment recorded"
+          : `Cash payment recorded. ₦${result.remaining} is still owed on this contribution.`
+      );
+      onPaid();
     },
     onError: (error) => {
       console.error("Payment error:", error);
-      toast.error("Payment failed. Please try again.");
+      toast.error(error instanceof Error ? error.message : "Payment failed. Please try again.");
+    }
+  });
+
+  const commitmentMutation = useMutation({
+    mutationFn: (amount: number) => setCommittedAmount(membership!.id, amount),
+    onSuccess: () => {
+      toast.success("Commitment updated");
+      queryClient.invalidateQueries({ queryKey: ['membership', thriftSystemId] });
+      queryClient.invalidateQueries({ queryKey: ['commitments', thriftSystemId] });
+    },
+    onError: (error) => {
+      console.error("Error updating commitment:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update commitment");
     }
   });
 
   const handlePaymentClick = (contribution: any) => {
     setSelectedContribution(contribution);
-    setPaymentAmount(contribution.amount.toString());
+    setPaymentAmount(getContributionBalance(contribution).remaining.toString());
     setShowPaymentDialog(true);
   };
 
@@ -201,21 +255,48 @@ const ContributionTracker = ({ thriftSystemId }: ContributionTrackerProps) => {
     );
   }
 
-  // Calculate contribution progress
+  // Calculate contribution progress from what has actually been allocated
   const totalContributed = contributions?.reduce(
-    (sum, contrib) => sum + (contrib.status === 'completed' ? contrib.amount : 0),
+    (sum, contrib) => sum + getContributionBalance(contrib).principalPaid,
     0
   ) || 0;
 
-  const totalExpected = (thriftSystem?.contribution_amount || 0) * 
-    (contributions?.filter(c => c.memberships?.user_id).length || 0);
+  // Every active hand pays its commitment once per period
+  const totalExpected = thriftSystem ? getExpectedCycleTotal(thriftSystem, commitments) : 0;
 
   const progressPercentage = totalExpected > 0 
     ? Math.min(100, (totalContributed / totalExpected) * 100) 
     : 0;
 
   // Find the next due contribution for current user
-  const nextDueContribution = userContributions?.find(c => c.status === 'pending');
+  // Contributions still unpaid when a savings group matures are written off
+  const unpaidContributions = userContributions?.filter(
+    c => c.status !== 'completed' && c.status !== 'written_off'
+  ) || [];
+  const nextDueContribution = unpaidContributions[0];
+  const nextDueBalance = nextDueContribution && getContributionBalance(nextDueContribution);
+
+  // Each hand owes its own contribution every period
+  const slotCount = membership?.slot_count || 1;
+  const nextDueBySlot = Array.from({ length: slotCount }, (_, i) => i + 1).map((slot) => ({
+    slot,
+    contribution: unpaidContributions.find((c) => c.slot_number === slot),
+  }));
+
+  // What the user owes across every unpaid contribution
+  const outstanding = unpaidContributions.reduce(
+    (totals, c) => {
+      const balance = getContributionBalance(c);
+      return {
+        principal: totals.principal + balance.principal - balance.principalPaid,
+        penalties: totals.penalties + balance.penalties - balance.penaltiesPaid,
+      };
+    },
+    { principal: 0, penalties: 0 }
+  );
+
+  const latePolicyDescription = thriftSystem && describeLatePolicy(thriftSystem);
+  const selectedBalance = selectedContribution && getContributionBalance(selectedContribution);
   
   return (
     <Card>
@@ -240,17 +321,85 @@ const ContributionTracker = ({ thriftSystemId }: ContributionTrackerProps) => {
             </div>
           </div>
           
+          {thriftSystem?.contribution_mode === 'variable' && membership && (
+            <div className="flex justify-between items-center text-sm">
+              <Label htmlFor="committed-amount">
+                Your commitment{slotCount > 1 && " per hand"} each period
+              </Label>
+              {thriftSystem.status !== 'active' && thriftSystem.status !== 'completed' ? (
+                <Input
+                  id="committed-amount"
+                  key={membership.committed_amount ?? 'default'}
+                  type="number"
+                  min="1"
+                  className="w-32"
+                  defaultValue={getCommittedAmount(thriftSystem, membership)}
+                  disabled={commitmentMutation.isPending}
+                  onBlur={(e) => {
+                    const amount = Number(e.target.value);
+                    if (amount > 0 && amount !== getCommittedAmount(thriftSystem, membership)) {
+                      commitmentMutation.mutate(amount);
+                    }
+                  }}
+                />
+              ) : (
+                <span className="font-medium">₦{getCommittedAmount(thriftSystem, membership)}</span>
+              )}
+            </div>
+          )}
+
+          {outstanding.penalties > 0 && (
+            <div className="rounded-lg border border-red-200 p-4 text-sm">
+              <h3 className="font-medium mb-2">Your Outstanding Balance</h3>
+              <div className="flex justify-between mb-1">
+                <span>Contributions owed</span>
+                <span>₦{outstanding.principal}</span>
+              </div>
+              <div className="flex justify-between mb-1 text-red-600">
+                <span>Late penalties</span>
+                <span>₦{outstanding.penalties.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between font-medium">
+                <span>Total</span>
+                <span>₦{(outstanding.principal + outstanding.penalties).toFixed(2)}</span>
+              </div>
+            </div>
+          )}
+
           {nextDueContribution && (
             <div className="bg-muted rounded-lg p-4">
-              <h3 className="font-medium mb-2">Your Next Contribution</h3>
+              <h3 className="font-medium mb-2">
+                Your Next Contribution{slotCount > 1 && ` (Hand ${nextDueContribution.slot_number})`}
+              </h3>
               <div className="flex justify-between text-sm mb-3">
                 <span>Due Date</span>
                 <span>{new Date(nextDueContribution.due_date).toLocaleDateString()}</span>
               </div>
-              <div className="flex justify-between text-sm mb-4">
+              <div className="flex justify-between text-sm mb-3">
                 <span>Amount</span>
-                <span>₦{nextDueContribution.amount}</span>
+                <span>₦{nextDueBalance.principal}</span>
               </div>
+              {nextDueBalance.penalties > 0 && (
+                <div className="flex justify-between text-sm mb-3 text-red-600">
+                  <span>Late penalties ({nextDueBalance.penaltyDays} day{nextDueBalance.penaltyDays === 1 ? "" : "s"})</span>
+                  <span>₦{nextDueBalance.penalties}</span>
+                </div>
+              )}
+              {nextDueBalance.paid > 0 && (
+                <div className="flex justify-between text-sm mb-3 text-green-700">
+                  <span>Paid so far</span>
+                  <span>-₦{nextDueBalance.paid}</span>
+                </div>
+              )}
+              {(nextDueBalance.penalties > 0 || nextDueBalance.paid > 0) && (
+                <div className="flex justify-between text-sm font-medium mb-3">
+                  <span>Remaining</span>
+                  <span>₦{nextDueBalance.remaining}</span>
+                </div>
+              )}
+              {latePolicyDescription && (
+                <p className="text-xs text-muted-foreground mb-4">{latePolicyDescription}</p>
+              )}
               <Button 
                 className="w-full" 
                 onClick={() => handlePaymentClick(nextDueContribution)}
@@ -260,6 +409,30 @@ const ContributionTracker = ({ thriftSystemId }: ContributionTrackerProps) => {
             </div>
           )}
           
+          {slotCount > 1 && (
+            <div className="space-y-2">
+              <h3 className="font-medium">Your Hands</h3>
+              {nextDueBySlot.map(({ slot, contribution }) => (
+                <div key={slot} className="flex justify-between items-center text-sm p-2 border rounded-md">
+                  <span>Hand {slot}</span>
+                  {contribution ? (
+                    <div className="flex items-center gap-2">
+                      <span className="text-muted-foreground">
+                        Due {new Date(contribution.due_date).toLocaleDateString()}
+                      </span>
+                      <span>₦{getContributionBalance(contribution).remaining}</span>
+                      <Button variant="outline" size="sm" onClick={() => handlePaymentClick(contribution)}>
+                        Pay
+                      </Button>
+                    </div>
+                  ) : (
+                    <span className="text-green-700">All paid</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
           <div className="space-y-2">
             <h3 className="font-medium">Recent Contributions</h3>
             {contributions && contributions.length > 0 ? (
@@ -269,29 +442,60 @@ const ContributionTracker = ({ thriftSystemId }: ContributionTrackerProps) => {
                     <div className="flex items-center gap-2">
                       {contribution.status === 'completed' ? (
                         <CheckCircle2 className="h-4 w-4 text-green-500" />
+                      ) : contribution.status === 'overdue' ? (
+                        <AlertCircle className="h-4 w-4 text-red-500" />
                       ) : (
                         <AlertCircle className="h-4 w-4 text-yellow-500" />
                       )}
-                      <span>{contribution.memberships?.profiles?.full_name}</span>
+                      <span>
+                        {formatSlotName(
+                          contribution.memberships?.profiles?.full_name || "",
+                          contribution.slot_number,
+                          contribution.memberships?.slot_count || 1
+                        )}
+                      </span>
                     </div>
                     <div className="flex items-center gap-2">
-                      <span>₦{contribution.amount}</span>
+                      <span>
+                        {contribution.status === 'partially_paid'
+                          ? `₦${getContributionBalance(contribution).paid} of ₦${getContributionBalance(contribution).total}`
+                          : `₦${contribution.amount}`}
+                      </span>
+                      {contribution.status !== 'completed' &&
+                        getContributionBalance(contribution).penalties > 0 && (
+                        <span className="text-xs text-red-600">
+                          +₦{getContributionBalance(contribution).penalties} late
+                        </span>
+                      )}
                       <span className={`px-2 py-1 rounded-full text-xs ${
                         contribution.status === 'completed' 
                           ? 'bg-green-100 text-green-800'
-                          : 'bg-yellow-100 text-yellow-800'
+                          : contribution.status === 'overdue'
+                            ? 'bg-red-100 text-red-800'
+                            : contribution.status === 'partially_paid'
+                              ? 'bg-blue-100 text-blue-800'
+                              : 'bg-yellow-100 text-yellow-800'
                       }`}>
-                        {contribution.status}
+                        {contribution.status.replace('_', ' ')}
                       </span>
-                      {contribution.status === 'pending' && 
-                        contribution.memberships?.user_id === currentUser?.id && (
-                        <Button 
-                          variant="outline" 
-                          size="sm"
-                          onClick={() => handlePaymentClick(contribution)}
-                        >
-                          Pay
-                        </Button>
+                      {contribution.status !== 'completed' && contribution.status !== 'written_off' && (
+                        contribution.memberships?.user_id === currentUser?.id ? (
+                          <Button 
+                            variant="outline" 
+                            size="sm"
+                            onClick={() => handlePaymentClick(contribution)}
+                          >
+                            Pay
+                          </Button>
+                        ) : isAdmin && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handlePaymentClick(contribution)}
+                          >
+                            Record cash
+                          </Button>
+                        )
                       )}
                     </div>
                   </div>
@@ -309,9 +513,11 @@ const ContributionTracker = ({ thriftSystemId }: ContributionTrackerProps) => {
       <Dialog open={showPaymentDialog} onOpenChange={setShowPaymentDialog}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Make Payment</DialogTitle>
+            <DialogTitle>{isOwnContribution ? "Make Payment" : "Record Cash Payment"}</DialogTitle>
             <DialogDescription>
-              Process your contribution payment for this cycle.
+              {isOwnContribution
+                ? "Pay all or part of this contribution. Late penalties are settled first."
+                : "Record cash you received from this member. Late penalties are settled first."}
             </DialogDescription>
           </DialogHeader>
           
@@ -323,6 +529,31 @@ const ContributionTracker = ({ thriftSystemId }: ContributionTrackerProps) => {
               </span>
             </div>
             
+            {selectedBalance && (selectedBalance.penalties > 0 || selectedBalance.paid > 0) && (
+              <div className="space-y-1 text-sm">
+                <div className="flex items-center justify-between">
+                  <span>Contribution</span>
+                  <span>₦{selectedBalance.principal}</span>
+                </div>
+                {selectedContribution.contribution_penalties?.map((penalty) => (
+                  <div key={penalty.id} className="flex items-center justify-between text-red-600">
+                    <span>{penalty.reason} ({new Date(penalty.penalty_date).toLocaleDateString()})</span>
+                    <span>₦{penalty.amount}</span>
+                  </div>
+                ))}
+                {selectedBalance.paid > 0 && (
+                  <div className="flex items-center justify-between text-green-700">
+                    <span>Already paid</span>
+                    <span>-₦{selectedBalance.paid}</span>
+                  </div>
+                )}
+                <div className="flex items-center justify-between font-medium">
+                  <span>Remaining</span>
+                  <span>₦{selectedBalance.remaining}</span>
+                </div>
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="amount">Amount</Label>
               <Input
@@ -343,19 +574,31 @@ const ContributionTracker = ({ thriftSystemId }: ContributionTrackerProps) => {
             >
               Cancel
             </Button>
-            <Button 
-              onClick={handlePaymentSubmit}
-              disabled={paymentMutation.isPending}
-            >
-              {paymentMutation.isPending ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Processing...
-                </>
-              ) : (
-                "Confirm Payment"
-              )}
-            </Button>
+            {isOwnContribution ? (
+              parseFloat(paymentAmount) > 0 && (
+                <PaymentCheckout
+                  amount={parseFloat(paymentAmount)}
+                  currency="NGN"
+                  description="Thrift contribution"
+                  contributionId={selectedContribution.id}
+                  onPaymentSuccess={onPaid}
+                />
+              )
+            ) : (
+              <Button 
+                onClick={handlePaymentSubmit}
+                disabled={paymentMutation.isPending}
+              >
+                {paymentMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Processing...
+                  </>
+                ) : (
+                  "Record Payment"
+                )}
+              </Button>
+            )}
           </DialogFooter>
         </DialogContent>
       </Dialog>
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
@@ -8,6 +8,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { Calendar } from "@/components/ui/calendar"; 
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { CalendarIcon, AlertCircle, Loader2 } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -15,9 +17,17 @@ import * as z from "zod";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
 import { useNavigate } from "react-router-dom";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { cn } from "@/lib/utils";
 import { format } from "date-fns";
+import {
+  ThriftConfiguration,
+  configurationFromSystem,
+  fetchThriftTemplates,
+  saveThriftTemplate,
+} from "@/lib/thrift-templates";
+import { countSavingsPeriods } from "@/lib/rotation-schedule";
+import { THRIFT_TYPE_LABELS, getSavingsCycleMonths, splitSavingsGoal } from "@/lib/target-savings";
 
 // Define types
 interface AdminTier {
@@ -28,6 +38,7 @@ interface AdminTier {
 
 const formSchema = z.object({
   name: z.string().min(3, "Name must be at least 3 characters"),
+  thriftType: z.string(),
   contributionAmount: z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, {
     message: "Must be a valid amount greater than 0",
   }),
@@ -44,6 +55,58 @@ const formSchema = z.object({
     required_error: "Please select a start date",
   }),
   description: z.string().optional(),
+  isEscrowEnabled: z.boolean(),
+  lateGraceDays: z.string().refine((val) => !isNaN(Number(val)) && Number(val) >= 0, {
+    message: "Grace period cannot be negative",
+  }),
+  lateFeeType: z.string(),
+  lateFeeAmount: z.string().refine((val) => !isNaN(Number(val)) && Number(val) >= 0, {
+    message: "Late fee cannot be negative",
+  }),
+  lateFeeCap: z.string().optional(),
+  goalAmount: z.string().optional(),
+  maturityDate: z.date().optional(),
+  bonusPoolEnabled: z.boolean(),
+}).superRefine((values, ctx) => {
+  if (values.thriftType !== "target_savings") return;
+  const goal = Number((values.goalAmount || "").replace(/,/g, ""));
+  if (!(goal > 0)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["goalAmount"], message: "Must be a valid amount greater than 0" });
+  }
+  if (!values.maturityDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["maturityDate"], message: "Please select a maturity date" });
+  } else if (values.cycleStartDate && values.maturityDate <= values.cycleStartDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["maturityDate"], message: "Must be after the start date" });
+  }
+});
+
+const BLANK_SOURCE = "blank";
+
+// Form values for a saved or cloned configuration
+const configurationToFormValues = (configuration: ThriftConfiguration) => ({
+  contributionAmount: String(configuration.contribution_amount).replace(/\B(?=(\d{3})+(?!\d))/g, ","),
+  payoutSchedule: configuration.payout_schedule,
+  maxMembers: String(configuration.max_members),
+  cycleDuration: String(configuration.cycle_duration),
+  description: configuration.description || "",
+  isEscrowEnabled: configuration.is_escrow_enabled,
+  lateGraceDays: String(configuration.late_grace_days),
+  lateFeeType: configuration.late_fee_type,
+  lateFeeAmount: String(configuration.late_fee_amount),
+  lateFeeCap: configuration.late_fee_cap == null ? "" : String(configuration.late_fee_cap),
+});
+
+const formValuesToConfiguration = (values: z.infer<typeof formSchema>): ThriftConfiguration => ({
+  description: values.description || null,
+  contribution_amount: Number(values.contributionAmount.replace(/,/g, "")),
+  payout_schedule: values.payoutSchedule,
+  cycle_duration: Number(values.cycleDuration),
+  max_members: Number(values.maxMembers),
+  is_escrow_enabled: values.isEscrowEnabled,
+  late_grace_days: Number(values.lateGraceDays),
+  late_fee_type: values.lateFeeType,
+  late_fee_amount: Number(values.lateFeeAmount),
+  late_fee_cap: values.lateFeeCap ? Number(values.lateFeeCap) : null,
 });
 
 interface CreateThriftSystemProps {
@@ -53,18 +116,113 @@ interface CreateThriftSystemProps {
 
 const CreateThriftSystem = ({ open, onClose }: CreateThriftSystemProps) => {
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  // "blank", "template:<id>" or "system:<id>"
+  const [source, setSource] = useState(BLANK_SOURCE);
+  const [copyMembers, setCopyMembers] = useState(false);
+  const [templateName, setTemplateName] = useState("");
   
   // Form setup
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       name: "",
+      thriftType: "rotating",
       contributionAmount: "",
       payoutSchedule: "",
       maxMembers: "",
       cycleDuration: "",
       description: "",
+      isEscrowEnabled: false,
+      lateGraceDays: "0",
+      lateFeeType: "none",
+      lateFeeAmount: "0",
+      lateFeeCap: "",
+      goalAmount: "",
+      bonusPoolEnabled: false,
+    },
+  });
+
+  // Target-savings groups derive the instalment and cycle length from the
+  // goal and maturity date
+  const thriftType = form.watch("thriftType");
+  const [goalAmount, maturityDate, payoutSchedule, cycleStartDate] = form.watch([
+    "goalAmount", "maturityDate", "payoutSchedule", "cycleStartDate",
+  ]);
+  const savingsPeriods = thriftType === "target_savings" && maturityDate && cycleStartDate && payoutSchedule
+    ? countSavingsPeriods(cycleStartDate, maturityDate, payoutSchedule)
+    : 0;
+  const savingsGoal = Number((goalAmount || "").replace(/,/g, ""));
+  const savingsInstalment = savingsPeriods > 0 && savingsGoal > 0 ? splitSavingsGoal(savingsGoal, savingsPeriods)[0] : 0;
+
+  useEffect(() => {
+    if (savingsInstalment > 0) {
+      form.setValue("contributionAmount", String(savingsInstalment));
+      form.setValue("cycleDuration", String(getSavingsCycleMonths(cycleStartDate, maturityDate)));
+    }
+  }, [savingsInstalment, cycleStartDate, maturityDate, form]);
+
+  const { data: templates = [] } = useQuery({
+    queryKey: ['thriftTemplates'],
+    queryFn: fetchThriftTemplates,
+    enabled: open,
+  });
+
+  // The admin's own systems, any of which can be cloned
+  const { data: ownSystems = [] } = useQuery({
+    queryKey: ['cloneableThriftSystems'],
+    queryFn: async () => {
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError) throw userError;
+
+      const { data, error } = await supabase
+        .from('thrift_systems')
+        .select('id, name, description, contribution_amount, payout_schedule, cycle_duration, max_members, is_escrow_enabled, late_grace_days, late_fee_type, late_fee_amount, late_fee_cap')
+        .eq('admin_id', user.id)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: open,
+  });
+
+  const clonedSystemId = source.startsWith("system:") ? source.slice("system:".length) : null;
+
+  const handleSourceChange = (value: string) => {
+    setSource(value);
+    setCopyMembers(false);
+
+    if (value.startsWith("template:")) {
+      const template = templates.find((t) => `template:${t.id}` === value);
+      if (template) form.reset({ ...form.getValues(), ...configurationToFormValues(template) });
+    } else if (value.startsWith("system:")) {
+      const system = ownSystems.find((s) => `system:${s.id}` === value);
+      if (system) {
+        form.reset({
+          ...form.getValues(),
+          ...configurationToFormValues(configurationFromSystem(system)),
+          name: `${system.name} (copy)`,
+        });
+      }
+    }
+  };
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async () => {
+      const valid = await form.trigger([
+        "contributionAmount", "payoutSchedule", "maxMembers", "cycleDuration", "lateGraceDays", "lateFeeAmount",
+      ]);
+      if (!valid) throw new Error("Fix the highlighted fields before saving a template");
+      return saveThriftTemplate(templateName, formValuesToConfiguration(form.getValues()));
     },
+    onSuccess: (template) => {
+      toast.success(`Template "${template.name}" saved`);
+      setTemplateName("");
+      queryClient.invalidateQueries({ queryKey: ['thriftTemplates'] });
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to save template");
+    }
   });
   
   // Format currency input
@@ -110,23 +268,32 @@ const CreateThriftSystem = ({ open, onClose }: CreateThriftSystemProps) => {
         throw new Error("You've reached your maximum allowed thrift systems. Please upgrade your plan to create more.");
       }
       
-      const { data: userData, error: userError } = await supabase.auth.getUser();
-      if (userError) throw userError;
-      
-      // Call the stored procedure that performs the transaction
-      const { data, error } = await supabase.rpc('create_thrift_system_with_membership', {
+      // One procedure creates the system with every setting and copies any
+      // members over, so a failure leaves nothing behind to retry around
+      const configuration = formValuesToConfiguration(values);
+      const isTargetSavings = values.thriftType === "target_savings";
+      const { data, error } = await supabase.rpc('create_configured_thrift_system', {
         p_name: values.name,
-        p_contribution_amount: Number(values.contributionAmount.replace(/,/g, "")),
-        p_payout_schedule: values.payoutSchedule,
-        p_max_members: Number(values.maxMembers),
-        p_cycle_duration: Number(values.cycleDuration),
+        p_contribution_amount: configuration.contribution_amount,
+        p_payout_schedule: configuration.payout_schedule,
+        p_max_members: configuration.max_members,
+        p_cycle_duration: configuration.cycle_duration,
         p_cycle_start_date: values.cycleStartDate.toISOString(),
-        p_description: values.description || null,
-        p_admin_id: userData.user.id
+        p_description: configuration.description || undefined,
+        p_is_escrow_enabled: configuration.is_escrow_enabled,
+        p_late_grace_days: configuration.late_grace_days,
+        p_late_fee_type: configuration.late_fee_type,
+        p_late_fee_amount: configuration.late_fee_amount,
+        p_late_fee_cap: configuration.late_fee_cap ?? undefined,
+        p_thrift_type: values.thriftType,
+        p_goal_amount: isTargetSavings ? Number(values.goalAmount.replace(/,/g, "")) : undefined,
+        p_maturity_date: isTargetSavings ? values.maturityDate.toISOString() : undefined,
+        p_bonus_pool_enabled: isTargetSavings && values.bonusPoolEnabled,
+        p_source_thrift_system_id: clonedSystemId && copyMembers ? clonedSystemId : undefined,
       });
       
       if (error) throw error;
-      
+
       // Fetch the new system record
       const { data: newSystem, error: fetchError } = await supabase
         .from('thrift_systems')
@@ -163,7 +330,7 @@ const CreateThriftSystem = ({ open, onClose }: CreateThriftSystemProps) => {
 
   return (
     <Dialog open={open} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Create New Thrift System</DialogTitle>
         </DialogHeader>
@@ -192,6 +359,33 @@ const CreateThriftSystem = ({ open, onClose }: CreateThriftSystemProps) => {
         ) : (
           <Form {...form}>
             <form onSubmit={form.handleSubmit(handleFormSubmit)} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="create-source">Start from</Label>
+                <Select value={source} onValueChange={handleSourceChange}>
+                  <SelectTrigger id="create-source">
+                    <SelectValue placeholder="Start from" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={BLANK_SOURCE}>Blank form</SelectItem>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={`template:${template.id}`}>
+                        Template: {template.name}
+                      </SelectItem>
+                    ))}
+                    {ownSystems.map((system) => (
+                      <SelectItem key={system.id} value={`system:${system.id}`}>
+                        Copy of {system.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {clonedSystemId && (
+                  <div className="flex items-center space-x-2">
+                    <Switch id="copy-members" checked={copyMembers} onCheckedChange={setCopyMembers} />
+                    <Label htmlFor="copy-members">Invite its current members</Label>
+                  </div>
+                )}
+              </div>
               <FormField
                 control={form.control}
                 name="name"
@@ -208,45 +402,151 @@ const CreateThriftSystem = ({ open, onClose }: CreateThriftSystemProps) => {
               />
               <FormField
                 control={form.control}
-                name="contributionAmount"
+                name="thriftType"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Contribution Amount (₦)</FormLabel>
-                    <FormControl>
-                      <div className="relative">
-                        <span className="absolute left-3 top-1/2 -translate-y-1/2">₦</span>
-                        <Input 
-                          type="text" 
-                          className="pl-8" 
-                          placeholder="0" 
-                          value={field.value}
-                          onChange={(e) => {
-                            field.onChange(e);
-                            handleContributionChange(e);
-                          }} 
-                        />
-                      </div>
-                    </FormControl>
-                    <FormDescription>Amount each member contributes per cycle</FormDescription>
+                    <FormLabel>Group Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select group type" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(THRIFT_TYPE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                     <FormMessage />
                   </FormItem>
                 )}
               />
-              <div className="grid grid-cols-2 gap-4">
+              {thriftType === "target_savings" ? (
+                <>
+                  <FormField
+                    control={form.control}
+                    name="goalAmount"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Savings Goal (₦)</FormLabel>
+                        <FormControl>
+                          <div className="relative">
+                            <span className="absolute left-3 top-1/2 -translate-y-1/2">₦</span>
+                            <Input
+                              type="text"
+                              className="pl-8"
+                              placeholder="0"
+                              value={field.value}
+                              onChange={(e) => field.onChange(formatCurrency(e.target.value))}
+                            />
+                          </div>
+                        </FormControl>
+                        <FormDescription>
+                          {savingsInstalment > 0
+                            ? `Each member saves ₦${savingsInstalment} per period over ${savingsPeriods} periods`
+                            : "What each member saves by the maturity date"}
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="maturityDate"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-col">
+                        <FormLabel>Maturity Date</FormLabel>
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <FormControl>
+                              <Button
+                                variant={"outline"}
+                                className={cn("w-full pl-3 text-left font-normal", !field.value && "text-muted-foreground")}
+                              >
+                                {field.value ? format(field.value, "PPP") : <span>Pick a date</span>}
+                                <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                              </Button>
+                            </FormControl>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-auto p-0" align="start">
+                            <Calendar
+                              mode="single"
+                              selected={field.value}
+                              onSelect={field.onChange}
+                              disabled={(date) => date < new Date()}
+                              initialFocus
+                            />
+                          </PopoverContent>
+                        </Popover>
+                        <FormDescription>When everyone's savings are paid out</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="bonusPoolEnabled"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between">
+                        <div>
+                          <FormLabel>Bonus Pool</FormLabel>
+                          <FormDescription>Share late fees among members who reach the goal</FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                </>
+              ) : (
                 <FormField
                   control={form.control}
-                  name="cycleDuration"
+                  name="contributionAmount"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Cycle Duration (months)</FormLabel>
+                      <FormLabel>Contribution Amount (₦)</FormLabel>
                       <FormControl>
-                        <Input type="number" placeholder="Enter duration" {...field} />
+                        <div className="relative">
+                          <span className="absolute left-3 top-1/2 -translate-y-1/2">₦</span>
+                          <Input 
+                            type="text" 
+                            className="pl-8" 
+                            placeholder="0" 
+                            value={field.value}
+                            onChange={(e) => {
+                              field.onChange(e);
+                              handleContributionChange(e);
+                            }} 
+                          />
+                        </div>
                       </FormControl>
-                      <FormDescription>Length of one complete cycle</FormDescription>
+                      <FormDescription>Amount each member contributes per cycle</FormDescription>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                {thriftType !== "target_savings" && (
+                  <FormField
+                    control={form.control}
+                    name="cycleDuration"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Cycle Duration (months)</FormLabel>
+                        <FormControl>
+                          <Input type="number" placeholder="Enter duration" {...field} />
+                        </FormControl>
+                        <FormDescription>Length of one complete cycle</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
                 <FormField
                   control={form.control}
                   name="maxMembers"
@@ -269,7 +569,7 @@ const CreateThriftSystem = ({ open, onClose }: CreateThriftSystemProps) => {
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Payout Schedule</FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <Select onValueChange={field.onChange} value={field.value}>
                         <FormControl>
                           <SelectTrigger>
                             <SelectValue placeholder="Select schedule" />
@@ -281,7 +581,9 @@ const CreateThriftSystem = ({ open, onClose }: CreateThriftSystemProps) => {
                           <SelectItem value="monthly">Monthly</SelectItem>
                         </SelectContent>
                       </Select>
-                      <FormDescription>How often payouts occur</FormDescription>
+                      <FormDescription>
+                        {thriftType === "target_savings" ? "How often members save" : "How often payouts occur"}
+                      </FormDescription>
                       <FormMessage />
                     </FormItem>
                   )}
@@ -334,6 +636,105 @@ const CreateThriftSystem = ({ open, onClose }: CreateThriftSystemProps) => {
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="isEscrowEnabled"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between">
+                    <div>
+                      <FormLabel>Escrow</FormLabel>
+                      <FormDescription>Hold contributions until each payout is funded</FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="lateGraceDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Grace Period (days)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="lateFeeType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Late Fee</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select late fee" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">No late fee</SelectItem>
+                          <SelectItem value="flat">Flat amount per day</SelectItem>
+                          <SelectItem value="percentage">Percentage per day</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {form.watch("lateFeeType") !== "none" && (
+                  <>
+                    <FormField
+                      control={form.control}
+                      name="lateFeeAmount"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>
+                            {form.watch("lateFeeType") === "flat" ? "Fee per Day (₦)" : "Fee per Day (%)"}
+                          </FormLabel>
+                          <FormControl>
+                            <Input type="number" min={0} {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="lateFeeCap"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Cap per Contribution (₦)</FormLabel>
+                          <FormControl>
+                            <Input type="number" min={0} placeholder="No cap" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </>
+                )}
+              </div>
+              <div className="flex gap-2 border-t pt-4">
+                <Input
+                  placeholder="Template name, e.g. Weekly ₦10k x 12"
+                  value={templateName}
+                  onChange={(e) => setTemplateName(e.target.value)}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => saveTemplateMutation.mutate()}
+                  disabled={!templateName.trim() || saveTemplateMutation.isPending}
+                >
+                  Save as Template
+                </Button>
+              </div>
               <div className="flex justify-end space-x-2">
                 <Button variant="outline" onClick={onClose} disabled={createThriftSystemMutation.isLoading}>Cancel</Button>
                 <Button type="submit" disabled={createThriftSystemMutation.isLoading || hasReachedLimit}>
@@ -0,0 +1,273 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { closeThriftCycle, fetchCycleSettlementReport, startNextCycle } from "@/lib/cycles";
+
+interface CycleCloseDialogProps {
+  open: boolean;
+  onClose: () => void;
+  thriftSystemId: string;
+  thriftType?: string;
+  // `completed` once the cycle has been closed
+  status: string;
+  onCycleClosed: () => void;
+}
+
+// Final settlement for a cycle, closing it, and rolling over into the next one
+const CycleCloseDialog = ({ open, onClose, thriftSystemId, thriftType, status, onCycleClosed }: CycleCloseDialogProps) => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [nextStartDate, setNextStartDate] = useState("");
+  const [nextMaturityDate, setNextMaturityDate] = useState("");
+  const isTargetSavings = thriftType === "target_savings";
+  const isClosed = status === "completed";
+
+  const { data: report, isLoading, error } = useQuery({
+    queryKey: ['cycleSettlementReport', thriftSystemId],
+    queryFn: () => fetchCycleSettlementReport(thriftSystemId),
+    enabled: open,
+    retry: false,
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: () => closeThriftCycle(thriftSystemId),
+    onSuccess: () => {
+      toast.success("Cycle closed. Members have been sent the final settlement.");
+      queryClient.invalidateQueries({ queryKey: ['cycleSettlementReport', thriftSystemId] });
+      onCycleClosed();
+    },
+    onError: (error) => {
+      console.error("Error closing cycle:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to close the cycle");
+    }
+  });
+
+  const nextCycleMutation = useMutation({
+    mutationFn: () =>
+      startNextCycle(
+        thriftSystemId,
+        new Date(nextStartDate),
+        isTargetSavings ? new Date(nextMaturityDate) : undefined,
+      ),
+    onSuccess: (nextId) => {
+      toast.success("Next cycle created. Members have been invited to opt in.");
+      onClose();
+      navigate(`/thrift-system/${nextId}`);
+    },
+    onError: (error) => {
+      console.error("Error starting next cycle:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to start the next cycle");
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {report ? `Cycle ${report.cycle_number} Settlement` : "Cycle Settlement"}
+          </DialogTitle>
+          <DialogDescription>
+            A cycle can close once every contribution is paid and every payout has completed. The next
+            cycle keeps these settings and invites the current members, who choose whether to take part.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error instanceof Error ? error.message : "Failed to load settlement report"}</AlertDescription>
+          </Alert>
+        ) : report && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+              <div className="bg-muted rounded-lg p-3">
+                <p className="text-xs text-muted-foreground">Contributions collected</p>
+                <p className="text-lg font-semibold">₦{report.contributions_collected}</p>
+              </div>
+              <div className="bg-muted rounded-lg p-3">
+                <p className="text-xs text-muted-foreground">Penalties collected</p>
+                <p className="text-lg font-semibold">₦{report.penalties_collected}</p>
+              </div>
+              <div className="bg-muted rounded-lg p-3">
+                <p className="text-xs text-muted-foreground">Paid out</p>
+                <p className="text-lg font-semibold">₦{report.paid_out}</p>
+              </div>
+              <div className="bg-muted rounded-lg p-3">
+                <p className="text-xs text-muted-foreground">Dividends</p>
+                <p className="text-lg font-semibold">₦{report.dividends}</p>
+              </div>
+              <div className="bg-muted rounded-lg p-3">
+                <p className="text-xs text-muted-foreground">Organizer fees</p>
+                <p className="text-lg font-semibold">₦{report.organizer_fees}</p>
+              </div>
+              <div className="bg-muted rounded-lg p-3">
+                <p className="text-xs text-muted-foreground">Left in the group</p>
+                <p className="text-lg font-semibold">₦{report.remaining_balance}</p>
+              </div>
+            </div>
+
+            {report.balance_distribution && report.balance_distribution.length > 0 ? (
+              <div className="space-y-1 text-sm">
+                <h3 className="font-medium">Shared out to wallets</h3>
+                {report.balance_distribution.map((share) => (
+                  <div key={share.member_id} className="flex justify-between">
+                    <span>{share.member_name || "Unknown Member"}</span>
+                    <span>₦{share.amount}</span>
+                  </div>
+                ))}
+              </div>
+            ) : !report.balance_distribution && report.remaining_balance > 0 && (
+              <p className="text-sm text-muted-foreground">
+                What is left in the group is shared out to members' wallets, by what each paid in, when the cycle closes.
+              </p>
+            )}
+
+            {report.settled ? (
+              <Badge variant="success">
+                All {report.positions} payouts completed and every contribution paid
+              </Badge>
+            ) : (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  {report.positions === 0
+                    ? "No schedule has been generated for this cycle yet."
+                    : `${report.unpaid_contributions.length} contributions are unpaid and ${report.unsettled_payouts.length} payouts have not completed.`}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {report.unpaid_contributions.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Unpaid contributions</h4>
+                {report.unpaid_contributions.map((contribution) => (
+                  <div key={contribution.contribution_id} className="flex justify-between text-sm p-2 border rounded-md">
+                    <span>
+                      {contribution.member_name || "Unknown Member"}, period {contribution.period_number} (due{" "}
+                      {new Date(contribution.due_date).toLocaleDateString()})
+                    </span>
+                    <span className="text-red-600">₦{contribution.owed}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {report.unsettled_payouts.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Payouts not completed</h4>
+                {report.unsettled_payouts.map((payout) => (
+                  <div key={payout.payout_id} className="flex justify-between text-sm p-2 border rounded-md">
+                    <span>
+                      Position {payout.position}: {payout.member_name || "Unknown Member"} (₦{payout.amount})
+                    </span>
+                    <span className="text-muted-foreground">{payout.status}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {report.members.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Member</TableHead>
+                    <TableHead className="text-right">Paid in</TableHead>
+                    <TableHead className="text-right">Received</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.members.map((member) => (
+                    <TableRow key={member.membership_id}>
+                      <TableCell>
+                        {member.member_name || "Unknown Member"}
+                        {member.status === "exited" && " (exited)"}
+                      </TableCell>
+                      <TableCell className="text-right">₦{member.paid}</TableCell>
+                      <TableCell className="text-right">₦{member.received}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {isClosed && (
+              <div className="space-y-2 border-t pt-4">
+                <Label htmlFor="next-cycle-start">Next cycle starts</Label>
+                <Input
+                  id="next-cycle-start"
+                  type="date"
+                  value={nextStartDate}
+                  onChange={(e) => setNextStartDate(e.target.value)}
+                />
+                {isTargetSavings && (
+                  <>
+                    <Label htmlFor="next-cycle-maturity">Next cycle matures</Label>
+                    <Input
+                      id="next-cycle-maturity"
+                      type="date"
+                      value={nextMaturityDate}
+                      onChange={(e) => setNextMaturityDate(e.target.value)}
+                    />
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          {isClosed ? (
+            <Button
+              onClick={() => nextCycleMutation.mutate()}
+              disabled={!nextStartDate || (isTargetSavings && !nextMaturityDate) || nextCycleMutation.isPending}
+            >
+              {nextCycleMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Start Next Cycle
+            </Button>
+          ) : (
+            <Button
+              onClick={() => closeMutation.mutate()}
+              disabled={!report?.settled || closeMutation.isPending}
+            >
+              {closeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Close Cycle
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CycleCloseDialog;
@@ -0,0 +1,108 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { respondToCycleRollover } from "@/lib/cycles";
+
+// Invitations to the next cycle of a thrift the user was in, or to a copy
+// of one made by its organizer
+const CycleRolloverInvites = () => {
+  const queryClient = useQueryClient();
+
+  const { data: currentUser } = useQuery({
+    queryKey: ['currentUser'],
+    queryFn: async () => {
+      const { data: { user }, error } = await supabase.auth.getUser();
+      if (error) throw error;
+      return user;
+    },
+  });
+
+  const { data: invites = [] } = useQuery({
+    queryKey: ['cycleRolloverInvites', currentUser?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('memberships')
+        .select(`
+          id,
+          slot_count,
+          thrift_systems (
+            name,
+            cycle_number,
+            cycle_start_date,
+            contribution_amount,
+            payout_schedule
+          )
+        `)
+        .eq('user_id', currentUser!.id)
+        .eq('status', 'invited');
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: Boolean(currentUser),
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: ({ membershipId, join }: { membershipId: string; join: boolean }) =>
+      respondToCycleRollover(membershipId, join),
+    onSuccess: (_, { join }) => {
+      toast.success(join ? "You're in" : "You have opted out");
+      queryClient.invalidateQueries({ queryKey: ['cycleRolloverInvites'] });
+    },
+    onError: (error) => {
+      console.error("Error responding to invitation:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to respond");
+    }
+  });
+
+  if (!invites.length) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <RefreshCw className="h-5 w-5" />
+          Invitations
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {invites.map((invite) => (
+          <div key={invite.id} className="flex justify-between items-center text-sm p-2 border rounded-md">
+            <span>
+              {invite.thrift_systems?.name}
+              {invite.thrift_systems?.cycle_number > 1 && `, cycle ${invite.thrift_systems.cycle_number}`} starting{" "}
+              {invite.thrift_systems?.cycle_start_date
+                ? new Date(invite.thrift_systems.cycle_start_date).toLocaleDateString()
+                : "soon"}{" "}
+              (₦{invite.thrift_systems?.contribution_amount} {invite.thrift_systems?.payout_schedule},{" "}
+              {invite.slot_count} {invite.slot_count === 1 ? "hand" : "hands"})
+            </span>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => respondMutation.mutate({ membershipId: invite.id, join: true })}
+                disabled={respondMutation.isPending}
+              >
+                Join
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => respondMutation.mutate({ membershipId: invite.id, join: false })}
+                disabled={respondMutation.isPending}
+              >
+                Opt Out
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CycleRolloverInvites;
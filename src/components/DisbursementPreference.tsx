@@ -30,6 +30,9 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { BID_PREMIUM_POLICY_LABELS } from "@/constants/payouts";
+import DrawAudit from "@/components/DrawAudit";
+import { fetchLatestDraw } from "@/lib/position-draw";
 
 interface DisbursementPreferenceProps {
   open: boolean;
@@ -44,6 +47,7 @@ export const DisbursementPreference = ({
   thriftSystemId,
   maxMembers,
 }: DisbursementPreferenceProps) => {
+  const [slotNumber, setSlotNumber] = useState<number>(1);
   const [preferredPosition, setPreferredPosition] = useState<number>(1);
   const [bidAmount, setBidAmount] = useState<string>("");
   const [showBidding, setShowBidding] = useState<boolean>(false);
@@ -69,8 +73,11 @@ export const DisbursementPreference = ({
         .select(`
           id,
           preferred_position, 
+          actual_position,
           member_id,
+          slot_number,
           bid_amount,
+          bid_premium,
           status,
           profiles (
             full_name
@@ -81,39 +88,74 @@ export const DisbursementPreference = ({
 
       if (prefsError) throw prefsError;
       
-      // Get already assigned positions - since there's no position column in payouts,
-      // we'll use scheduled payouts as assigned positions and map their array index + 1 as position
+      // Get already assigned positions from the generated payout schedule
       const { data: payoutsData, error: payoutsError } = await supabase
         .from('payouts')
         .select(`
           member_id,
+          slot_number,
           status,
+          position,
           profiles (
             full_name
           )
         `)
         .eq('thrift_system_id', thriftSystemId)
-        .order('scheduled_date');
+        .not('position', 'is', null)
+        .order('position');
         
       if (payoutsError) throw payoutsError;
       
-      // Map the payouts data to include a position number based on array index
-      const assignedPositions = payoutsData ? payoutsData.map((payout, index) => ({
-        ...payout,
-        position: index + 1
-      })) : [];
+      const assignedPositions = payoutsData || [];
+
+      const { data: systemData, error: systemError } = await supabase
+        .from('thrift_systems')
+        .select('bidding_closed_at, bid_premium_policy, position_assignment_mode')
+        .eq('id', thriftSystemId)
+        .single();
+
+      if (systemError) throw systemError;
       
       return {
         preferences: prefsData || [],
-        assignedPositions: assignedPositions
+        assignedPositions: assignedPositions,
+        biddingClosedAt: systemData.bidding_closed_at,
+        bidPremiumPolicy: systemData.bid_premium_policy,
+        assignmentMode: systemData.position_assignment_mode
       };
     },
     enabled: open
   });
 
-  // Query to get user's current preference
+  const drawMode = preferences?.assignmentMode === 'draw';
+
+  // Query the latest position draw when the group uses draw mode
+  const { data: latestDraw, isLoading: loadingDraw } = useQuery({
+    queryKey: ['positionDraw', thriftSystemId],
+    queryFn: () => fetchLatestDraw(thriftSystemId),
+    enabled: open && drawMode
+  });
+
+  // Query how many hands (slots) the user holds in this thrift
+  const { data: mySlotCount = 1 } = useQuery({
+    queryKey: ['membershipSlots', thriftSystemId, currentUser?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('memberships')
+        .select('slot_count')
+        .eq('thrift_system_id', thriftSystemId)
+        .eq('user_id', currentUser!.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data?.slot_count || 1;
+    },
+    enabled: !!currentUser && open
+  });
+
+  // Query to get user's current preference for the selected hand
   const { data: userPreference } = useQuery({
-    queryKey: ['userPreference', thriftSystemId, currentUser?.id],
+    queryKey: ['userPreference', thriftSystemId, currentUser?.id, slotNumber],
     queryFn: async () => {
       if (!currentUser) return null;
       
@@ -122,6 +164,7 @@ export const DisbursementPreference = ({
         .select('*')
         .eq('thrift_system_id', thriftSystemId)
         .eq('member_id', currentUser.id)
+        .eq('slot_number', slotNumber)
         .maybeSingle();
         
       if (error) throw error;
@@ -135,13 +178,21 @@ export const DisbursementPreference = ({
     if (userPreference) {
       setPreferredPosition(userPreference.preferred_position);
       setBidAmount(userPreference.bid_amount?.toString() || "");
+    } else if (userPreference === null) {
+      setPreferredPosition(1);
+      setBidAmount("");
     }
   }, [userPreference]);
+
+  const myPreferences = (preferences?.preferences || []).filter(
+    pref => pref.member_id === currentUser?.id
+  );
   
   // Check if position is already taken
   const isPositionTaken = (position: number) => {
     const takenByPreference = preferences?.preferences.some(
-      pref => pref.preferred_position === position && pref.member_id !== currentUser?.id
+      pref => pref.preferred_position === position &&
+        !(pref.member_id === currentUser?.id && pref.slot_number === slotNumber)
     );
     
     const takenByPayout = preferences?.assignedPositions.some(
@@ -168,6 +219,7 @@ export const DisbursementPreference = ({
       return {
         assigned: true,
         memberId: assignedPayout.member_id,
+        slotNumber: assignedPayout.slot_number,
         memberName: assignedPayout.profiles?.full_name,
         status: assignedPayout.status
       };
@@ -181,6 +233,7 @@ export const DisbursementPreference = ({
       return {
         assigned: false,
         memberId: pendingPreference.member_id,
+        slotNumber: pendingPreference.slot_number,
         memberName: pendingPreference.profiles?.full_name,
         bidAmount: pendingPreference.bid_amount,
         status: pendingPreference.status
@@ -193,22 +246,29 @@ export const DisbursementPreference = ({
     };
   };
 
+  const biddingClosed = Boolean(preferences?.biddingClosedAt);
+
   // Mutation to save preference
   const saveMutation = useMutation({
     mutationFn: async () => {
       if (!currentUser) throw new Error("Not authenticated");
 
+      if (biddingClosed) {
+        throw new Error("Bidding has closed for this thrift system.");
+      }
+
       // Check if position is already assigned
       if (isPositionAssigned(preferredPosition)) {
         throw new Error("This position has already been assigned and cannot be selected.");
       }
 
-      // Check if user already has a preference
+      // Check if user already has a preference for this hand
       const { data: existing } = await supabase
         .from('disbursement_preferences')
         .select()
         .eq('member_id', currentUser.id)
         .eq('thrift_system_id', thriftSystemId)
+        .eq('slot_number', slotNumber)
         .maybeSingle();
 
       if (existing) {
@@ -226,6 +286,7 @@ export const DisbursementPreference = ({
           .insert({
             thrift_system_id: thriftSystemId,
             member_id: currentUser.id,
+            slot_number: slotNumber,
             preferred_position: preferredPosition,
             bid_amount: bidAmount ? Number(bidAmount) : 0,
             status: 'pending'
@@ -235,7 +296,7 @@ export const DisbursementPreference = ({
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['preferences', thriftSystemId] });
-      queryClient.invalidateQueries({ queryKey: ['userPreference', thriftSystemId, currentUser?.id] });
+      queryClient.invalidateQueries({ queryKey: ['userPreference', thriftSystemId, currentUser?.id, slotNumber] });
       toast.success("Preference saved successfully!");
       onClose();
     },
@@ -293,7 +354,8 @@ export const DisbursementPreference = ({
                   </TableCell>
                   <TableCell>
                     {status.memberName || "-"}
-                    {status.memberId === currentUser?.id && " (You)"}
+                    {status.memberId === currentUser?.id &&
+                      (mySlotCount > 1 ? ` (You, hand ${status.slotNumber})` : " (You)")}
                   </TableCell>
                   <TableCell>
                     {status.bidAmount ? `$${status.bidAmount}` : "-"}
@@ -319,6 +381,39 @@ export const DisbursementPreference = ({
     );
   }
 
+  if (drawMode) {
+    return (
+      <Dialog open={open} onOpenChange={onClose}>
+        <DialogContent className="max-w-md sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Disbursement Position Draw</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <p className="text-sm text-muted-foreground">
+              This group assigns payout positions by a random draw instead of bidding.
+            </p>
+            {loadingDraw ? (
+              <div className="flex justify-center items-center py-4">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : latestDraw ? (
+              <DrawAudit draw={latestDraw} />
+            ) : (
+              <p className="text-sm">The admin has not started the draw yet.</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
   return (
     <Dialog open={open} onOpenChange={onClose}>
       <DialogContent className="max-w-md sm:max-w-lg">
@@ -349,16 +444,78 @@ export const DisbursementPreference = ({
               <p className="text-sm mb-2">
                 If multiple members want the same position, the highest bid gets priority.
               </p>
-              <p className="text-sm">
+              <p className="text-sm mb-2">
                 Bids are deducted from your payout amount. If another member outbids you,
                 your bid amount is returned.
               </p>
+              {preferences?.bidPremiumPolicy && (
+                <p className="text-sm">
+                  Winning bids in this group: {BID_PREMIUM_POLICY_LABELS[preferences.bidPremiumPolicy].toLowerCase()}.
+                </p>
+              )}
             </div>
           )}
           
           {showPositions && renderAvailablePositions()}
+
+          {biddingClosed && (
+            <div className="bg-muted p-4 rounded-lg text-sm">
+              Bidding closed on {new Date(preferences.biddingClosedAt).toLocaleDateString()}.
+              {mySlotCount > 1 ? (
+                <ul className="mt-2 space-y-1">
+                  {Array.from({ length: mySlotCount }, (_, i) => i + 1).map((slot) => {
+                    const pref = myPreferences.find(p => p.slot_number === slot);
+                    return (
+                      <li key={slot}>
+                        Hand {slot}:{" "}
+                        {pref?.actual_position
+                          ? `position ${pref.actual_position}${
+                              pref.bid_premium > 0 ? ` (₦${pref.bid_premium} will be deducted)` : ""
+                            }`
+                          : "assigned when the schedule is generated"}
+                      </li>
+                    );
+                  })}
+                </ul>
+              ) : userPreference?.actual_position
+                ? ` You were assigned position ${userPreference.actual_position}${
+                    userPreference.bid_premium > 0
+                      ? ` (₦${userPreference.bid_premium} will be deducted from your payout)`
+                      : ""
+                  }.`
+                : " Positions will be assigned when the schedule is generated."}
+            </div>
+          )}
           
           <div className="space-y-4 pt-2">
+            {mySlotCount > 1 && (
+              <div className="space-y-2">
+                <Label htmlFor="hand">Hand</Label>
+                <Select
+                  value={slotNumber.toString()}
+                  onValueChange={(value) => setSlotNumber(Number(value))}
+                >
+                  <SelectTrigger id="hand">
+                    <SelectValue placeholder="Select hand" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: mySlotCount }, (_, i) => i + 1).map((slot) => {
+                      const pref = myPreferences.find(p => p.slot_number === slot);
+                      return (
+                        <SelectItem key={slot} value={slot.toString()}>
+                          Hand {slot}
+                          {pref ? ` (Position ${pref.actual_position || pref.preferred_position})` : ""}
+                        </SelectItem>
+                      );
+                    })}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  You hold {mySlotCount} hands in this group. Each hand gets its own payout position.
+                </p>
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="position">Preferred Position (1-{maxMembers})</Label>
               <Select 
@@ -410,7 +567,7 @@ export const DisbursementPreference = ({
           </Button>
           <Button 
             onClick={handleSave} 
-            disabled={saveMutation.isPending || (isPositionAssigned(preferredPosition))}
+            disabled={saveMutation.isPending || biddingClosed || (isPositionAssigned(preferredPosition))}
           >
             {saveMutation.isPending ? (
               <>
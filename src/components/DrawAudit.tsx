@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle2, AlertCircle, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  PositionDraw,
+  DrawVerification,
+  verifyDraw,
+  parseDrawParticipant,
+  fetchDrawConsents,
+  agreeToNewDraw,
+} from "@/lib/position-draw";
+import { countSlotsBy, formatSlotName } from "@/lib/membership-slots";
+
+interface DrawAuditProps {
+  draw: PositionDraw;
+}
+
+// Shows a draw's commitment and lets anyone recompute the order locally
+const DrawAudit = ({ draw }: DrawAuditProps) => {
+  const queryClient = useQueryClient();
+  const [verification, setVerification] = useState<DrawVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+
+  const participants = draw.participants.map(parseDrawParticipant);
+  const slotsByUser = countSlotsBy(participants, (p) => p.userId);
+  const userIds = Array.from(slotsByUser.keys());
+
+  const { data: names } = useQuery({
+    queryKey: ['drawParticipants', draw.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, full_name')
+        .in('id', userIds);
+
+      if (error) throw error;
+      return Object.fromEntries((data || []).map((p) => [p.id, p.full_name]));
+    },
+  });
+
+  const { data: consents } = useQuery({
+    queryKey: ['positionDrawConsents', draw.id],
+    queryFn: () => fetchDrawConsents(draw.id),
+    enabled: !!draw.cancelled_at,
+  });
+
+  const agreeMutation = useMutation({
+    mutationFn: () => agreeToNewDraw(draw.id),
+    onSuccess: () => {
+      toast.success("You agreed to a new draw");
+      queryClient.invalidateQueries({ queryKey: ['positionDrawConsents', draw.id] });
+    },
+    onError: (error) => {
+      console.error("Error agreeing to a new draw:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to agree to a new draw");
+    }
+  });
+
+  const describeParticipant = (participant: string) => {
+    const { userId, slotNumber } = parseDrawParticipant(participant);
+    return formatSlotName(names?.[userId] || userId, slotNumber, slotsByUser.get(userId) || 1);
+  };
+
+  const handleVerify = async () => {
+    setVerifying(true);
+    try {
+      setVerification(await verifyDraw(draw));
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div>
+        <p className="text-xs text-muted-foreground">Seed hash (committed {new Date(draw.committed_at).toLocaleString()})</p>
+        <p className="font-mono break-all">{draw.seed_hash}</p>
+      </div>
+
+      {draw.revealed_at ? (
+        <>
+          <div>
+            <p className="text-xs text-muted-foreground">Seed (revealed {new Date(draw.revealed_at).toLocaleString()})</p>
+            <p className="font-mono break-all">{draw.seed}</p>
+          </div>
+
+          {draw.salt && (
+            <div>
+              <p className="text-xs text-muted-foreground">Server salt (drawn at reveal)</p>
+              <p className="font-mono break-all">{draw.salt}</p>
+            </div>
+          )}
+
+          <ol className="space-y-1">
+            {(draw.result || []).map((participant, index) => (
+              <li key={participant} className="flex justify-between border-b pb-1">
+                <span>{describeParticipant(participant)}</span>
+                <Badge variant="outline">Position {index + 1}</Badge>
+              </li>
+            ))}
+          </ol>
+
+          <Button variant="outline" size="sm" onClick={handleVerify} disabled={verifying}>
+            {verifying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Verify in browser
+          </Button>
+
+          {verification && (
+            <div className="space-y-1">
+              <p className="flex items-center gap-2">
+                {verification.hashMatches ? (
+                  <CheckCircle2 className="h-4 w-4 text-green-500" />
+                ) : (
+                  <AlertCircle className="h-4 w-4 text-red-500" />
+                )}
+                Seed {verification.hashMatches ? "matches" : "does not match"} the committed hash
+              </p>
+              <p className="flex items-center gap-2">
+                {verification.orderMatches ? (
+                  <CheckCircle2 className="h-4 w-4 text-green-500" />
+                ) : (
+                  <AlertCircle className="h-4 w-4 text-red-500" />
+                )}
+                Recomputed order {verification.orderMatches ? "matches" : "differs from"} the published result
+              </p>
+            </div>
+          )}
+        </>
+      ) : draw.cancelled_at ? (
+        <div className="space-y-2">
+          <p className="text-muted-foreground">
+            {draw.cancelled_by ? "Cancelled by the admin" : "Expired"} on{" "}
+            {new Date(draw.cancelled_at).toLocaleString()} before it was revealed: {draw.cancel_reason}
+          </p>
+          {consents && (
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-muted-foreground">
+                {consents.agreed} of the {consents.needed} members needed have agreed to a new draw
+              </p>
+              {!consents.agreed_by_me && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => agreeMutation.mutate()}
+                  disabled={agreeMutation.isPending}
+                >
+                  {agreeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Agree to New Draw
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="text-muted-foreground">
+          The admin has committed to a seed for {draw.participants.length} slots. The order will be
+          published when the seed is revealed, before {new Date(draw.expires_at).toLocaleString()}.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default DrawAudit;
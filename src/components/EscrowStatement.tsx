@@ -0,0 +1,133 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertCircle, Loader2, Lock } from "lucide-react";
+import { ESCROW_ENTRY_LABELS, fetchEscrowStatement, withRunningBalance } from "@/lib/escrow";
+
+interface EscrowStatementProps {
+  thriftSystemId: string;
+}
+
+// Read-only view of the money an escrow-enabled thrift is holding
+const EscrowStatement = ({ thriftSystemId }: EscrowStatementProps) => {
+  const { data: statement, isLoading, error } = useQuery({
+    queryKey: ['escrowStatement', thriftSystemId],
+    queryFn: () => fetchEscrowStatement(thriftSystemId),
+    retry: false,
+  });
+
+  return (
+    <Card className="hover:shadow-lg transition-shadow">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lock className="h-5 w-5" />
+          Escrow Statement
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error instanceof Error ? error.message : "Failed to load escrow statement"}</AlertDescription>
+          </Alert>
+        ) : statement && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="bg-muted rounded-lg p-3">
+                <p className="text-xs text-muted-foreground">Held in escrow</p>
+                <p className="text-lg font-semibold">₦{statement.balance}</p>
+              </div>
+              <div className="bg-muted rounded-lg p-3">
+                <p className="text-xs text-muted-foreground">Paid in</p>
+                <p className="text-lg font-semibold">₦{statement.credited}</p>
+              </div>
+              <div className="bg-muted rounded-lg p-3">
+                <p className="text-xs text-muted-foreground">Paid out</p>
+                <p className="text-lg font-semibold">₦{statement.released}</p>
+              </div>
+            </div>
+
+            {statement.discrepancy === 0 ? (
+              <Badge variant="success">Reconciled with contributions and payouts</Badge>
+            ) : (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  Contributions received (₦{statement.contributions_received}) less payouts released
+                  (₦{statement.payouts_released}) differ from what escrow recorded by ₦{statement.discrepancy}.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {statement.held_payouts.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Payouts waiting on funds</h4>
+                {statement.held_payouts.map((payout) => (
+                  <div key={payout.payout_id} className="flex justify-between text-sm p-2 border rounded-md">
+                    <span>
+                      Position {payout.position}: {payout.member_name || "Unknown Member"} (₦{payout.amount})
+                    </span>
+                    <span className="text-muted-foreground">
+                      {payout.unpaid_contributions > 0
+                        ? `${payout.unpaid_contributions} contributions unpaid`
+                        : "Funded, awaiting release"}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {statement.entries.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Entry</TableHead>
+                    <TableHead>Member</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {withRunningBalance(statement.entries).map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell>{new Date(entry.created_at).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        {ESCROW_ENTRY_LABELS[entry.entry_type]}
+                        {entry.payout_position != null && ` (position ${entry.payout_position})`}
+                      </TableCell>
+                      <TableCell>{entry.member_name || "Unknown Member"}</TableCell>
+                      <TableCell className={`text-right ${entry.amount < 0 ? "text-red-600" : ""}`}>
+                        {entry.amount < 0 ? "-" : ""}₦{Math.abs(entry.amount)}
+                      </TableCell>
+                      <TableCell className="text-right">₦{entry.balance}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-center text-muted-foreground py-4">
+                Nothing has been paid into escrow since {new Date(statement.enabled_at).toLocaleDateString()}
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EscrowStatement;
@@ -13,6 +13,7 @@ import { Download, FileSpreadsheet, Loader2, ArrowDownToLine, Printer } from "lu
 import { toast } from "sonner";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { ContributionWithSystem, PayoutWithSystem, ContributionWithMember, PayoutWithMember } from "@/types/database";
+import { getContributionBalance } from "@/lib/contribution-payments";
 
 interface FinancialReportDetailProps {
   thriftSystemId?: string;
@@ -44,6 +45,10 @@ const FinancialReportDetail = ({ thriftSystemId, period = "monthly" }: Financial
             amount, 
             status, 
             created_at,
+            payment_allocations (
+              amount,
+              allocation_type
+            ),
             memberships (
               thrift_system_id,
               thrift_systems (
@@ -60,6 +65,7 @@ const FinancialReportDetail = ({ thriftSystemId, period = "monthly" }: Financial
         // Transform data to have the format we need
         const contributions = (contributionsData || []).map(contrib => ({
           amount: contrib.amount,
+          amount_paid: getContributionBalance(contrib).principalPaid,
           status: contrib.status,
           created_at: contrib.created_at,
           thrift_systems: {
@@ -74,6 +80,9 @@ const FinancialReportDetail = ({ thriftSystemId, period = "monthly" }: Financial
             status, 
             scheduled_date, 
             completed_date,
+            position,
+            bid_premium,
+            premium_share,
             thrift_system_id,
             thrift_systems (
               name
@@ -90,19 +99,22 @@ const FinancialReportDetail = ({ thriftSystemId, period = "monthly" }: Financial
           status: payout.status,
           scheduled_date: payout.scheduled_date,
           completed_date: payout.completed_date,
+          position: payout.position,
+          bid_premium: payout.bid_premium,
+          premium_share: payout.premium_share,
           thrift_systems: {
             name: payout.thrift_systems?.name || "Unknown"
           }
         })) as PayoutWithSystem[];
 
         // Process data for charts
-        const monthlyContributions = processMonthlyData(contributions, 'amount', 'created_at');
+        const monthlyContributions = processMonthlyData(contributions, 'amount_paid', 'created_at');
         const monthlyPayouts = processMonthlyData(payouts, 'amount', 'scheduled_date');
         
         const thriftSystemDistribution = contributions.reduce((acc: Record<string, number>, curr) => {
           const systemName = curr.thrift_systems.name;
           if (!acc[systemName]) acc[systemName] = 0;
-          acc[systemName] += curr.amount;
+          acc[systemName] += curr.amount_paid;
           return acc;
         }, {});
 
@@ -117,7 +129,7 @@ const FinancialReportDetail = ({ thriftSystemId, period = "monthly" }: Financial
           monthlyContributions,
           monthlyPayouts,
           pieChartData,
-          totalContributed: contributions.reduce((sum, item) => sum + item.amount, 0),
+          totalContributed: contributions.reduce((sum, item) => sum + item.amount_paid, 0),
           totalReceived: payouts.filter(p => p.status === 'completed').reduce((sum, item) => sum + item.amount, 0),
           pendingPayouts: payouts.filter(p => p.status === 'pending').reduce((sum, item) => sum + item.amount, 0)
         };
@@ -143,6 +155,10 @@ const FinancialReportDetail = ({ thriftSystemId, period = "monthly" }: Financial
             amount, 
             status, 
             created_at,
+            payment_allocations (
+              amount,
+              allocation_type
+            ),
             memberships (
               user_id,
               profiles (
@@ -158,6 +174,7 @@ const FinancialReportDetail = ({ thriftSystemId, period = "monthly" }: Financial
 
         const contributions = (contributionsData || []).map(contrib => ({
           amount: contrib.amount,
+          amount_paid: getContributionBalance(contrib).principalPaid,
           status: contrib.status,
           created_at: contrib.created_at,
           memberships: {
@@ -173,6 +190,9 @@ const FinancialReportDetail = ({ thriftSystemId, period = "monthly" }: Financial
             status, 
             scheduled_date, 
             completed_date,
+            position,
+            bid_premium,
+            premium_share,
             member_id,
             profiles:member_id(
               full_name
@@ -191,19 +211,22 @@ const FinancialReportDetail = ({ thriftSystemId, period = "monthly" }: Financial
             status: payout.status,
             scheduled_date: payout.scheduled_date,
             completed_date: payout.completed_date,
+            position: payout.position,
+            bid_premium: payout.bid_premium,
+            premium_share: payout.premium_share,
             member_id: payout.member_id,
             profiles: typeof payout.profiles === 'object' ? payout.profiles : null
           };
         }) as PayoutWithMember[];
 
         // Process data for charts
-        const monthlyContributions = processMonthlyData(contributions, 'amount', 'created_at');
+        const monthlyContributions = processMonthlyData(contributions, 'amount_paid', 'created_at');
         const monthlyPayouts = processMonthlyData(payouts, 'amount', 'scheduled_date');
         
         const memberDistribution = contributions.reduce((acc: Record<string, number>, curr) => {
           const memberName = curr.memberships?.profiles?.full_name || 'Unknown';
           if (!acc[memberName]) acc[memberName] = 0;
-          acc[memberName] += curr.amount;
+          acc[memberName] += curr.amount_paid;
           return acc;
         }, {});
 
@@ -219,7 +242,7 @@ const FinancialReportDetail = ({ thriftSystemId, period = "monthly" }: Financial
           monthlyContributions,
           monthlyPayouts,
           pieChartData,
-          totalContributed: contributions.reduce((sum, item) => sum + item.amount, 0),
+          totalContributed: contributions.reduce((sum, item) => sum + item.amount_paid, 0),
           totalPaidOut: payouts.filter(p => p.status === 'completed').reduce((sum, item) => sum + item.amount, 0),
           pendingPayouts: payouts.filter(p => p.status === 'pending').reduce((sum, item) => sum + item.amount, 0)
         };
@@ -517,6 +540,7 @@ const FinancialReportDetail = ({ thriftSystemId, period = "monthly" }: Financial
                   <TableRow>
                     <TableHead>{thriftSystemId ? "Member" : "Thrift System"}</TableHead>
                     <TableHead>Amount</TableHead>
+                    <TableHead>Paid</TableHead>
                     <TableHead>Date</TableHead>
                     <TableHead>Status</TableHead>
                   </TableRow>
@@ -532,6 +556,7 @@ const FinancialReportDetail = ({ thriftSystemId, period = "monthly" }: Financial
                           }
                         </TableCell>
                         <TableCell>${contribution.amount.toLocaleString()}</TableCell>
+                        <TableCell>${contribution.amount_paid.toLocaleString()}</TableCell>
                         <TableCell>{new Date(contribution.created_at).toLocaleDateString()}</TableCell>
                         <TableCell>
                           <span className={`px-2 py-1 rounded-full text-xs ${
@@ -546,7 +571,7 @@ const FinancialReportDetail = ({ thriftSystemId, period = "monthly" }: Financial
                     ))
                   ) : (
                     <TableRow>
-                      <TableCell colSpan={4} className="text-center py-4 text-muted-foreground">
+                      <TableCell colSpan={5} className="text-center py-4 text-muted-foreground">
                         No contributions found for the selected period
                       </TableCell>
                     </TableRow>
@@ -561,13 +586,19 @@ const FinancialReportDetail = ({ thriftSystemId, period = "monthly" }: Financial
           <Card>
             <CardHeader>
               <CardTitle>Payout History</CardTitle>
-              <CardDescription>All payouts for the selected period</CardDescription>
+              <CardDescription>
+                All payouts for the selected period. Bids paid for early positions and premiums
+                shared with later positions show the effective return of waiting.
+              </CardDescription>
             </CardHeader>
             <CardContent>
               <Table>
                 <TableHeader>
                   <TableRow>
                     <TableHead>{thriftSystemId ? "Member" : "Thrift System"}</TableHead>
+                    <TableHead>Position</TableHead>
+                    <TableHead>Bid Paid</TableHead>
+                    <TableHead>Premium Share</TableHead>
                     <TableHead>Amount</TableHead>
                     <TableHead>Scheduled Date</TableHead>
                     <TableHead>Completed Date</TableHead>
@@ -584,6 +615,13 @@ const FinancialReportDetail = ({ thriftSystemId, period = "monthly" }: Financial
                             : (payout as any).thrift_systems?.name || "Unknown"
                           }
                         </TableCell>
+                        <TableCell>{payout.position || '-'}</TableCell>
+                        <TableCell>
+                          {payout.bid_premium > 0 ? `-$${payout.bid_premium.toLocaleString()}` : '-'}
+                        </TableCell>
+                        <TableCell>
+                          {payout.premium_share > 0 ? `+$${payout.premium_share.toLocaleString()}` : '-'}
+                        </TableCell>
                         <TableCell>${payout.amount.toLocaleString()}</TableCell>
                         <TableCell>{new Date(payout.scheduled_date).toLocaleDateString()}</TableCell>
                         <TableCell>
@@ -605,7 +643,7 @@ const FinancialReportDetail = ({ thriftSystemId, period = "monthly" }: Financial
                     ))
                   ) : (
                     <TableRow>
-                      <TableCell colSpan={5} className="text-center py-4 text-muted-foreground">
+                      <TableCell colSpan={8} className="text-center py-4 text-muted-foreground">
                         No payouts found for the selected period
                       </TableCell>
                     </TableRow>
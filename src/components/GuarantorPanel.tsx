@@ -0,0 +1,334 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  GuarantorReceivable,
+  getGuarantorProgress,
+  fetchGuarantorExposure,
+  nominateGuarantor,
+  respondToGuarantee,
+  payGuarantorCall,
+  recordReceivableRecovery,
+} from "@/lib/guarantors";
+
+// Everything guarantor-related for the signed-in user: requests to vouch for
+// others, what they are on the hook for, and guarantors for their own requests
+const GuarantorPanel = () => {
+  const queryClient = useQueryClient();
+  const [emails, setEmails] = useState<Record<string, string>>({});
+
+  const { data: currentUser } = useQuery({
+    queryKey: ['currentUser'],
+    queryFn: async () => {
+      const { data: { user }, error } = await supabase.auth.getUser();
+      if (error) throw error;
+      return user;
+    },
+  });
+
+  const { data: requests = [] } = useQuery({
+    queryKey: ['guaranteeRequests', currentUser?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('membership_guarantors')
+        .select(`
+          id,
+          created_at,
+          memberships (
+            profiles (
+              full_name
+            ),
+            thrift_systems (
+              name,
+              contribution_amount
+            )
+          )
+        `)
+        .eq('guarantor_id', currentUser!.id)
+        .eq('status', 'pending');
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: Boolean(currentUser),
+  });
+
+  const { data: exposures = [], isLoading: loadingExposure } = useQuery({
+    queryKey: ['guarantorExposure', currentUser?.id],
+    queryFn: fetchGuarantorExposure,
+    enabled: Boolean(currentUser),
+  });
+
+  const { data: receivables = [] } = useQuery({
+    queryKey: ['guarantorReceivables', currentUser?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('guarantor_receivables')
+        .select(`
+          id,
+          debtor_id,
+          amount,
+          amount_recovered,
+          status,
+          created_at,
+          profiles!guarantor_receivables_debtor_id_fkey (
+            full_name
+          )
+        `)
+        .eq('guarantor_id', currentUser!.id)
+        .eq('status', 'open')
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return (data || []) as unknown as GuarantorReceivable[];
+    },
+    enabled: Boolean(currentUser),
+  });
+
+  // The user's own join requests, which may need guarantors before approval
+  const { data: joinRequests = [] } = useQuery({
+    queryKey: ['myJoinRequests', currentUser?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('memberships')
+        .select(`
+          id,
+          status,
+          thrift_systems (
+            name,
+            guarantors_required
+          ),
+          membership_guarantors (
+            id,
+            status,
+            profiles (
+              full_name
+            )
+          )
+        `)
+        .eq('user_id', currentUser!.id)
+        .in('status', ['pending', 'waitlisted']);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: Boolean(currentUser),
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: ({ guaranteeId, accept }: { guaranteeId: string; accept: boolean }) =>
+      respondToGuarantee(guaranteeId, accept),
+    onSuccess: (_, { accept }) => {
+      toast.success(accept ? "You are now a guarantor for this member" : "Request declined");
+      queryClient.invalidateQueries({ queryKey: ['guaranteeRequests'] });
+      queryClient.invalidateQueries({ queryKey: ['guarantorExposure'] });
+    },
+    onError: (error) => {
+      console.error("Error responding to guarantee:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to respond");
+    }
+  });
+
+  const payMutation = useMutation({
+    mutationFn: (callId: string) => payGuarantorCall(callId),
+    onSuccess: (result) => {
+      toast.success(`Paid ₦${result.amount}. The member now owes you this amount.`);
+      queryClient.invalidateQueries({ queryKey: ['guarantorExposure'] });
+      queryClient.invalidateQueries({ queryKey: ['guarantorReceivables'] });
+      queryClient.invalidateQueries({ queryKey: ['walletStatement'] });
+    },
+    onError: (error) => {
+      console.error("Error paying guarantor call:", error);
+      toast.error(error instanceof Error ? error.message : "Payment failed. Please try again.");
+    }
+  });
+
+  const recoveryMutation = useMutation({
+    mutationFn: (receivable: GuarantorReceivable) =>
+      recordReceivableRecovery(receivable.id, receivable.amount - receivable.amount_recovered),
+    onSuccess: () => {
+      toast.success("Marked as repaid");
+      queryClient.invalidateQueries({ queryKey: ['guarantorReceivables'] });
+    },
+    onError: (error) => {
+      console.error("Error recording recovery:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to record repayment");
+    }
+  });
+
+  const nominateMutation = useMutation({
+    mutationFn: ({ membershipId, email }: { membershipId: string; email: string }) =>
+      nominateGuarantor(membershipId, email),
+    onSuccess: (_, { membershipId }) => {
+      toast.success("Guarantor nominated. They will be asked to accept, once they have an account.");
+      setEmails((prev) => ({ ...prev, [membershipId]: "" }));
+      queryClient.invalidateQueries({ queryKey: ['myJoinRequests'] });
+    },
+    onError: (error) => {
+      console.error("Error nominating guarantor:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to nominate guarantor");
+    }
+  });
+
+  const totalOutstanding = exposures.reduce((sum, e) => sum + e.outstanding, 0);
+  const totalOverdue = exposures.reduce((sum, e) => sum + e.overdue, 0);
+  const totalReceivable = receivables.reduce((sum, r) => sum + r.amount - r.amount_recovered, 0);
+
+  if (!requests.length && !exposures.length && !receivables.length && !joinRequests.length) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Guarantees
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {requests.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-medium">Requests to guarantee</h3>
+            {requests.map((request) => (
+              <div key={request.id} className="flex justify-between items-center text-sm p-2 border rounded-md">
+                <span>
+                  {request.memberships?.profiles?.full_name || "A member"} in{" "}
+                  {request.memberships?.thrift_systems?.name}
+                  {request.memberships?.thrift_systems?.contribution_amount != null &&
+                    ` (₦${request.memberships.thrift_systems.contribution_amount} per period)`}
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => respondMutation.mutate({ guaranteeId: request.id, accept: true })}
+                    disabled={respondMutation.isPending}
+                  >
+                    Accept
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => respondMutation.mutate({ guaranteeId: request.id, accept: false })}
+                    disabled={respondMutation.isPending}
+                  >
+                    Decline
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {loadingExposure ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : exposures.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-medium">Your exposure</h3>
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div className="bg-muted rounded-lg p-3">
+                <p className="text-xs text-muted-foreground">Still to be paid by members you guarantee</p>
+                <p className="text-lg font-semibold">₦{totalOutstanding}</p>
+              </div>
+              <div className="bg-muted rounded-lg p-3">
+                <p className="text-xs text-muted-foreground">Overdue now</p>
+                <p className={`text-lg font-semibold ${totalOverdue > 0 ? "text-red-600" : ""}`}>₦{totalOverdue}</p>
+              </div>
+            </div>
+            {exposures.map((exposure) => (
+              <div key={exposure.guarantee_id} className="text-sm p-2 border rounded-md space-y-2">
+                <div className="flex justify-between">
+                  <span>
+                    {exposure.member_name || "Unknown Member"} in {exposure.thrift_name}
+                  </span>
+                  <span>₦{exposure.outstanding}</span>
+                </div>
+                {exposure.open_calls.map((call) => (
+                  <div key={call.call_id} className="flex justify-between items-center text-red-600">
+                    <span>Contribution due {new Date(call.due_date).toLocaleDateString()} is unpaid</span>
+                    <Button size="sm" onClick={() => payMutation.mutate(call.call_id)} disabled={payMutation.isPending}>
+                      Pay from wallet
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {receivables.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-medium">Owed to you (₦{totalReceivable})</h3>
+            {receivables.map((receivable) => (
+              <div key={receivable.id} className="flex justify-between items-center text-sm p-2 border rounded-md">
+                <span>
+                  {receivable.profiles?.full_name || "Unknown Member"} owes ₦
+                  {receivable.amount - receivable.amount_recovered}
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => recoveryMutation.mutate(receivable)}
+                  disabled={recoveryMutation.isPending}
+                >
+                  Mark Repaid
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {joinRequests.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-medium">Guarantors for your join requests</h3>
+            {joinRequests.map((request) => {
+              const { accepted, required, satisfied } = getGuarantorProgress(
+                request.membership_guarantors,
+                request.thrift_systems?.guarantors_required || 0
+              );
+              return (
+                <div key={request.id} className="text-sm p-2 border rounded-md space-y-2">
+                  <div className="flex justify-between">
+                    <span>{request.thrift_systems?.name}</span>
+                    <span className={satisfied ? "text-green-700" : "text-muted-foreground"}>
+                      {accepted} of {required} required accepted
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {request.membership_guarantors.map((guarantee) => (
+                      <Badge key={guarantee.id} variant={guarantee.status === 'accepted' ? "default" : "outline"}>
+                        {guarantee.profiles?.full_name || "Guarantor"}: {guarantee.status}
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="flex gap-2">
+                    <Input
+                      type="email"
+                      placeholder="Guarantor's email"
+                      value={emails[request.id] || ""}
+                      onChange={(e) => setEmails((prev) => ({ ...prev, [request.id]: e.target.value }))}
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={() => nominateMutation.mutate({ membershipId: request.id, email: emails[request.id] || "" })}
+                      disabled={nominateMutation.isPending}
+                    >
+                      Nominate
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GuarantorPanel;
@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { describeSettlement, fetchExitSettlement, processMemberExit } from "@/lib/member-exits";
+
+interface MemberExitDialogProps {
+  open: boolean;
+  onClose: () => void;
+  thriftSystemId: string;
+  membershipId: string;
+}
+
+const NO_REPLACEMENT = "none";
+
+// Works out a leaving member's settlement and hands their place to a replacement
+const MemberExitDialog = ({ open, onClose, thriftSystemId, membershipId }: MemberExitDialogProps) => {
+  const queryClient = useQueryClient();
+  const [replacementId, setReplacementId] = useState(NO_REPLACEMENT);
+  const [reason, setReason] = useState("");
+
+  const { data: settlement, isLoading, error } = useQuery({
+    queryKey: ['exitSettlement', membershipId],
+    queryFn: () => fetchExitSettlement(membershipId),
+    enabled: open,
+    retry: false,
+  });
+
+  // Pending requests and the waitlist are the pool of replacements
+  const { data: candidates = [] } = useQuery({
+    queryKey: ['replacementCandidates', thriftSystemId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('memberships')
+        .select(`
+          id,
+          user_id,
+          status,
+          profiles (
+            full_name
+          )
+        `)
+        .eq('thrift_system_id', thriftSystemId)
+        .in('status', ['pending', 'waitlisted'])
+        .order('join_date', { ascending: true });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: open,
+  });
+
+  const exitMutation = useMutation({
+    mutationFn: () =>
+      processMemberExit(membershipId, replacementId === NO_REPLACEMENT ? undefined : replacementId, reason),
+    onSuccess: (result) => {
+      toast.success(
+        replacementId === NO_REPLACEMENT
+          ? "Member exited. Later payouts were reduced to what the group still collects; regenerate the schedule to close the gap in the rotation."
+          : result.buy_in > 0
+            ? `Member exited and their position handed to the replacement, who owes ₦${result.buy_in} for the periods already paid`
+            : "Member exited and their position handed to the replacement"
+      );
+      queryClient.invalidateQueries({ queryKey: ['memberships', thriftSystemId] });
+      queryClient.invalidateQueries({ queryKey: ['replacementCandidates', thriftSystemId] });
+      queryClient.invalidateQueries({ queryKey: ['contributions', thriftSystemId] });
+      queryClient.invalidateQueries({ queryKey: ['rotationSchedulePreview', thriftSystemId] });
+      setReplacementId(NO_REPLACEMENT);
+      setReason("");
+      onClose();
+    },
+    onError: (error) => {
+      console.error("Error processing exit:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to process exit");
+    }
+  });
+
+  const canReplace = Boolean(settlement && settlement.open_positions > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Member Exit</DialogTitle>
+          <DialogDescription>
+            Contributions already due stay with the leaving member. Their open payout position and
+            future contributions go to the replacement, who pays back the periods already paid. Without
+            a replacement they are removed and later payouts shrink to match.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error instanceof Error ? error.message : "Failed to load settlement"}</AlertDescription>
+          </Alert>
+        ) : settlement && (
+          <div className="space-y-4">
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span>Paid in</span>
+                <span>₦{settlement.paid}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Received</span>
+                <span>-₦{settlement.received}</span>
+              </div>
+              {settlement.outstanding > 0 && (
+                <div className="flex justify-between text-red-600">
+                  <span>Due and unpaid</span>
+                  <span>-₦{settlement.outstanding}</span>
+                </div>
+              )}
+              <div className="flex justify-between font-medium border-t pt-1">
+                <span>Settlement</span>
+                <span>{describeSettlement(settlement.settlement)}</span>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="exit-replacement">Replacement</Label>
+              <Select value={replacementId} onValueChange={setReplacementId} disabled={!canReplace}>
+                <SelectTrigger id="exit-replacement">
+                  <SelectValue placeholder="Select a replacement" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_REPLACEMENT}>No replacement</SelectItem>
+                  {candidates.map((candidate) => (
+                    <SelectItem key={candidate.id} value={candidate.id}>
+                      {candidate.profiles?.full_name || candidate.user_id}
+                      {candidate.status === 'waitlisted' ? " (waitlist)" : " (pending request)"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {!canReplace && (
+                <p className="text-sm text-muted-foreground">
+                  This member has already been paid out, so there is no position to hand over.
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="exit-reason">Reason (optional)</Label>
+              <Input
+                id="exit-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Why the member is leaving"
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={exitMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => exitMutation.mutate()}
+            disabled={!settlement || exitMutation.isPending}
+          >
+            {exitMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Confirm Exit
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MemberExitDialog;
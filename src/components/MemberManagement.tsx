@@ -1,8 +1,15 @@
-import React from "react";
+import React, { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { sumSlots } from "@/lib/membership-slots";
+import { getGuarantorProgress } from "@/lib/guarantors";
+import { getCommittedAmount, setCommittedAmount } from "@/lib/contribution-commitments";
+import MemberExitDialog from "@/components/MemberExitDialog";
 
 interface MemberManagementProps {
   systemId: string;
@@ -13,25 +20,62 @@ interface Membership {
   user_id: string;
   status: string;
   join_date?: string;
+  // Hands held; each contributes and is paid out separately
+  slot_count: number;
+  // Per hand, per period, in variable-contribution systems
+  committed_amount?: number | null;
+  membership_guarantors?: { status: string }[];
   // Add more fields if you join with the users table (e.g., name, email)
 }
 
 const fetchMemberships = async (systemId: string): Promise<Membership[]> => {
   const { data, error } = await supabase
     .from("memberships")
-    .select("*")
+    .select("*, membership_guarantors(status)")
     .eq("thrift_system_id", systemId);
   if (error) throw error;
   return data as Membership[];
 };
 
+const fetchGuarantorsRequired = async (systemId: string): Promise<number> => {
+  const { data, error } = await supabase
+    .from("thrift_systems")
+    .select("guarantors_required")
+    .eq("id", systemId)
+    .single();
+  if (error) throw error;
+  return data.guarantors_required;
+};
+
+const fetchContributionSettings = async (systemId: string) => {
+  const { data, error } = await supabase
+    .from("thrift_systems")
+    .select("contribution_mode, contribution_amount, status")
+    .eq("id", systemId)
+    .single();
+  if (error) throw error;
+  return data;
+};
+
 const MemberManagement: React.FC<MemberManagementProps> = ({ systemId }) => {
   const queryClient = useQueryClient();
+  const [exitingId, setExitingId] = useState<string | null>(null);
   const { data: memberships, isLoading, error } = useQuery({
     queryKey: ["memberships", systemId],
     queryFn: () => fetchMemberships(systemId),
     refetchOnWindowFocus: false,
   });
+  const { data: guarantorsRequired = 0 } = useQuery({
+    queryKey: ["guarantorsRequired", systemId],
+    queryFn: () => fetchGuarantorsRequired(systemId),
+    refetchOnWindowFocus: false,
+  });
+
+  const { data: contributionSettings } = useQuery({
+    queryKey: ["contributionSettings", systemId],
+    queryFn: () => fetchContributionSettings(systemId),
+    refetchOnWindowFocus: false,
+  });
 
   const approveMutation = useMutation({
     mutationFn: async (membershipId: string) => {
@@ -46,6 +90,9 @@ const MemberManagement: React.FC<MemberManagementProps> = ({ systemId }) => {
     onSuccess: () => {
       queryClient.invalidateQueries(["memberships", systemId]);
     },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to approve member");
+    },
   });
 
   const rejectMutation = useMutation({
@@ -63,18 +110,52 @@ const MemberManagement: React.FC<MemberManagementProps> = ({ systemId }) => {
     },
   });
 
-  const removeMemberMutation = useMutation({
+  const waitlistMutation = useMutation({
     mutationFn: async (membershipId: string) => {
-      // Delete the membership record to remove an active member
+      // Keep the request on file as a possible replacement for a leaving member
       const { error } = await supabase
         .from("memberships")
-        .delete()
+        .update({ status: "waitlisted" })
         .eq("id", membershipId);
       if (error) throw error;
       return membershipId;
     },
     onSuccess: () => {
-      queryClient.invalidateQueries(["memberships", systemId]);
+      queryClient.invalidateQueries({ queryKey: ["memberships", systemId] });
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to add to waitlist");
+    },
+  });
+
+  const slotsMutation = useMutation({
+    mutationFn: async ({ membershipId, slotCount }: { membershipId: string; slotCount: number }) => {
+      // Rejected by the database when the thrift has no free slots left
+      const { error } = await supabase
+        .from("memberships")
+        .update({ slot_count: slotCount })
+        .eq("id", membershipId);
+      if (error) throw error;
+      return membershipId;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["memberships", systemId] });
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ["memberships", systemId] });
+      toast.error(error instanceof Error ? error.message : "Failed to update hands");
+    },
+  });
+
+  const commitmentMutation = useMutation({
+    mutationFn: ({ membershipId, amount }: { membershipId: string; amount: number }) =>
+      setCommittedAmount(membershipId, amount),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["memberships", systemId] });
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ["memberships", systemId] });
+      toast.error(error instanceof Error ? error.message : "Failed to update commitment");
     },
   });
 
@@ -88,6 +169,13 @@ const MemberManagement: React.FC<MemberManagementProps> = ({ systemId }) => {
   // Separate pending requests from active memberships
   const pending = memberships?.filter((m) => m.status === "pending") || [];
   const active = memberships?.filter((m) => m.status === "active") || [];
+  const waitlisted = memberships?.filter((m) => m.status === "waitlisted") || [];
+  const isVariable = contributionSettings?.contribution_mode === "variable";
+  const commitmentsLocked =
+    contributionSettings?.status === "active" || contributionSettings?.status === "completed";
+
+  // Members invited from the previous cycle or a cloned system
+  const invited = memberships?.filter((m) => m.status === "invited" || m.status === "declined") || [];
 
   return (
     <div className="p-4 border rounded-md shadow-sm">
@@ -99,22 +187,40 @@ const MemberManagement: React.FC<MemberManagementProps> = ({ systemId }) => {
           <p className="text-sm text-muted-foreground">No pending requests</p>
         ) : (
           <ul className="space-y-2">
-            {pending.map((m) => (
+            {pending.map((m) => {
+              const guarantors = getGuarantorProgress(m.membership_guarantors, guarantorsRequired);
+              return (
               <li
                 key={m.id}
                 className="flex items-center justify-between border-b pb-2"
               >
-                <span className="text-sm">{m.user_id}</span>
+                <div>
+                  <span className="text-sm">{m.user_id}</span>
+                  {guarantors.required > 0 && (
+                    <p className={`text-xs ${guarantors.satisfied ? "text-green-700" : "text-muted-foreground"}`}>
+                      Guarantors: {guarantors.accepted}/{guarantors.required} accepted
+                    </p>
+                  )}
+                </div>
                 <div>
                   <Button
                     variant="success"
                     size="sm"
                     className="mr-2"
                     onClick={() => approveMutation.mutate(m.id)}
-                    disabled={approveMutation.isLoading}
+                    disabled={approveMutation.isLoading || !guarantors.satisfied}
                   >
                     Approve
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="mr-2"
+                    onClick={() => waitlistMutation.mutate(m.id)}
+                    disabled={waitlistMutation.isPending}
+                  >
+                    Waitlist
+                  </Button>
                   <Button
                     variant="destructive"
                     size="sm"
@@ -125,18 +231,91 @@ const MemberManagement: React.FC<MemberManagementProps> = ({ systemId }) => {
                   </Button>
                 </div>
               </li>
-            ))}
+              );
+            })}
           </ul>
         )}
       </section>
 
       <section className="mt-6">
         <h3 className="text-lg font-semibold mb-2">Members</h3>
+        {active.length > 0 && (
+          <p className="text-sm text-muted-foreground mb-2">
+            {active.length} members holding {sumSlots(active)} hands
+          </p>
+        )}
         {active.length === 0 ? (
           <p className="text-sm text-muted-foreground">No members yet</p>
         ) : (
           <ul className="space-y-2">
             {active.map((m) => (
+              <li
+                key={m.id}
+                className="flex items-center justify-between border-b pb-2"
+              >
+                <span className="text-sm">{m.user_id}</span>
+                <div className="flex items-center gap-2">
+                  {isVariable && (
+                    <>
+                      <Label className="text-muted-foreground" htmlFor={`commitment-${m.id}`}>
+                        ₦ per hand
+                      </Label>
+                      <Input
+                        id={`commitment-${m.id}`}
+                        key={`${m.id}-${m.committed_amount}`}
+                        type="number"
+                        min="1"
+                        className="w-28"
+                        defaultValue={getCommittedAmount(contributionSettings, m)}
+                        disabled={commitmentsLocked || commitmentMutation.isPending}
+                        onBlur={(e) => {
+                          const amount = Number(e.target.value);
+                          if (amount > 0 && amount !== getCommittedAmount(contributionSettings, m)) {
+                            commitmentMutation.mutate({ membershipId: m.id, amount });
+                          }
+                        }}
+                      />
+                    </>
+                  )}
+                  <Label className="text-muted-foreground" htmlFor={`hands-${m.id}`}>
+                    Hands
+                  </Label>
+                  <Input
+                    id={`hands-${m.id}`}
+                    key={`${m.id}-${m.slot_count}`}
+                    type="number"
+                    min="1"
+                    className="w-20"
+                    defaultValue={m.slot_count}
+                    disabled={slotsMutation.isPending}
+                    onBlur={(e) => {
+                      const slotCount = Number(e.target.value);
+                      if (Number.isInteger(slotCount) && slotCount >= 1 && slotCount !== m.slot_count) {
+                        slotsMutation.mutate({ membershipId: m.id, slotCount });
+                      }
+                    }}
+                  />
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => setExitingId(m.id)}
+                  >
+                    Exit
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="mt-6">
+        <h3 className="text-lg font-semibold mb-2">Waitlist</h3>
+        {waitlisted.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nobody is waiting for a place</p>
+        ) : (
+          <ul className="space-y-2">
+            {waitlisted.map((m) => (
               <li
                 key={m.id}
                 className="flex items-center justify-between border-b pb-2"
@@ -145,16 +324,8 @@ const MemberManagement: React.FC<MemberManagementProps> = ({ systemId }) => {
                 <Button
                   variant="destructive"
                   size="sm"
-                  onClick={() => {
-                    if (
-                      window.confirm(
-                        "Are you sure you want to remove this member?"
-                      )
-                    ) {
-                      removeMemberMutation.mutate(m.id);
-                    }
-                  }}
-                  disabled={removeMemberMutation.isLoading}
+                  onClick={() => rejectMutation.mutate(m.id)}
+                  disabled={rejectMutation.isPending}
                 >
                   Remove
                 </Button>
@@ -163,6 +334,34 @@ const MemberManagement: React.FC<MemberManagementProps> = ({ systemId }) => {
           </ul>
         )}
       </section>
+
+      {invited.length > 0 && (
+        <section className="mt-6">
+          <h3 className="text-lg font-semibold mb-2">Invited</h3>
+          <ul className="space-y-2">
+            {invited.map((m) => (
+              <li
+                key={m.id}
+                className="flex items-center justify-between border-b pb-2"
+              >
+                <span className="text-sm">{m.user_id}</span>
+                <span className="text-sm text-muted-foreground">
+                  {m.status === "declined" ? "Opted out" : "Awaiting reply"}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {exitingId && (
+        <MemberExitDialog
+          open={Boolean(exitingId)}
+          onClose={() => setExitingId(null)}
+          thriftSystemId={systemId}
+          membershipId={exitingId}
+        />
+      )}
     </div>
   );
 };
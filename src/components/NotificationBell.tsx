@@ -141,6 +141,8 @@ export function NotificationBell() {
     } else {
       switch (notification.type) {
         case "payout_scheduled":
+        case "payout_sent":
+        case "payout_failed":
           navigate("/payouts/history");
           break;
         case "contribution_due":
@@ -174,7 +176,10 @@ export function NotificationBell() {
   const getNotificationIcon = (type: string) => {
     switch (type) {
       case "payout_scheduled":
+      case "payout_sent":
         return "💰";
+      case "payout_failed":
+        return "⚠️";
       case "contribution_due":
         return "📅";
       case "new_member":
@@ -183,6 +188,22 @@ export function NotificationBell() {
         return "🔄";
       case "financial_report":
         return "📊";
+      case "position_swap":
+        return "🔁";
+      case "priority_payout":
+        return "⏩";
+      case "payout_paused":
+        return "⏸️";
+      case "guarantor_request":
+      case "guarantor_call":
+        return "🛡️";
+      case "wallet":
+        return "👛";
+      case "cycle_completed":
+      case "cycle_rollover":
+        return "🏁";
+      case "target_matured":
+        return "🎯";
       default:
         return "🔔";
     }
@@ -10,7 +10,6 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import {
   Select,
   SelectContent,
@@ -19,17 +18,21 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { toast } from "sonner";
-import { Loader2, CreditCard, AlertCircle, CheckCircle2 } from "lucide-react";
+import { Loader2, CreditCard, AlertCircle, CheckCircle2, Wallet } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { getPaymentGateway, PaymentMethod, SupportedGateway } from "@/services/PaymentGatewayService";
+import { getPaymentGateway, PaymentMethod, PaymentResponse, SupportedGateway } from "@/services/PaymentGatewayService";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { fetchWalletStatement, payContributionFromWallet } from "@/lib/wallet";
+import { addPaymentMethod, fetchPaymentMethods } from "@/lib/payment-methods";
+import SavedPaymentMethodList from "@/components/payment/SavedPaymentMethodList";
 
 interface PaymentCheckoutProps {
   amount: number;
   currency?: string;
   description: string;
   contributionId?: string;
-  onPaymentSuccess?: () => void;
+  purpose?: "wallet_topup";
+  onPaymentSuccess?: (payment: PaymentResponse, gateway: SupportedGateway) => void;
   onPaymentError?: (error: Error) => void;
 }
 
@@ -38,6 +41,7 @@ const PaymentCheckout = ({
   currency = "USD",
   description,
   contributionId,
+  purpose,
   onPaymentSuccess,
   onPaymentError
 }: PaymentCheckoutProps) => {
@@ -80,10 +84,14 @@ const PaymentCheckout = ({
   // Fetch saved payment methods
   const { data: paymentMethods, isLoading: loadingPaymentMethods } = useQuery({
     queryKey: ['payment-methods'],
-    queryFn: async () => {
-      const gateway = await getPaymentGateway();
-      return gateway.getUserPaymentMethods();
-    }
+    queryFn: fetchPaymentMethods,
+  });
+
+  // Wallet balance, only needed when paying a contribution
+  const { data: wallet } = useQuery({
+    queryKey: ['walletStatement'],
+    queryFn: fetchWalletStatement,
+    enabled: open && !!contributionId,
   });
 
   // Mutation for processing payment
@@ -93,8 +101,37 @@ const PaymentCheckout = ({
       setPaymentError(null);
       
       try {
-        const gateway = await getPaymentGateway();
-        
+        if (paymentTab === 'wallet') {
+          await payContributionFromWallet(contributionId, amount);
+          setPaymentSuccess(true);
+          return;
+        }
+
+        const gateway = await getPaymentGateway(selectedGateway);
+        const savedMethod = paymentMethods?.find(method => method.id === selectedPaymentMethod);
+
+        // Cards saved from an earlier checkout on this gateway are charged
+        // directly
+        if (savedMethod?.is_tokenized && savedMethod.gateway === selectedGateway) {
+          const charged = await gateway.chargePaymentMethod(savedMethod.id, {
+            amount,
+            currency,
+            description,
+            contribution_id: contributionId,
+            purpose,
+            metadata: {
+              payment_type: paymentTab
+            }
+          });
+
+          if (charged.status !== 'succeeded') {
+            throw new Error(charged.error_message || 'Your saved card was declined');
+          }
+          setPaymentSuccess(true);
+          if (onPaymentSuccess) onPaymentSuccess(charged, selectedGateway);
+          return charged;
+        }
+
         // Initiate payment
         const response = await gateway.initiatePayment({
           amount,
@@ -102,20 +139,29 @@ const PaymentCheckout = ({
           description,
           payment_method_id: selectedPaymentMethod || undefined,
           contribution_id: contributionId,
+          purpose,
+          return_url: window.location.href,
           metadata: {
             payment_type: paymentTab
           }
         });
-        
-        // For demo purposes, we'll simulate a delay and then verify the payment
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        
-        // Verify payment status
-        const verificationResult = await gateway.verifyPayment(response.id);
-        
-        if (verificationResult.status === 'succeeded') {
+
+        // The member pays in a new tab while we wait for the gateway's verdict
+        if (response.checkout_url) {
+          const checkoutWindow = window.open(response.checkout_url, '_blank');
+          // Popup blocked: the gateway sends the member back to return_url
+          if (!checkoutWindow) window.location.assign(response.checkout_url);
+        }
+
+        const verificationResult = await gateway.waitForPayment(response.id, {
+          saveMethod: paymentTab === 'card' && cardDetails.saveCard,
+        });
+
+        if (verificationResult.status === 'pending') {
+          throw new Error('We have not heard back from the gateway yet. If you completed the payment it will be applied shortly.');
+        } else if (verificationResult.status === 'succeeded') {
           setPaymentSuccess(true);
-          if (onPaymentSuccess) onPaymentSuccess();
+          if (onPaymentSuccess) onPaymentSuccess(verificationResult, selectedGateway);
           return verificationResult;
         } else {
           throw new Error(verificationResult.error_message || 'Payment verification failed');
@@ -137,6 +183,9 @@ const PaymentCheckout = ({
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['contributions'] });
+      queryClient.invalidateQueries({ queryKey: ['userContributions'] });
+      queryClient.invalidateQueries({ queryKey: ['walletStatement'] });
+      queryClient.invalidateQueries({ queryKey: ['payment-methods'] });
       toast.success("Payment processed successfully!");
     },
     onError: () => {
@@ -147,8 +196,6 @@ const PaymentCheckout = ({
   // Add new payment method mutation
   const addPaymentMethodMutation = useMutation({
     mutationFn: async () => {
-      const gateway = await getPaymentGateway();
-      
       let methodData;
       
       if (paymentTab === 'card') {
@@ -178,7 +225,7 @@ const PaymentCheckout = ({
         throw new Error('Invalid payment method type');
       }
       
-      return await gateway.addPaymentMethod(methodData);
+      return await addPaymentMethod(methodData);
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['payment-methods'] });
@@ -237,6 +284,16 @@ const PaymentCheckout = ({
     }
   }, [open]);
 
+  // Start from the member's default method, when the dialog opens and after
+  // the selected method is removed
+  useEffect(() => {
+    const defaultMethod = paymentMethods?.find(method => method.is_default);
+    if (open && defaultMethod && !selectedPaymentMethod) {
+      setSelectedPaymentMethod(defaultMethod.id);
+      setPaymentTab(defaultMethod.type === "bank_account" ? "bank" : defaultMethod.type === "mobile_money" ? "mobile_money" : "card");
+    }
+  }, [open, paymentMethods, selectedPaymentMethod]);
+
   const handleMakePayment = async () => {
     try {
       await processPaymentMutation.mutateAsync();
@@ -305,7 +362,9 @@ const PaymentCheckout = ({
             <Loader2 className="h-12 w-12 animate-spin mb-4" />
             <h3 className="text-xl font-semibold mb-2">Processing Payment</h3>
             <p className="text-center text-muted-foreground">
-              Please wait while we process your payment of {formatCurrency(amount)}.
+              {paymentTab === 'wallet'
+                ? `Please wait while we process your payment of ${formatCurrency(amount)}.`
+                : `Complete your payment of ${formatCurrency(amount)} in the tab that opened. This window updates once the gateway confirms it.`}
             </p>
           </div>
         ) : (
@@ -336,37 +395,20 @@ const PaymentCheckout = ({
               </div>
               
               <Tabs value={paymentTab} onValueChange={setPaymentTab} className="w-full">
-                <TabsList className="grid grid-cols-3 mb-4">
+                <TabsList className={`grid ${contributionId ? "grid-cols-4" : "grid-cols-3"} mb-4`}>
                   <TabsTrigger value="card">Card</TabsTrigger>
                   <TabsTrigger value="bank">Bank</TabsTrigger>
                   <TabsTrigger value="mobile_money">Mobile Money</TabsTrigger>
+                  {contributionId && <TabsTrigger value="wallet">Wallet</TabsTrigger>}
                 </TabsList>
 
                 <TabsContent value="card">
-                  {!addingNewMethod && paymentMethods && paymentMethods.length > 0 && (
-                    <div className="mb-4">
-                      <RadioGroup
-                        value={selectedPaymentMethod}
-                        onValueChange={setSelectedPaymentMethod}
-                        className="space-y-2"
-                      >
-                        {paymentMethods
-                          .filter(method => method.type === 'card')
-                          .map(card => (
-                            <div key={card.id} className="flex items-center space-x-2 border p-3 rounded-md">
-                              <RadioGroupItem value={card.id} id={card.id} />
-                              <Label htmlFor={card.id} className="flex-1 cursor-pointer">
-                                <div className="flex justify-between">
-                                  <span>{card.brand} •••• {card.last4}</span>
-                                  <span className="text-muted-foreground text-sm">
-                                    {card.expiry}
-                                  </span>
-                                </div>
-                              </Label>
-                            </div>
-                          ))}
-                      </RadioGroup>
-                    </div>
+                  {!addingNewMethod && paymentMethods && (
+                    <SavedPaymentMethodList
+                      methods={paymentMethods.filter(method => method.type === 'card')}
+                      selectedId={selectedPaymentMethod}
+                      onSelect={setSelectedPaymentMethod}
+                    />
                   )}
 
                   {addingNewMethod ? (
@@ -452,30 +494,12 @@ const PaymentCheckout = ({
                 </TabsContent>
 
                 <TabsContent value="bank">
-                  {!addingNewMethod && paymentMethods && paymentMethods.length > 0 && (
-                    <div className="mb-4">
-                      <RadioGroup
-                        value={selectedPaymentMethod}
-                        onValueChange={setSelectedPaymentMethod}
-                        className="space-y-2"
-                      >
-                        {paymentMethods
-                          .filter(method => method.type === 'bank_account')
-                          .map(account => (
-                            <div key={account.id} className="flex items-center space-x-2 border p-3 rounded-md">
-                              <RadioGroupItem value={account.id} id={account.id} />
-                              <Label htmlFor={account.id} className="flex-1 cursor-pointer">
-                                <div className="flex justify-between">
-                                  <span>{account.name}</span>
-                                  <span className="text-muted-foreground text-sm">
-                                    •••• {account.last4}
-                                  </span>
-                                </div>
-                              </Label>
-                            </div>
-                          ))}
-                      </RadioGroup>
-                    </div>
+                  {!addingNewMethod && paymentMethods && (
+                    <SavedPaymentMethodList
+                      methods={paymentMethods.filter(method => method.type === 'bank_account')}
+                      selectedId={selectedPaymentMethod}
+                      onSelect={setSelectedPaymentMethod}
+                    />
                   )}
 
                   {addingNewMethod ? (
@@ -556,30 +580,12 @@ const PaymentCheckout = ({
                 </TabsContent>
 
                 <TabsContent value="mobile_money">
-                  {!addingNewMethod && paymentMethods && paymentMethods.length > 0 && (
-                    <div className="mb-4">
-                      <RadioGroup
-                        value={selectedPaymentMethod}
-                        onValueChange={setSelectedPaymentMethod}
-                        className="space-y-2"
-                      >
-                        {paymentMethods
-                          .filter(method => method.type === 'mobile_money')
-                          .map(account => (
-                            <div key={account.id} className="flex items-center space-x-2 border p-3 rounded-md">
-                              <RadioGroupItem value={account.id} id={account.id} />
-                              <Label htmlFor={account.id} className="flex-1 cursor-pointer">
-                                <div className="flex justify-between">
-                                  <span>{account.name}</span>
-                                  <span className="text-muted-foreground text-sm">
-                                    •••• {account.last4}
-                                  </span>
-                                </div>
-                              </Label>
-                            </div>
-                          ))}
-                      </RadioGroup>
-                    </div>
+                  {!addingNewMethod && paymentMethods && (
+                    <SavedPaymentMethodList
+                      methods={paymentMethods.filter(method => method.type === 'mobile_money')}
+                      selectedId={selectedPaymentMethod}
+                      onSelect={setSelectedPaymentMethod}
+                    />
                   )}
 
                   {addingNewMethod ? (
@@ -647,12 +653,36 @@ const PaymentCheckout = ({
                     </Button>
                   )}
                 </TabsContent>
+
+                {contributionId && (
+                  <TabsContent value="wallet">
+                    <div className="flex items-center justify-between border p-3 rounded-md mb-4">
+                      <span className="flex items-center gap-2">
+                        <Wallet className="h-4 w-4" />
+                        Pay from wallet
+                      </span>
+                      <span className="text-muted-foreground text-sm">
+                        Balance: {wallet ? formatCurrency(wallet.balance) : "..."}
+                      </span>
+                    </div>
+                    {wallet && wallet.balance < amount && (
+                      <p className="text-sm text-red-600 mb-4">
+                        Your wallet balance is not enough for this payment. Top up your wallet first.
+                      </p>
+                    )}
+                  </TabsContent>
+                )}
               </Tabs>
               
               <div className="flex justify-end pt-4 mt-4 border-t">
                 <Button 
                   onClick={handleMakePayment} 
-                  disabled={!selectedPaymentMethod || processingPayment}
+                  disabled={
+                    processingPayment ||
+                    (paymentTab === 'wallet'
+                      ? !wallet || wallet.balance < amount
+                      : paymentTab !== 'card' && !selectedPaymentMethod)
+                  }
                 >
                   Pay {formatCurrency(amount)}
                 </Button>
@@ -0,0 +1,191 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import DrawAudit from "@/components/DrawAudit";
+import {
+  fetchLatestDraw,
+  commitPositionDraw,
+  revealPositionDraw,
+  cancelPositionDraw,
+  getStoredDrawSeed,
+  isDrawPending,
+  fetchDrawConsents,
+} from "@/lib/position-draw";
+
+interface PositionDrawDialogProps {
+  open: boolean;
+  onClose: () => void;
+  thriftSystemId: string;
+}
+
+const PositionDrawDialog = ({ open, onClose, thriftSystemId }: PositionDrawDialogProps) => {
+  const queryClient = useQueryClient();
+  const [seed, setSeed] = useState("");
+  const [cancelReason, setCancelReason] = useState("");
+
+  const { data: draw, isLoading } = useQuery({
+    queryKey: ['positionDraw', thriftSystemId],
+    queryFn: () => fetchLatestDraw(thriftSystemId),
+    enabled: open,
+  });
+
+  const pendingDraw = draw && isDrawPending(draw) ? draw : null;
+  const pendingDrawId = pendingDraw?.id;
+  const cancelledDrawId = draw?.cancelled_at ? draw.id : undefined;
+
+  // A cancelled draw is only replaced once most members agree
+  const { data: consents } = useQuery({
+    queryKey: ['positionDrawConsents', cancelledDrawId],
+    queryFn: () => fetchDrawConsents(cancelledDrawId!),
+    enabled: open && !!cancelledDrawId,
+  });
+  const awaitingConsent = !!consents && consents.agreed < consents.needed;
+
+  useEffect(() => {
+    if (pendingDrawId) {
+      setSeed(getStoredDrawSeed(pendingDrawId) || "");
+    }
+  }, [pendingDrawId]);
+
+  const commitMutation = useMutation({
+    mutationFn: () => commitPositionDraw(thriftSystemId),
+    onSuccess: ({ seed }) => {
+      setSeed(seed);
+      toast.success("Seed committed. Keep the seed safe until you reveal it.");
+      queryClient.invalidateQueries({ queryKey: ['positionDraw', thriftSystemId] });
+    },
+    onError: (error) => {
+      console.error("Error committing draw:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to commit draw");
+    }
+  });
+
+  const revealMutation = useMutation({
+    mutationFn: () => revealPositionDraw(pendingDraw!.id, seed),
+    onSuccess: () => {
+      toast.success("Draw revealed and positions assigned");
+      queryClient.invalidateQueries({ queryKey: ['positionDraw', thriftSystemId] });
+      queryClient.invalidateQueries({ queryKey: ['preferences', thriftSystemId] });
+      queryClient.invalidateQueries({ queryKey: ['rotationSchedulePreview', thriftSystemId] });
+    },
+    onError: (error) => {
+      console.error("Error revealing draw:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to reveal draw");
+    }
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => cancelPositionDraw(pendingDraw!.id, cancelReason),
+    onSuccess: () => {
+      toast.success("Draw cancelled. Members have been told; a new draw needs most of them to agree.");
+      setSeed("");
+      setCancelReason("");
+      queryClient.invalidateQueries({ queryKey: ['positionDraw', thriftSystemId] });
+    },
+    onError: (error) => {
+      console.error("Error cancelling draw:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to cancel draw");
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Random Position Draw</DialogTitle>
+          <DialogDescription>
+            Commit to a secret seed first, then reveal it within 24 hours. The order also depends on
+            a salt drawn when the seed is revealed, and members can recompute it themselves.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : pendingDraw ? (
+          <div className="space-y-4">
+            <DrawAudit draw={pendingDraw} />
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                Save this seed somewhere safe. Without it the draw cannot be revealed.
+              </AlertDescription>
+            </Alert>
+            <div className="space-y-2">
+              <Label htmlFor="draw-seed">Seed</Label>
+              <Input
+                id="draw-seed"
+                className="font-mono"
+                value={seed}
+                onChange={(e) => setSeed(e.target.value)}
+                placeholder="Paste the seed you committed to"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="draw-cancel-reason">Lost the seed? Cancel the draw</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="draw-cancel-reason"
+                  value={cancelReason}
+                  onChange={(e) => setCancelReason(e.target.value)}
+                  placeholder="Reason, shown to members"
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => cancelMutation.mutate()}
+                  disabled={!cancelReason.trim() || cancelMutation.isPending}
+                >
+                  {cancelMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Cancel Draw
+                </Button>
+              </div>
+            </div>
+          </div>
+        ) : draw ? (
+          <DrawAudit draw={draw} />
+        ) : (
+          <p className="text-center text-muted-foreground py-4">No draw has been run yet</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          {pendingDraw ? (
+            <Button
+              onClick={() => revealMutation.mutate()}
+              disabled={!seed || revealMutation.isPending}
+            >
+              {revealMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Reveal Seed
+            </Button>
+          ) : (
+            <Button
+              onClick={() => commitMutation.mutate()}
+              disabled={awaitingConsent || commitMutation.isPending}
+            >
+              {commitMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {draw ? "Commit New Draw" : "Commit Seed"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PositionDrawDialog;
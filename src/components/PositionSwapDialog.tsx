@@ -0,0 +1,447 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  PositionSwap,
+  SwapPayout,
+  SWAP_STATUS_LABELS,
+  isOpenSwap,
+  fetchSwappablePayouts,
+  fetchPositionSwaps,
+  proposePositionSwap,
+  respondToPositionSwap,
+  decidePositionSwap,
+  cancelPositionSwap,
+} from "@/lib/position-swaps";
+import {
+  fetchPrioritySettings,
+  fetchPriorityPayoutMoves,
+  getRemainingPriorityMoves,
+  isPriorityPayoutEnabled,
+  requestPriorityPayout,
+} from "@/lib/priority-payouts";
+import { PRIORITY_FEE_POLICY_LABELS } from "@/constants/payouts";
+
+interface PositionSwapDialogProps {
+  open: boolean;
+  onClose: () => void;
+  thriftSystemId: string;
+  isAdmin?: boolean;
+}
+
+const describePayout = (payout?: SwapPayout | null) =>
+  payout
+    ? `#${payout.position} ${payout.profiles?.full_name || "Unknown Member"}${
+        payout.scheduled_date ? ` (${new Date(payout.scheduled_date).toLocaleDateString()})` : ""
+      }`
+    : "-";
+
+// Members offer and accept position trades here; the admin approves them
+const PositionSwapDialog = ({ open, onClose, thriftSystemId, isAdmin = false }: PositionSwapDialogProps) => {
+  const queryClient = useQueryClient();
+  const [myPayoutId, setMyPayoutId] = useState("");
+  const [theirPayoutId, setTheirPayoutId] = useState("");
+  const [compensation, setCompensation] = useState("");
+  const [message, setMessage] = useState("");
+  const [priorityPayoutId, setPriorityPayoutId] = useState("");
+  const [priorityTargetId, setPriorityTargetId] = useState("");
+
+  const { data: currentUser } = useQuery({
+    queryKey: ['currentUser'],
+    queryFn: async () => {
+      const { data: { user }, error } = await supabase.auth.getUser();
+      if (error) throw error;
+      return user;
+    },
+  });
+
+  const { data: payouts = [], isLoading: loadingPayouts } = useQuery({
+    queryKey: ['swappablePayouts', thriftSystemId],
+    queryFn: () => fetchSwappablePayouts(thriftSystemId),
+    enabled: open,
+  });
+
+  const { data: swaps = [], isLoading: loadingSwaps } = useQuery({
+    queryKey: ['positionSwaps', thriftSystemId],
+    queryFn: () => fetchPositionSwaps(thriftSystemId),
+    enabled: open,
+  });
+
+  const { data: prioritySettings } = useQuery({
+    queryKey: ['prioritySettings', thriftSystemId],
+    queryFn: () => fetchPrioritySettings(thriftSystemId),
+    enabled: open,
+  });
+
+  const { data: priorityMoves = [] } = useQuery({
+    queryKey: ['priorityMoves', thriftSystemId],
+    queryFn: () => fetchPriorityPayoutMoves(thriftSystemId),
+    enabled: open,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['positionSwaps', thriftSystemId] });
+    queryClient.invalidateQueries({ queryKey: ['priorityMoves', thriftSystemId] });
+    queryClient.invalidateQueries({ queryKey: ['swappablePayouts', thriftSystemId] });
+    queryClient.invalidateQueries({ queryKey: ['preferences', thriftSystemId] });
+    queryClient.invalidateQueries({ queryKey: ['payouts'] });
+    // A completed swap pays its compensation between wallets
+    queryClient.invalidateQueries({ queryKey: ['walletStatement'] });
+  };
+
+  const proposeMutation = useMutation({
+    mutationFn: () =>
+      proposePositionSwap(myPayoutId, theirPayoutId, compensation ? Number(compensation) : 0, message),
+    onSuccess: () => {
+      toast.success("Swap proposed. The other member has been notified.");
+      setTheirPayoutId("");
+      setCompensation("");
+      setMessage("");
+      refresh();
+    },
+    onError: (error) => {
+      console.error("Error proposing swap:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to propose swap");
+    }
+  });
+
+  const priorityMutation = useMutation({
+    mutationFn: () => requestPriorityPayout(priorityPayoutId, priorityTargetId),
+    onSuccess: () => {
+      toast.success("Priority fee paid. Your payout has moved up.");
+      setPriorityPayoutId("");
+      setPriorityTargetId("");
+      refresh();
+    },
+    onError: (error) => {
+      console.error("Error requesting priority payout:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to move your payout");
+    }
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: ({ swapId, accept }: { swapId: string; accept: boolean }) =>
+      respondToPositionSwap(swapId, accept),
+    onSuccess: (status) => {
+      toast.success(
+        status === 'completed'
+          ? "Swap completed. Your payout date has changed."
+          : status === 'accepted'
+            ? "Swap accepted. It now needs the admin's approval."
+            : "Swap declined"
+      );
+      refresh();
+    },
+    onError: (error) => {
+      console.error("Error responding to swap:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to respond to swap");
+    }
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: ({ swapId, approve }: { swapId: string; approve: boolean }) =>
+      decidePositionSwap(swapId, approve),
+    onSuccess: (status) => {
+      toast.success(status === 'completed' ? "Swap approved and payouts updated" : "Swap rejected");
+      refresh();
+    },
+    onError: (error) => {
+      console.error("Error deciding swap:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to decide swap");
+    }
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (swapId: string) => cancelPositionSwap(swapId),
+    onSuccess: () => {
+      toast.success("Swap cancelled");
+      refresh();
+    },
+    onError: (error) => {
+      console.error("Error cancelling swap:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to cancel swap");
+    }
+  });
+
+  const myPayouts = payouts.filter((payout) => payout.member_id === currentUser?.id);
+  const otherPayouts = payouts.filter((payout) => payout.member_id !== currentUser?.id);
+  const priorityPayout = myPayouts.find((payout) => payout.id === priorityPayoutId);
+  const priorityTargets = otherPayouts.filter(
+    (payout) => priorityPayout && payout.position < priorityPayout.position
+  );
+  const priorityEnabled = isPriorityPayoutEnabled(prioritySettings);
+  const remainingPriorityMoves = priorityEnabled ? getRemainingPriorityMoves(prioritySettings, priorityMoves) : 0;
+  const busy = respondMutation.isPending || decideMutation.isPending || cancelMutation.isPending;
+
+  const renderActions = (swap: PositionSwap) => {
+    if (swap.status === 'proposed' && swap.counterparty_id === currentUser?.id) {
+      return (
+        <div className="flex gap-2">
+          <Button size="sm" onClick={() => respondMutation.mutate({ swapId: swap.id, accept: true })} disabled={busy}>
+            Accept
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => respondMutation.mutate({ swapId: swap.id, accept: false })}
+            disabled={busy}
+          >
+            Decline
+          </Button>
+        </div>
+      );
+    }
+
+    if (swap.status === 'accepted' && isAdmin) {
+      return (
+        <div className="flex gap-2">
+          <Button size="sm" onClick={() => decideMutation.mutate({ swapId: swap.id, approve: true })} disabled={busy}>
+            Approve
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => decideMutation.mutate({ swapId: swap.id, approve: false })}
+            disabled={busy}
+          >
+            Reject
+          </Button>
+        </div>
+      );
+    }
+
+    if (isOpenSwap(swap) && swap.proposer_id === currentUser?.id) {
+      return (
+        <Button size="sm" variant="outline" onClick={() => cancelMutation.mutate(swap.id)} disabled={busy}>
+          Cancel
+        </Button>
+      );
+    }
+
+    return null;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Position Swaps</DialogTitle>
+          <DialogDescription>
+            Trade payout positions with another member. Both payout dates change together once the
+            other member accepts and, if this group requires it, the admin approves. Where the group
+            allows it, you can instead pay a priority fee to move up straight away.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loadingPayouts || loadingSwaps ? (
+          <div className="flex justify-center items-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {!isAdmin && (
+              myPayouts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">You have no upcoming payouts to trade.</p>
+              ) : (
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="swap-mine">Your position</Label>
+                    <Select value={myPayoutId} onValueChange={setMyPayoutId}>
+                      <SelectTrigger id="swap-mine">
+                        <SelectValue placeholder="Select your payout" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {myPayouts.map((payout) => (
+                          <SelectItem key={payout.id} value={payout.id}>
+                            {describePayout(payout)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="swap-theirs">Swap with</Label>
+                    <Select value={theirPayoutId} onValueChange={setTheirPayoutId}>
+                      <SelectTrigger id="swap-theirs">
+                        <SelectValue placeholder="Select a member's payout" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {otherPayouts.map((payout) => (
+                          <SelectItem key={payout.id} value={payout.id}>
+                            {describePayout(payout)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="swap-compensation">Compensation you will pay from your wallet (₦, optional)</Label>
+                    <Input
+                      id="swap-compensation"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={compensation}
+                      onChange={(e) => setCompensation(e.target.value)}
+                      placeholder="0"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="swap-message">Message (optional)</Label>
+                    <Input
+                      id="swap-message"
+                      value={message}
+                      onChange={(e) => setMessage(e.target.value)}
+                      placeholder="Why you would like to swap"
+                    />
+                  </div>
+                  <div className="sm:col-span-2">
+                    <Button
+                      onClick={() => proposeMutation.mutate()}
+                      disabled={!myPayoutId || !theirPayoutId || proposeMutation.isPending}
+                    >
+                      {proposeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Propose Swap
+                    </Button>
+                  </div>
+                </div>
+              )
+            )}
+
+            {priorityEnabled && (
+              <div className="space-y-4 rounded-md border p-4">
+                <div>
+                  <h3 className="font-medium">Priority payout</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Pay ₦{prioritySettings.priority_fee_amount} from your wallet to take an earlier position
+                    without waiting for the other member. The fee is{" "}
+                    {PRIORITY_FEE_POLICY_LABELS[prioritySettings.priority_fee_policy].toLowerCase()}.{" "}
+                    {remainingPriorityMoves} of {prioritySettings.priority_moves_per_cycle} priority moves left this cycle.
+                  </p>
+                </div>
+                {!isAdmin && myPayouts.length > 0 && remainingPriorityMoves > 0 && (
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="priority-mine">Your position</Label>
+                      <Select
+                        value={priorityPayoutId}
+                        onValueChange={(value) => {
+                          setPriorityPayoutId(value);
+                          setPriorityTargetId("");
+                        }}
+                      >
+                        <SelectTrigger id="priority-mine">
+                          <SelectValue placeholder="Select your payout" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {myPayouts.map((payout) => (
+                            <SelectItem key={payout.id} value={payout.id}>
+                              {describePayout(payout)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="priority-target">Move up to</Label>
+                      <Select value={priorityTargetId} onValueChange={setPriorityTargetId} disabled={!priorityPayout}>
+                        <SelectTrigger id="priority-target">
+                          <SelectValue placeholder="Select an earlier position" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {priorityTargets.map((payout) => (
+                            <SelectItem key={payout.id} value={payout.id}>
+                              {describePayout(payout)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="sm:col-span-2">
+                      <Button
+                        onClick={() => priorityMutation.mutate()}
+                        disabled={!priorityPayoutId || !priorityTargetId || priorityMutation.isPending}
+                      >
+                        {priorityMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Pay ₦{prioritySettings.priority_fee_amount} to Move Up
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {swaps.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No swaps have been proposed yet.</p>
+            ) : (
+              <div className="max-h-80 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Offered</TableHead>
+                      <TableHead>Requested</TableHead>
+                      <TableHead>Compensation</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {swaps.map((swap) => (
+                      <TableRow key={swap.id}>
+                        <TableCell>
+                          {describePayout(swap.proposer_payout)}
+                          {swap.message && (
+                            <p className="text-xs text-muted-foreground">{swap.message}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>{describePayout(swap.counterparty_payout)}</TableCell>
+                        <TableCell>{swap.compensation_amount > 0 ? `₦${swap.compensation_amount}` : "-"}</TableCell>
+                        <TableCell>
+                          <Badge variant={swap.status === 'completed' ? "default" : isOpenSwap(swap) ? "secondary" : "outline"}>
+                            {SWAP_STATUS_LABELS[swap.status]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{renderActions(swap)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PositionSwapDialog;
@@ -0,0 +1,161 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { previewRotationSchedule, commitRotationSchedule } from "@/lib/rotation-schedule";
+import { countSlotsBy, formatSlotName } from "@/lib/membership-slots";
+
+interface RotationSchedulePreviewProps {
+  open: boolean;
+  onClose: () => void;
+  thriftSystemId: string;
+}
+
+const RotationSchedulePreview = ({ open, onClose, thriftSystemId }: RotationSchedulePreviewProps) => {
+  const queryClient = useQueryClient();
+
+  const { data: schedule, isLoading, error } = useQuery({
+    queryKey: ['rotationSchedulePreview', thriftSystemId],
+    queryFn: () => previewRotationSchedule(thriftSystemId),
+    enabled: open,
+    retry: false,
+  });
+
+  const slotsByMember = countSlotsBy(schedule?.payouts || [], (payout) => payout.membership_id);
+
+  const commitMutation = useMutation({
+    mutationFn: () => commitRotationSchedule(schedule!),
+    onSuccess: (positions) => {
+      toast.success(`Schedule generated for ${positions} positions`);
+      queryClient.invalidateQueries({ queryKey: ['thriftSystem', thriftSystemId] });
+      queryClient.invalidateQueries({ queryKey: ['contributions', thriftSystemId] });
+      queryClient.invalidateQueries({ queryKey: ['preferences', thriftSystemId] });
+      onClose();
+    },
+    onError: (error) => {
+      console.error("Error generating schedule:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to generate schedule");
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Rotation Schedule Preview</DialogTitle>
+          <DialogDescription>
+            Review the payout order and contribution dates before activating this thrift system.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{(error as Error).message}</AlertDescription>
+          </Alert>
+        ) : schedule && (
+          <div className="space-y-4">
+            {schedule.warnings.map((warning) => (
+              <Alert key={warning}>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{warning}</AlertDescription>
+              </Alert>
+            ))}
+
+            <p className="text-sm text-muted-foreground">
+              {schedule.periods} periods, {schedule.contributions.length} contributions
+              and {schedule.payouts.length} payouts will be created.
+              {schedule.organizerFee > 0 && ` The organizer keeps ₦${schedule.organizerFee} in bid premiums.`}
+            </p>
+
+            {schedule.maturityDate ? (
+              <p className="text-sm text-muted-foreground">
+                Everyone's savings are paid out together when the group matures on{" "}
+                {new Date(schedule.maturityDate).toLocaleDateString()}.
+              </p>
+            ) : schedule.payouts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Payouts are decided by auction. Each round's winner is paid when the round closes.
+              </p>
+            ) : (
+              <div className="max-h-80 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Position</TableHead>
+                      <TableHead>Member</TableHead>
+                      <TableHead>Payout Date</TableHead>
+                      <TableHead>Bid Paid</TableHead>
+                      <TableHead>Premium Share</TableHead>
+                      <TableHead>Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {schedule.payouts.map((payout) => (
+                      <TableRow key={payout.position}>
+                        <TableCell>{payout.position}</TableCell>
+                        <TableCell>
+                          {formatSlotName(
+                            payout.full_name || "Unknown Member",
+                            payout.slot_number,
+                            slotsByMember.get(payout.membership_id) || 1
+                          )}
+                        </TableCell>
+                        <TableCell>{new Date(payout.scheduled_date).toLocaleDateString()}</TableCell>
+                        <TableCell>{payout.bid_premium > 0 ? `-₦${payout.bid_premium}` : "-"}</TableCell>
+                        <TableCell>{payout.premium_share > 0 ? `+₦${payout.premium_share}` : "-"}</TableCell>
+                        <TableCell>₦{payout.amount}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={commitMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => commitMutation.mutate()}
+            disabled={!schedule || commitMutation.isPending}
+          >
+            {commitMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Generating...
+              </>
+            ) : (
+              "Generate Schedule"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RotationSchedulePreview;
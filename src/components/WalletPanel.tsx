@@ -0,0 +1,278 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Wallet } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import PaymentCheckout from "@/components/PaymentCheckout";
+import {
+  PAYOUT_DESTINATION_LABELS,
+  PayoutDestination,
+  WALLET_ENTRY_LABELS,
+  fetchWalletStatement,
+  requestWalletWithdrawal,
+  updateWalletPreferences,
+} from "@/lib/wallet";
+
+// The signed-in user's wallet: balance, top-ups, withdrawals and how each
+// of their thrifts uses the wallet for contributions and payouts
+const WalletPanel = () => {
+  const queryClient = useQueryClient();
+  const [topupAmount, setTopupAmount] = useState("");
+  const [withdrawAmount, setWithdrawAmount] = useState("");
+  const [bankAccountId, setBankAccountId] = useState("");
+
+  const { data: currentUser } = useQuery({
+    queryKey: ['currentUser'],
+    queryFn: async () => {
+      const { data: { user }, error } = await supabase.auth.getUser();
+      if (error) throw error;
+      return user;
+    },
+  });
+
+  const { data: wallet, isLoading } = useQuery({
+    queryKey: ['walletStatement'],
+    queryFn: fetchWalletStatement,
+    enabled: Boolean(currentUser),
+  });
+
+  const { data: bankAccounts = [] } = useQuery({
+    queryKey: ['verifiedBankAccounts', currentUser?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('bank_accounts')
+        .select('id, bank_name, account_number')
+        .eq('user_id', currentUser!.id)
+        .eq('verification_status', 'verified');
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: Boolean(currentUser),
+  });
+
+  const { data: memberships = [] } = useQuery({
+    queryKey: ['walletMemberships', currentUser?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('memberships')
+        .select(`
+          id,
+          wallet_autopay,
+          payout_destination,
+          thrift_systems (
+            name
+          )
+        `)
+        .eq('user_id', currentUser!.id)
+        .eq('status', 'active');
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: Boolean(currentUser),
+  });
+
+  const withdrawMutation = useMutation({
+    mutationFn: () => requestWalletWithdrawal(bankAccountId, Number(withdrawAmount)),
+    onSuccess: () => {
+      toast.success("Withdrawal requested. The money is on its way to your bank account.");
+      setWithdrawAmount("");
+      queryClient.invalidateQueries({ queryKey: ['walletStatement'] });
+    },
+    onError: (error) => {
+      console.error("Error requesting withdrawal:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to request withdrawal");
+    }
+  });
+
+  const preferencesMutation = useMutation({
+    mutationFn: ({ membershipId, autopay, destination }: {
+      membershipId: string;
+      autopay: boolean;
+      destination: PayoutDestination;
+    }) => updateWalletPreferences(membershipId, autopay, destination),
+    onSuccess: () => {
+      toast.success("Wallet settings updated");
+      queryClient.invalidateQueries({ queryKey: ['walletMemberships'] });
+    },
+    onError: (error) => {
+      console.error("Error updating wallet settings:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update wallet settings");
+    }
+  });
+
+  const topupValue = Number(topupAmount);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="h-5 w-5" />
+          Wallet
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="bg-muted rounded-lg p-3">
+            <p className="text-xs text-muted-foreground">Available balance</p>
+            <p className="text-2xl font-semibold">₦{wallet?.balance ?? 0}</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <h3 className="font-medium">Top up</h3>
+            <Label htmlFor="topupAmount">Amount (₦)</Label>
+            <div className="flex gap-2">
+              <Input
+                id="topupAmount"
+                type="number"
+                min="0"
+                value={topupAmount}
+                onChange={(e) => setTopupAmount(e.target.value)}
+              />
+              {topupValue > 0 && (
+                <PaymentCheckout
+                  amount={topupValue}
+                  currency="NGN"
+                  description="Wallet top-up"
+                  purpose="wallet_topup"
+                  onPaymentSuccess={() => {
+                    // The server credits the wallet once the gateway confirms the payment
+                    toast.success("Wallet topped up");
+                    setTopupAmount("");
+                    queryClient.invalidateQueries({ queryKey: ['walletStatement'] });
+                  }}
+                />
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="font-medium">Withdraw</h3>
+            {bankAccounts.length > 0 ? (
+              <>
+                <Select value={bankAccountId} onValueChange={setBankAccountId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a verified bank account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {bankAccounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.bank_name} •••• {account.account_number.slice(-4)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    placeholder="Amount (₦)"
+                    value={withdrawAmount}
+                    onChange={(e) => setWithdrawAmount(e.target.value)}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => withdrawMutation.mutate()}
+                    disabled={!bankAccountId || !withdrawAmount || withdrawMutation.isPending}
+                  >
+                    Withdraw
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Add and verify a bank account to withdraw from your wallet.
+              </p>
+            )}
+          </div>
+        </div>
+
+        {memberships.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-medium">Thrift settings</h3>
+            {memberships.map((membership) => (
+              <div key={membership.id} className="flex flex-wrap justify-between items-center gap-4 text-sm p-2 border rounded-md">
+                <span>{membership.thrift_systems?.name}</span>
+                <div className="flex items-center gap-4">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`autopay-${membership.id}`}
+                      checked={membership.wallet_autopay}
+                      onCheckedChange={(checked) => preferencesMutation.mutate({
+                        membershipId: membership.id,
+                        autopay: checked,
+                        destination: membership.payout_destination as PayoutDestination,
+                      })}
+                      disabled={preferencesMutation.isPending}
+                    />
+                    <Label htmlFor={`autopay-${membership.id}`}>Pay contributions from wallet</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-muted-foreground">Payouts to</span>
+                    <Select
+                      value={membership.payout_destination}
+                      onValueChange={(value) => preferencesMutation.mutate({
+                        membershipId: membership.id,
+                        autopay: membership.wallet_autopay,
+                        destination: value as PayoutDestination,
+                      })}
+                      disabled={preferencesMutation.isPending}
+                    >
+                      <SelectTrigger className="w-[150px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(PAYOUT_DESTINATION_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {wallet && wallet.entries.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-medium">Recent activity</h3>
+            {wallet.entries.map((entry) => (
+              <div key={entry.id} className="flex justify-between text-sm p-2 border rounded-md">
+                <span>
+                  {WALLET_ENTRY_LABELS[entry.entry_type] || entry.entry_type}
+                  {entry.thrift_name && ` · ${entry.thrift_name}`}
+                  <span className="text-muted-foreground ml-2">
+                    {new Date(entry.created_at).toLocaleDateString()}
+                  </span>
+                </span>
+                <span className={entry.amount < 0 ? "text-red-600" : "text-green-700"}>
+                  {entry.amount < 0 ? "-" : "+"}₦{Math.abs(entry.amount)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WalletPanel;
@@ -0,0 +1,99 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { PaymentMethod } from "@/types/database";
+import { deletePaymentMethod, setDefaultPaymentMethod } from "@/lib/payment-methods";
+
+interface SavedPaymentMethodListProps {
+  methods: PaymentMethod[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+}
+
+const describe = (method: PaymentMethod) =>
+  method.type === "card" ? `${method.brand || "Card"} •••• ${method.last4}` : method.name || `•••• ${method.last4}`;
+
+// The member's saved methods of one kind, to pay with, make the default or
+// remove
+const SavedPaymentMethodList = ({ methods, selectedId, onSelect }: SavedPaymentMethodListProps) => {
+  const queryClient = useQueryClient();
+
+  const setDefaultMutation = useMutation({
+    mutationFn: setDefaultPaymentMethod,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payment-methods'] });
+      toast.success("Default payment method updated");
+    },
+    onError: (error) => {
+      console.error("Error setting default payment method:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update the default payment method");
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deletePaymentMethod,
+    onSuccess: (_, id) => {
+      if (id === selectedId) onSelect("");
+      queryClient.invalidateQueries({ queryKey: ['payment-methods'] });
+      toast.success("Payment method removed");
+    },
+    onError: (error) => {
+      console.error("Error removing payment method:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to remove the payment method");
+    }
+  });
+
+  if (methods.length === 0) return null;
+
+  return (
+    <div className="mb-4">
+      <RadioGroup value={selectedId} onValueChange={onSelect} className="space-y-2">
+        {methods.map((method) => (
+          <div key={method.id} className="flex items-center space-x-2 border p-3 rounded-md">
+            <RadioGroupItem value={method.id} id={method.id} />
+            <Label htmlFor={method.id} className="flex-1 cursor-pointer">
+              <div className="flex justify-between items-center gap-2">
+                <span className="flex items-center gap-2">
+                  {describe(method)}
+                  {method.is_default && <Badge variant="secondary">Default</Badge>}
+                </span>
+                <span className="text-muted-foreground text-sm">
+                  {method.type === "card" ? method.expiry : method.is_tokenized ? method.gateway : null}
+                </span>
+              </div>
+            </Label>
+            {!method.is_default && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setDefaultMutation.mutate(method.id)}
+                disabled={setDefaultMutation.isPending}
+              >
+                Make default
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label="Remove payment method"
+              onClick={() => deleteMutation.mutate(method.id)}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending && deleteMutation.variables === method.id ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Trash2 className="h-4 w-4" />
+              )}
+            </Button>
+          </div>
+        ))}
+      </RadioGroup>
+    </div>
+  );
+};
+
+export default SavedPaymentMethodList;
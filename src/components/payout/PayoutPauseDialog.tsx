@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { pausePayouts } from "@/lib/payout-pauses";
+
+interface PayoutPauseDialogProps {
+  open: boolean;
+  onClose: () => void;
+  thriftSystemId: string;
+  // Pauses every payout of the thrift that can be paused when omitted
+  payoutId?: string;
+  // Shown in the title, e.g. "position 3"
+  label: string;
+  onPaused: () => void;
+}
+
+// Asks the admin why payouts are being held back and until when
+const PayoutPauseDialog = ({ open, onClose, thriftSystemId, payoutId, label, onPaused }: PayoutPauseDialogProps) => {
+  const [reason, setReason] = useState("");
+  const [resumeDate, setResumeDate] = useState("");
+
+  const pauseMutation = useMutation({
+    mutationFn: () =>
+      pausePayouts({
+        thriftSystemId,
+        payoutId,
+        reason,
+        resumeAt: resumeDate ? new Date(resumeDate) : null,
+      }),
+    onSuccess: (count) => {
+      toast.success(`${count} ${count === 1 ? "payout" : "payouts"} paused. Members have been notified.`);
+      setReason("");
+      setResumeDate("");
+      onPaused();
+      onClose();
+    },
+    onError: (error) => {
+      console.error("Error pausing payouts:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to pause payouts");
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Pause {label}</DialogTitle>
+          <DialogDescription>
+            Paused payouts are skipped by the payout processor until you resume them or the resume
+            date passes. The affected members are told why.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="pause-reason">Reason</Label>
+            <Textarea
+              id="pause-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Why these payouts are on hold"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pause-resume-date">Resume automatically on (optional)</Label>
+            <Input
+              id="pause-resume-date"
+              type="date"
+              value={resumeDate}
+              onChange={(e) => setResumeDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => pauseMutation.mutate()} disabled={!reason.trim() || pauseMutation.isPending}>
+            {pauseMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Pause
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PayoutPauseDialog;
@@ -39,6 +39,10 @@ import {
  *   processingFee?: number;
  *   notes?: string;
  *   metadata?: Record<string, any>;
+ *   priority_fee?: number | null;
+ *   priority_moved_from?: number | null;
+ *   priority_displaced_from?: number | null;
+ *   priority_bonus?: number;
  *   [key: string]: any;
  * }
  */
@@ -61,6 +65,12 @@ interface PayoutData {
   processingFee?: number;
   notes?: string;
   metadata?: Record<string, any>;
+  // Set when a priority fee moved this payout up or another member's
+  // priority move pushed it back
+  priority_fee?: number | null;
+  priority_moved_from?: number | null;
+  priority_displaced_from?: number | null;
+  priority_bonus?: number;
   [key: string]: any;
 }
 
@@ -229,6 +239,35 @@ const PayoutTable: React.FC<PayoutTableProps> = ({
     );
   };
 
+  /**
+   * Render what paid priority moves did to a payout
+   */
+  const getPriorityBadges = (payout: PayoutData) => {
+    const badges: React.ReactNode[] = [];
+    if (payout.priority_fee > 0) {
+      badges.push(
+        <Badge key="moved" className="bg-purple-100 text-purple-800">
+          Moved up from #{payout.priority_moved_from} ({formatCurrency(payout.priority_fee)} fee)
+        </Badge>
+      );
+    }
+    if (payout.priority_displaced_from) {
+      badges.push(
+        <Badge key="displaced" variant="outline">
+          Moved back from #{payout.priority_displaced_from}
+        </Badge>
+      );
+    }
+    if (payout.priority_bonus > 0) {
+      badges.push(
+        <Badge key="bonus" className="bg-green-100 text-green-800">
+          +{formatCurrency(payout.priority_bonus)} bonus
+        </Badge>
+      );
+    }
+    return badges.length ? <div className="flex flex-wrap gap-1">{badges}</div> : "-";
+  };
+
   /**
    * If no payouts after filtering
    */
@@ -300,6 +339,7 @@ const PayoutTable: React.FC<PayoutTableProps> = ({
                 >
                   Status {renderSortIndicator("status")}
                 </TableHead>
+                <TableHead>Priority</TableHead>
                 <TableHead className="text-right">Actions</TableHead>
               </TableRow>
             </TableHeader>
@@ -316,6 +356,7 @@ const PayoutTable: React.FC<PayoutTableProps> = ({
                     </TableCell>
                     <TableCell>{formatDate(payout.scheduled_date)}</TableCell>
                     <TableCell>{getStatusBadge(payout.status)}</TableCell>
+                    <TableCell>{getPriorityBadges(payout)}</TableCell>
                     <TableCell className="text-right">
                       <input
                         type="checkbox"
@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertCircle, Download, Loader2, Scale, Upload } from "lucide-react";
+import { toast } from "sonner";
+import {
+  RECONCILIATION_EXCEPTION_KIND_LABELS,
+  RECONCILIATION_RESOLUTION_LABELS,
+  SETTLEMENT_GATEWAYS,
+} from "@/constants/reconciliation";
+import {
+  fetchReconciliationExceptions,
+  fetchSettlementReports,
+  importSettlementReport,
+  parseSettlementReport,
+  pullSettlementReport,
+  ReconciliationException,
+  SettlementGateway,
+} from "@/lib/reconciliation";
+import ResolveExceptionDialog from "./ResolveExceptionDialog";
+
+// Where platform admins check what the gateways settled against what the
+// app recorded as paid, and clear whatever does not match
+const ReconciliationPanel = () => {
+  const queryClient = useQueryClient();
+  const [gateway, setGateway] = useState<SettlementGateway>("paystack");
+  const [periodStart, setPeriodStart] = useState("");
+  const [periodEnd, setPeriodEnd] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [minorUnits, setMinorUnits] = useState(false);
+  const [selectedReportId, setSelectedReportId] = useState<string>("all");
+  const [resolving, setResolving] = useState<ReconciliationException | null>(null);
+
+  const { data: reports = [], isLoading: loadingReports } = useQuery({
+    queryKey: ['settlementReports'],
+    queryFn: fetchSettlementReports,
+  });
+
+  const { data: exceptions = [], isLoading: loadingExceptions, error } = useQuery({
+    queryKey: ['reconciliationExceptions', selectedReportId],
+    queryFn: () => fetchReconciliationExceptions(selectedReportId !== "all" ? selectedReportId : undefined),
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['settlementReports'] });
+    queryClient.invalidateQueries({ queryKey: ['reconciliationExceptions'] });
+  };
+
+  const onImported = (reportId: string) => {
+    toast.success("Settlement report reconciled");
+    setFile(null);
+    setSelectedReportId(reportId);
+    refresh();
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const lines = parseSettlementReport(await file!.text(), { minorUnits });
+      return importSettlementReport({ gateway, periodStart, periodEnd, lines, fileName: file!.name });
+    },
+    onSuccess: onImported,
+    onError: (error) => {
+      console.error("Error importing settlement report:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to import the settlement report");
+    }
+  });
+
+  const pullMutation = useMutation({
+    mutationFn: () => pullSettlementReport(gateway, periodStart, periodEnd),
+    onSuccess: onImported,
+    onError: (error) => {
+      console.error("Error pulling settlements:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to pull settlements from the gateway");
+    }
+  });
+
+  const busy = importMutation.isPending || pullMutation.isPending;
+  const hasPeriod = Boolean(periodStart && periodEnd);
+  const openCount = exceptions.filter((exception) => exception.status === "open").length;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Settlement Reconciliation
+          </CardTitle>
+          <CardDescription>
+            Upload a gateway's settlement export, or pull it straight from the gateway, to match it against
+            recorded payments and contributions.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="settlement-gateway">Gateway</Label>
+              <Select value={gateway} onValueChange={(value) => setGateway(value as SettlementGateway)}>
+                <SelectTrigger id="settlement-gateway">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SETTLEMENT_GATEWAYS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settlement-start">From</Label>
+              <Input
+                id="settlement-start"
+                type="date"
+                value={periodStart}
+                onChange={(e) => setPeriodStart(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settlement-end">To</Label>
+              <Input
+                id="settlement-end"
+                type="date"
+                value={periodEnd}
+                onChange={(e) => setPeriodEnd(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="settlement-file">Settlement report (CSV or JSON)</Label>
+              <Input
+                id="settlement-file"
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Checkbox
+                id="settlement-minor-units"
+                checked={minorUnits}
+                onCheckedChange={(checked) => setMinorUnits(checked === true)}
+              />
+              <Label htmlFor="settlement-minor-units">Amounts are in kobo or cents</Label>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={() => importMutation.mutate()} disabled={!file || !hasPeriod || busy}>
+              {importMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Import report
+            </Button>
+            <Button variant="outline" onClick={() => pullMutation.mutate()} disabled={!hasPeriod || busy}>
+              {pullMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+              Pull from {SETTLEMENT_GATEWAYS[gateway]}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+            <div>
+              <CardTitle>Exceptions</CardTitle>
+              <CardDescription>{openCount} open</CardDescription>
+            </div>
+            <Select value={selectedReportId} onValueChange={setSelectedReportId} disabled={loadingReports}>
+              <SelectTrigger className="w-full sm:w-[320px]">
+                <SelectValue placeholder="Select report" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All reports</SelectItem>
+                {reports.map((report) => (
+                  <SelectItem key={report.id} value={report.id}>
+                    {SETTLEMENT_GATEWAYS[report.gateway as SettlementGateway] ?? report.gateway}:{" "}
+                    {report.period_start} to {report.period_end}
+                    {report.source === "adapter" ? " (pulled)" : report.file_name ? ` (${report.file_name})` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loadingExceptions ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : error ? (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error instanceof Error ? error.message : "Failed to load exceptions"}</AlertDescription>
+            </Alert>
+          ) : exceptions.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Exception</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead className="text-right">Recorded</TableHead>
+                  <TableHead className="text-right">Settled</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {exceptions.map((exception) => (
+                  <TableRow key={exception.id}>
+                    <TableCell>{RECONCILIATION_EXCEPTION_KIND_LABELS[exception.kind]}</TableCell>
+                    <TableCell className="font-mono text-xs">{exception.reference ?? "—"}</TableCell>
+                    <TableCell className="text-right">₦{exception.expected_amount ?? 0}</TableCell>
+                    <TableCell className="text-right">₦{exception.settled_amount ?? 0}</TableCell>
+                    <TableCell>
+                      {exception.status === "open" ? (
+                        <Badge variant="destructive">Open</Badge>
+                      ) : (
+                        <div className="space-y-1">
+                          <Badge variant="success">
+                            {exception.resolution ? RECONCILIATION_RESOLUTION_LABELS[exception.resolution] : "Resolved"}
+                          </Badge>
+                          {exception.resolution_note && (
+                            <p className="text-xs text-muted-foreground">{exception.resolution_note}</p>
+                          )}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {exception.status === "open" && (
+                        <Button size="sm" variant="outline" onClick={() => setResolving(exception)}>
+                          Resolve
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-center text-muted-foreground py-4">
+              {reports.length > 0 ? "Everything settled matches what was recorded" : "No settlement reports imported yet"}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <ResolveExceptionDialog
+        exception={resolving}
+        onClose={() => setResolving(null)}
+        onResolved={refresh}
+      />
+    </div>
+  );
+};
+
+export default ReconciliationPanel;
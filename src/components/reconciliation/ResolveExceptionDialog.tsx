@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { RECONCILIATION_EXCEPTION_KIND_LABELS, RECONCILIATION_RESOLUTION_LABELS, RECONCILIATION_RESOLUTIONS } from "@/constants/reconciliation";
+import { ReconciliationException, resolveReconciliationException } from "@/lib/reconciliation";
+
+type Resolution = Parameters<typeof resolveReconciliationException>[1];
+
+interface ResolveExceptionDialogProps {
+  exception: ReconciliationException | null;
+  onClose: () => void;
+  onResolved: () => void;
+}
+
+const RESOLUTIONS: Resolution[] = [
+  RECONCILIATION_RESOLUTIONS.ACCEPTED,
+  RECONCILIATION_RESOLUTIONS.CORRECTED,
+  RECONCILIATION_RESOLUTIONS.WRITTEN_OFF,
+];
+
+// Records how an admin settled a reconciliation exception, and why
+const ResolveExceptionDialog = ({ exception, onClose, onResolved }: ResolveExceptionDialogProps) => {
+  const [resolution, setResolution] = useState<Resolution>(RECONCILIATION_RESOLUTIONS.ACCEPTED);
+  const [note, setNote] = useState("");
+
+  const resolveMutation = useMutation({
+    mutationFn: () => resolveReconciliationException(exception!.id, resolution, note),
+    onSuccess: () => {
+      toast.success("Exception resolved");
+      setResolution(RECONCILIATION_RESOLUTIONS.ACCEPTED);
+      setNote("");
+      onResolved();
+      onClose();
+    },
+    onError: (error) => {
+      console.error("Error resolving reconciliation exception:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to resolve the exception");
+    }
+  });
+
+  return (
+    <Dialog open={Boolean(exception)} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Resolve {exception && RECONCILIATION_EXCEPTION_KIND_LABELS[exception.kind].toLowerCase()}</DialogTitle>
+          <DialogDescription>
+            {exception?.reference ? `Reference ${exception.reference}. ` : ""}
+            Recorded ₦{exception?.expected_amount ?? 0}, settled ₦{exception?.settled_amount ?? 0}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="resolution">Resolution</Label>
+            <Select value={resolution} onValueChange={(value) => setResolution(value as Resolution)}>
+              <SelectTrigger id="resolution">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RESOLUTIONS.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {RECONCILIATION_RESOLUTION_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="resolution-note">Note</Label>
+            <Textarea
+              id="resolution-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="What was found and what was done about it"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => resolveMutation.mutate()} disabled={!note.trim() || resolveMutation.isPending}>
+            {resolveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Resolve
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ResolveExceptionDialog;
@@ -22,4 +22,30 @@ export const PAYOUT_STATUS_TYPES = Object.freeze({
   });
   
   // Default number of items per page for pagination
-  export const ITEMS_PER_PAGE = 10;
\ No newline at end of file
+  export const ITEMS_PER_PAGE = 10;
+
+  // Where winning bid premiums go, configured per thrift system
+  export const BID_PREMIUM_POLICIES = Object.freeze({
+    SHARED_UNPAID: "shared_unpaid",
+    ORGANIZER_FEE: "organizer_fee",
+    LAST_PAYOUT: "last_payout",
+  });
+
+  export const BID_PREMIUM_POLICY_LABELS = Object.freeze({
+    [BID_PREMIUM_POLICIES.SHARED_UNPAID]: "Shared equally among members not yet paid",
+    [BID_PREMIUM_POLICIES.ORGANIZER_FEE]: "Kept by the organizer as a fee",
+    [BID_PREMIUM_POLICIES.LAST_PAYOUT]: "Added to the last payout",
+  });
+
+  // Where fees for priority payout moves go, configured per thrift system
+  export const PRIORITY_FEE_POLICIES = Object.freeze({
+    ORGANIZER_FEE: "organizer_fee",
+    BONUS_POOL: "bonus_pool",
+    COMPENSATE_DISPLACED: "compensate_displaced",
+  });
+
+  export const PRIORITY_FEE_POLICY_LABELS = Object.freeze({
+    [PRIORITY_FEE_POLICIES.ORGANIZER_FEE]: "Kept by the organizer as a fee",
+    [PRIORITY_FEE_POLICIES.BONUS_POOL]: "Shared among members not yet paid",
+    [PRIORITY_FEE_POLICIES.COMPENSATE_DISPLACED]: "Paid to the member who is moved back",
+  });
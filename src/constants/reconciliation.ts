@@ -0,0 +1,42 @@
+/**
+ * Settlement reconciliation constants
+ */
+
+// What a reconciliation exception flags
+export const RECONCILIATION_EXCEPTION_KINDS = Object.freeze({
+  AMOUNT_MISMATCH: "amount_mismatch",
+  CURRENCY_MISMATCH: "currency_mismatch",
+  NO_CONTRIBUTION: "no_contribution",
+  UNSETTLED_CONTRIBUTION: "unsettled_contribution",
+  UNVERIFIED_PAYMENT: "unverified_payment",
+});
+
+export const RECONCILIATION_EXCEPTION_KIND_LABELS = Object.freeze({
+  [RECONCILIATION_EXCEPTION_KINDS.AMOUNT_MISMATCH]: "Amount differs",
+  [RECONCILIATION_EXCEPTION_KINDS.CURRENCY_MISMATCH]: "Currency differs",
+  [RECONCILIATION_EXCEPTION_KINDS.NO_CONTRIBUTION]: "Payment without a contribution",
+  [RECONCILIATION_EXCEPTION_KINDS.UNSETTLED_CONTRIBUTION]: "Contribution not settled",
+  [RECONCILIATION_EXCEPTION_KINDS.UNVERIFIED_PAYMENT]: "Paid outside any gateway",
+});
+
+// How an admin can resolve one. Settled later is only set by a later report.
+export const RECONCILIATION_RESOLUTIONS = Object.freeze({
+  ACCEPTED: "accepted",
+  CORRECTED: "corrected",
+  WRITTEN_OFF: "written_off",
+  SETTLED_LATER: "settled_later",
+});
+
+export const RECONCILIATION_RESOLUTION_LABELS = Object.freeze({
+  [RECONCILIATION_RESOLUTIONS.ACCEPTED]: "Accepted as is",
+  [RECONCILIATION_RESOLUTIONS.CORRECTED]: "Corrected",
+  [RECONCILIATION_RESOLUTIONS.WRITTEN_OFF]: "Written off",
+  [RECONCILIATION_RESOLUTIONS.SETTLED_LATER]: "Settled in a later report",
+});
+
+// Gateways that settlement reports can be imported for
+export const SETTLEMENT_GATEWAYS = Object.freeze({
+  paystack: "Paystack",
+  flutterwave: "Flutterwave",
+  stripe: "Stripe",
+});
@@ -104,6 +104,122 @@ export type Database = {
         }
         Relationships: []
       }
+      auction_bids: {
+        Row: {
+          created_at: string
+          id: string
+          member_id: string
+          round_id: string
+          take_amount: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          member_id: string
+          round_id: string
+          take_amount: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          member_id?: string
+          round_id?: string
+          take_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "auction_bids_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "auction_bids_round_id_fkey"
+            columns: ["round_id"]
+            isOneToOne: false
+            referencedRelation: "auction_rounds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      auction_rounds: {
+        Row: {
+          closed_at: string | null
+          commission_amount: number
+          dividend_amount: number | null
+          id: string
+          min_take: number
+          opened_at: string
+          payout_id: string | null
+          period_number: number
+          pot_amount: number
+          status: string
+          thrift_system_id: string
+          winner_id: string | null
+          winning_take: number | null
+        }
+        Insert: {
+          closed_at?: string | null
+          commission_amount?: number
+          dividend_amount?: number | null
+          id?: string
+          min_take: number
+          opened_at?: string
+          payout_id?: string | null
+          period_number: number
+          pot_amount: number
+          status?: string
+          thrift_system_id: string
+          winner_id?: string | null
+          winning_take?: number | null
+        }
+        Update: {
+          closed_at?: string | null
+          commission_amount?: number
+          dividend_amount?: number | null
+          id?: string
+          min_take?: number
+          opened_at?: string
+          payout_id?: string | null
+          period_number?: number
+          pot_amount?: number
+          status?: string
+          thrift_system_id?: string
+          winner_id?: string | null
+          winning_take?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "auction_rounds_payout_id_fkey"
+            columns: ["payout_id"]
+            isOneToOne: false
+            referencedRelation: "payouts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "auction_rounds_thrift_system_id_fkey"
+            columns: ["thrift_system_id"]
+            isOneToOne: false
+            referencedRelation: "mv_thrift_analytics"
+            referencedColumns: ["thrift_system_id"]
+          },
+          {
+            foreignKeyName: "auction_rounds_thrift_system_id_fkey"
+            columns: ["thrift_system_id"]
+            isOneToOne: false
+            referencedRelation: "thrift_systems"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "auction_rounds_winner_id_fkey"
+            columns: ["winner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       bank_accounts: {
         Row: {
           account_name: string
@@ -140,6 +256,86 @@ export type Database = {
         }
         Relationships: []
       }
+      contribution_payments: {
+        Row: {
+          amount: number
+          id: string
+          membership_id: string
+          paid_at: string
+          recorded_by: string | null
+          reference: string | null
+          refunded_amount: number
+        }
+        Insert: {
+          amount: number
+          id?: string
+          membership_id: string
+          paid_at?: string
+          recorded_by?: string | null
+          reference?: string | null
+          refunded_amount?: number
+        }
+        Update: {
+          amount?: number
+          id?: string
+          membership_id?: string
+          paid_at?: string
+          recorded_by?: string | null
+          reference?: string | null
+          refunded_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contribution_payments_membership_id_fkey"
+            columns: ["membership_id"]
+            isOneToOne: false
+            referencedRelation: "memberships"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contribution_payments_recorded_by_fkey"
+            columns: ["recorded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contribution_penalties: {
+        Row: {
+          amount: number
+          contribution_id: string
+          created_at: string
+          id: string
+          penalty_date: string
+          reason: string
+        }
+        Insert: {
+          amount: number
+          contribution_id: string
+          created_at?: string
+          id?: string
+          penalty_date: string
+          reason: string
+        }
+        Update: {
+          amount?: number
+          contribution_id?: string
+          created_at?: string
+          id?: string
+          penalty_date?: string
+          reason?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contribution_penalties_contribution_id_fkey"
+            columns: ["contribution_id"]
+            isOneToOne: false
+            referencedRelation: "contributions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       contributions: {
         Row: {
           amount: number
@@ -150,6 +346,8 @@ export type Database = {
           paid_date: string | null
           payment_intent_id: string | null
           payment_provider: string | null
+          period_number: number | null
+          slot_number: number
           status: string
         }
         Insert: {
@@ -161,6 +359,8 @@ export type Database = {
           paid_date?: string | null
           payment_intent_id?: string | null
           payment_provider?: string | null
+          period_number?: number | null
+          slot_number?: number
           status: string
         }
         Update: {
@@ -172,6 +372,8 @@ export type Database = {
           paid_date?: string | null
           payment_intent_id?: string | null
           payment_provider?: string | null
+          period_number?: number | null
+          slot_number?: number
           status?: string
         }
         Relationships: [
@@ -212,30 +414,36 @@ export type Database = {
         Row: {
           actual_position: number | null
           bid_amount: number | null
+          bid_premium: number
           created_at: string | null
           id: string
           member_id: string | null
           preferred_position: number
+          slot_number: number
           status: string | null
           thrift_system_id: string | null
         }
         Insert: {
           actual_position?: number | null
           bid_amount?: number | null
+          bid_premium?: number
           created_at?: string | null
           id?: string
           member_id?: string | null
           preferred_position: number
+          slot_number?: number
           status?: string | null
           thrift_system_id?: string | null
         }
         Update: {
           actual_position?: number | null
           bid_amount?: number | null
+          bid_premium?: number
           created_at?: string | null
           id?: string
           member_id?: string | null
           preferred_position?: number
+          slot_number?: number
           status?: string | null
           thrift_system_id?: string | null
         }
@@ -263,6 +471,62 @@ export type Database = {
           },
         ]
       }
+      dividend_credits: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          member_id: string
+          round_id: string
+          thrift_system_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          member_id: string
+          round_id: string
+          thrift_system_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          member_id?: string
+          round_id?: string
+          thrift_system_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dividend_credits_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dividend_credits_round_id_fkey"
+            columns: ["round_id"]
+            isOneToOne: false
+            referencedRelation: "auction_rounds"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dividend_credits_thrift_system_id_fkey"
+            columns: ["thrift_system_id"]
+            isOneToOne: false
+            referencedRelation: "mv_thrift_analytics"
+            referencedColumns: ["thrift_system_id"]
+          },
+          {
+            foreignKeyName: "dividend_credits_thrift_system_id_fkey"
+            columns: ["thrift_system_id"]
+            isOneToOne: false
+            referencedRelation: "thrift_systems"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       driver_profiles: {
         Row: {
           created_at: string | null
@@ -320,6 +584,33 @@ export type Database = {
         }
         Relationships: []
       }
+      gateway_webhook_events: {
+        Row: {
+          event_type: string
+          id: string
+          outcome: string
+          provider: string
+          received_at: string
+          reference: string | null
+        }
+        Insert: {
+          event_type: string
+          id: string
+          outcome: string
+          provider: string
+          received_at?: string
+          reference?: string | null
+        }
+        Update: {
+          event_type?: string
+          id?: string
+          outcome?: string
+          provider?: string
+          received_at?: string
+          reference?: string | null
+        }
+        Relationships: []
+      }
       group_members: {
         Row: {
           created_at: string
@@ -437,120 +728,552 @@ export type Database = {
           },
         ]
       }
-      memberships: {
+      guarantor_calls: {
         Row: {
+          called_at: string
+          contribution_id: string
+          guarantee_id: string
           id: string
-          join_date: string | null
-          role: string
+          paid_at: string | null
           status: string
-          thrift_system_id: string | null
-          user_id: string | null
         }
         Insert: {
+          called_at?: string
+          contribution_id: string
+          guarantee_id: string
           id?: string
-          join_date?: string | null
-          role?: string
-          status: string
-          thrift_system_id?: string | null
-          user_id?: string | null
+          paid_at?: string | null
+          status?: string
         }
         Update: {
+          called_at?: string
+          contribution_id?: string
+          guarantee_id?: string
           id?: string
-          join_date?: string | null
-          role?: string
+          paid_at?: string | null
           status?: string
-          thrift_system_id?: string | null
-          user_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "memberships_thrift_system_id_fkey"
-            columns: ["thrift_system_id"]
-            isOneToOne: false
-            referencedRelation: "mv_thrift_analytics"
-            referencedColumns: ["thrift_system_id"]
-          },
-          {
-            foreignKeyName: "memberships_thrift_system_id_fkey"
-            columns: ["thrift_system_id"]
+            foreignKeyName: "guarantor_calls_contribution_id_fkey"
+            columns: ["contribution_id"]
             isOneToOne: false
-            referencedRelation: "thrift_systems"
+            referencedRelation: "contributions"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "memberships_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "guarantor_calls_guarantee_id_fkey"
+            columns: ["guarantee_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "membership_guarantors"
             referencedColumns: ["id"]
           },
         ]
       }
-      messages: {
+      guarantor_invitations: {
         Row: {
-          attachment_url: string | null
-          content: string
-          created_at: string | null
+          created_at: string
+          email: string
           id: string
-          read: boolean | null
-          receiver_id: string | null
-          ride_id: string | null
-          sender_id: string | null
-          updated_at: string | null
+          membership_id: string
         }
         Insert: {
-          attachment_url?: string | null
-          content: string
-          created_at?: string | null
+          created_at?: string
+          email: string
           id?: string
-          read?: boolean | null
-          receiver_id?: string | null
-          ride_id?: string | null
-          sender_id?: string | null
-          updated_at?: string | null
+          membership_id: string
         }
         Update: {
-          attachment_url?: string | null
-          content?: string
-          created_at?: string | null
+          created_at?: string
+          email?: string
           id?: string
-          read?: boolean | null
-          receiver_id?: string | null
-          ride_id?: string | null
-          sender_id?: string | null
-          updated_at?: string | null
+          membership_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "messages_ride_id_fkey"
-            columns: ["ride_id"]
+            foreignKeyName: "guarantor_invitations_membership_id_fkey"
+            columns: ["membership_id"]
             isOneToOne: false
-            referencedRelation: "rides"
+            referencedRelation: "memberships"
             referencedColumns: ["id"]
           },
         ]
       }
-      notification_templates: {
+      guarantor_receivables: {
         Row: {
-          body: string
-          created_at: string | null
+          amount: number
+          amount_recovered: number
+          contribution_id: string
+          created_at: string
+          debtor_id: string
+          guarantor_id: string
           id: string
-          name: string
-          title: string
-          type: string
-          updated_at: string | null
+          membership_id: string
+          payment_id: string | null
+          settled_at: string | null
+          status: string
         }
         Insert: {
-          body: string
-          created_at?: string | null
+          amount: number
+          amount_recovered?: number
+          contribution_id: string
+          created_at?: string
+          debtor_id: string
+          guarantor_id: string
           id?: string
-          name: string
-          title: string
-          type: string
-          updated_at?: string | null
+          membership_id: string
+          payment_id?: string | null
+          settled_at?: string | null
+          status?: string
         }
         Update: {
-          body?: string
+          amount?: number
+          amount_recovered?: number
+          contribution_id?: string
+          created_at?: string
+          debtor_id?: string
+          guarantor_id?: string
+          id?: string
+          membership_id?: string
+          payment_id?: string | null
+          settled_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "guarantor_receivables_contribution_id_fkey"
+            columns: ["contribution_id"]
+            isOneToOne: false
+            referencedRelation: "contributions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "guarantor_receivables_debtor_id_fkey"
+            columns: ["debtor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "guarantor_receivables_guarantor_id_fkey"
+            columns: ["guarantor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "guarantor_receivables_membership_id_fkey"
+            columns: ["membership_id"]
+            isOneToOne: false
+            referencedRelation: "memberships"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "guarantor_receivables_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "contribution_payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      journal_entries: {
+        Row: {
+          created_at: string
+          description: string | null
+          entry_type: string
+          id: string
+          member_id: string | null
+          reversal_of: string | null
+          source_id: string | null
+          source_type: string | null
+          thrift_system_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          entry_type: string
+          id?: string
+          member_id?: string | null
+          reversal_of?: string | null
+          source_id?: string | null
+          source_type?: string | null
+          thrift_system_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          entry_type?: string
+          id?: string
+          member_id?: string | null
+          reversal_of?: string | null
+          source_id?: string | null
+          source_type?: string | null
+          thrift_system_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "journal_entries_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "journal_entries_reversal_of_fkey"
+            columns: ["reversal_of"]
+            isOneToOne: false
+            referencedRelation: "journal_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "journal_entries_thrift_system_id_fkey"
+            columns: ["thrift_system_id"]
+            isOneToOne: false
+            referencedRelation: "thrift_systems"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      journal_postings: {
+        Row: {
+          account_id: string
+          amount: number
+          direction: string
+          entry_id: string
+          id: string
+        }
+        Insert: {
+          account_id: string
+          amount: number
+          direction: string
+          entry_id: string
+          id?: string
+        }
+        Update: {
+          account_id?: string
+          amount?: number
+          direction?: string
+          entry_id?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "journal_postings_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "ledger_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "journal_postings_entry_id_fkey"
+            columns: ["entry_id"]
+            isOneToOne: false
+            referencedRelation: "journal_entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ledger_accounts: {
+        Row: {
+          account_type: string
+          created_at: string
+          id: string
+          normal_balance: string
+          thrift_system_id: string | null
+          user_id: string | null
+        }
+        Insert: {
+          account_type: string
+          created_at?: string
+          id?: string
+          normal_balance: string
+          thrift_system_id?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          account_type?: string
+          created_at?: string
+          id?: string
+          normal_balance?: string
+          thrift_system_id?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_accounts_thrift_system_id_fkey"
+            columns: ["thrift_system_id"]
+            isOneToOne: false
+            referencedRelation: "thrift_systems"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_accounts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      member_exits: {
+        Row: {
+          buy_in_amount: number
+          created_at: string
+          id: string
+          member_id: string
+          membership_id: string
+          outstanding: number
+          processed_by: string | null
+          reason: string | null
+          replacement_membership_id: string | null
+          settlement_amount: number
+          thrift_system_id: string
+          total_paid: number
+          total_received: number
+        }
+        Insert: {
+          buy_in_amount?: number
+          created_at?: string
+          id?: string
+          member_id: string
+          membership_id: string
+          outstanding: number
+          processed_by?: string | null
+          reason?: string | null
+          replacement_membership_id?: string | null
+          settlement_amount: number
+          thrift_system_id: string
+          total_paid: number
+          total_received: number
+        }
+        Update: {
+          buy_in_amount?: number
+          created_at?: string
+          id?: string
+          member_id?: string
+          membership_id?: string
+          outstanding?: number
+          processed_by?: string | null
+          reason?: string | null
+          replacement_membership_id?: string | null
+          settlement_amount?: number
+          thrift_system_id?: string
+          total_paid?: number
+          total_received?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "member_exits_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "member_exits_membership_id_fkey"
+            columns: ["membership_id"]
+            isOneToOne: false
+            referencedRelation: "memberships"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "member_exits_processed_by_fkey"
+            columns: ["processed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "member_exits_replacement_membership_id_fkey"
+            columns: ["replacement_membership_id"]
+            isOneToOne: false
+            referencedRelation: "memberships"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "member_exits_thrift_system_id_fkey"
+            columns: ["thrift_system_id"]
+            isOneToOne: false
+            referencedRelation: "thrift_systems"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      membership_guarantors: {
+        Row: {
+          created_at: string
+          guarantor_id: string
+          id: string
+          membership_id: string
+          responded_at: string | null
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          guarantor_id: string
+          id?: string
+          membership_id: string
+          responded_at?: string | null
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          guarantor_id?: string
+          id?: string
+          membership_id?: string
+          responded_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "membership_guarantors_guarantor_id_fkey"
+            columns: ["guarantor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "membership_guarantors_membership_id_fkey"
+            columns: ["membership_id"]
+            isOneToOne: false
+            referencedRelation: "memberships"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      memberships: {
+        Row: {
+          committed_amount: number | null
+          exited_at: string | null
+          id: string
+          invited_from: string | null
+          join_date: string | null
+          payout_destination: string
+          role: string
+          slot_count: number
+          status: string
+          thrift_system_id: string | null
+          user_id: string | null
+          wallet_autopay: boolean
+        }
+        Insert: {
+          committed_amount?: number | null
+          exited_at?: string | null
+          id?: string
+          invited_from?: string | null
+          join_date?: string | null
+          payout_destination?: string
+          role?: string
+          slot_count?: number
+          status: string
+          thrift_system_id?: string | null
+          user_id?: string | null
+          wallet_autopay?: boolean
+        }
+        Update: {
+          committed_amount?: number | null
+          exited_at?: string | null
+          id?: string
+          invited_from?: string | null
+          join_date?: string | null
+          payout_destination?: string
+          role?: string
+          slot_count?: number
+          status?: string
+          thrift_system_id?: string | null
+          user_id?: string | null
+          wallet_autopay?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "memberships_thrift_system_id_fkey"
+            columns: ["thrift_system_id"]
+            isOneToOne: false
+            referencedRelation: "mv_thrift_analytics"
+            referencedColumns: ["thrift_system_id"]
+          },
+          {
+            foreignKeyName: "memberships_thrift_system_id_fkey"
+            columns: ["thrift_system_id"]
+            isOneToOne: false
+            referencedRelation: "thrift_systems"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "memberships_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      messages: {
+        Row: {
+          attachment_url: string | null
+          content: string
+          created_at: string | null
+          id: string
+          read: boolean | null
+          receiver_id: string | null
+          ride_id: string | null
+          sender_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          attachment_url?: string | null
+          content: string
+          created_at?: string | null
+          id?: string
+          read?: boolean | null
+          receiver_id?: string | null
+          ride_id?: string | null
+          sender_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          attachment_url?: string | null
+          content?: string
+          created_at?: string | null
+          id?: string
+          read?: boolean | null
+          receiver_id?: string | null
+          ride_id?: string | null
+          sender_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_ride_id_fkey"
+            columns: ["ride_id"]
+            isOneToOne: false
+            referencedRelation: "rides"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_templates: {
+        Row: {
+          body: string
+          created_at: string | null
+          id: string
+          name: string
+          title: string
+          type: string
+          updated_at: string | null
+        }
+        Insert: {
+          body: string
+          created_at?: string | null
+          id?: string
+          name: string
+          title: string
+          type: string
+          updated_at?: string | null
+        }
+        Update: {
+          body?: string
           created_at?: string | null
           id?: string
           name?: string
@@ -572,22 +1295,231 @@ export type Database = {
         Insert: {
           created_at?: string | null
           id?: string
-          message: string
-          read?: boolean | null
+          message: string
+          read?: boolean | null
+          type: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          message?: string
+          read?: boolean | null
+          type?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_allocations: {
+        Row: {
+          allocation_type: string
+          amount: number
+          contribution_id: string
+          created_at: string
+          id: string
+          payment_id: string
+        }
+        Insert: {
+          allocation_type: string
+          amount: number
+          contribution_id: string
+          created_at?: string
+          id?: string
+          payment_id: string
+        }
+        Update: {
+          allocation_type?: string
+          amount?: number
+          contribution_id?: string
+          created_at?: string
+          id?: string
+          payment_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_allocations_contribution_id_fkey"
+            columns: ["contribution_id"]
+            isOneToOne: false
+            referencedRelation: "contributions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_allocations_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "contribution_payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_attempt_events: {
+        Row: {
+          created_at: string
+          failure_reason: string | null
+          id: string
+          payment_attempt_id: string
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          payment_attempt_id: string
+          status: string
+        }
+        Update: {
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          payment_attempt_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_attempt_events_payment_attempt_id_fkey"
+            columns: ["payment_attempt_id"]
+            isOneToOne: false
+            referencedRelation: "payment_attempts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_attempts: {
+        Row: {
+          amount: number
+          checkout_url: string | null
+          contribution_id: string | null
+          created_at: string
+          currency: string
+          description: string
+          failure_reason: string | null
+          gateway: string
+          gateway_reference: string | null
+          id: string
+          metadata: Json
+          payment_method_id: string | null
+          reference: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          checkout_url?: string | null
+          contribution_id?: string | null
+          created_at?: string
+          currency: string
+          description: string
+          failure_reason?: string | null
+          gateway: string
+          gateway_reference?: string | null
+          id?: string
+          metadata?: Json
+          payment_method_id?: string | null
+          reference: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          checkout_url?: string | null
+          contribution_id?: string | null
+          created_at?: string
+          currency?: string
+          description?: string
+          failure_reason?: string | null
+          gateway?: string
+          gateway_reference?: string | null
+          id?: string
+          metadata?: Json
+          payment_method_id?: string | null
+          reference?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_attempts_contribution_id_fkey"
+            columns: ["contribution_id"]
+            isOneToOne: false
+            referencedRelation: "contributions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_attempts_payment_method_id_fkey"
+            columns: ["payment_method_id"]
+            isOneToOne: false
+            referencedRelation: "payment_methods"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_attempts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_methods: {
+        Row: {
+          authorization_code: string | null
+          brand: string | null
+          created_at: string
+          customer_code: string | null
+          expiry: string | null
+          gateway: string | null
+          id: string
+          is_default: boolean
+          is_tokenized: boolean | null
+          last4: string
+          name: string | null
+          type: string
+          user_id: string
+        }
+        Insert: {
+          authorization_code?: string | null
+          brand?: string | null
+          created_at?: string
+          customer_code?: string | null
+          expiry?: string | null
+          gateway?: string | null
+          id?: string
+          is_default?: boolean
+          is_tokenized?: boolean | null
+          last4: string
+          name?: string | null
           type: string
-          user_id?: string | null
+          user_id: string
         }
         Update: {
-          created_at?: string | null
+          authorization_code?: string | null
+          brand?: string | null
+          created_at?: string
+          customer_code?: string | null
+          expiry?: string | null
+          gateway?: string | null
           id?: string
-          message?: string
-          read?: boolean | null
+          is_default?: boolean
+          is_tokenized?: boolean | null
+          last4?: string
+          name?: string | null
           type?: string
-          user_id?: string | null
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "notifications_user_id_fkey"
+            foreignKeyName: "payment_methods_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -619,79 +1551,518 @@ export type Database = {
         }
         Relationships: []
       }
+      payout_pause_events: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string
+          id: string
+          payout_id: string
+          reason: string | null
+          resume_at: string | null
+          thrift_system_id: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          payout_id: string
+          reason?: string | null
+          resume_at?: string | null
+          thrift_system_id: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          payout_id?: string
+          reason?: string | null
+          resume_at?: string | null
+          thrift_system_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payout_pause_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payout_pause_events_payout_id_fkey"
+            columns: ["payout_id"]
+            isOneToOne: false
+            referencedRelation: "payouts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payout_pause_events_thrift_system_id_fkey"
+            columns: ["thrift_system_id"]
+            isOneToOne: false
+            referencedRelation: "thrift_systems"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payout_transfer_attempts: {
+        Row: {
+          attempt_number: number
+          created_at: string
+          error: string | null
+          id: string
+          idempotency_key: string
+          payout_id: string
+          provider: string
+          provider_reference: string | null
+          status: string
+        }
+        Insert: {
+          attempt_number: number
+          created_at?: string
+          error?: string | null
+          id?: string
+          idempotency_key: string
+          payout_id: string
+          provider: string
+          provider_reference?: string | null
+          status: string
+        }
+        Update: {
+          attempt_number?: number
+          created_at?: string
+          error?: string | null
+          id?: string
+          idempotency_key?: string
+          payout_id?: string
+          provider?: string
+          provider_reference?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payout_transfer_attempts_payout_id_fkey"
+            columns: ["payout_id"]
+            isOneToOne: false
+            referencedRelation: "payouts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       payouts: {
         Row: {
           admin_pause_reason: string | null
           admin_paused: boolean | null
+          admin_paused_until: string | null
           amount: number
           bank_account_id: string | null
+          bid_premium: number
           completed_date: string | null
           created_at: string | null
+          destination: string
           escrow_reference: string | null
+          failure_reason: string | null
+          id: string
+          lease_expires_at: string | null
+          leased_by: string | null
+          member_id: string
+          next_transfer_attempt_at: string | null
+          payment_intent_id: string | null
+          position: number | null
+          premium_share: number
+          priority_bonus: number
+          priority_displaced_from: number | null
+          priority_fee: number | null
+          priority_moved_from: number | null
+          scheduled_date: string
+          slot_number: number
+          status: string
+          thrift_system_id: string
+          transfer_attempts: number
+          transfer_idempotency_key: string | null
+          transfer_reference: string | null
+        }
+        Insert: {
+          admin_pause_reason?: string | null
+          admin_paused?: boolean | null
+          admin_paused_until?: string | null
+          amount: number
+          bank_account_id?: string | null
+          bid_premium?: number
+          completed_date?: string | null
+          created_at?: string | null
+          destination?: string
+          escrow_reference?: string | null
+          failure_reason?: string | null
+          id?: string
+          lease_expires_at?: string | null
+          leased_by?: string | null
+          member_id: string
+          next_transfer_attempt_at?: string | null
+          payment_intent_id?: string | null
+          position?: number | null
+          premium_share?: number
+          priority_bonus?: number
+          priority_displaced_from?: number | null
+          priority_fee?: number | null
+          priority_moved_from?: number | null
+          scheduled_date: string
+          slot_number?: number
+          status?: string
+          thrift_system_id: string
+          transfer_attempts?: number
+          transfer_idempotency_key?: string | null
+          transfer_reference?: string | null
+        }
+        Update: {
+          admin_pause_reason?: string | null
+          admin_paused?: boolean | null
+          admin_paused_until?: string | null
+          amount?: number
+          bank_account_id?: string | null
+          bid_premium?: number
+          completed_date?: string | null
+          created_at?: string | null
+          destination?: string
+          escrow_reference?: string | null
+          failure_reason?: string | null
+          id?: string
+          lease_expires_at?: string | null
+          leased_by?: string | null
+          member_id?: string
+          next_transfer_attempt_at?: string | null
+          payment_intent_id?: string | null
+          position?: number | null
+          premium_share?: number
+          priority_bonus?: number
+          priority_displaced_from?: number | null
+          priority_fee?: number | null
+          priority_moved_from?: number | null
+          scheduled_date?: string
+          slot_number?: number
+          status?: string
+          thrift_system_id?: string
+          transfer_attempts?: number
+          transfer_idempotency_key?: string | null
+          transfer_reference?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payouts_bank_account_id_fkey"
+            columns: ["bank_account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payouts_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payouts_thrift_system_id_fkey"
+            columns: ["thrift_system_id"]
+            isOneToOne: false
+            referencedRelation: "mv_thrift_analytics"
+            referencedColumns: ["thrift_system_id"]
+          },
+          {
+            foreignKeyName: "payouts_thrift_system_id_fkey"
+            columns: ["thrift_system_id"]
+            isOneToOne: false
+            referencedRelation: "thrift_systems"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      position_draw_consents: {
+        Row: {
+          created_at: string
+          draw_id: string
+          member_id: string
+        }
+        Insert: {
+          created_at?: string
+          draw_id: string
+          member_id: string
+        }
+        Update: {
+          created_at?: string
+          draw_id?: string
+          member_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "position_draw_consents_draw_id_fkey"
+            columns: ["draw_id"]
+            isOneToOne: false
+            referencedRelation: "position_draws"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "position_draw_consents_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      position_draws: {
+        Row: {
+          cancel_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          committed_at: string
+          created_by: string | null
+          expires_at: string
+          id: string
+          participants: Json
+          result: Json | null
+          revealed_at: string | null
+          salt: string | null
+          seed: string | null
+          seed_hash: string
+          thrift_system_id: string
+        }
+        Insert: {
+          cancel_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          committed_at?: string
+          created_by?: string | null
+          expires_at?: string
+          id?: string
+          participants: Json
+          result?: Json | null
+          revealed_at?: string | null
+          salt?: string | null
+          seed?: string | null
+          seed_hash: string
+          thrift_system_id: string
+        }
+        Update: {
+          cancel_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          committed_at?: string
+          created_by?: string | null
+          expires_at?: string
+          id?: string
+          participants?: Json
+          result?: Json | null
+          revealed_at?: string | null
+          salt?: string | null
+          seed?: string | null
+          seed_hash?: string
+          thrift_system_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "position_draws_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "position_draws_thrift_system_id_fkey"
+            columns: ["thrift_system_id"]
+            isOneToOne: false
+            referencedRelation: "mv_thrift_analytics"
+            referencedColumns: ["thrift_system_id"]
+          },
+          {
+            foreignKeyName: "position_draws_thrift_system_id_fkey"
+            columns: ["thrift_system_id"]
+            isOneToOne: false
+            referencedRelation: "thrift_systems"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "position_draws_cancelled_by_fkey"
+            columns: ["cancelled_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      position_swaps: {
+        Row: {
+          compensation_amount: number
+          counterparty_id: string
+          counterparty_payout_id: string
+          created_at: string
+          decided_at: string | null
+          decided_by: string | null
+          id: string
+          message: string | null
+          proposer_id: string
+          proposer_payout_id: string
+          responded_at: string | null
+          status: string
+          thrift_system_id: string
+        }
+        Insert: {
+          compensation_amount?: number
+          counterparty_id: string
+          counterparty_payout_id: string
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          id?: string
+          message?: string | null
+          proposer_id: string
+          proposer_payout_id: string
+          responded_at?: string | null
+          status?: string
+          thrift_system_id: string
+        }
+        Update: {
+          compensation_amount?: number
+          counterparty_id?: string
+          counterparty_payout_id?: string
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          id?: string
+          message?: string | null
+          proposer_id?: string
+          proposer_payout_id?: string
+          responded_at?: string | null
+          status?: string
+          thrift_system_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "position_swaps_counterparty_id_fkey"
+            columns: ["counterparty_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "position_swaps_counterparty_payout_id_fkey"
+            columns: ["counterparty_payout_id"]
+            isOneToOne: false
+            referencedRelation: "payouts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "position_swaps_decided_by_fkey"
+            columns: ["decided_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "position_swaps_proposer_id_fkey"
+            columns: ["proposer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "position_swaps_proposer_payout_id_fkey"
+            columns: ["proposer_payout_id"]
+            isOneToOne: false
+            referencedRelation: "payouts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "position_swaps_thrift_system_id_fkey"
+            columns: ["thrift_system_id"]
+            isOneToOne: false
+            referencedRelation: "thrift_systems"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      priority_payout_moves: {
+        Row: {
+          created_at: string
+          displaced_member_id: string
+          displaced_payout_id: string
+          fee: number
+          fee_policy: string
+          from_position: number
           id: string
           member_id: string
-          payment_intent_id: string | null
-          priority_fee: number | null
-          scheduled_date: string
-          status: string
+          payout_id: string
+          swap_id: string | null
           thrift_system_id: string
+          to_position: number
         }
         Insert: {
-          admin_pause_reason?: string | null
-          admin_paused?: boolean | null
-          amount: number
-          bank_account_id?: string | null
-          completed_date?: string | null
-          created_at?: string | null
-          escrow_reference?: string | null
+          created_at?: string
+          displaced_member_id: string
+          displaced_payout_id: string
+          fee: number
+          fee_policy: string
+          from_position: number
           id?: string
           member_id: string
-          payment_intent_id?: string | null
-          priority_fee?: number | null
-          scheduled_date: string
-          status?: string
+          payout_id: string
+          swap_id?: string | null
           thrift_system_id: string
+          to_position: number
         }
         Update: {
-          admin_pause_reason?: string | null
-          admin_paused?: boolean | null
-          amount?: number
-          bank_account_id?: string | null
-          completed_date?: string | null
-          created_at?: string | null
-          escrow_reference?: string | null
+          created_at?: string
+          displaced_member_id?: string
+          displaced_payout_id?: string
+          fee?: number
+          fee_policy?: string
+          from_position?: number
           id?: string
           member_id?: string
-          payment_intent_id?: string | null
-          priority_fee?: number | null
-          scheduled_date?: string
-          status?: string
+          payout_id?: string
+          swap_id?: string | null
           thrift_system_id?: string
+          to_position?: number
         }
         Relationships: [
           {
-            foreignKeyName: "payouts_bank_account_id_fkey"
-            columns: ["bank_account_id"]
+            foreignKeyName: "priority_payout_moves_displaced_member_id_fkey"
+            columns: ["displaced_member_id"]
             isOneToOne: false
-            referencedRelation: "bank_accounts"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "payouts_member_id_fkey"
+            foreignKeyName: "priority_payout_moves_displaced_payout_id_fkey"
+            columns: ["displaced_payout_id"]
+            isOneToOne: false
+            referencedRelation: "payouts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "priority_payout_moves_member_id_fkey"
             columns: ["member_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "payouts_thrift_system_id_fkey"
-            columns: ["thrift_system_id"]
+            foreignKeyName: "priority_payout_moves_payout_id_fkey"
+            columns: ["payout_id"]
             isOneToOne: false
-            referencedRelation: "mv_thrift_analytics"
-            referencedColumns: ["thrift_system_id"]
+            referencedRelation: "payouts"
+            referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "payouts_thrift_system_id_fkey"
+            foreignKeyName: "priority_payout_moves_swap_id_fkey"
+            columns: ["swap_id"]
+            isOneToOne: false
+            referencedRelation: "position_swaps"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "priority_payout_moves_thrift_system_id_fkey"
             columns: ["thrift_system_id"]
             isOneToOne: false
             referencedRelation: "thrift_systems"
@@ -776,6 +2147,96 @@ export type Database = {
           },
         ]
       }
+      reconciliation_exceptions: {
+        Row: {
+          contribution_id: string | null
+          created_at: string
+          expected_amount: number | null
+          id: string
+          kind: string
+          payment_attempt_id: string | null
+          reference: string | null
+          report_id: string
+          resolution: string | null
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          settled_amount: number | null
+          settlement_line_id: string | null
+          status: string
+        }
+        Insert: {
+          contribution_id?: string | null
+          created_at?: string
+          expected_amount?: number | null
+          id?: string
+          kind: string
+          payment_attempt_id?: string | null
+          reference?: string | null
+          report_id: string
+          resolution?: string | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          settled_amount?: number | null
+          settlement_line_id?: string | null
+          status?: string
+        }
+        Update: {
+          contribution_id?: string | null
+          created_at?: string
+          expected_amount?: number | null
+          id?: string
+          kind?: string
+          payment_attempt_id?: string | null
+          reference?: string | null
+          report_id?: string
+          resolution?: string | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          settled_amount?: number | null
+          settlement_line_id?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reconciliation_exceptions_contribution_id_fkey"
+            columns: ["contribution_id"]
+            isOneToOne: false
+            referencedRelation: "contributions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reconciliation_exceptions_payment_attempt_id_fkey"
+            columns: ["payment_attempt_id"]
+            isOneToOne: false
+            referencedRelation: "payment_attempts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reconciliation_exceptions_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "settlement_reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reconciliation_exceptions_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reconciliation_exceptions_settlement_line_id_fkey"
+            columns: ["settlement_line_id"]
+            isOneToOne: false
+            referencedRelation: "settlement_lines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       rides: {
         Row: {
           created_at: string | null
@@ -841,6 +2302,111 @@ export type Database = {
           },
         ]
       }
+      settlement_lines: {
+        Row: {
+          amount: number
+          contribution_id: string | null
+          currency: string | null
+          fee: number
+          id: string
+          match_status: string
+          payment_attempt_id: string | null
+          recorded_amount: number
+          reference: string
+          report_id: string
+          settled_at: string | null
+        }
+        Insert: {
+          amount: number
+          contribution_id?: string | null
+          currency?: string | null
+          fee?: number
+          id?: string
+          match_status?: string
+          payment_attempt_id?: string | null
+          recorded_amount?: number
+          reference: string
+          report_id: string
+          settled_at?: string | null
+        }
+        Update: {
+          amount?: number
+          contribution_id?: string | null
+          currency?: string | null
+          fee?: number
+          id?: string
+          match_status?: string
+          payment_attempt_id?: string | null
+          recorded_amount?: number
+          reference?: string
+          report_id?: string
+          settled_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "settlement_lines_contribution_id_fkey"
+            columns: ["contribution_id"]
+            isOneToOne: false
+            referencedRelation: "contributions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "settlement_lines_payment_attempt_id_fkey"
+            columns: ["payment_attempt_id"]
+            isOneToOne: false
+            referencedRelation: "payment_attempts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "settlement_lines_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "settlement_reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      settlement_reports: {
+        Row: {
+          created_at: string
+          file_name: string | null
+          gateway: string
+          id: string
+          imported_by: string | null
+          period_end: string
+          period_start: string
+          source: string
+        }
+        Insert: {
+          created_at?: string
+          file_name?: string | null
+          gateway: string
+          id?: string
+          imported_by?: string | null
+          period_end: string
+          period_start: string
+          source: string
+        }
+        Update: {
+          created_at?: string
+          file_name?: string | null
+          gateway?: string
+          id?: string
+          imported_by?: string | null
+          period_end?: string
+          period_start?: string
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "settlement_reports_imported_by_fkey"
+            columns: ["imported_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       spatial_ref_sys: {
         Row: {
           auth_name: string | null
@@ -865,53 +2431,161 @@ export type Database = {
         }
         Relationships: []
       }
+      stripe_webhook_events: {
+        Row: {
+          event_type: string
+          id: string
+          outcome: string
+          payment_intent_id: string | null
+          received_at: string
+        }
+        Insert: {
+          event_type: string
+          id: string
+          outcome: string
+          payment_intent_id?: string | null
+          received_at?: string
+        }
+        Update: {
+          event_type?: string
+          id?: string
+          outcome?: string
+          payment_intent_id?: string | null
+          received_at?: string
+        }
+        Relationships: []
+      }
       thrift_systems: {
         Row: {
           admin_id: string
           admin_tier_id: string | null
+          auction_max_discount_percent: number
+          bid_premium_policy: string
+          bidding_closed_at: string | null
+          bonus_pool_enabled: boolean
+          completed_at: string | null
           contribution_amount: number
+          contribution_mode: string
           created_at: string | null
+          currency: string
           cycle_duration: number
+          cycle_number: number
           cycle_start_date: string | null
           description: string | null
+          escrow_enabled_at: string | null
+          goal_amount: number | null
+          guarantor_call_days: number
+          guarantors_required: number
           id: string
           is_escrow_enabled: boolean | null
+          late_fee_amount: number
+          late_fee_cap: number | null
+          late_fee_type: string
+          late_grace_days: number
+          matured_at: string | null
+          maturity_date: string | null
           max_members: number
           name: string
+          organizer_commission_percent: number
           payout_schedule: string
+          payout_schedule_mode: string
+          position_assignment_mode: string
+          previous_cycle_id: string | null
+          priority_fee_amount: number
+          priority_fee_policy: string
+          priority_moves_per_cycle: number
+          settlement_report: Json | null
           status: string
+          swap_approval_mode: string
+          thrift_type: string
           updated_at: string | null
         }
         Insert: {
           admin_id: string
           admin_tier_id?: string | null
+          auction_max_discount_percent?: number
+          bid_premium_policy?: string
+          bidding_closed_at?: string | null
+          bonus_pool_enabled?: boolean
+          completed_at?: string | null
           contribution_amount: number
+          contribution_mode?: string
           created_at?: string | null
+          currency?: string
           cycle_duration?: number
+          cycle_number?: number
           cycle_start_date?: string | null
           description?: string | null
+          escrow_enabled_at?: string | null
+          goal_amount?: number | null
+          guarantor_call_days?: number
+          guarantors_required?: number
           id?: string
           is_escrow_enabled?: boolean | null
+          late_fee_amount?: number
+          late_fee_cap?: number | null
+          late_fee_type?: string
+          late_grace_days?: number
+          matured_at?: string | null
+          maturity_date?: string | null
           max_members: number
           name: string
+          organizer_commission_percent?: number
           payout_schedule: string
+          payout_schedule_mode?: string
+          position_assignment_mode?: string
+          previous_cycle_id?: string | null
+          priority_fee_amount?: number
+          priority_fee_policy?: string
+          priority_moves_per_cycle?: number
+          settlement_report?: Json | null
           status?: string
+          swap_approval_mode?: string
+          thrift_type?: string
           updated_at?: string | null
         }
         Update: {
           admin_id?: string
           admin_tier_id?: string | null
+          auction_max_discount_percent?: number
+          bid_premium_policy?: string
+          bidding_closed_at?: string | null
+          bonus_pool_enabled?: boolean
+          completed_at?: string | null
           contribution_amount?: number
+          contribution_mode?: string
           created_at?: string | null
+          currency?: string
           cycle_duration?: number
+          cycle_number?: number
           cycle_start_date?: string | null
           description?: string | null
+          escrow_enabled_at?: string | null
+          goal_amount?: number | null
+          guarantor_call_days?: number
+          guarantors_required?: number
           id?: string
           is_escrow_enabled?: boolean | null
+          late_fee_amount?: number
+          late_fee_cap?: number | null
+          late_fee_type?: string
+          late_grace_days?: number
+          matured_at?: string | null
+          maturity_date?: string | null
           max_members?: number
           name?: string
+          organizer_commission_percent?: number
           payout_schedule?: string
+          payout_schedule_mode?: string
+          position_assignment_mode?: string
+          previous_cycle_id?: string | null
+          priority_fee_amount?: number
+          priority_fee_policy?: string
+          priority_moves_per_cycle?: number
+          settlement_report?: Json | null
           status?: string
+          swap_approval_mode?: string
+          thrift_type?: string
           updated_at?: string | null
         }
         Relationships: [
@@ -929,6 +2603,72 @@ export type Database = {
             referencedRelation: "admin_tiers"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "thrift_systems_previous_cycle_id_fkey"
+            columns: ["previous_cycle_id"]
+            isOneToOne: false
+            referencedRelation: "thrift_systems"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      thrift_templates: {
+        Row: {
+          admin_id: string
+          contribution_amount: number
+          created_at: string
+          cycle_duration: number
+          description: string | null
+          id: string
+          is_escrow_enabled: boolean
+          late_fee_amount: number
+          late_fee_cap: number | null
+          late_fee_type: string
+          late_grace_days: number
+          max_members: number
+          name: string
+          payout_schedule: string
+        }
+        Insert: {
+          admin_id: string
+          contribution_amount: number
+          created_at?: string
+          cycle_duration: number
+          description?: string | null
+          id?: string
+          is_escrow_enabled?: boolean
+          late_fee_amount?: number
+          late_fee_cap?: number | null
+          late_fee_type?: string
+          late_grace_days?: number
+          max_members: number
+          name: string
+          payout_schedule: string
+        }
+        Update: {
+          admin_id?: string
+          contribution_amount?: number
+          created_at?: string
+          cycle_duration?: number
+          description?: string | null
+          id?: string
+          is_escrow_enabled?: boolean
+          late_fee_amount?: number
+          late_fee_cap?: number | null
+          late_fee_type?: string
+          late_grace_days?: number
+          max_members?: number
+          name?: string
+          payout_schedule?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "thrift_templates_admin_id_fkey"
+            columns: ["admin_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       user_achievements: {
@@ -936,61 +2676,165 @@ export type Database = {
           achievement_id: string | null
           awarded_at: string
           id: string
-          user_id: string | null
+          user_id: string | null
+        }
+        Insert: {
+          achievement_id?: string | null
+          awarded_at?: string
+          id?: string
+          user_id?: string | null
+        }
+        Update: {
+          achievement_id?: string | null
+          awarded_at?: string
+          id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_achievements_achievement_id_fkey"
+            columns: ["achievement_id"]
+            isOneToOne: false
+            referencedRelation: "achievements"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      verification_logs: {
+        Row: {
+          created_at: string | null
+          driver_id: string | null
+          id: string
+          reason: string | null
+          status: string
+          verified_by: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          driver_id?: string | null
+          id?: string
+          reason?: string | null
+          status: string
+          verified_by?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          driver_id?: string | null
+          id?: string
+          reason?: string | null
+          status?: string
+          verified_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "verification_logs_driver_id_fkey"
+            columns: ["driver_id"]
+            isOneToOne: false
+            referencedRelation: "driver_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wallet_topups: {
+        Row: {
+          amount: number
+          created_at: string
+          gateway: string
+          gateway_reference: string
+          id: string
+          refunded_amount: number
+          user_id: string
         }
         Insert: {
-          achievement_id?: string | null
-          awarded_at?: string
+          amount: number
+          created_at?: string
+          gateway: string
+          gateway_reference: string
           id?: string
-          user_id?: string | null
+          refunded_amount?: number
+          user_id: string
         }
         Update: {
-          achievement_id?: string | null
-          awarded_at?: string
+          amount?: number
+          created_at?: string
+          gateway?: string
+          gateway_reference?: string
           id?: string
-          user_id?: string | null
+          refunded_amount?: number
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "user_achievements_achievement_id_fkey"
-            columns: ["achievement_id"]
+            foreignKeyName: "wallet_topups_user_id_fkey"
+            columns: ["user_id"]
             isOneToOne: false
-            referencedRelation: "achievements"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-      verification_logs: {
+      wallet_withdrawals: {
         Row: {
-          created_at: string | null
-          driver_id: string | null
+          amount: number
+          bank_account_id: string
+          completed_at: string | null
+          created_at: string
+          failure_reason: string | null
           id: string
-          reason: string | null
+          lease_expires_at: string | null
+          leased_by: string | null
+          next_transfer_attempt_at: string | null
           status: string
-          verified_by: string | null
+          transfer_attempts: number
+          transfer_idempotency_key: string | null
+          transfer_reference: string | null
+          user_id: string
         }
         Insert: {
-          created_at?: string | null
-          driver_id?: string | null
+          amount: number
+          bank_account_id: string
+          completed_at?: string | null
+          created_at?: string
+          failure_reason?: string | null
           id?: string
-          reason?: string | null
-          status: string
-          verified_by?: string | null
+          lease_expires_at?: string | null
+          leased_by?: string | null
+          next_transfer_attempt_at?: string | null
+          status?: string
+          transfer_attempts?: number
+          transfer_idempotency_key?: string | null
+          transfer_reference?: string | null
+          user_id: string
         }
         Update: {
-          created_at?: string | null
-          driver_id?: string | null
+          amount?: number
+          bank_account_id?: string
+          completed_at?: string | null
+          created_at?: string
+          failure_reason?: string | null
           id?: string
-          reason?: string | null
+          lease_expires_at?: string | null
+          leased_by?: string | null
+          next_transfer_attempt_at?: string | null
           status?: string
-          verified_by?: string | null
+          transfer_attempts?: number
+          transfer_idempotency_key?: string | null
+          transfer_reference?: string | null
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "verification_logs_driver_id_fkey"
-            columns: ["driver_id"]
+            foreignKeyName: "wallet_withdrawals_bank_account_id_fkey"
+            columns: ["bank_account_id"]
             isOneToOne: false
-            referencedRelation: "driver_profiles"
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "wallet_withdrawals_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
@@ -1257,6 +3101,16 @@ export type Database = {
         }
         Returns: boolean
       }
+      add_payment_method: {
+        Args: {
+          p_brand?: string
+          p_expiry?: string
+          p_last4: string
+          p_name?: string
+          p_type: string
+        }
+        Returns: string
+      }
       addauth: {
         Args: {
           "": string
@@ -1326,6 +3180,27 @@ export type Database = {
             }
             Returns: unknown
           }
+      agree_to_new_position_draw: {
+        Args: {
+          p_draw_id: string
+        }
+        Returns: undefined
+      }
+      apply_late_penalties: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      apply_rotation_schedule: {
+        Args: {
+          p_schedule: Json
+          p_thrift_system_id: string
+        }
+        Returns: number
+      }
+      assert_ledger_balanced: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
       box2d_in: {
         Args: {
           "": unknown
@@ -1394,6 +3269,66 @@ export type Database = {
             }
             Returns: string
           }
+      cancel_position_draw: {
+        Args: {
+          p_draw_id: string
+          p_reason: string
+        }
+        Returns: undefined
+      }
+      cancel_position_swap: {
+        Args: {
+          p_swap_id: string
+        }
+        Returns: undefined
+      }
+      close_auction_round: {
+        Args: {
+          p_round_id: string
+        }
+        Returns: Json
+      }
+      close_disbursement_bidding: {
+        Args: {
+          p_thrift_system_id: string
+        }
+        Returns: undefined
+      }
+      close_thrift_cycle: {
+        Args: {
+          p_thrift_system_id: string
+        }
+        Returns: Json
+      }
+      commit_position_draw: {
+        Args: {
+          p_seed_hash: string
+          p_thrift_system_id: string
+        }
+        Returns: string
+      }
+      create_configured_thrift_system: {
+        Args: {
+          p_bonus_pool_enabled?: boolean
+          p_contribution_amount: number
+          p_cycle_duration: number
+          p_cycle_start_date: string
+          p_description?: string
+          p_goal_amount?: number
+          p_is_escrow_enabled?: boolean
+          p_late_fee_amount?: number
+          p_late_fee_cap?: number
+          p_late_fee_type?: string
+          p_late_grace_days?: number
+          p_maturity_date?: string
+          p_max_members: number
+          p_name: string
+          p_payout_schedule: string
+          p_source_thrift_system_id?: string
+          p_thrift_type?: string
+        }
+        Returns: string
+      }
       create_notification: {
         Args: {
           p_user_id: string
@@ -1409,6 +3344,25 @@ export type Database = {
           user_id: string | null
         }
       }
+      cycle_settlement_report: {
+        Args: {
+          p_thrift_system_id: string
+        }
+        Returns: Json
+      }
+      decide_position_swap: {
+        Args: {
+          p_approve: boolean
+          p_swap_id: string
+        }
+        Returns: string
+      }
+      delete_payment_method: {
+        Args: {
+          p_payment_method_id: string
+        }
+        Returns: undefined
+      }
       disablelongtransactions: {
         Args: Record<PropertyKey, never>
         Returns: string
@@ -1484,6 +3438,24 @@ export type Database = {
             }
             Returns: unknown
           }
+      escrow_balance: {
+        Args: {
+          p_thrift_system_id: string
+        }
+        Returns: number
+      }
+      escrow_payout_shortfall: {
+        Args: {
+          p_payout_id: string
+        }
+        Returns: Json
+      }
+      escrow_statement: {
+        Args: {
+          p_thrift_system_id: string
+        }
+        Returns: Json
+      }
       geography_analyze: {
         Args: {
           "": unknown
@@ -1876,6 +3848,18 @@ export type Database = {
         }
         Returns: unknown
       }
+      get_payment_provider_config: {
+        Args: {
+          p_provider: string
+        }
+        Returns: Json
+      }
+      get_position_draw_consents: {
+        Args: {
+          p_draw_id: string
+        }
+        Returns: Json
+      }
       get_proj4_from_srid: {
         Args: {
           "": number
@@ -1904,6 +3888,32 @@ export type Database = {
         }
         Returns: unknown
       }
+      guarantor_exposure: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      import_settlement_report: {
+        Args: {
+          p_file_name?: string
+          p_gateway: string
+          p_lines: Json
+          p_period_end: string
+          p_period_start: string
+          p_source: string
+        }
+        Returns: string
+      }
+      invite_members_from_system: {
+        Args: {
+          p_source_thrift_system_id: string
+          p_thrift_system_id: string
+        }
+        Returns: number
+      }
+      is_platform_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
       json: {
         Args: {
           "": unknown
@@ -1916,20 +3926,67 @@ export type Database = {
         }
         Returns: Json
       }
+      ledger_account_balance: {
+        Args: {
+          p_account_id: string
+        }
+        Returns: number
+      }
       longtransactionsenabled: {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      member_exit_settlement: {
+        Args: {
+          p_membership_id: string
+        }
+        Returns: Json
+      }
+      nominate_guarantor: {
+        Args: {
+          p_email: string
+          p_membership_id: string
+        }
+        Returns: string
+      }
       notify_upcoming_contributions: {
         Args: Record<PropertyKey, never>
         Returns: undefined
       }
+      open_auction_round: {
+        Args: {
+          p_thrift_system_id: string
+        }
+        Returns: string
+      }
       path: {
         Args: {
           "": unknown
         }
         Returns: unknown
       }
+      pause_payouts: {
+        Args: {
+          p_payout_id?: string
+          p_reason: string
+          p_resume_at?: string
+          p_thrift_system_id: string
+        }
+        Returns: number
+      }
+      pay_contribution_from_wallet: {
+        Args: {
+          p_amount: number
+          p_contribution_id: string
+        }
+        Returns: Json
+      }
+      pay_guarantor_call: {
+        Args: {
+          p_call_id: string
+        }
+        Returns: Json
+      }
       pgis_asflatgeobuf_finalfn: {
         Args: {
           "": unknown
@@ -1996,6 +4053,13 @@ export type Database = {
         }
         Returns: string
       }
+      place_auction_bid: {
+        Args: {
+          p_round_id: string
+          p_take_amount: number
+        }
+        Returns: string
+      }
       point: {
         Args: {
           "": unknown
@@ -2182,6 +4246,108 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      process_member_exit: {
+        Args: {
+          p_membership_id: string
+          p_reason?: string
+          p_replacement_membership_id?: string
+        }
+        Returns: Json
+      }
+      propose_position_swap: {
+        Args: {
+          p_compensation?: number
+          p_counterparty_payout_id: string
+          p_message?: string
+          p_proposer_payout_id: string
+        }
+        Returns: string
+      }
+      record_contribution_payment: {
+        Args: {
+          p_amount: number
+          p_contribution_id: string
+          p_reference?: string
+        }
+        Returns: Json
+      }
+      record_receivable_recovery: {
+        Args: {
+          p_amount: number
+          p_receivable_id: string
+        }
+        Returns: undefined
+      }
+      request_priority_payout: {
+        Args: {
+          p_payout_id: string
+          p_target_payout_id: string
+        }
+        Returns: string
+      }
+      request_wallet_withdrawal: {
+        Args: {
+          p_amount: number
+          p_bank_account_id: string
+        }
+        Returns: Json
+      }
+      resolve_reconciliation_exception: {
+        Args: {
+          p_exception_id: string
+          p_note: string
+          p_resolution: string
+        }
+        Returns: undefined
+      }
+      respond_cycle_rollover: {
+        Args: {
+          p_join: boolean
+          p_membership_id: string
+        }
+        Returns: undefined
+      }
+      respond_guarantee: {
+        Args: {
+          p_accept: boolean
+          p_guarantee_id: string
+        }
+        Returns: undefined
+      }
+      respond_position_swap: {
+        Args: {
+          p_accept: boolean
+          p_swap_id: string
+        }
+        Returns: string
+      }
+      resume_payouts: {
+        Args: {
+          p_payout_id?: string
+          p_thrift_system_id: string
+        }
+        Returns: number
+      }
+      reveal_position_draw: {
+        Args: {
+          p_draw_id: string
+          p_seed: string
+        }
+        Returns: Json
+      }
+      set_committed_amount: {
+        Args: {
+          p_amount: number
+          p_membership_id: string
+        }
+        Returns: undefined
+      }
+      set_default_payment_method: {
+        Args: {
+          p_payment_method_id: string
+        }
+        Returns: undefined
+      }
       spheroid_in: {
         Args: {
           "": unknown
@@ -4097,6 +6263,20 @@ export type Database = {
         }
         Returns: number
       }
+      start_next_cycle: {
+        Args: {
+          p_cycle_start_date: string
+          p_maturity_date?: string
+          p_thrift_system_id: string
+        }
+        Returns: string
+      }
+      target_savings_progress: {
+        Args: {
+          p_thrift_system_id: string
+        }
+        Returns: Json
+      }
       text: {
         Args: {
           "": unknown
@@ -4109,6 +6289,14 @@ export type Database = {
         }
         Returns: number
       }
+      update_wallet_preferences: {
+        Args: {
+          p_membership_id: string
+          p_payout_destination: string
+          p_wallet_autopay: boolean
+        }
+        Returns: undefined
+      }
       updategeometrysrid: {
         Args: {
           catalogn_name: string
@@ -4119,6 +6307,16 @@ export type Database = {
         }
         Returns: string
       }
+      wallet_balance: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: number
+      }
+      wallet_statement: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
     }
     Enums: {
       admin_verification_status: "unverified" | "pending" | "verified"
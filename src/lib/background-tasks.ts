@@ -46,48 +46,3 @@ export const scheduleContributionReminders = async () => {
     console.error("Error scheduling reminders:", error);
   }
 };
-
-export const processPayouts = async () => {
-  try {
-    console.log("Processing scheduled payouts...");
-    const { data: payouts, error } = await supabase
-      .from('payouts')
-      .select('*')
-      .eq('status', 'pending')
-      .lte('scheduled_date', new Date().toISOString());
-
-    if (error) throw error;
-
-    for (const payout of payouts) {
-      const { error: updateError } = await supabase
-        .from('payouts')
-        .update({
-          status: 'processing',
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', payout.id);
-
-      if (updateError) {
-        console.error(`Error updating payout ${payout.id}:`, updateError);
-        continue;
-      }
-
-      // Trigger payout processing function
-      const response = await fetch('/api/process-payout', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payout),
-      });
-
-      if (!response.ok) {
-        console.error(`Error processing payout ${payout.id}`);
-      }
-    }
-
-    console.log(`Successfully processed ${payouts.length} payouts`);
-  } catch (error) {
-    console.error("Error processing payouts:", error);
-  }
-};
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { BID_PREMIUM_POLICIES } from "@/constants/payouts";
+
+export type BidPremiumPolicy = typeof BID_PREMIUM_POLICIES[keyof typeof BID_PREMIUM_POLICIES];
+
+export interface PremiumPosition {
+  position: number;
+  bid_premium: number;
+}
+
+export interface PremiumDistribution {
+  // Premium credited to each position's payout
+  shares: Record<number, number>;
+  organizerFee: number;
+}
+
+// Work in kobo so shares always add back up to the premium
+const toMinor = (amount: number) => Math.round(amount * 100);
+const fromMinor = (amount: number) => amount / 100;
+
+const splitEvenly = (total: number, recipients: number[], shares: Record<number, number>) => {
+  const base = Math.floor(total / recipients.length);
+  let remainder = total - base * recipients.length;
+  // Leftover kobo go to the latest positions, who wait the longest
+  [...recipients].reverse().forEach((position) => {
+    shares[position] += base + (remainder > 0 ? 1 : 0);
+    remainder--;
+  });
+};
+
+/**
+ * Decides where each winning bid premium goes under the thrift's policy.
+ * With `shared_unpaid`, a premium is split among the positions paid after
+ * the winner; a premium paid by the last position has nobody left to share
+ * with and is credited back to the winner.
+ */
+export const distributeBidPremiums = (
+  positions: PremiumPosition[],
+  policy: BidPremiumPolicy
+): PremiumDistribution => {
+  const shares: Record<number, number> = {};
+  positions.forEach(({ position }) => (shares[position] = 0));
+  let organizerFee = 0;
+
+  const lastPosition = Math.max(...positions.map((p) => p.position));
+
+  positions
+    .filter((p) => p.bid_premium > 0)
+    .forEach(({ position, bid_premium }) => {
+      const premium = toMinor(bid_premium);
+
+      switch (policy) {
+        case BID_PREMIUM_POLICIES.ORGANIZER_FEE:
+          organizerFee += premium;
+          break;
+        case BID_PREMIUM_POLICIES.LAST_PAYOUT:
+          shares[lastPosition] += premium;
+          break;
+        case BID_PREMIUM_POLICIES.SHARED_UNPAID:
+        default: {
+          const unpaid = positions.map((p) => p.position).filter((p) => p > position);
+          if (unpaid.length === 0) {
+            shares[position] += premium;
+          } else {
+            splitEvenly(premium, unpaid, shares);
+          }
+        }
+      }
+    });
+
+  Object.keys(shares).forEach((position) => {
+    shares[Number(position)] = fromMinor(shares[Number(position)]);
+  });
+
+  return { shares, organizerFee: fromMinor(organizerFee) };
+};
@@ -0,0 +1,183 @@
+import { supabase } from "@/integrations/supabase/client";
+import { previewRotationSchedule, commitRotationSchedule } from "@/lib/rotation-schedule";
+import { sumSlots } from "@/lib/membership-slots";
+
+export interface BidPreference {
+  id: string;
+  member_id: string;
+  slot_number: number;
+  preferred_position: number;
+  bid_amount: number | null;
+  created_at: string | null;
+  profiles?: { full_name: string | null } | null;
+}
+
+export type BidOutcome = "assigned" | "won" | "outbid";
+
+export interface BidAssignment {
+  preference_id: string;
+  member_id: string;
+  slot_number: number;
+  full_name?: string | null;
+  preferred_position: number;
+  actual_position: number;
+  status: BidOutcome;
+  // What the member pays for the slot; only charged when it was contested
+  premium: number;
+}
+
+// Highest bid first, then earliest request, then id as the final tiebreaker
+const compareBids = (a: BidPreference, b: BidPreference): number => {
+  const byBid = (b.bid_amount || 0) - (a.bid_amount || 0);
+  if (byBid !== 0) return byBid;
+  const byTime = (a.created_at || "").localeCompare(b.created_at || "");
+  return byTime !== 0 ? byTime : a.id.localeCompare(b.id);
+};
+
+/**
+ * Resolves sealed bids into positions 1..slotCount. Each contested position
+ * goes to its highest bidder; losing bidders are then placed, best bid first,
+ * into the free slot nearest to the one they asked for. Positions in
+ * `lockedPositions` (e.g. payouts already made) are never handed out.
+ */
+export const resolveBids = (
+  preferences: BidPreference[],
+  slotCount: number,
+  lockedPositions: number[] = []
+): BidAssignment[] => {
+  const taken = new Set(lockedPositions);
+  const assignments: BidAssignment[] = [];
+  const losers: BidPreference[] = [];
+
+  const byPosition = new Map<number, BidPreference[]>();
+  preferences.forEach((pref) => {
+    const bidders = byPosition.get(pref.preferred_position) || [];
+    bidders.push(pref);
+    byPosition.set(pref.preferred_position, bidders);
+  });
+
+  [...byPosition.keys()].sort((a, b) => a - b).forEach((position) => {
+    const bidders = byPosition.get(position)!.sort(compareBids);
+    if (position < 1 || position > slotCount || taken.has(position)) {
+      losers.push(...bidders);
+      return;
+    }
+
+    const [winner, ...rest] = bidders;
+    const contested = rest.length > 0;
+    taken.add(position);
+    assignments.push({
+      preference_id: winner.id,
+      member_id: winner.member_id,
+      slot_number: winner.slot_number,
+      full_name: winner.profiles?.full_name,
+      preferred_position: position,
+      actual_position: position,
+      status: contested ? "won" : "assigned",
+      premium: contested ? winner.bid_amount || 0 : 0,
+    });
+    losers.push(...rest);
+  });
+
+  losers.sort(compareBids).forEach((pref) => {
+    let best: number | null = null;
+    for (let slot = 1; slot <= slotCount; slot++) {
+      if (taken.has(slot)) continue;
+      const distance = Math.abs(slot - pref.preferred_position);
+      if (best === null || distance < Math.abs(best - pref.preferred_position)) {
+        best = slot;
+      }
+    }
+    if (best === null) {
+      throw new Error("There are more preferences than open positions");
+    }
+
+    taken.add(best);
+    assignments.push({
+      preference_id: pref.id,
+      member_id: pref.member_id,
+      slot_number: pref.slot_number,
+      full_name: pref.profiles?.full_name,
+      preferred_position: pref.preferred_position,
+      actual_position: best,
+      status: "outbid",
+      premium: 0,
+    });
+  });
+
+  return assignments.sort((a, b) => a.actual_position - b.actual_position);
+};
+
+/**
+ * Loads the open preferences for a thrift system and resolves them against
+ * the slots held by its active members without writing anything.
+ */
+export const previewBidResolution = async (thriftSystemId: string): Promise<BidAssignment[]> => {
+  const { data: preferences, error: preferencesError } = await supabase
+    .from("disbursement_preferences")
+    .select(`
+      id,
+      member_id,
+      slot_number,
+      preferred_position,
+      bid_amount,
+      created_at,
+      profiles (
+        full_name
+      )
+    `)
+    .eq("thrift_system_id", thriftSystemId);
+  if (preferencesError) throw preferencesError;
+
+  const { data: memberships, error: membershipsError } = await supabase
+    .from("memberships")
+    .select("user_id, slot_count")
+    .eq("thrift_system_id", thriftSystemId)
+    .eq("status", "active");
+  if (membershipsError) throw membershipsError;
+
+  // Preferences left by members who are no longer active, or for slots they
+  // no longer hold, take no part, as in `close_disbursement_bidding`
+  const activePreferences = (preferences || []).filter((pref) =>
+    (memberships || []).some((m) => m.user_id === pref.member_id && pref.slot_number <= (m.slot_count || 1))
+  );
+
+  const { data: settledPayouts, error: payoutsError } = await supabase
+    .from("payouts")
+    .select("position")
+    .eq("thrift_system_id", thriftSystemId)
+    .neq("status", "pending")
+    .not("position", "is", null);
+  if (payoutsError) throw payoutsError;
+
+  return resolveBids(
+    activePreferences,
+    sumSlots(memberships || []),
+    (settledPayouts || []).map((p) => p.position)
+  );
+};
+
+/**
+ * Closes the bidding window. The bids are resolved again on the server, by
+ * the same rules as `resolveBids`, and each member's position is stored. If
+ * the schedule has already been generated it is rewritten to follow the
+ * outcome; otherwise the positions are picked up when the admin activates.
+ */
+export const closeBidding = async (thriftSystemId: string): Promise<void> => {
+  const { error } = await supabase.rpc("close_disbursement_bidding", {
+    p_thrift_system_id: thriftSystemId,
+  });
+  if (error) throw error;
+
+  const { data: system, error: systemError } = await supabase
+    .from("thrift_systems")
+    .select("status")
+    .eq("id", thriftSystemId)
+    .single();
+  if (systemError) throw systemError;
+
+  if (system.status === "active") {
+    const schedule = await previewRotationSchedule(thriftSystemId);
+    await commitRotationSchedule(schedule);
+  }
+};
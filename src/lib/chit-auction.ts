@@ -0,0 +1,132 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface AuctionRound {
+  id: string;
+  thrift_system_id: string;
+  period_number: number;
+  pot_amount: number;
+  commission_amount: number;
+  min_take: number;
+  status: "open" | "closed";
+  winner_id: string | null;
+  winning_take: number | null;
+  dividend_amount: number | null;
+  opened_at: string;
+  closed_at: string | null;
+}
+
+export interface AuctionBid {
+  id: string;
+  round_id: string;
+  member_id: string;
+  take_amount: number;
+  created_at: string;
+  profiles?: { full_name: string | null } | null;
+}
+
+export interface RoundOutcome {
+  // What the winner gives up from the pot
+  discount: number;
+  // Discount left for members once the organizer's commission is taken
+  dividendPool: number;
+  // Each other slot's share, before leftover kobo are handed out
+  dividendPerSlot: number;
+}
+
+/**
+ * Highest and lowest take a member may bid in a round. The top is the pot
+ * less commission, so the discount always covers the organizer's cut.
+ */
+export const getTakeBounds = (round: AuctionRound): { min: number; max: number } => ({
+  min: round.min_take,
+  max: round.pot_amount - round.commission_amount,
+});
+
+/**
+ * Works out where a winning take leaves the rest of the pot. `close_auction_round`
+ * makes the same split in kobo when it credits the dividends.
+ */
+export const computeRoundOutcome = (
+  round: AuctionRound,
+  take: number,
+  otherSlots: number
+): RoundOutcome => {
+  const discount = round.pot_amount - take;
+  const dividendPool = Math.max(discount - round.commission_amount, 0);
+  const dividendPerSlot =
+    otherSlots > 0 ? Math.floor((dividendPool * 100) / otherSlots) / 100 : 0;
+
+  return { discount, dividendPool, dividendPerSlot };
+};
+
+export const fetchAuctionRounds = async (thriftSystemId: string): Promise<AuctionRound[]> => {
+  const { data, error } = await supabase
+    .from("auction_rounds")
+    .select("*")
+    .eq("thrift_system_id", thriftSystemId)
+    .order("period_number", { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as AuctionRound[];
+};
+
+export const fetchRoundBids = async (roundId: string): Promise<AuctionBid[]> => {
+  const { data, error } = await supabase
+    .from("auction_bids")
+    .select(`
+      *,
+      profiles (
+        full_name
+      )
+    `)
+    .eq("round_id", roundId)
+    .order("take_amount", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as AuctionBid[];
+};
+
+export const openAuctionRound = async (thriftSystemId: string): Promise<string> => {
+  const { data, error } = await supabase.rpc("open_auction_round", {
+    p_thrift_system_id: thriftSystemId,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const placeAuctionBid = async (round: AuctionRound, take: number): Promise<string> => {
+  const { min, max } = getTakeBounds(round);
+  if (!Number.isFinite(take) || take < min || take > max) {
+    throw new Error(`Bids must be between ₦${min} and ₦${max}`);
+  }
+
+  const { data, error } = await supabase.rpc("place_auction_bid", {
+    p_round_id: round.id,
+    p_take_amount: take,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Closes the round. The server creates the winner's payout and credits
+ * the dividends in the same transaction. A round with no bids (`unbid`)
+ * goes to the longest-waiting member still to be paid, at no discount.
+ */
+export const closeAuctionRound = async (roundId: string) => {
+  const { data, error } = await supabase.rpc("close_auction_round", {
+    p_round_id: roundId,
+  });
+
+  if (error) throw error;
+  return data as {
+    winner_id: string;
+    winning_take: number;
+    unbid: boolean;
+    payout_id: string;
+    dividend_recipients: number;
+  };
+};
@@ -0,0 +1,56 @@
+import { supabase } from "@/integrations/supabase/client";
+import { sumSlots } from "@/lib/membership-slots";
+
+export type ContributionMode = "fixed" | "variable";
+
+export const CONTRIBUTION_MODE_LABELS: Record<ContributionMode, string> = {
+  fixed: "Everyone contributes the same amount",
+  variable: "Members choose their amount",
+};
+
+interface CommitmentSystem {
+  contribution_amount: number;
+  contribution_mode?: ContributionMode | string | null;
+}
+
+interface CommitmentMembership {
+  slot_count?: number | null;
+  committed_amount?: number | null;
+}
+
+/**
+ * What each of a member's hands pays per period. In variable mode a member
+ * who has not chosen yet is held to the system's default amount.
+ */
+export const getCommittedAmount = (system: CommitmentSystem, membership: CommitmentMembership): number =>
+  system.contribution_mode === "variable"
+    ? membership.committed_amount || system.contribution_amount
+    : system.contribution_amount;
+
+/**
+ * What the members collectively pay in each period.
+ */
+export const getPeriodTotal = (system: CommitmentSystem, memberships: CommitmentMembership[]): number =>
+  memberships.reduce(
+    (sum, membership) => sum + getCommittedAmount(system, membership) * (membership.slot_count || 1),
+    0
+  );
+
+/**
+ * What the members pay in over a whole cycle, one period per hand.
+ */
+export const getExpectedCycleTotal = (system: CommitmentSystem, memberships: CommitmentMembership[]): number =>
+  getPeriodTotal(system, memberships) * sumSlots(memberships);
+
+export const setCommittedAmount = async (membershipId: string, amount: number): Promise<void> => {
+  if (!(amount > 0)) {
+    throw new Error("Commitment must be greater than zero");
+  }
+
+  const { error } = await supabase.rpc("set_committed_amount", {
+    p_membership_id: membershipId,
+    p_amount: amount,
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,91 @@
+import { supabase } from "@/integrations/supabase/client";
+import { ContributionPenalty } from "@/lib/late-penalties";
+
+export type AllocationType = "principal" | "penalty";
+
+export interface PaymentAllocation {
+  amount: number;
+  allocation_type: AllocationType | string;
+}
+
+export interface ContributionBalance {
+  principal: number;
+  penalties: number;
+  principalPaid: number;
+  penaltiesPaid: number;
+  // Everything owed, paid or not
+  total: number;
+  paid: number;
+  remaining: number;
+  // Days a penalty has been charged for so far
+  penaltyDays: number;
+}
+
+export interface PaymentResult {
+  payment_id: string;
+  status: "partially_paid" | "completed";
+  remaining: number;
+}
+
+// Sum in kobo so many small lines don't drift
+const sumAmounts = (amounts: number[]) =>
+  amounts.reduce((sum, amount) => sum + Math.round(amount * 100), 0) / 100;
+
+/**
+ * Works out what is owed and paid on a contribution from its penalty lines
+ * and payment allocations. `amount` is only what was due, never what was paid.
+ */
+export const getContributionBalance = (contribution: {
+  amount: number;
+  contribution_penalties?: Pick<ContributionPenalty, "amount">[] | null;
+  payment_allocations?: PaymentAllocation[] | null;
+}): ContributionBalance => {
+  const penaltyLines = contribution.contribution_penalties || [];
+  const allocations = contribution.payment_allocations || [];
+
+  const penalties = sumAmounts(penaltyLines.map((line) => line.amount));
+  const principalPaid = sumAmounts(
+    allocations.filter((a) => a.allocation_type === "principal").map((a) => a.amount)
+  );
+  const penaltiesPaid = sumAmounts(
+    allocations.filter((a) => a.allocation_type === "penalty").map((a) => a.amount)
+  );
+  const total = sumAmounts([contribution.amount, penalties]);
+  const paid = sumAmounts([principalPaid, penaltiesPaid]);
+
+  return {
+    principal: contribution.amount,
+    penalties,
+    principalPaid,
+    penaltiesPaid,
+    total,
+    paid,
+    remaining: sumAmounts([total, -paid]),
+    penaltyDays: penaltyLines.length,
+  };
+};
+
+/**
+ * Records cash the thrift system admin received from a member, in full or in
+ * part. The server settles penalties first and moves the contribution to
+ * `partially_paid` or `completed`. Members pay their own contributions
+ * through a gateway or their wallet instead.
+ */
+export const recordContributionPayment = async (
+  contributionId: string,
+  amount: number,
+  reference?: string
+): Promise<PaymentResult> => {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error("Please enter a valid amount");
+  }
+
+  const { data, error } = await supabase.rpc("record_contribution_payment", {
+    p_contribution_id: contributionId,
+    p_amount: amount,
+    p_reference: reference,
+  });
+
+  if (error) throw error;
+  return data as unknown as PaymentResult;
+};
@@ -0,0 +1,113 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface UnpaidContribution {
+  contribution_id: string;
+  member_name: string | null;
+  period_number: number | null;
+  due_date: string;
+  owed: number;
+}
+
+export interface UnsettledPayout {
+  payout_id: string;
+  position: number;
+  member_name: string | null;
+  amount: number;
+  status: string;
+}
+
+export interface BalanceShare {
+  member_id: string;
+  member_name: string | null;
+  amount: number;
+}
+
+export interface CycleMemberSummary {
+  membership_id: string;
+  member_name: string | null;
+  status: "active" | "exited" | string;
+  paid: number;
+  received: number;
+}
+
+// Final figures for a cycle, frozen once the cycle is closed
+export interface CycleSettlementReport {
+  thrift_system_id: string;
+  cycle_number: number;
+  // False while any contribution is unpaid or any payout has not completed
+  settled: boolean;
+  positions: number;
+  contributions_collected: number;
+  penalties_collected: number;
+  paid_out: number;
+  dividends: number;
+  organizer_fees: number;
+  // What the group still holds after the last payout
+  remaining_balance: number;
+  // How the remaining balance went to members' wallets, once closed
+  balance_distribution?: BalanceShare[];
+  unpaid_contributions: UnpaidContribution[];
+  unsettled_payouts: UnsettledPayout[];
+  members: CycleMemberSummary[];
+  generated_at: string;
+}
+
+export const fetchCycleSettlementReport = async (thriftSystemId: string): Promise<CycleSettlementReport> => {
+  const { data, error } = await supabase.rpc("cycle_settlement_report", {
+    p_thrift_system_id: thriftSystemId,
+  });
+
+  if (error) throw error;
+  return data as unknown as CycleSettlementReport;
+};
+
+/**
+ * Marks the thrift `completed`, shares what the group still holds among the
+ * active members' wallets and keeps its settlement report. Fails while
+ * anything is still unpaid or a payout has not completed.
+ */
+export const closeThriftCycle = async (thriftSystemId: string): Promise<CycleSettlementReport> => {
+  const { data, error } = await supabase.rpc("close_thrift_cycle", {
+    p_thrift_system_id: thriftSystemId,
+  });
+
+  if (error) throw error;
+  return data as unknown as CycleSettlementReport;
+};
+
+/**
+ * Opens the next cycle as a new thrift system with the same settings and
+ * invites the members of this one. A target-savings group also needs the
+ * date its next cycle matures. Returns the new thrift system's id.
+ */
+export const startNextCycle = async (
+  thriftSystemId: string,
+  cycleStartDate: Date,
+  maturityDate?: Date,
+): Promise<string> => {
+  if (Number.isNaN(cycleStartDate.getTime())) {
+    throw new Error("Please choose when the next cycle starts");
+  }
+
+  if (maturityDate && Number.isNaN(maturityDate.getTime())) {
+    throw new Error("Please choose when the next cycle matures");
+  }
+
+  const { data, error } = await supabase.rpc("start_next_cycle", {
+    p_thrift_system_id: thriftSystemId,
+    p_cycle_start_date: cycleStartDate.toISOString(),
+    p_maturity_date: maturityDate?.toISOString(),
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const respondToCycleRollover = async (membershipId: string, join: boolean): Promise<void> => {
+  const { error } = await supabase.rpc("respond_cycle_rollover", {
+    p_membership_id: membershipId,
+    p_join: join,
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,79 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type EscrowEntryType =
+  | "contribution"
+  | "penalty"
+  | "payout"
+  | "payout_reversal"
+  | "fee"
+  | "bid_premium"
+  | "premium_share"
+  | "dividend";
+
+// One posting to the thrift's escrow account in the ledger
+export interface EscrowEntry {
+  id: string;
+  entry_type: EscrowEntryType;
+  // Positive when money comes into escrow, negative when it leaves
+  amount: number;
+  member_name: string | null;
+  payout_position: number | null;
+  created_at: string;
+}
+
+// A due payout escrow has not released yet
+export interface HeldPayout {
+  payout_id: string;
+  position: number;
+  amount: number;
+  scheduled_date: string;
+  member_name: string | null;
+  unpaid_contributions: number;
+}
+
+export interface EscrowStatement {
+  enabled_at: string;
+  balance: number;
+  // Everything paid into escrow
+  credited: number;
+  // Everything that has left it: payouts, fees, premiums and dividends
+  released: number;
+  // What the payment and payout records say escrow should have seen
+  contributions_received: number;
+  payouts_released: number;
+  // Non-zero when money moved outside escrow
+  discrepancy: number;
+  entries: EscrowEntry[];
+  held_payouts: HeldPayout[];
+}
+
+export const ESCROW_ENTRY_LABELS: Record<EscrowEntryType, string> = {
+  contribution: "Contribution",
+  penalty: "Late penalty",
+  payout: "Payout released",
+  payout_reversal: "Payout reversed",
+  fee: "Organizer commission",
+  bid_premium: "Bid premium",
+  premium_share: "Premium share",
+  dividend: "Dividend",
+};
+
+/**
+ * Entries paired with the balance after each one, oldest first.
+ */
+export const withRunningBalance = (entries: EscrowEntry[]) => {
+  let balance = 0;
+  return entries.map((entry) => {
+    balance += entry.amount;
+    return { ...entry, balance };
+  });
+};
+
+export const fetchEscrowStatement = async (thriftSystemId: string): Promise<EscrowStatement> => {
+  const { data, error } = await supabase.rpc("escrow_statement", {
+    p_thrift_system_id: thriftSystemId,
+  });
+
+  if (error) throw error;
+  return data as unknown as EscrowStatement;
+};
@@ -0,0 +1,101 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type GuaranteeStatus = "pending" | "accepted" | "declined";
+
+export interface GuarantorCall {
+  call_id: string;
+  contribution_id: string;
+  due_date: string;
+  called_at: string;
+}
+
+// One member the caller guarantees, as returned by `guarantor_exposure`
+export interface GuaranteeExposure {
+  guarantee_id: string;
+  membership_id: string;
+  member_name: string | null;
+  thrift_name: string;
+  // Everything the member still has to pay this cycle
+  outstanding: number;
+  // The part of `outstanding` that is already late
+  overdue: number;
+  open_calls: GuarantorCall[];
+}
+
+export interface GuarantorReceivable {
+  id: string;
+  debtor_id: string;
+  amount: number;
+  amount_recovered: number;
+  status: "open" | "settled";
+  created_at: string;
+  profiles?: { full_name: string | null } | null;
+}
+
+/**
+ * How many of a join request's guarantors have accepted, and whether that
+ * is enough for the admin to approve it.
+ */
+export const getGuarantorProgress = (
+  guarantees: { status: string }[] | null | undefined,
+  required: number
+) => {
+  const accepted = (guarantees || []).filter((g) => g.status === "accepted").length;
+  return { accepted, required, satisfied: accepted >= required };
+};
+
+export const fetchGuarantorExposure = async (): Promise<GuaranteeExposure[]> => {
+  const { data, error } = await supabase.rpc("guarantor_exposure");
+
+  if (error) throw error;
+  return (data || []) as unknown as GuaranteeExposure[];
+};
+
+export const nominateGuarantor = async (membershipId: string, email: string): Promise<string> => {
+  if (!email.trim()) {
+    throw new Error("Enter the guarantor's email address");
+  }
+
+  const { data, error } = await supabase.rpc("nominate_guarantor", {
+    p_membership_id: membershipId,
+    p_email: email,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const respondToGuarantee = async (guaranteeId: string, accept: boolean): Promise<void> => {
+  const { error } = await supabase.rpc("respond_guarantee", {
+    p_guarantee_id: guaranteeId,
+    p_accept: accept,
+  });
+
+  if (error) throw error;
+};
+
+/**
+ * Pays everything still owed on a called contribution from the guarantor's
+ * wallet. The amount becomes a receivable against the member who defaulted.
+ */
+export const payGuarantorCall = async (callId: string) => {
+  const { data, error } = await supabase.rpc("pay_guarantor_call", {
+    p_call_id: callId,
+  });
+
+  if (error) throw error;
+  return data as unknown as { payment_id: string; amount: number };
+};
+
+export const recordReceivableRecovery = async (receivableId: string, amount: number): Promise<void> => {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error("Please enter a valid amount");
+  }
+
+  const { error } = await supabase.rpc("record_receivable_recovery", {
+    p_receivable_id: receivableId,
+    p_amount: amount,
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,35 @@
+export type LateFeeType = "none" | "flat" | "percentage";
+
+export interface LatePolicy {
+  late_grace_days: number;
+  late_fee_type: LateFeeType | string;
+  late_fee_amount: number;
+  late_fee_cap: number | null;
+}
+
+export interface ContributionPenalty {
+  id: string;
+  penalty_date: string;
+  amount: number;
+  reason: string;
+}
+
+/**
+ * Plain-language summary of a thrift's late payment rules, or null when
+ * late payments carry no fee.
+ */
+export const describeLatePolicy = (policy: LatePolicy): string | null => {
+  if (policy.late_fee_type === "none" || !policy.late_fee_amount) return null;
+
+  const fee =
+    policy.late_fee_type === "flat"
+      ? `₦${policy.late_fee_amount}`
+      : `${policy.late_fee_amount}% of the contribution`;
+  const grace =
+    policy.late_grace_days > 0
+      ? `${policy.late_grace_days} day${policy.late_grace_days === 1 ? "" : "s"} after the due date`
+      : "the due date";
+  const cap = policy.late_fee_cap != null ? `, up to ₦${policy.late_fee_cap} per contribution` : "";
+
+  return `A late fee of ${fee} is charged for each day unpaid after ${grace}${cap}.`;
+};
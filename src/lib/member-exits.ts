@@ -0,0 +1,59 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface ExitSettlement {
+  // Contributions the member has paid in; late penalties are not refunded
+  paid: number;
+  // Payouts made to the member plus any auction dividends
+  received: number;
+  // Contributions already due that the member has not paid
+  outstanding: number;
+  // Positive when the group owes the member, negative when they owe the group
+  settlement: number;
+  // Pending payouts a replacement would take over
+  open_positions: number;
+}
+
+export interface ExitResult extends ExitSettlement {
+  exit_id: string;
+  // What the replacement owes for the periods already paid
+  buy_in: number;
+}
+
+/**
+ * Plain-language direction of a settlement amount.
+ */
+export const describeSettlement = (settlement: number): string => {
+  if (settlement > 0) return `The group owes this member ₦${settlement}`;
+  if (settlement < 0) return `This member owes the group ₦${Math.abs(settlement)}`;
+  return "Nothing is owed either way";
+};
+
+export const fetchExitSettlement = async (membershipId: string): Promise<ExitSettlement> => {
+  const { data, error } = await supabase.rpc("member_exit_settlement", {
+    p_membership_id: membershipId,
+  });
+
+  if (error) throw error;
+  return data as unknown as ExitSettlement;
+};
+
+/**
+ * Exits a member. With a replacement, their open positions and future
+ * contributions move to the replacement, who also pays back the periods
+ * already paid. Without one they are dropped, later payouts are cut to what
+ * the group still collects, and the schedule should be regenerated.
+ */
+export const processMemberExit = async (
+  membershipId: string,
+  replacementMembershipId?: string,
+  reason?: string
+): Promise<ExitResult> => {
+  const { data, error } = await supabase.rpc("process_member_exit", {
+    p_membership_id: membershipId,
+    p_replacement_membership_id: replacementMembershipId || undefined,
+    p_reason: reason || undefined,
+  });
+
+  if (error) throw error;
+  return data as unknown as ExitResult;
+};
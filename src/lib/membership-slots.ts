@@ -0,0 +1,22 @@
+/**
+ * Total slots (hands) held across memberships. `max_members` caps this
+ * number, not the head count.
+ */
+export const sumSlots = (memberships: { slot_count?: number | null }[]): number =>
+  memberships.reduce((sum, membership) => sum + (membership.slot_count || 1), 0);
+
+/**
+ * Counts how many entries each key appears in, e.g. payout rows per member.
+ */
+export const countSlotsBy = <T>(rows: T[], key: (row: T) => string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  rows.forEach((row) => counts.set(key(row), (counts.get(key(row)) || 0) + 1));
+  return counts;
+};
+
+/**
+ * Names one of a member's slots. The hand is only mentioned when the member
+ * holds more than one, so single-hand groups read as they always have.
+ */
+export const formatSlotName = (name: string, slotNumber: number, slotCount: number): string =>
+  slotCount > 1 ? `${name} (hand ${slotNumber})` : name;
@@ -0,0 +1,34 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Payment, PaymentStatusChange } from "@/types/database";
+
+/**
+ * The signed-in member's gateway payments, newest first. They are created
+ * and updated by the `payment-gateway` edge function and the webhooks.
+ */
+export const fetchPaymentAttempts = async (): Promise<Payment[]> => {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError) throw userError;
+
+  const { data, error } = await supabase
+    .from("payment_attempts")
+    .select("*")
+    .eq("user_id", user!.id)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as Payment[];
+};
+
+/**
+ * Every status a payment has been through, oldest first.
+ */
+export const fetchPaymentAttemptHistory = async (paymentId: string): Promise<PaymentStatusChange[]> => {
+  const { data, error } = await supabase
+    .from("payment_attempt_events")
+    .select("*")
+    .eq("payment_attempt_id", paymentId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as PaymentStatusChange[];
+};
@@ -0,0 +1,70 @@
+import { supabase } from "@/integrations/supabase/client";
+import { PaymentMethod } from "@/types/database";
+
+export type NewPaymentMethod = Pick<PaymentMethod, "type" | "last4"> &
+  Partial<Pick<PaymentMethod, "brand" | "expiry" | "name">>;
+
+// Everything but the authorization, which members cannot read
+const PAYMENT_METHOD_COLUMNS = "id, user_id, type, gateway, is_tokenized, last4, brand, expiry, name, is_default, created_at";
+
+/**
+ * The signed-in member's saved payment methods, default first.
+ */
+export const fetchPaymentMethods = async (): Promise<PaymentMethod[]> => {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError) throw userError;
+
+  const { data, error } = await supabase
+    .from("payment_methods")
+    .select(PAYMENT_METHOD_COLUMNS)
+    .eq("user_id", user!.id)
+    .order("is_default", { ascending: false })
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as PaymentMethod[];
+};
+
+/**
+ * Saves a method entered by hand. It is shown for reference but paid through
+ * checkout; cards saved from a checkout can be charged directly.
+ */
+export const addPaymentMethod = async (method: NewPaymentMethod): Promise<PaymentMethod> => {
+  const { data: id, error } = await supabase.rpc("add_payment_method", {
+    p_type: method.type,
+    p_last4: method.last4,
+    p_brand: method.brand ?? undefined,
+    p_expiry: method.expiry ?? undefined,
+    p_name: method.name ?? undefined,
+  });
+
+  if (error) throw error;
+
+  const { data, error: fetchError } = await supabase
+    .from("payment_methods")
+    .select(PAYMENT_METHOD_COLUMNS)
+    .eq("id", id)
+    .single();
+
+  if (fetchError) throw fetchError;
+  return data as PaymentMethod;
+};
+
+export const setDefaultPaymentMethod = async (paymentMethodId: string): Promise<void> => {
+  const { error } = await supabase.rpc("set_default_payment_method", {
+    p_payment_method_id: paymentMethodId,
+  });
+
+  if (error) throw error;
+};
+
+/**
+ * Another method becomes the default if this one was.
+ */
+export const deletePaymentMethod = async (paymentMethodId: string): Promise<void> => {
+  const { error } = await supabase.rpc("delete_payment_method", {
+    p_payment_method_id: paymentMethodId,
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,142 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type PayoutPauseAction = "paused" | "resumed";
+
+export interface ManagedPayout {
+  id: string;
+  member_id: string;
+  slot_number: number;
+  position: number | null;
+  amount: number;
+  scheduled_date: string;
+  status: string;
+  admin_paused: boolean | null;
+  admin_pause_reason: string | null;
+  admin_paused_until: string | null;
+  transfer_attempts: number;
+  next_transfer_attempt_at: string | null;
+  failure_reason: string | null;
+  profiles?: { full_name: string | null } | null;
+}
+
+export interface PayoutPauseEvent {
+  id: string;
+  payout_id: string;
+  thrift_system_id: string;
+  action: PayoutPauseAction;
+  reason: string | null;
+  resume_at: string | null;
+  actor_id: string | null;
+  created_at: string;
+  actor?: { full_name: string | null } | null;
+  payouts?: { position: number | null; profiles?: { full_name: string | null } | null } | null;
+}
+
+export interface PausePayoutsInput {
+  thriftSystemId: string;
+  reason: string;
+  // Every payout of the thrift that can be paused when omitted
+  payoutId?: string;
+  resumeAt?: Date | null;
+}
+
+/**
+ * Whether an admin can hold a payout back: it has not been made yet, or its
+ * transfer failed and is waiting to be retried.
+ */
+export const canPausePayout = (payout: Pick<ManagedPayout, "status" | "next_transfer_attempt_at">) =>
+  payout.status === "pending" || (payout.status === "processing" && payout.next_transfer_attempt_at !== null);
+
+/**
+ * Whether a payout is held back by its admin.
+ */
+export const isPayoutPaused = (
+  payout: Pick<ManagedPayout, "admin_paused" | "status" | "next_transfer_attempt_at">,
+) => Boolean(payout.admin_paused) && canPausePayout(payout);
+
+export const fetchManagedPayouts = async (thriftSystemId: string): Promise<ManagedPayout[]> => {
+  const { data, error } = await supabase
+    .from("payouts")
+    .select(`
+      id,
+      member_id,
+      slot_number,
+      position,
+      amount,
+      scheduled_date,
+      status,
+      admin_paused,
+      admin_pause_reason,
+      admin_paused_until,
+      transfer_attempts,
+      next_transfer_attempt_at,
+      failure_reason,
+      profiles (
+        full_name
+      )
+    `)
+    .eq("thrift_system_id", thriftSystemId)
+    .order("position", { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as ManagedPayout[];
+};
+
+export const fetchPayoutPauseEvents = async (thriftSystemId: string): Promise<PayoutPauseEvent[]> => {
+  const { data, error } = await supabase
+    .from("payout_pause_events")
+    .select(`
+      *,
+      actor:profiles!payout_pause_events_actor_id_fkey (
+        full_name
+      ),
+      payouts (
+        position,
+        profiles (
+          full_name
+        )
+      )
+    `)
+    .eq("thrift_system_id", thriftSystemId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as unknown as PayoutPauseEvent[];
+};
+
+/**
+ * Resolves to the number of payouts paused. Their members are notified.
+ */
+export const pausePayouts = async ({ thriftSystemId, reason, payoutId, resumeAt }: PausePayoutsInput): Promise<number> => {
+  if (!reason.trim()) {
+    throw new Error("Give a reason for pausing");
+  }
+
+  if (resumeAt && resumeAt <= new Date()) {
+    throw new Error("The resume date must be in the future");
+  }
+
+  const { data, error } = await supabase.rpc("pause_payouts", {
+    p_thrift_system_id: thriftSystemId,
+    p_reason: reason.trim(),
+    p_payout_id: payoutId,
+    p_resume_at: resumeAt ? resumeAt.toISOString() : undefined,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Resumes one payout, or every paused payout of the thrift when no payout
+ * is given. Resolves to the number resumed.
+ */
+export const resumePayouts = async (thriftSystemId: string, payoutId?: string): Promise<number> => {
+  const { data, error } = await supabase.rpc("resume_payouts", {
+    p_thrift_system_id: thriftSystemId,
+    p_payout_id: payoutId,
+  });
+
+  if (error) throw error;
+  return data;
+};
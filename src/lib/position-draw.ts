@@ -0,0 +1,193 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface PositionDraw {
+  id: string;
+  thrift_system_id: string;
+  seed_hash: string;
+  participants: string[];
+  seed: string | null;
+  // Drawn by the server at reveal; null on draws revealed before salts were added
+  salt: string | null;
+  result: string[] | null;
+  committed_at: string;
+  revealed_at: string | null;
+  // Unrevealed draws lapse at `expires_at`; expired ones are cancelled with no `cancelled_by`
+  expires_at: string;
+  cancelled_at: string | null;
+  cancelled_by: string | null;
+  cancel_reason: string | null;
+}
+
+export interface DrawConsents {
+  agreed: number;
+  needed: number;
+  agreed_by_me: boolean;
+}
+
+export interface DrawVerification {
+  hashMatches: boolean;
+  orderMatches: boolean;
+  order: string[];
+}
+
+const SEED_STORAGE_PREFIX = "position-draw-seed:";
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+export const sha256Hex = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return toHex(digest);
+};
+
+/**
+ * Generates a 256-bit random seed as hex.
+ */
+export const generateDrawSeed = (): string => {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return toHex(bytes.buffer);
+};
+
+export interface DrawParticipant {
+  userId: string;
+  slotNumber: number;
+}
+
+/**
+ * Splits a `<user_id>:<slot_number>` participant. Draws committed before
+ * members could hold several slots list bare user ids; those are slot 1.
+ */
+export const parseDrawParticipant = (participant: string): DrawParticipant => {
+  const [userId, slot] = participant.split(":");
+  return { userId, slotNumber: slot ? Number(slot) : 1 };
+};
+
+/**
+ * Orders participants by sha256(`${seed}:${salt}:${participant}`), or
+ * sha256(`${seed}:${participant}`) for unsalted draws. This must stay in step
+ * with `reveal_position_draw`, which runs the same computation in Postgres.
+ */
+export const computeDrawOrder = async (
+  seed: string,
+  participants: string[],
+  salt: string | null = null
+): Promise<string[]> => {
+  const prefix = salt ? `${seed}:${salt}` : seed;
+  const keyed = await Promise.all(
+    participants.map(async (id) => ({ id, key: await sha256Hex(`${prefix}:${id}`) }))
+  );
+  return keyed
+    .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+    .map(({ id }) => id);
+};
+
+/**
+ * Recomputes a revealed draw from its stored seed, salt and participants.
+ */
+export const verifyDraw = async (draw: PositionDraw): Promise<DrawVerification> => {
+  if (!draw.seed || !draw.result) {
+    throw new Error("This draw has not been revealed yet");
+  }
+
+  const hashMatches = (await sha256Hex(draw.seed)) === draw.seed_hash;
+  const order = await computeDrawOrder(draw.seed, draw.participants, draw.salt);
+  const orderMatches =
+    order.length === draw.result.length && order.every((id, index) => id === draw.result![index]);
+
+  return { hashMatches, orderMatches, order };
+};
+
+/**
+ * Whether a draw is still waiting for its seed to be revealed.
+ */
+export const isDrawPending = (draw: PositionDraw): boolean =>
+  !draw.revealed_at && !draw.cancelled_at && new Date(draw.expires_at).getTime() > Date.now();
+
+export const fetchLatestDraw = async (thriftSystemId: string): Promise<PositionDraw | null> => {
+  const { data, error } = await supabase
+    .from("position_draws")
+    .select("*")
+    .eq("thrift_system_id", thriftSystemId)
+    .order("committed_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as PositionDraw | null;
+};
+
+/**
+ * Commits to a fresh seed. Only the hash leaves the browser; the seed is kept
+ * in local storage until the admin reveals it.
+ */
+export const commitPositionDraw = async (thriftSystemId: string): Promise<{ drawId: string; seed: string }> => {
+  const seed = generateDrawSeed();
+  const seedHash = await sha256Hex(seed);
+
+  const { data: drawId, error } = await supabase.rpc("commit_position_draw", {
+    p_thrift_system_id: thriftSystemId,
+    p_seed_hash: seedHash,
+  });
+  if (error) throw error;
+
+  localStorage.setItem(`${SEED_STORAGE_PREFIX}${drawId}`, seed);
+  return { drawId, seed };
+};
+
+export const getStoredDrawSeed = (drawId: string): string | null =>
+  localStorage.getItem(`${SEED_STORAGE_PREFIX}${drawId}`);
+
+/**
+ * Reveals the seed. The server checks it against the commitment, stores the
+ * resulting order and records each member's `actual_position`.
+ */
+export const revealPositionDraw = async (drawId: string, seed: string): Promise<string[]> => {
+  const { data, error } = await supabase.rpc("reveal_position_draw", {
+    p_draw_id: drawId,
+    p_seed: seed.trim(),
+  });
+  if (error) throw error;
+
+  localStorage.removeItem(`${SEED_STORAGE_PREFIX}${drawId}`);
+  return data as string[];
+};
+
+/**
+ * Cancels a draw that has not been revealed, for example because its seed
+ * was lost. The reason stays on the draw for members to see.
+ */
+export const cancelPositionDraw = async (drawId: string, reason: string): Promise<void> => {
+  if (!reason.trim()) {
+    throw new Error("Please give a reason for cancelling the draw");
+  }
+
+  const { error } = await supabase.rpc("cancel_position_draw", {
+    p_draw_id: drawId,
+    p_reason: reason.trim(),
+  });
+  if (error) throw error;
+
+  localStorage.removeItem(`${SEED_STORAGE_PREFIX}${drawId}`);
+};
+
+/**
+ * How many active members have agreed to replace a cancelled draw. The admin
+ * can only commit a new draw once `agreed` reaches `needed`.
+ */
+export const fetchDrawConsents = async (drawId: string): Promise<DrawConsents> => {
+  const { data, error } = await supabase.rpc("get_position_draw_consents", {
+    p_draw_id: drawId,
+  });
+  if (error) throw error;
+  return data as unknown as DrawConsents;
+};
+
+export const agreeToNewDraw = async (drawId: string): Promise<void> => {
+  const { error } = await supabase.rpc("agree_to_new_position_draw", {
+    p_draw_id: drawId,
+  });
+  if (error) throw error;
+};
@@ -0,0 +1,147 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type SwapStatus = "proposed" | "accepted" | "completed" | "declined" | "rejected" | "cancelled";
+
+export type SwapApprovalMode = "admin" | "auto";
+
+export interface SwapPayout {
+  id: string;
+  member_id: string;
+  slot_number: number;
+  position: number | null;
+  scheduled_date: string | null;
+  status: string;
+  profiles?: { full_name: string | null } | null;
+}
+
+export interface PositionSwap {
+  id: string;
+  thrift_system_id: string;
+  proposer_id: string;
+  proposer_payout_id: string;
+  counterparty_id: string;
+  counterparty_payout_id: string;
+  compensation_amount: number;
+  message: string | null;
+  status: SwapStatus;
+  created_at: string;
+  responded_at: string | null;
+  decided_at: string | null;
+  proposer_payout?: SwapPayout | null;
+  counterparty_payout?: SwapPayout | null;
+}
+
+export const SWAP_STATUS_LABELS: Record<SwapStatus, string> = {
+  proposed: "Waiting for member",
+  accepted: "Waiting for admin",
+  completed: "Swapped",
+  declined: "Declined",
+  rejected: "Rejected by admin",
+  cancelled: "Cancelled",
+};
+
+/**
+ * Swaps that still need someone to act on them.
+ */
+export const isOpenSwap = (swap: Pick<PositionSwap, "status">) =>
+  swap.status === "proposed" || swap.status === "accepted";
+
+const PAYOUT_COLUMNS = `
+  id,
+  member_id,
+  slot_number,
+  position,
+  scheduled_date,
+  status,
+  profiles (
+    full_name
+  )
+`;
+
+/**
+ * Pending payouts in position order; these are the positions that can
+ * still change hands.
+ */
+export const fetchSwappablePayouts = async (thriftSystemId: string): Promise<SwapPayout[]> => {
+  const { data, error } = await supabase
+    .from("payouts")
+    .select(PAYOUT_COLUMNS)
+    .eq("thrift_system_id", thriftSystemId)
+    .eq("status", "pending")
+    .not("position", "is", null)
+    .order("position", { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as SwapPayout[];
+};
+
+export const fetchPositionSwaps = async (thriftSystemId: string): Promise<PositionSwap[]> => {
+  const { data, error } = await supabase
+    .from("position_swaps")
+    .select(`
+      *,
+      proposer_payout:payouts!position_swaps_proposer_payout_id_fkey (${PAYOUT_COLUMNS}),
+      counterparty_payout:payouts!position_swaps_counterparty_payout_id_fkey (${PAYOUT_COLUMNS})
+    `)
+    .eq("thrift_system_id", thriftSystemId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as unknown as PositionSwap[];
+};
+
+export const proposePositionSwap = async (
+  proposerPayoutId: string,
+  counterpartyPayoutId: string,
+  compensation: number,
+  message?: string
+): Promise<string> => {
+  if (!Number.isFinite(compensation) || compensation < 0) {
+    throw new Error("Compensation must be zero or more");
+  }
+
+  const { data, error } = await supabase.rpc("propose_position_swap", {
+    p_proposer_payout_id: proposerPayoutId,
+    p_counterparty_payout_id: counterpartyPayoutId,
+    p_compensation: compensation,
+    p_message: message || undefined,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Accepts or declines a swap offered to the caller. Resolves to the new
+ * status: `completed` when the thrift approves swaps automatically.
+ */
+export const respondToPositionSwap = async (swapId: string, accept: boolean): Promise<SwapStatus> => {
+  const { data, error } = await supabase.rpc("respond_position_swap", {
+    p_swap_id: swapId,
+    p_accept: accept,
+  });
+
+  if (error) throw error;
+  return data as SwapStatus;
+};
+
+/**
+ * Admin approval. Approving moves both payouts in one transaction.
+ */
+export const decidePositionSwap = async (swapId: string, approve: boolean): Promise<SwapStatus> => {
+  const { data, error } = await supabase.rpc("decide_position_swap", {
+    p_swap_id: swapId,
+    p_approve: approve,
+  });
+
+  if (error) throw error;
+  return data as SwapStatus;
+};
+
+export const cancelPositionSwap = async (swapId: string): Promise<void> => {
+  const { error } = await supabase.rpc("cancel_position_swap", {
+    p_swap_id: swapId,
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,71 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type PriorityFeePolicy = "organizer_fee" | "bonus_pool" | "compensate_displaced";
+
+export interface PrioritySettings {
+  priority_moves_per_cycle: number;
+  priority_fee_amount: number;
+  priority_fee_policy: PriorityFeePolicy;
+}
+
+export interface PriorityPayoutMove {
+  id: string;
+  thrift_system_id: string;
+  member_id: string;
+  payout_id: string;
+  displaced_member_id: string;
+  displaced_payout_id: string;
+  from_position: number;
+  to_position: number;
+  fee: number;
+  fee_policy: PriorityFeePolicy;
+  created_at: string;
+}
+
+/**
+ * Priority moves are offered while a cap and a fee are both set.
+ */
+export const isPriorityPayoutEnabled = (settings?: Partial<PrioritySettings> | null) =>
+  Boolean(settings && settings.priority_moves_per_cycle > 0 && settings.priority_fee_amount > 0);
+
+/**
+ * Moves left this cycle, never below zero.
+ */
+export const getRemainingPriorityMoves = (settings: PrioritySettings, moves: PriorityPayoutMove[]) =>
+  Math.max(0, settings.priority_moves_per_cycle - moves.length);
+
+export const fetchPrioritySettings = async (thriftSystemId: string): Promise<PrioritySettings> => {
+  const { data, error } = await supabase
+    .from("thrift_systems")
+    .select("priority_moves_per_cycle, priority_fee_amount, priority_fee_policy")
+    .eq("id", thriftSystemId)
+    .single();
+
+  if (error) throw error;
+  return data as PrioritySettings;
+};
+
+export const fetchPriorityPayoutMoves = async (thriftSystemId: string): Promise<PriorityPayoutMove[]> => {
+  const { data, error } = await supabase
+    .from("priority_payout_moves")
+    .select("*")
+    .eq("thrift_system_id", thriftSystemId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as PriorityPayoutMove[];
+};
+
+/**
+ * Pays the thrift's priority fee from the caller's wallet and trades their
+ * payout for the earlier one. Resolves to the id of the recorded move.
+ */
+export const requestPriorityPayout = async (payoutId: string, targetPayoutId: string): Promise<string> => {
+  const { data, error } = await supabase.rpc("request_priority_payout", {
+    p_payout_id: payoutId,
+    p_target_payout_id: targetPayoutId,
+  });
+
+  if (error) throw error;
+  return data;
+};
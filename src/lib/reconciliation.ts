@@ -0,0 +1,271 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+
+export type SettlementGateway = "paystack" | "flutterwave" | "stripe";
+
+export type ReconciliationExceptionKind =
+  | "amount_mismatch"
+  | "currency_mismatch"
+  | "no_contribution"
+  | "unsettled_contribution"
+  | "unverified_payment";
+
+export type ReconciliationResolution = "accepted" | "corrected" | "written_off" | "settled_later";
+
+export interface SettlementReport {
+  id: string;
+  gateway: string;
+  source: "upload" | "adapter";
+  file_name: string | null;
+  period_start: string;
+  period_end: string;
+  imported_by: string | null;
+  created_at: string;
+  importer?: { full_name: string | null } | null;
+}
+
+export interface ReconciliationException {
+  id: string;
+  report_id: string;
+  kind: ReconciliationExceptionKind;
+  settlement_line_id: string | null;
+  payment_attempt_id: string | null;
+  contribution_id: string | null;
+  reference: string | null;
+  expected_amount: number | null;
+  settled_amount: number | null;
+  status: "open" | "resolved";
+  resolution: ReconciliationResolution | null;
+  resolution_note: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+// One line of a settlement report, amounts in major units
+export interface ParsedSettlementLine {
+  reference: string;
+  amount: number;
+  fee: number;
+  currency: string | null;
+  settled_at: string | null;
+}
+
+export interface ImportSettlementReportInput {
+  gateway: SettlementGateway;
+  periodStart: string;
+  periodEnd: string;
+  lines: ParsedSettlementLine[];
+  fileName?: string;
+}
+
+// The column names the providers' exports use for each field
+const COLUMN_ALIASES: Record<keyof ParsedSettlementLine, string[]> = {
+  reference: ["reference", "tx_ref", "transaction reference", "transaction_reference", "payment_intent", "id"],
+  amount: ["amount", "amount_paid", "gross", "charged_amount"],
+  fee: ["fee", "fees", "app_fee"],
+  currency: ["currency"],
+  settled_at: ["settled_at", "paid_at", "settlement_date", "created_at", "created"],
+};
+
+const splitCsvRow = (row: string): string[] => {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (quoted) {
+      if (char === '"' && row[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells.map((value) => value.trim());
+};
+
+const parseCsv = (text: string): Record<string, string>[] => {
+  const [header, ...rows] = text.split(/\r?\n/).filter((row) => row.trim());
+  if (!header) return [];
+
+  const columns = splitCsvRow(header).map((column) => column.toLowerCase());
+  return rows.map((row) => {
+    const cells = splitCsvRow(row);
+    return Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? ""]));
+  });
+};
+
+const pick = (record: Record<string, unknown>, field: keyof ParsedSettlementLine) => {
+  const lowered = Object.fromEntries(Object.entries(record).map(([key, value]) => [key.toLowerCase(), value]));
+  const key = COLUMN_ALIASES[field].find((alias) => lowered[alias] !== undefined && lowered[alias] !== "");
+  return key ? lowered[key] : undefined;
+};
+
+const toNumber = (value: unknown) => Number(String(value ?? "0").replace(/[^0-9.-]/g, ""));
+
+/**
+ * Reads a provider's settlement export, CSV or JSON (an array of lines or
+ * `{ data: [...] }`). Set `minorUnits` when amounts are in kobo or cents.
+ * Throws on a line without a reference or a readable amount.
+ */
+export const parseSettlementReport = (
+  text: string,
+  { minorUnits = false }: { minorUnits?: boolean } = {}
+): ParsedSettlementLine[] => {
+  const trimmed = text.trim();
+  let records: Record<string, unknown>[];
+
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    const parsed = JSON.parse(trimmed);
+    records = Array.isArray(parsed) ? parsed : parsed?.data;
+    if (!Array.isArray(records)) {
+      throw new Error("Expected a list of settlements or an object with a data list");
+    }
+  } else {
+    records = parseCsv(trimmed);
+  }
+
+  const divisor = minorUnits ? 100 : 1;
+
+  return records.map((record, i) => {
+    const reference = pick(record, "reference");
+    const amount = toNumber(pick(record, "amount"));
+
+    if (!reference || pick(record, "amount") === undefined || Number.isNaN(amount)) {
+      throw new Error(`Line ${i + 1} needs a reference and an amount`);
+    }
+
+    const fee = toNumber(pick(record, "fee"));
+    const currency = pick(record, "currency");
+    const settledAt = pick(record, "settled_at");
+    const date = settledAt !== undefined ? new Date(settledAt as string) : null;
+
+    return {
+      reference: String(reference),
+      amount: amount / divisor,
+      fee: Number.isNaN(fee) ? 0 : fee / divisor,
+      currency: currency ? String(currency).toUpperCase() : null,
+      settled_at: date && !Number.isNaN(date.getTime()) ? date.toISOString() : null,
+    };
+  });
+};
+
+/**
+ * Imports a settlement report and reconciles it against recorded payments.
+ * Resolves to the report id.
+ */
+export const importSettlementReport = async ({
+  gateway,
+  periodStart,
+  periodEnd,
+  lines,
+  fileName,
+}: ImportSettlementReportInput): Promise<string> => {
+  if (periodEnd < periodStart) {
+    throw new Error("The period cannot end before it starts");
+  }
+
+  const { data, error } = await supabase.rpc("import_settlement_report", {
+    p_gateway: gateway,
+    p_source: "upload",
+    p_period_start: periodStart,
+    p_period_end: periodEnd,
+    p_lines: lines as unknown as Json,
+    p_file_name: fileName,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Pulls what the gateway settled over the period through the
+ * `pull-settlements` edge function, then reconciles it like an upload.
+ * Resolves to the report id.
+ */
+export const pullSettlementReport = async (
+  gateway: SettlementGateway,
+  periodStart: string,
+  periodEnd: string
+): Promise<string> => {
+  if (periodEnd < periodStart) {
+    throw new Error("The period cannot end before it starts");
+  }
+
+  const { data, error } = await supabase.functions.invoke("pull-settlements", {
+    body: { gateway, from: periodStart, to: periodEnd },
+  });
+
+  if (error) {
+    // The function's own message is in the response body
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(body?.error || error.message);
+  }
+  return data.reportId;
+};
+
+export const fetchSettlementReports = async (): Promise<SettlementReport[]> => {
+  const { data, error } = await supabase
+    .from("settlement_reports")
+    .select(`
+      *,
+      importer:profiles!settlement_reports_imported_by_fkey (
+        full_name
+      )
+    `)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as unknown as SettlementReport[];
+};
+
+/**
+ * Open exceptions first, then the newest.
+ */
+export const fetchReconciliationExceptions = async (reportId?: string): Promise<ReconciliationException[]> => {
+  let query = supabase
+    .from("reconciliation_exceptions")
+    .select("*")
+    .order("status", { ascending: true })
+    .order("created_at", { ascending: false });
+
+  if (reportId) {
+    query = query.eq("report_id", reportId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return (data || []) as ReconciliationException[];
+};
+
+export const resolveReconciliationException = async (
+  exceptionId: string,
+  resolution: Exclude<ReconciliationResolution, "settled_later">,
+  note: string
+): Promise<void> => {
+  if (!note.trim()) {
+    throw new Error("Explain how the exception was resolved");
+  }
+
+  const { error } = await supabase.rpc("resolve_reconciliation_exception", {
+    p_exception_id: exceptionId,
+    p_resolution: resolution,
+    p_note: note.trim(),
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,350 @@
+import { addMonths, addWeeks } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { distributeBidPremiums, BidPremiumPolicy } from "@/lib/bid-premiums";
+import { getCommittedAmount } from "@/lib/contribution-commitments";
+import { splitSavingsGoal } from "@/lib/target-savings";
+
+export interface RotationSystem {
+  id: string;
+  contribution_amount: number;
+  payout_schedule: string;
+  max_members: number;
+  cycle_duration: number;
+  cycle_start_date: string | null;
+  bid_premium_policy: string;
+  payout_schedule_mode: string;
+  // `variable` lets each membership commit its own amount
+  contribution_mode: string;
+  // `target_savings` groups save towards `goal_amount` (per hand) by
+  // `maturity_date` instead of rotating a pot
+  thrift_type: string;
+  goal_amount: number | null;
+  maturity_date: string | null;
+}
+
+export interface RotationMember {
+  membership_id: string;
+  user_id: string;
+  // Which of the member's hands this entry is, from 1
+  slot_number: number;
+  full_name?: string | null;
+  join_date: string | null;
+  // Position already settled for this member (e.g. by bidding), if any
+  position?: number | null;
+  // Winning bid deducted from this member's payout
+  bid_premium?: number;
+  // What this slot pays each period
+  contribution_amount: number;
+}
+
+export interface ScheduledPayout {
+  position: number;
+  member_id: string;
+  membership_id: string;
+  slot_number: number;
+  full_name?: string | null;
+  amount: number;
+  bid_premium: number;
+  // Share of other members' bid premiums credited to this payout
+  premium_share: number;
+  scheduled_date: string;
+}
+
+export interface ScheduledContribution {
+  membership_id: string;
+  slot_number: number;
+  period_number: number;
+  amount: number;
+  due_date: string;
+}
+
+export interface RotationSchedule {
+  thriftSystemId: string;
+  periods: number;
+  payouts: ScheduledPayout[];
+  contributions: ScheduledContribution[];
+  // Bid premiums kept by the organizer under the `organizer_fee` policy
+  organizerFee: number;
+  // When a target-savings group pays everyone out
+  maturityDate?: string;
+  warnings: string[];
+}
+
+/**
+ * Returns the start date of a period (0-based) for the given payout schedule.
+ */
+export const getPeriodDate = (start: Date, payoutSchedule: string, index: number): Date => {
+  switch (payoutSchedule) {
+    case "weekly":
+      return addWeeks(start, index);
+    case "biweekly":
+      return addWeeks(start, index * 2);
+    case "monthly":
+      return addMonths(start, index);
+    default:
+      throw new Error(`Unsupported payout schedule: ${payoutSchedule}`);
+  }
+};
+
+/**
+ * How many periods start before the maturity date. Each is one instalment
+ * towards a savings goal.
+ */
+export const countSavingsPeriods = (start: Date, maturity: Date, payoutSchedule: string): number => {
+  let periods = 0;
+  while (getPeriodDate(start, payoutSchedule, periods) < maturity) {
+    periods++;
+  }
+  return periods;
+};
+
+/**
+ * Orders member slots into payout positions. Slots with a settled position
+ * keep it; the rest fill the gaps by join date, then membership id and slot
+ * number, so the same inputs always produce the same order.
+ */
+export const assignPositions = (members: RotationMember[]): RotationMember[] => {
+  const slots: (RotationMember | undefined)[] = new Array(members.length);
+  const unplaced: RotationMember[] = [];
+
+  members.forEach((member) => {
+    const position = member.position;
+    if (position && position >= 1 && position <= members.length && !slots[position - 1]) {
+      slots[position - 1] = member;
+    } else {
+      unplaced.push(member);
+    }
+  });
+
+  unplaced.sort((a, b) => {
+    const byDate = (a.join_date || "").localeCompare(b.join_date || "");
+    if (byDate !== 0) return byDate;
+    const byMembership = a.membership_id.localeCompare(b.membership_id);
+    return byMembership !== 0 ? byMembership : a.slot_number - b.slot_number;
+  });
+
+  return slots.map((slot) => slot || unplaced.shift()!);
+};
+
+const buildContributions = (
+  system: RotationSystem,
+  members: RotationMember[],
+  start: Date,
+  periods: number,
+  amountFor: (member: RotationMember, period: number) => number = (member) => member.contribution_amount
+): ScheduledContribution[] => {
+  const contributions: ScheduledContribution[] = [];
+  for (let period = 1; period <= periods; period++) {
+    const dueDate = getPeriodDate(start, system.payout_schedule, period - 1).toISOString();
+    members.forEach((member) => {
+      contributions.push({
+        membership_id: member.membership_id,
+        slot_number: member.slot_number,
+        period_number: period,
+        amount: amountFor(member, period),
+        due_date: dueDate,
+      });
+    });
+  }
+  return contributions;
+};
+
+/**
+ * Builds every contribution (per slot, per period) and payout (one per
+ * position) for a thrift cycle without writing anything. Auction-mode
+ * systems get contributions only; each payout is created when its round
+ * closes. Each payout is what its slot pays in over the cycle, which in
+ * fixed mode is the whole pot. Target-savings groups get contributions
+ * only too; everyone is paid out at maturity.
+ */
+export const buildRotationSchedule = (
+  system: RotationSystem,
+  members: RotationMember[]
+): RotationSchedule => {
+  if (!system.cycle_start_date) {
+    throw new Error("Set a cycle start date before generating the schedule");
+  }
+  if (members.length === 0) {
+    throw new Error("There are no active members to schedule");
+  }
+  if (members.length > system.max_members) {
+    throw new Error(
+      `Active members hold ${members.length} slots but this thrift system only allows ${system.max_members}`
+    );
+  }
+
+  const warnings: string[] = [];
+  const start = new Date(system.cycle_start_date);
+  const ordered = assignPositions(members);
+
+  if (system.thrift_type === "target_savings") {
+    if (!system.goal_amount || !system.maturity_date) {
+      throw new Error("Set a savings goal and maturity date before generating the schedule");
+    }
+    const savingsPeriods = countSavingsPeriods(start, new Date(system.maturity_date), system.payout_schedule);
+    if (savingsPeriods === 0) {
+      throw new Error("The maturity date must be after the cycle start date");
+    }
+    const instalments = splitSavingsGoal(system.goal_amount, savingsPeriods);
+
+    return {
+      thriftSystemId: system.id,
+      periods: savingsPeriods,
+      payouts: [],
+      contributions: buildContributions(system, ordered, start, savingsPeriods, (_, period) => instalments[period - 1]),
+      organizerFee: 0,
+      maturityDate: system.maturity_date,
+      warnings,
+    };
+  }
+  const periods = ordered.length;
+
+  if (periods < system.max_members) {
+    warnings.push(
+      `Only ${periods} of ${system.max_members} slots are filled; the cycle will run for ${periods} periods.`
+    );
+  }
+
+  const lastPayout = getPeriodDate(start, system.payout_schedule, periods - 1);
+  const cycleEnd = addMonths(start, system.cycle_duration);
+  if (lastPayout > cycleEnd) {
+    warnings.push(
+      `The last payout (${lastPayout.toLocaleDateString()}) falls after the ${system.cycle_duration}-month cycle ends.`
+    );
+  }
+
+  if (system.payout_schedule_mode === "auction") {
+    if (system.contribution_mode === "variable") {
+      throw new Error("Auction payouts need every member to contribute the same amount");
+    }
+    return {
+      thriftSystemId: system.id,
+      periods,
+      payouts: [],
+      contributions: buildContributions(system, ordered, start, periods),
+      organizerFee: 0,
+      warnings,
+    };
+  }
+
+  const { shares, organizerFee } = distributeBidPremiums(
+    ordered.map((member, index) => ({ position: index + 1, bid_premium: member.bid_premium || 0 })),
+    system.bid_premium_policy as BidPremiumPolicy
+  );
+
+  const payouts: ScheduledPayout[] = ordered.map((member, index) => ({
+    position: index + 1,
+    member_id: member.user_id,
+    membership_id: member.membership_id,
+    slot_number: member.slot_number,
+    full_name: member.full_name,
+    amount: member.contribution_amount * periods - (member.bid_premium || 0) + shares[index + 1],
+    bid_premium: member.bid_premium || 0,
+    premium_share: shares[index + 1],
+    scheduled_date: getPeriodDate(start, system.payout_schedule, index).toISOString(),
+  }));
+
+  const contributions = buildContributions(system, ordered, start, periods);
+
+  // Large commitments paid out early can take more than has been collected
+  const periodTotal = ordered.reduce((sum, member) => sum + member.contribution_amount, 0);
+  let paidOut = 0;
+  const shortPosition = payouts.find((payout) => {
+    paidOut += payout.amount;
+    return paidOut > periodTotal * payout.position;
+  });
+  if (shortPosition) {
+    warnings.push(
+      `By position ${shortPosition.position} the payouts exceed what members have paid in; place larger commitments later in the rotation.`
+    );
+  }
+
+  return { thriftSystemId: system.id, periods, payouts, contributions, organizerFee, warnings };
+};
+
+/**
+ * Loads the thrift system and its active members, one entry per slot, and
+ * builds the schedule for preview.
+ */
+export const previewRotationSchedule = async (thriftSystemId: string): Promise<RotationSchedule> => {
+  const { data: system, error: systemError } = await supabase
+    .from("thrift_systems")
+    .select("id, contribution_amount, contribution_mode, payout_schedule, max_members, cycle_duration, cycle_start_date, bid_premium_policy, payout_schedule_mode, thrift_type, goal_amount, maturity_date")
+    .eq("id", thriftSystemId)
+    .single();
+  if (systemError) throw systemError;
+
+  const { data: memberships, error: membershipsError } = await supabase
+    .from("memberships")
+    .select(`
+      id,
+      user_id,
+      join_date,
+      slot_count,
+      committed_amount,
+      profiles (
+        full_name
+      )
+    `)
+    .eq("thrift_system_id", thriftSystemId)
+    .eq("status", "active");
+  if (membershipsError) throw membershipsError;
+
+  const { data: preferences, error: preferencesError } = await supabase
+    .from("disbursement_preferences")
+    .select("member_id, slot_number, actual_position, bid_premium")
+    .eq("thrift_system_id", thriftSystemId)
+    .not("actual_position", "is", null);
+  if (preferencesError) throw preferencesError;
+
+  const members: RotationMember[] = (memberships || []).flatMap((m) =>
+    Array.from({ length: m.slot_count || 1 }, (_, index) => {
+      const slotNumber = index + 1;
+      const preference = preferences?.find(
+        (p) => p.member_id === m.user_id && p.slot_number === slotNumber
+      );
+      return {
+        membership_id: m.id,
+        user_id: m.user_id,
+        slot_number: slotNumber,
+        full_name: m.profiles?.full_name,
+        join_date: m.join_date,
+        position: preference?.actual_position,
+        bid_premium: preference?.bid_premium,
+        contribution_amount: getCommittedAmount(system, m),
+      };
+    })
+  );
+
+  return buildRotationSchedule(system, members);
+};
+
+/**
+ * Materializes a previewed schedule. Safe to call again after members or
+ * positions change; settled rows are left as they are. The server works out
+ * every amount again from the members' commitments and bid premiums, so only
+ * who is paid when is sent.
+ */
+export const commitRotationSchedule = async (schedule: RotationSchedule): Promise<number> => {
+  const { data, error } = await supabase.rpc("apply_rotation_schedule", {
+    p_thrift_system_id: schedule.thriftSystemId,
+    p_schedule: {
+      periods: schedule.periods,
+      payouts: schedule.payouts.map(({ position, member_id, slot_number, scheduled_date }) => ({
+        position,
+        member_id,
+        slot_number,
+        scheduled_date,
+      })),
+      contributions: schedule.contributions.map(({ membership_id, slot_number, period_number, due_date }) => ({
+        membership_id,
+        slot_number,
+        period_number,
+        due_date,
+      })),
+    },
+  });
+
+  if (error) throw error;
+  return data;
+};
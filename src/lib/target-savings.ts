@@ -0,0 +1,49 @@
+import { addMonths, differenceInCalendarMonths } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+
+export type ThriftType = "rotating" | "target_savings";
+
+export const THRIFT_TYPE_LABELS: Record<ThriftType, string> = {
+  rotating: "Rotating: members take turns receiving the pot",
+  target_savings: "Target savings: everyone saves towards a goal",
+};
+
+export interface MemberSavingsProgress {
+  membership_id: string;
+  member_id: string;
+  member_name: string | null;
+  slot_count: number;
+  // Goal for all of the member's hands
+  goal: number;
+  saved: number;
+}
+
+/**
+ * Splits a savings goal into per-period instalments in kobo. The last
+ * instalment absorbs the rounding so they add up to the goal exactly.
+ */
+export const splitSavingsGoal = (goal: number, periods: number): number[] => {
+  const goalKobo = Math.round(goal * 100);
+  const instalmentKobo = Math.floor(goalKobo / periods);
+  return Array.from({ length: periods }, (_, index) =>
+    (index === periods - 1 ? goalKobo - instalmentKobo * (periods - 1) : instalmentKobo) / 100
+  );
+};
+
+/**
+ * Whole months from the start until maturity, the cycle duration of a
+ * target-savings group.
+ */
+export const getSavingsCycleMonths = (start: Date, maturity: Date): number => {
+  const months = differenceInCalendarMonths(maturity, start);
+  return Math.max(1, addMonths(start, months) < maturity ? months + 1 : months);
+};
+
+export const fetchTargetSavingsProgress = async (thriftSystemId: string): Promise<MemberSavingsProgress[]> => {
+  const { data, error } = await supabase.rpc("target_savings_progress", {
+    p_thrift_system_id: thriftSystemId,
+  });
+
+  if (error) throw error;
+  return data as unknown as MemberSavingsProgress[];
+};
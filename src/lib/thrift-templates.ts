@@ -0,0 +1,79 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type LateFeeType = "none" | "flat" | "percentage";
+
+// Everything a new thrift system can be prefilled with
+export interface ThriftConfiguration {
+  description: string | null;
+  contribution_amount: number;
+  payout_schedule: string;
+  cycle_duration: number;
+  max_members: number;
+  is_escrow_enabled: boolean;
+  late_grace_days: number;
+  late_fee_type: LateFeeType | string;
+  late_fee_amount: number;
+  late_fee_cap: number | null;
+}
+
+export interface ThriftTemplate extends ThriftConfiguration {
+  id: string;
+  name: string;
+  created_at: string;
+}
+
+/**
+ * The reusable part of an existing thrift system, for cloning it.
+ */
+export const configurationFromSystem = (
+  system: Omit<ThriftConfiguration, "is_escrow_enabled"> & { is_escrow_enabled: boolean | null }
+): ThriftConfiguration => ({
+  description: system.description,
+  contribution_amount: system.contribution_amount,
+  payout_schedule: system.payout_schedule,
+  cycle_duration: system.cycle_duration,
+  max_members: system.max_members,
+  is_escrow_enabled: Boolean(system.is_escrow_enabled),
+  late_grace_days: system.late_grace_days,
+  late_fee_type: system.late_fee_type,
+  late_fee_amount: system.late_fee_amount,
+  late_fee_cap: system.late_fee_cap,
+});
+
+export const fetchThriftTemplates = async (): Promise<ThriftTemplate[]> => {
+  const { data, error } = await supabase
+    .from("thrift_templates")
+    .select("*")
+    .order("name", { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as ThriftTemplate[];
+};
+
+/**
+ * Saves a configuration under a name. Saving again under the same name
+ * replaces the earlier template.
+ */
+export const saveThriftTemplate = async (name: string, configuration: ThriftConfiguration): Promise<ThriftTemplate> => {
+  if (!name.trim()) {
+    throw new Error("Give the template a name");
+  }
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError) throw userError;
+
+  const { data, error } = await supabase
+    .from("thrift_templates")
+    .upsert({ ...configuration, name: name.trim(), admin_id: user.id }, { onConflict: "admin_id,name" })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as ThriftTemplate;
+};
+
+export const deleteThriftTemplate = async (templateId: string): Promise<void> => {
+  const { error } = await supabase.from("thrift_templates").delete().eq("id", templateId);
+
+  if (error) throw error;
+};
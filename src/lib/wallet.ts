@@ -0,0 +1,106 @@
+import { supabase } from "@/integrations/supabase/client";
+import { PaymentResult } from "@/lib/contribution-payments";
+
+export type PayoutDestination = "bank_account" | "wallet";
+
+export type WalletEntryType =
+  | "opening_balance"
+  | "wallet_topup"
+  | "wallet_payment"
+  | "payout"
+  | "payout_reversal"
+  | "dividend"
+  | "withdrawal"
+  | "withdrawal_reversal";
+
+// One movement in or out of the caller's wallet
+export interface WalletEntry {
+  id: string;
+  entry_type: WalletEntryType | string;
+  // Positive when money came into the wallet, negative when it left
+  amount: number;
+  description: string | null;
+  thrift_name: string | null;
+  created_at: string;
+}
+
+export interface WalletStatement {
+  balance: number;
+  entries: WalletEntry[];
+}
+
+export const WALLET_ENTRY_LABELS: Record<WalletEntryType, string> = {
+  opening_balance: "Opening balance",
+  wallet_topup: "Top-up",
+  wallet_payment: "Contribution payment",
+  payout: "Payout",
+  payout_reversal: "Payout reversed",
+  dividend: "Dividend",
+  withdrawal: "Withdrawal",
+  withdrawal_reversal: "Withdrawal returned",
+};
+
+export const PAYOUT_DESTINATION_LABELS: Record<PayoutDestination, string> = {
+  bank_account: "Bank account",
+  wallet: "Wallet",
+};
+
+export const fetchWalletStatement = async (): Promise<WalletStatement> => {
+  const { data, error } = await supabase.rpc("wallet_statement");
+
+  if (error) throw error;
+  return data as unknown as WalletStatement;
+};
+
+/**
+ * Pays a contribution from the wallet. Penalties are settled first, the same
+ * as any other payment.
+ */
+export const payContributionFromWallet = async (
+  contributionId: string,
+  amount: number
+): Promise<PaymentResult & { balance: number }> => {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error("Please enter a valid amount");
+  }
+
+  const { data, error } = await supabase.rpc("pay_contribution_from_wallet", {
+    p_contribution_id: contributionId,
+    p_amount: amount,
+  });
+
+  if (error) throw error;
+  return data as unknown as PaymentResult & { balance: number };
+};
+
+export const updateWalletPreferences = async (
+  membershipId: string,
+  walletAutopay: boolean,
+  payoutDestination: PayoutDestination
+): Promise<void> => {
+  const { error } = await supabase.rpc("update_wallet_preferences", {
+    p_membership_id: membershipId,
+    p_wallet_autopay: walletAutopay,
+    p_payout_destination: payoutDestination,
+  });
+
+  if (error) throw error;
+};
+
+/**
+ * Takes the amount out of the wallet straight away and queues a transfer to
+ * a verified bank account. A failed transfer returns the money.
+ */
+export const requestWalletWithdrawal = async (bankAccountId: string, amount: number): Promise<string> => {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error("Please enter a valid amount");
+  }
+
+  const { data, error } = await supabase.rpc("request_wallet_withdrawal", {
+    p_bank_account_id: bankAccountId,
+    p_amount: amount,
+  });
+
+  if (error) throw error;
+  return (data as unknown as { withdrawal_id: string }).withdrawal_id;
+};
@@ -8,6 +8,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Loader2, Filter, X, ChevronDown, ChevronUp, Eye, UserPlus, PauseCircle, PlayCircle } from "lucide-react";
+import GuarantorPanel from "@/components/GuarantorPanel";
+import WalletPanel from "@/components/WalletPanel";
+import CycleRolloverInvites from "@/components/CycleRolloverInvites";
 
 interface ThriftSystem {
   id: string;
@@ -715,6 +718,12 @@ const ClientDashboard: React.FC = () => {
               )}
             </div>
           </div>
+
+          <CycleRolloverInvites />
+
+          <WalletPanel />
+
+          <GuarantorPanel />
         </>
       )}
 
@@ -7,6 +7,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Loader2 } from "lucide-react";
 import FinancialReportDetail from "@/components/FinancialReportDetail";
+import ReconciliationPanel from "@/components/reconciliation/ReconciliationPanel";
 
 const FinancialReports = () => {
   const [selectedThriftSystem, setSelectedThriftSystem] = useState<string>("all");
@@ -45,6 +46,22 @@ const FinancialReports = () => {
     }
   });
 
+  // Settlement reconciliation covers the platform's gateway accounts
+  const { data: isPlatformAdmin } = useQuery({
+    queryKey: ['is-platform-admin', currentUserId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', currentUserId!)
+        .single();
+
+      if (error) throw error;
+      return data?.role === 'admin';
+    },
+    enabled: !!currentUserId
+  });
+
   const isSystemAdmin = (systemId: string): boolean => {
     if (!currentUserId || !thriftSystems) return false;
     const system = thriftSystems.find(s => s.id === systemId);
@@ -89,6 +106,7 @@ const FinancialReports = () => {
           <TabsList className="mb-6">
             <TabsTrigger value="reports">Reports</TabsTrigger>
             <TabsTrigger value="insights">Insights</TabsTrigger>
+            {isPlatformAdmin && <TabsTrigger value="reconciliation">Reconciliation</TabsTrigger>}
           </TabsList>
           
           <TabsContent value="reports">
@@ -191,6 +209,12 @@ const FinancialReports = () => {
               </Card>
             </div>
           </TabsContent>
+
+          {isPlatformAdmin && (
+            <TabsContent value="reconciliation">
+              <ReconciliationPanel />
+            </TabsContent>
+          )}
         </Tabs>
       )}
     </div>
@@ -39,6 +39,10 @@ export interface PayoutData {
   processingFee?: number;
   notes?: string;
   metadata?: Record<string, any>;
+  priority_fee?: number | null;
+  priority_moved_from?: number | null;
+  priority_displaced_from?: number | null;
+  priority_bonus?: number;
   [key: string]: any;
 }
 
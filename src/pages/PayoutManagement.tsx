@@ -0,0 +1,281 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Pause, Play } from "lucide-react";
+import { toast } from "sonner";
+import PayoutPauseDialog from "@/components/payout/PayoutPauseDialog";
+import {
+  ManagedPayout,
+  canPausePayout,
+  fetchManagedPayouts,
+  fetchPayoutPauseEvents,
+  isPayoutPaused,
+  resumePayouts,
+} from "@/lib/payout-pauses";
+
+// Admins hold back and release the payouts of the thrift systems they run
+const PayoutManagement = () => {
+  const queryClient = useQueryClient();
+  const [selectedThriftSystem, setSelectedThriftSystem] = useState("");
+  // `null` pauses every pending payout of the thrift
+  const [pauseTarget, setPauseTarget] = useState<ManagedPayout | null | undefined>(undefined);
+
+  const { data: thriftSystems = [], isLoading: loadingThriftSystems } = useQuery({
+    queryKey: ['adminPayoutThriftSystems'],
+    queryFn: async () => {
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError) throw userError;
+
+      const { data, error } = await supabase
+        .from('thrift_systems')
+        .select('id, name')
+        .eq('admin_id', user!.id)
+        .order('name');
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const { data: payouts = [], isLoading: loadingPayouts } = useQuery({
+    queryKey: ['managedPayouts', selectedThriftSystem],
+    queryFn: () => fetchManagedPayouts(selectedThriftSystem),
+    enabled: Boolean(selectedThriftSystem),
+  });
+
+  const { data: pauseEvents = [] } = useQuery({
+    queryKey: ['payoutPauseEvents', selectedThriftSystem],
+    queryFn: () => fetchPayoutPauseEvents(selectedThriftSystem),
+    enabled: Boolean(selectedThriftSystem),
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['managedPayouts', selectedThriftSystem] });
+    queryClient.invalidateQueries({ queryKey: ['payoutPauseEvents', selectedThriftSystem] });
+  };
+
+  const resumeMutation = useMutation({
+    mutationFn: (payoutId?: string) => resumePayouts(selectedThriftSystem, payoutId),
+    onSuccess: (count) => {
+      toast.success(`${count} ${count === 1 ? "payout" : "payouts"} resumed`);
+      refresh();
+    },
+    onError: (error) => {
+      console.error("Error resuming payouts:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to resume payouts");
+    }
+  });
+
+  const hasPending = payouts.some(canPausePayout);
+  const hasPaused = payouts.some(isPayoutPaused);
+
+  return (
+    <div className="max-w-7xl mx-auto p-4 sm:p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold">Payout Management</h1>
+          <p className="text-muted-foreground mt-1">
+            Pause payouts that should not go out yet and resume them when they can
+          </p>
+        </div>
+
+        {!loadingThriftSystems && thriftSystems.length > 0 && (
+          <Select value={selectedThriftSystem} onValueChange={setSelectedThriftSystem}>
+            <SelectTrigger className="w-full sm:w-[250px]">
+              <SelectValue placeholder="Select thrift system" />
+            </SelectTrigger>
+            <SelectContent>
+              {thriftSystems.map((system) => (
+                <SelectItem key={system.id} value={system.id}>
+                  {system.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {loadingThriftSystems ? (
+        <div className="flex justify-center items-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : !selectedThriftSystem ? (
+        <p className="text-muted-foreground">
+          {thriftSystems.length ? "Select a thrift system to manage its payouts." : "You do not run any thrift systems yet."}
+        </p>
+      ) : (
+        <>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>Payouts</CardTitle>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => setPauseTarget(null)} disabled={!hasPending}>
+                  <Pause className="mr-2 h-4 w-4" />
+                  Pause All
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => resumeMutation.mutate(undefined)}
+                  disabled={!hasPaused || resumeMutation.isPending}
+                >
+                  <Play className="mr-2 h-4 w-4" />
+                  Resume All
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {loadingPayouts ? (
+                <div className="flex justify-center items-center py-8">
+                  <Loader2 className="h-6 w-6 animate-spin" />
+                </div>
+              ) : payouts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No payouts have been scheduled yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Position</TableHead>
+                      <TableHead>Member</TableHead>
+                      <TableHead>Amount</TableHead>
+                      <TableHead>Scheduled</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {payouts.map((payout) => (
+                      <TableRow key={payout.id}>
+                        <TableCell>#{payout.position}</TableCell>
+                        <TableCell>{payout.profiles?.full_name || "Unknown Member"}</TableCell>
+                        <TableCell>₦{payout.amount}</TableCell>
+                        <TableCell>{new Date(payout.scheduled_date).toLocaleDateString()}</TableCell>
+                        <TableCell>
+                          {isPayoutPaused(payout) ? (
+                            <div className="space-y-1">
+                              <Badge variant="destructive">Paused</Badge>
+                              <p className="text-xs text-muted-foreground">
+                                {payout.admin_pause_reason}
+                                {payout.admin_paused_until &&
+                                  ` (until ${new Date(payout.admin_paused_until).toLocaleDateString()})`}
+                              </p>
+                            </div>
+                          ) : (
+                            <div className="space-y-1">
+                              <Badge
+                                variant={
+                                  payout.status === "completed" ? "success" : payout.status === "failed" ? "destructive" : "secondary"
+                                }
+                              >
+                                {payout.status}
+                              </Badge>
+                              {payout.failure_reason && payout.status !== "completed" && (
+                                <p className="text-xs text-muted-foreground">
+                                  {payout.failure_reason} ({payout.transfer_attempts}{" "}
+                                  {payout.transfer_attempts === 1 ? "attempt" : "attempts"}
+                                  {payout.next_transfer_attempt_at &&
+                                    `, retrying ${new Date(payout.next_transfer_attempt_at).toLocaleString()}`})
+                                </p>
+                              )}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {isPayoutPaused(payout) ? (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => resumeMutation.mutate(payout.id)}
+                              disabled={resumeMutation.isPending}
+                            >
+                              Resume
+                            </Button>
+                          ) : canPausePayout(payout) ? (
+                            <Button size="sm" variant="outline" onClick={() => setPauseTarget(payout)}>
+                              Pause
+                            </Button>
+                          ) : null}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Pause History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {pauseEvents.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No payouts have been paused.</p>
+              ) : (
+                <div className="max-h-80 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>When</TableHead>
+                        <TableHead>Payout</TableHead>
+                        <TableHead>Action</TableHead>
+                        <TableHead>By</TableHead>
+                        <TableHead>Reason</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {pauseEvents.map((event) => (
+                        <TableRow key={event.id}>
+                          <TableCell>{new Date(event.created_at).toLocaleString()}</TableCell>
+                          <TableCell>
+                            #{event.payouts?.position} {event.payouts?.profiles?.full_name || "Unknown Member"}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={event.action === "paused" ? "destructive" : "outline"}>
+                              {event.action === "paused" ? "Paused" : "Resumed"}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{event.actor_id ? event.actor?.full_name || "Admin" : "Resume date reached"}</TableCell>
+                          <TableCell>
+                            {event.reason || "-"}
+                            {event.resume_at && (
+                              <p className="text-xs text-muted-foreground">
+                                Until {new Date(event.resume_at).toLocaleDateString()}
+                              </p>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <PayoutPauseDialog
+            open={pauseTarget !== undefined}
+            onClose={() => setPauseTarget(undefined)}
+            thriftSystemId={selectedThriftSystem}
+            payoutId={pauseTarget?.id}
+            label={pauseTarget ? `payout #${pauseTarget.position}` : "all pending payouts"}
+            onPaused={refresh}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PayoutManagement;
@@ -2,13 +2,32 @@ import React, { useState, useEffect } from "react";
 import { useParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import MemberManagement from "@/components/MemberManagement";
+import RotationSchedulePreview from "@/components/RotationSchedulePreview";
+import CloseBiddingDialog from "@/components/CloseBiddingDialog";
+import PositionDrawDialog from "@/components/PositionDrawDialog";
+import AuctionRoom from "@/components/AuctionRoom";
+import PositionSwapDialog from "@/components/PositionSwapDialog";
+import CycleCloseDialog from "@/components/CycleCloseDialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { BID_PREMIUM_POLICY_LABELS, PRIORITY_FEE_POLICY_LABELS } from "@/constants/payouts";
+import { CONTRIBUTION_MODE_LABELS } from "@/lib/contribution-commitments";
 
 const ThriftSystemDetails = () => {
   const { id } = useParams<{ id: string }>();
   const [system, setSystem] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [showCloseBidding, setShowCloseBidding] = useState(false);
+  const [showDraw, setShowDraw] = useState(false);
+  const [showAuction, setShowAuction] = useState(false);
+  const [showSwaps, setShowSwaps] = useState(false);
+  const [showCycleClose, setShowCycleClose] = useState(false);
 
   useEffect(() => {
     const fetchSystemDetails = async () => {
@@ -31,6 +50,143 @@ const ThriftSystemDetails = () => {
     }
   }, [id]);
 
+  const handlePolicyChange = async (policy: string) => {
+    const { error } = await supabase
+      .from("thrift_systems")
+      .update({ bid_premium_policy: policy })
+      .eq("id", system.id);
+    if (error) {
+      toast.error(error.message || "Failed to update bid premium policy");
+      return;
+    }
+    setSystem({ ...system, bid_premium_policy: policy });
+    toast.success("Bid premium policy updated. Regenerate the schedule to apply it.");
+  };
+
+  const handleModeChange = async (mode: string) => {
+    const { error } = await supabase
+      .from("thrift_systems")
+      .update({ position_assignment_mode: mode })
+      .eq("id", system.id);
+    if (error) {
+      toast.error(error.message || "Failed to update position assignment");
+      return;
+    }
+    setSystem({ ...system, position_assignment_mode: mode });
+  };
+
+  const handleScheduleModeChange = async (mode: string) => {
+    const { error } = await supabase
+      .from("thrift_systems")
+      .update({ payout_schedule_mode: mode })
+      .eq("id", system.id);
+    if (error) {
+      toast.error(error.message || "Failed to update payout mode");
+      return;
+    }
+    setSystem({ ...system, payout_schedule_mode: mode });
+    toast.success("Payout mode updated. Regenerate the schedule to apply it.");
+  };
+
+  const handleContributionModeChange = async (mode: string) => {
+    const { error } = await supabase
+      .from("thrift_systems")
+      .update({ contribution_mode: mode })
+      .eq("id", system.id);
+    if (error) {
+      toast.error(error.message || "Failed to update contribution mode");
+      return;
+    }
+    setSystem({ ...system, contribution_mode: mode });
+    toast.success("Contribution mode updated. Regenerate the schedule to apply it.");
+  };
+
+  const handleSwapApprovalChange = async (mode: string) => {
+    const { error } = await supabase
+      .from("thrift_systems")
+      .update({ swap_approval_mode: mode })
+      .eq("id", system.id);
+    if (error) {
+      toast.error(error.message || "Failed to update swap approval");
+      return;
+    }
+    setSystem({ ...system, swap_approval_mode: mode });
+  };
+
+  const handlePrioritySettingChange = async (
+    field: "priority_moves_per_cycle" | "priority_fee_amount" | "priority_fee_policy",
+    value: string | number
+  ) => {
+    if (value === system[field]) return;
+
+    const { error } = await supabase
+      .from("thrift_systems")
+      .update({ [field]: value })
+      .eq("id", system.id);
+    if (error) {
+      toast.error(error.message || "Failed to update priority payout settings");
+      return;
+    }
+    setSystem({ ...system, [field]: value });
+    toast.success("Priority payout settings updated");
+  };
+
+  const handleAuctionSettingChange = async (
+    field: "organizer_commission_percent" | "auction_max_discount_percent",
+    value: string
+  ) => {
+    const percent = Number(value);
+    if (value === "" || percent === system[field]) return;
+
+    const { error } = await supabase
+      .from("thrift_systems")
+      .update({ [field]: percent })
+      .eq("id", system.id);
+    if (error) {
+      toast.error(error.message || "Failed to update auction settings");
+      return;
+    }
+    setSystem({ ...system, [field]: percent });
+    toast.success("Auction settings updated. They apply from the next round.");
+  };
+
+  const handleLatePolicyChange = async (
+    field: "late_grace_days" | "late_fee_type" | "late_fee_amount" | "late_fee_cap",
+    value: string | number | null
+  ) => {
+    if (value === system[field]) return;
+
+    const { error } = await supabase
+      .from("thrift_systems")
+      .update({ [field]: value })
+      .eq("id", system.id);
+    if (error) {
+      toast.error(error.message || "Failed to update late payment rules");
+      return;
+    }
+    setSystem({ ...system, [field]: value });
+    toast.success("Late payment rules updated");
+  };
+
+  const handleGuarantorSettingChange = async (
+    field: "guarantors_required" | "guarantor_call_days",
+    value: string
+  ) => {
+    const count = Number(value);
+    if (value === "" || count === system[field]) return;
+
+    const { error } = await supabase
+      .from("thrift_systems")
+      .update({ [field]: count })
+      .eq("id", system.id);
+    if (error) {
+      toast.error(error.message || "Failed to update guarantor rules");
+      return;
+    }
+    setSystem({ ...system, [field]: count });
+    toast.success("Guarantor rules updated");
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -43,15 +199,346 @@ const ThriftSystemDetails = () => {
     return <div>Error loading system details: {error}</div>;
   }
 
+  // Target-savings groups have no payout order; everyone is paid at maturity
+  const isTargetSavings = system.thrift_type === "target_savings";
+
   return (
     <div className="p-4">
-      <h1 className="text-2xl font-bold mb-4">{system.name}</h1>
+      <h1 className="text-2xl font-bold mb-4">
+        {system.name}
+        {system.cycle_number > 1 && (
+          <span className="ml-2 text-base font-normal text-muted-foreground">Cycle {system.cycle_number}</span>
+        )}
+      </h1>
       {/* Render other system details here */}
-      <p className="mb-4">Contribution Amount: ₦{system.contribution_amount}</p>
+      <p className="mb-4">
+        {system.contribution_mode === "variable" ? "Default Contribution" : "Contribution Amount"}: ₦{system.contribution_amount}
+      </p>
       <p className="mb-4">Payout Schedule: {system.payout_schedule}</p>
+      {isTargetSavings && (
+        <p className="mb-4">
+          Savings Goal: ₦{system.goal_amount} per member by {new Date(system.maturity_date).toLocaleDateString()}
+          {system.bonus_pool_enabled && ", with late fees shared as a bonus"}
+          {system.matured_at && ` (matured ${new Date(system.matured_at).toLocaleDateString()})`}
+        </p>
+      )}
+
+      <div className="mb-4 max-w-sm space-y-2">
+        <Label htmlFor="contribution-mode">Contributions</Label>
+        <Select
+          value={system.contribution_mode}
+          onValueChange={handleContributionModeChange}
+          disabled={isTargetSavings || system.status === "active" || system.status === "completed"}
+        >
+          <SelectTrigger id="contribution-mode">
+            <SelectValue placeholder="Select contribution mode" />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(CONTRIBUTION_MODE_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value} disabled={value === "variable" && system.payout_schedule_mode === "auction"}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {system.contribution_mode === "variable" && (
+          <p className="text-xs text-muted-foreground">
+            Each member pays their own commitment and is paid out what they put in over the cycle.
+          </p>
+        )}
+      </div>
+
+      <div className="mb-4 max-w-sm space-y-2">
+        <Label htmlFor="payout-schedule-mode">Payout mode</Label>
+        <Select value={system.payout_schedule_mode} onValueChange={handleScheduleModeChange}>
+          <SelectTrigger id="payout-schedule-mode">
+            <SelectValue placeholder="Select payout mode" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="rotation">Fixed rotation</SelectItem>
+            <SelectItem value="auction" disabled={isTargetSavings || system.contribution_mode === "variable"}>
+              Chit-fund auction each round
+            </SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {system.payout_schedule_mode === "auction" ? (
+        <div className="mb-4 grid max-w-sm grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="organizer-commission">Organizer commission (%)</Label>
+            <Input
+              id="organizer-commission"
+              type="number"
+              min={0}
+              max={99}
+              defaultValue={system.organizer_commission_percent}
+              onBlur={(e) => handleAuctionSettingChange("organizer_commission_percent", e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="max-discount">Maximum discount (%)</Label>
+            <Input
+              id="max-discount"
+              type="number"
+              min={1}
+              max={100}
+              defaultValue={system.auction_max_discount_percent}
+              onBlur={(e) => handleAuctionSettingChange("auction_max_discount_percent", e.target.value)}
+            />
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="mb-4 max-w-sm space-y-2">
+            <Label htmlFor="position-assignment">Payout order</Label>
+            <Select value={system.position_assignment_mode} onValueChange={handleModeChange}>
+              <SelectTrigger id="position-assignment">
+                <SelectValue placeholder="Select how positions are assigned" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="bidding">Member preferences and bidding</SelectItem>
+                <SelectItem value="draw">Random draw</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="mb-4 max-w-sm space-y-2">
+            <Label htmlFor="swap-approval">Position swaps</Label>
+            <Select value={system.swap_approval_mode} onValueChange={handleSwapApprovalChange}>
+              <SelectTrigger id="swap-approval">
+                <SelectValue placeholder="Select how swaps are approved" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="admin">Admin approves each swap</SelectItem>
+                <SelectItem value="auto">Approve once both members agree</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {!isTargetSavings && (
+            <div className="mb-4 grid max-w-sm grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="priority-moves">Priority moves per cycle</Label>
+                <Input
+                  id="priority-moves"
+                  type="number"
+                  min={0}
+                  defaultValue={system.priority_moves_per_cycle}
+                  onBlur={(e) => e.target.value !== "" && handlePrioritySettingChange("priority_moves_per_cycle", Number(e.target.value))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="priority-fee">Priority fee (₦)</Label>
+                <Input
+                  id="priority-fee"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  defaultValue={system.priority_fee_amount}
+                  onBlur={(e) => e.target.value !== "" && handlePrioritySettingChange("priority_fee_amount", Number(e.target.value))}
+                />
+              </div>
+              {system.priority_moves_per_cycle > 0 && (
+                <div className="col-span-2 space-y-2">
+                  <Label htmlFor="priority-fee-policy">Priority fees</Label>
+                  <Select
+                    value={system.priority_fee_policy}
+                    onValueChange={(policy) => handlePrioritySettingChange("priority_fee_policy", policy)}
+                  >
+                    <SelectTrigger id="priority-fee-policy">
+                      <SelectValue placeholder="Select policy" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(PRIORITY_FEE_POLICY_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+
+          {system.position_assignment_mode === "bidding" && (
+            <div className="mb-4 max-w-sm space-y-2">
+              <Label htmlFor="bid-premium-policy">Winning bid premiums</Label>
+              <Select value={system.bid_premium_policy} onValueChange={handlePolicyChange}>
+                <SelectTrigger id="bid-premium-policy">
+                  <SelectValue placeholder="Select policy" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(BID_PREMIUM_POLICY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="mb-4 grid max-w-sm grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="late-grace-days">Grace period (days)</Label>
+          <Input
+            id="late-grace-days"
+            type="number"
+            min={0}
+            defaultValue={system.late_grace_days}
+            onBlur={(e) => e.target.value !== "" && handleLatePolicyChange("late_grace_days", Number(e.target.value))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="late-fee-type">Late fee</Label>
+          <Select value={system.late_fee_type} onValueChange={(type) => handleLatePolicyChange("late_fee_type", type)}>
+            <SelectTrigger id="late-fee-type">
+              <SelectValue placeholder="Select late fee" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No late fee</SelectItem>
+              <SelectItem value="flat">Flat amount per day</SelectItem>
+              <SelectItem value="percentage">Percentage per day</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {system.late_fee_type !== "none" && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="late-fee-amount">
+                {system.late_fee_type === "flat" ? "Fee per day (₦)" : "Fee per day (%)"}
+              </Label>
+              <Input
+                id="late-fee-amount"
+                type="number"
+                min={0}
+                defaultValue={system.late_fee_amount}
+                onBlur={(e) => e.target.value !== "" && handleLatePolicyChange("late_fee_amount", Number(e.target.value))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="late-fee-cap">Cap per contribution (₦)</Label>
+              <Input
+                id="late-fee-cap"
+                type="number"
+                min={0}
+                placeholder="No cap"
+                defaultValue={system.late_fee_cap ?? ""}
+                onBlur={(e) => handleLatePolicyChange("late_fee_cap", e.target.value === "" ? null : Number(e.target.value))}
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="mb-4 grid max-w-sm grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="guarantors-required">Guarantors per new member</Label>
+          <Input
+            id="guarantors-required"
+            type="number"
+            min={0}
+            defaultValue={system.guarantors_required}
+            onBlur={(e) => handleGuarantorSettingChange("guarantors_required", e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="guarantor-call-days">Call guarantors after (days overdue)</Label>
+          <Input
+            id="guarantor-call-days"
+            type="number"
+            min={1}
+            defaultValue={system.guarantor_call_days}
+            onBlur={(e) => handleGuarantorSettingChange("guarantor_call_days", e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2 mb-4">
+        {system.status !== "completed" && (
+          <Button onClick={() => setShowSchedule(true)}>
+            {system.status === "active" ? "Regenerate Schedule" : "Activate & Generate Schedule"}
+          </Button>
+        )}
+        {isTargetSavings ? null : system.payout_schedule_mode === "auction" ? (
+          <Button variant="outline" onClick={() => setShowAuction(true)}>
+            Auction Room
+          </Button>
+        ) : system.position_assignment_mode === "draw" ? (
+          <Button variant="outline" onClick={() => setShowDraw(true)}>
+            Random Draw
+          </Button>
+        ) : (
+          <Button
+            variant="outline"
+            onClick={() => setShowCloseBidding(true)}
+            disabled={Boolean(system.bidding_closed_at)}
+          >
+            {system.bidding_closed_at
+              ? `Bidding closed ${new Date(system.bidding_closed_at).toLocaleDateString()}`
+              : "Close Bidding"}
+          </Button>
+        )}
+        {!isTargetSavings && system.payout_schedule_mode !== "auction" && (
+          <Button variant="outline" onClick={() => setShowSwaps(true)}>
+            Position Swaps
+          </Button>
+        )}
+        {(system.status === "active" || system.status === "completed") && (
+          <Button variant="outline" onClick={() => setShowCycleClose(true)}>
+            {system.status === "completed" ? "Settlement & Next Cycle" : "Close Cycle"}
+          </Button>
+        )}
+      </div>
 
       {/* Member Management Section */}
       <MemberManagement systemId={system.id} />
+
+      <RotationSchedulePreview
+        open={showSchedule}
+        onClose={() => setShowSchedule(false)}
+        thriftSystemId={system.id}
+      />
+
+      <CloseBiddingDialog
+        open={showCloseBidding}
+        onClose={() => setShowCloseBidding(false)}
+        thriftSystemId={system.id}
+        onBiddingClosed={() => setSystem({ ...system, bidding_closed_at: new Date().toISOString() })}
+      />
+
+      <PositionDrawDialog
+        open={showDraw}
+        onClose={() => setShowDraw(false)}
+        thriftSystemId={system.id}
+      />
+
+      <AuctionRoom
+        open={showAuction}
+        onClose={() => setShowAuction(false)}
+        thriftSystemId={system.id}
+        isAdmin
+      />
+
+      <PositionSwapDialog
+        open={showSwaps}
+        onClose={() => setShowSwaps(false)}
+        thriftSystemId={system.id}
+        isAdmin
+      />
+
+      <CycleCloseDialog
+        open={showCycleClose}
+        onClose={() => setShowCycleClose(false)}
+        thriftSystemId={system.id}
+        thriftType={system.thrift_type}
+        status={system.status}
+        onCycleClosed={() => setSystem({ ...system, status: "completed", completed_at: new Date().toISOString() })}
+      />
     </div>
   );
 };
@@ -1,9 +1,17 @@
 
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Users, Calendar, DollarSign } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import AuctionRoom from "@/components/AuctionRoom";
+import PositionSwapDialog from "@/components/PositionSwapDialog";
+import EscrowStatement from "@/components/EscrowStatement";
+import { sumSlots } from "@/lib/membership-slots";
+import { getCommittedAmount, getPeriodTotal } from "@/lib/contribution-commitments";
+import { fetchTargetSavingsProgress } from "@/lib/target-savings";
 import { supabase } from "@/integrations/supabase/client";
 import { useParams, useNavigate } from "react-router-dom";
 import { useIsMobile } from "@/hooks/use-mobile";
@@ -13,6 +21,8 @@ const ThriftSystemView = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const isMobile = useIsMobile();
+  const [showAuction, setShowAuction] = useState(false);
+  const [showSwaps, setShowSwaps] = useState(false);
 
   const { data: system, isLoading, error } = useQuery({
     queryKey: ['thriftSystem', id],
@@ -28,6 +38,8 @@ const ThriftSystemView = () => {
             id,
             status,
             join_date,
+            slot_count,
+            committed_amount,
             profiles (
               id,
               full_name
@@ -56,6 +68,14 @@ const ThriftSystemView = () => {
     staleTime: 1000 * 60 * 5
   });
 
+  const isTargetSavings = system?.thrift_type === 'target_savings';
+
+  const { data: savingsProgress = [] } = useQuery({
+    queryKey: ['targetSavingsProgress', id],
+    queryFn: () => fetchTargetSavingsProgress(id!),
+    enabled: Boolean(id) && isTargetSavings,
+  });
+
   if (!id) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -93,6 +113,8 @@ const ThriftSystemView = () => {
   }
 
   const activeMembers = system.memberships?.filter(m => m.status === 'active') || [];
+  // Members can hold several hands; capacity and the pool count hands
+  const activeSlots = sumSlots(activeMembers);
 
   return (
     <div className="p-4 sm:p-8 max-w-7xl mx-auto">
@@ -101,6 +123,15 @@ const ThriftSystemView = () => {
         <p className="text-sm sm:text-base text-muted-foreground mt-2">
           System Details
         </p>
+        {system.payout_schedule_mode === 'auction' ? (
+          <Button className="mt-4" onClick={() => setShowAuction(true)}>
+            Join Auction Room
+          </Button>
+        ) : system.status === 'active' && !isTargetSavings && (
+          <Button className="mt-4" variant="outline" onClick={() => setShowSwaps(true)}>
+            Swap Positions
+          </Button>
+        )}
       </div>
 
       <div className="grid gap-4 sm:gap-6 md:grid-cols-3 mb-6 sm:mb-8">
@@ -111,10 +142,11 @@ const ThriftSystemView = () => {
           </CardHeader>
           <CardContent>
             <div className="text-xl sm:text-2xl font-bold">
-              {activeMembers.length}/{system.max_members}
+              {activeSlots}/{system.max_members}
             </div>
             <p className="text-xs sm:text-sm text-muted-foreground mt-2">
-              {activeMembers.length === system.max_members ? "Full" : "Available"}
+              {activeSlots >= system.max_members ? "Full" : "Available"}
+              {activeSlots !== activeMembers.length && ` · ${activeMembers.length} members`}
             </p>
           </CardContent>
         </Card>
@@ -129,22 +161,28 @@ const ThriftSystemView = () => {
               {system.payout_schedule}
             </div>
             <p className="text-xs sm:text-sm text-muted-foreground mt-2">
-              ₦{system.contribution_amount} per cycle
+              {system.contribution_mode === 'variable'
+                ? "Each member sets their own amount"
+                : `₦${system.contribution_amount} per cycle`}
             </p>
           </CardContent>
         </Card>
 
         <Card className="hover:shadow-lg transition-shadow">
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Pool</CardTitle>
+            <CardTitle className="text-sm font-medium">{isTargetSavings ? "Total Saved" : "Total Pool"}</CardTitle>
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-xl sm:text-2xl font-bold">
-              ₦{system.contribution_amount * activeMembers.length}
+              ₦{isTargetSavings
+                ? savingsProgress.reduce((sum, member) => sum + member.saved, 0)
+                : getPeriodTotal(system, activeMembers)}
             </div>
             <p className="text-xs sm:text-sm text-muted-foreground mt-2">
-              Current cycle total
+              {isTargetSavings
+                ? `Matures ${new Date(system.maturity_date).toLocaleDateString()}`
+                : "Current cycle total"}
             </p>
           </CardContent>
         </Card>
@@ -189,6 +227,40 @@ const ThriftSystemView = () => {
         </Card>
       </div>
 
+      {isTargetSavings && (
+        <div className="mb-8">
+          <Card className="hover:shadow-lg transition-shadow">
+            <CardHeader>
+              <CardTitle>Savings Progress</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground mb-4">
+                Everyone saves towards ₦{system.goal_amount} per hand. All savings are paid out together on{" "}
+                {new Date(system.maturity_date).toLocaleDateString()}
+                {system.bonus_pool_enabled && ", with late fees shared among members who reach the goal"}.
+              </p>
+              {savingsProgress.length > 0 ? (
+                <ul className="space-y-4">
+                  {savingsProgress.map((member) => (
+                    <li key={member.membership_id}>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span className="font-medium">{member.member_name || "Unknown Member"}</span>
+                        <span className="text-muted-foreground">
+                          ₦{member.saved} of ₦{member.goal}
+                        </span>
+                      </div>
+                      <Progress value={Math.min(100, (member.saved / member.goal) * 100)} className="h-2" />
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-center text-muted-foreground py-4">No active members yet</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       <div className="mb-8">
         <Card className="hover:shadow-lg transition-shadow">
           <CardHeader>
@@ -205,7 +277,15 @@ const ThriftSystemView = () => {
                         Joined: {new Date(member.join_date).toLocaleDateString()}
                       </p>
                     </div>
-                    <Badge>Member #{index + 1}</Badge>
+                    <div className="flex items-center gap-2">
+                      {system.contribution_mode === 'variable' && (
+                        <Badge variant="secondary">₦{getCommittedAmount(system, member)}</Badge>
+                      )}
+                      {member.slot_count > 1 && (
+                        <Badge variant="outline">× {member.slot_count} hands</Badge>
+                      )}
+                      <Badge>Member #{index + 1}</Badge>
+                    </div>
                   </li>
                 ))}
               </ul>
@@ -215,6 +295,26 @@ const ThriftSystemView = () => {
           </CardContent>
         </Card>
       </div>
+
+      {system.is_escrow_enabled && (
+        <div className="mb-8">
+          <EscrowStatement thriftSystemId={system.id} />
+        </div>
+      )}
+
+      {system.payout_schedule_mode === 'auction' ? (
+        <AuctionRoom
+          open={showAuction}
+          onClose={() => setShowAuction(false)}
+          thriftSystemId={system.id}
+        />
+      ) : (
+        <PositionSwapDialog
+          open={showSwaps}
+          onClose={() => setShowSwaps(false)}
+          thriftSystemId={system.id}
+        />
+      )}
     </div>
   );
 };
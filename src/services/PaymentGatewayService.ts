@@ -4,10 +4,11 @@ import { PaymentMethod, Payment } from "@/types/database";
 
 export type { PaymentMethod };
 
+// The public half of a provider's row in `payment_provider_settings`; the
+// secret keys stay with the `payment-gateway` edge function
 export interface PaymentGatewayConfig {
-  apiKey: string;
+  publicKey: string | null;
   environment: 'test' | 'production';
-  merchantId?: string;
 }
 
 export interface PaymentRequest {
@@ -18,6 +19,8 @@ export interface PaymentRequest {
   payment_method_id?: string;
   return_url?: string;
   contribution_id?: string;
+  // Credited to the member's wallet once the gateway confirms it
+  purpose?: 'wallet_topup';
 }
 
 export interface PaymentResponse {
@@ -35,11 +38,13 @@ export interface PaymentResponse {
 
 export type SupportedGateway = 'paystack' | 'flutterwave' | 'stripe';
 
-// In-memory storage for mock data
-const mockPaymentMethods: PaymentMethod[] = [];
-const mockPayments: Payment[] = [];
+export interface VerifyOptions {
+  // Keep the card for later charges if the payment went through
+  saveMethod?: boolean;
+}
 
-// Main service class for handling payment gateway operations
+// Main service class for handling payment gateway operations. Payments are
+// `payment_attempts` rows, created and updated by the edge function.
 export class PaymentGatewayService {
   private gateway: SupportedGateway;
   private config: PaymentGatewayConfig;
@@ -49,193 +54,139 @@ export class PaymentGatewayService {
     this.config = config;
   }
 
-  // Initialize payment gateway based on configuration
+  // Initialize payment gateway from its settings; fails if it is not enabled
   static async initialize(gateway: SupportedGateway = 'paystack'): Promise<PaymentGatewayService> {
-    // In a real implementation, we would fetch the API keys from secure storage
-    // For demo purposes, we're using dummy values
-    const config: Record<SupportedGateway, PaymentGatewayConfig> = {
-      paystack: {
-        apiKey: 'pk_test_paystack_key',
-        environment: 'test',
-      },
-      flutterwave: {
-        apiKey: 'pk_test_flutterwave_key',
-        environment: 'test',
-      },
-      stripe: {
-        apiKey: 'pk_test_stripe_key',
-        environment: 'test',
-      },
-    };
+    const { data, error } = await supabase.rpc('get_payment_provider_config', {
+      p_provider: gateway,
+    });
+
+    if (error) throw error;
 
-    return new PaymentGatewayService(gateway, config[gateway]);
+    const settings = data as { public_key: string | null; environment: string };
+
+    return new PaymentGatewayService(gateway, {
+      publicKey: settings.public_key,
+      environment: settings.environment === 'production' ? 'production' : 'test',
+    });
   }
 
-  // Get saved payment methods for a user
-  async getUserPaymentMethods(): Promise<PaymentMethod[]> {
-    try {
-      const { data: session } = await supabase.auth.getSession();
-      if (!session?.session?.user) {
-        throw new Error('User not authenticated');
-      }
-      
-      // In a real application, we would query the database
-      // For demo purposes, we'll return mock data
-      return mockPaymentMethods.filter(method => method.user_id === session.session.user.id);
-    } catch (error) {
-      console.error('Error fetching payment methods:', error);
-      return [];
+  // Calls the `payment-gateway` edge function, which holds the secret keys
+  private async callGateway(action: 'initialize' | 'verify' | 'charge', params: Record<string, unknown>): Promise<Payment> {
+    const { data, error } = await supabase.functions.invoke('payment-gateway', {
+      body: { action, gateway: this.gateway, ...params },
+    });
+
+    if (error) {
+      // The function's own message is in the response body
+      const body = await error.context?.json?.().catch(() => null);
+      throw new Error(body?.error || error.message);
     }
+    return data as Payment;
   }
 
-  // Initiate a payment through the selected gateway
+  private toPaymentResponse(payment: Payment): PaymentResponse {
+    return {
+      id: payment.id,
+      status: payment.status,
+      amount: payment.amount,
+      currency: payment.currency,
+      created_at: payment.created_at,
+      updated_at: payment.updated_at,
+      error_message: payment.failure_reason ?? undefined,
+      gateway_reference: payment.gateway_reference ?? undefined,
+      checkout_url: payment.checkout_url ?? undefined,
+    };
+  }
+
+  // Start a payment on the gateway's checkout page
   async initiatePayment(request: PaymentRequest): Promise<PaymentResponse> {
     console.log(`Initiating payment via ${this.gateway} gateway`, request);
 
     try {
-      const { data: session } = await supabase.auth.getSession();
-      if (!session?.session?.user) {
-        throw new Error('User not authenticated');
-      }
-
-      // Generate a unique ID for the payment
-      const paymentId = `payment_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
-      
-      // Create a payment record
-      const payment: Payment = {
-        id: paymentId,
-        user_id: session.session.user.id,
+      const payment = await this.callGateway('initialize', {
         amount: request.amount,
         currency: request.currency,
         description: request.description,
-        status: 'pending',
-        payment_method_id: request.payment_method_id,
-        gateway: this.gateway,
-        contribution_id: request.contribution_id,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        metadata: request.metadata
-      };
-      
-      // Store payment in mock database
-      mockPayments.push(payment);
-
-      // Return payment response
-      return {
-        id: payment.id,
-        status: 'pending',
-        amount: request.amount,
-        currency: request.currency,
-        created_at: payment.created_at,
-        updated_at: payment.updated_at,
-        checkout_url: `https://example.com/checkout/${payment.id}`,
-        gateway_reference: `${this.gateway}_${Math.random().toString(36).substring(2, 15)}`
-      };
+        contributionId: request.contribution_id,
+        purpose: request.purpose,
+        callbackUrl: request.return_url,
+        metadata: request.metadata,
+      });
+
+      return this.toPaymentResponse(payment);
     } catch (error) {
       console.error('Error initiating payment:', error);
       throw error;
     }
   }
 
-  // Verify payment status
-  async verifyPayment(paymentId: string): Promise<PaymentResponse> {
+  // Ask the gateway how a payment went. A successful contribution payment or
+  // wallet top-up is applied on the server as part of this.
+  async verifyPayment(paymentId: string, { saveMethod = false }: VerifyOptions = {}): Promise<PaymentResponse> {
     console.log(`Verifying payment ${paymentId} via ${this.gateway} gateway`);
 
     try {
-      // Find the payment in our mock database
-      const payment = mockPayments.find(p => p.id === paymentId);
-      
-      if (!payment) {
-        throw new Error('Payment not found');
-      }
-
-      // Simulate successful payment verification (80% chance of success)
-      const isSuccessful = Math.random() < 0.8;
-      const newStatus = isSuccessful ? 'succeeded' as const : 'failed' as const;
-
-      // Update the payment status
-      payment.status = newStatus;
-      payment.updated_at = new Date().toISOString();
-
-      // If payment was successful and linked to a contribution, update the contribution
-      if (isSuccessful && payment.contribution_id) {
-        await this.updateContributionOnPaymentSuccess(payment.contribution_id);
-      }
-
-      return {
-        id: payment.id,
-        status: payment.status,
-        amount: payment.amount,
-        currency: payment.currency,
-        created_at: payment.created_at,
-        updated_at: payment.updated_at,
-        error_message: isSuccessful ? undefined : 'Payment verification failed',
-        gateway_reference: payment.gateway_reference
-      };
+      const payment = await this.callGateway('verify', { paymentId, saveMethod });
+      return this.toPaymentResponse(payment);
     } catch (error) {
       console.error('Error verifying payment:', error);
       throw error;
     }
   }
 
-  // Add a new payment method
-  async addPaymentMethod(data: Omit<PaymentMethod, 'id' | 'user_id' | 'is_default' | 'created_at'>): Promise<PaymentMethod> {
-    try {
-      const { data: session } = await supabase.auth.getSession();
-      if (!session?.session?.user) {
-        throw new Error('User not authenticated');
+  // Verify until the gateway reports an outcome, for while the member is on
+  // the checkout page
+  async waitForPayment(
+    paymentId: string,
+    { attempts = 40, intervalMs = 3000, ...options }: VerifyOptions & { attempts?: number; intervalMs?: number } = {}
+  ): Promise<PaymentResponse> {
+    for (let attempt = 1; ; attempt++) {
+      const result = await this.verifyPayment(paymentId, options);
+      if (result.status !== 'pending' || attempt >= attempts) {
+        return result;
       }
-
-      // Check if this is the first payment method (should be default)
-      const existingMethods = mockPaymentMethods.filter(m => m.user_id === session.session.user.id);
-      const isDefault = existingMethods.length === 0;
-
-      // Create a new payment method
-      const paymentMethod: PaymentMethod = {
-        id: `pm_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`,
-        user_id: session.session.user.id,
-        is_default: isDefault,
-        created_at: new Date().toISOString(),
-        ...data
-      };
-      
-      // Store in mock database
-      mockPaymentMethods.push(paymentMethod);
-      
-      return paymentMethod;
-    } catch (error) {
-      console.error('Error adding payment method:', error);
-      throw error;
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
     }
   }
 
-  // Update contribution status when payment is successful
-  private async updateContributionOnPaymentSuccess(contributionId: string): Promise<void> {
+  // Charge a card saved from an earlier checkout on this gateway, without
+  // sending the member back to the checkout page
+  async chargePaymentMethod(paymentMethodId: string, request: Omit<PaymentRequest, 'return_url' | 'payment_method_id'>): Promise<PaymentResponse> {
+    console.log(`Charging saved payment method via ${this.gateway} gateway`);
+
     try {
-      console.log(`Updating contribution ${contributionId} after successful payment`);
-      // In a real application, we would update the contribution in the database
-      // For demo purposes, we'll just log this action
+      const payment = await this.callGateway('charge', {
+        paymentMethodId,
+        amount: request.amount,
+        currency: request.currency,
+        description: request.description,
+        contributionId: request.contribution_id,
+        purpose: request.purpose,
+        metadata: request.metadata,
+      });
+
+      return this.toPaymentResponse(payment);
     } catch (error) {
-      console.error('Error updating contribution status:', error);
+      console.error('Error charging saved payment method:', error);
+      throw error;
     }
   }
 }
 
-// Singleton instance for easy access throughout the app
-let gatewayInstance: PaymentGatewayService | null = null;
+// One instance per gateway for easy access throughout the app
+const gatewayInstances = new Map<SupportedGateway, PaymentGatewayService>();
 
 // Initialize with default gateway
 export const initializePaymentGateway = async (gateway: SupportedGateway = 'paystack'): Promise<PaymentGatewayService> => {
-  if (!gatewayInstance) {
-    gatewayInstance = await PaymentGatewayService.initialize(gateway);
+  let instance = gatewayInstances.get(gateway);
+  if (!instance) {
+    instance = await PaymentGatewayService.initialize(gateway);
+    gatewayInstances.set(gateway, instance);
   }
-  return gatewayInstance;
+  return instance;
 };
 
-// Get the current gateway instance
-export const getPaymentGateway = async (): Promise<PaymentGatewayService> => {
-  if (!gatewayInstance) {
-    return initializePaymentGateway();
-  }
-  return gatewayInstance;
+// Get the instance for a gateway
+export const getPaymentGateway = async (gateway: SupportedGateway = 'paystack'): Promise<PaymentGatewayService> => {
+  return initializePaymentGateway(gateway);
 };
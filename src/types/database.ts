@@ -20,6 +20,7 @@ export interface Membership {
   user_id: string | null;
   status: string;
   join_date: string | null;
+  slot_count?: number;
   role: string;
   profiles?: {
     full_name: string | null;
@@ -28,36 +29,60 @@ export interface Membership {
   };
 }
 
+// A row of `payment_methods`, without the gateway authorization, which only
+// the edge functions can read
 export interface PaymentMethod {
   id: string;
   user_id: string;
   type: 'card' | 'bank_account' | 'mobile_money' | 'crypto';
+  // The gateway that can charge it again, for tokenized cards
+  gateway: string | null;
+  is_tokenized: boolean;
   last4: string;
-  expiry?: string;
-  brand?: string;
-  name?: string;
+  expiry: string | null;
+  brand: string | null;
+  name: string | null;
   is_default: boolean;
   created_at: string;
 }
 
+export type PaymentStatus = 'pending' | 'processing' | 'succeeded' | 'failed';
+
+// A row of `payment_attempts`
 export interface Payment {
   id: string;
   user_id: string;
   amount: number;
   currency: string;
   description: string;
-  status: 'pending' | 'processing' | 'succeeded' | 'failed';
-  payment_method_id?: string;
+  status: PaymentStatus;
+  payment_method_id: string | null;
   gateway: string;
-  gateway_reference?: string;
-  contribution_id?: string;
+  // Ours, what the gateway verifies the attempt by
+  reference: string;
+  // The gateway's, what the money is settled under
+  gateway_reference: string | null;
+  contribution_id: string | null;
+  checkout_url: string | null;
+  failure_reason: string | null;
   created_at: string;
   updated_at: string;
-  metadata?: Record<string, any>;
+  metadata: Record<string, string>;
+}
+
+// A row of `payment_attempt_events`
+export interface PaymentStatusChange {
+  id: string;
+  payment_attempt_id: string;
+  status: PaymentStatus;
+  failure_reason: string | null;
+  created_at: string;
 }
 
 export interface ContributionWithSystem {
   amount: number;
+  // Principal settled so far, from payment allocations
+  amount_paid: number;
   status: string;
   created_at: string;
   thrift_systems: {
@@ -70,6 +95,9 @@ export interface PayoutWithSystem {
   status: string;
   scheduled_date: string;
   completed_date: string | null;
+  position?: number | null;
+  bid_premium?: number;
+  premium_share?: number;
   thrift_systems: {
     name: string;
   };
@@ -77,6 +105,8 @@ export interface PayoutWithSystem {
 
 export interface ContributionWithMember {
   amount: number;
+  // Principal settled so far, from payment allocations
+  amount_paid: number;
   status: string;
   created_at: string;
   memberships: {
@@ -91,6 +121,9 @@ export interface PayoutWithMember {
   status: string;
   scheduled_date: string;
   completed_date: string | null;
+  position?: number | null;
+  bid_premium?: number;
+  premium_share?: number;
   member_id?: string;
   profiles?: {
     full_name: string | null;
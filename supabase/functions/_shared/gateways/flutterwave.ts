@@ -0,0 +1,204 @@
+import {
+  ChargeRequest,
+  GatewayAdapter,
+  GatewayConfig,
+  GatewayTransaction,
+  InitializeRequest,
+  InitializeResult,
+  SettlementLine,
+  TransactionStatus,
+  WebhookEvent,
+  WebhookSignatureError,
+} from './types.ts'
+import { hmac, safeEqual, toBase64 } from './signatures.ts'
+
+// https://developer.flutterwave.com/v3.0/reference — amounts are in major
+// units. Webhooks carry either an HMAC-SHA256 `flutterwave-signature` of the
+// body or, on older dashboards, the plain secret hash in `verif-hash`; both
+// are checked against `webhook_secret`.
+
+interface FlutterwaveResponse<T> {
+  status: string
+  message: string
+  data: T
+}
+
+interface FlutterwaveTransaction {
+  id: number
+  tx_ref: string
+  status: string
+  amount: number
+  currency: string
+  created_at: string
+  processor_response: string | null
+  app_fee?: number | null
+  meta: Record<string, string> | null
+  customer?: { email: string }
+  card?: {
+    last_4digits: string
+    type: string
+    expiry: string
+    token?: string
+  } | null
+}
+
+const statuses: Record<string, TransactionStatus> = {
+  successful: 'succeeded',
+  failed: 'failed',
+}
+
+export class FlutterwaveAdapter implements GatewayAdapter {
+  name = 'flutterwave' as const
+  private baseUrl: string
+
+  constructor(private config: GatewayConfig) {
+    this.baseUrl = config.baseUrl ?? 'https://api.flutterwave.com'
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(`${this.baseUrl}/v3${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${this.config.secretKey}`,
+        'Content-Type': 'application/json',
+      },
+    })
+    const body = await response.json() as FlutterwaveResponse<T>
+
+    if (!response.ok || body.status !== 'success') {
+      throw new Error(`Flutterwave: ${body.message || response.statusText}`)
+    }
+    return body.data
+  }
+
+  private toTransaction(data: FlutterwaveTransaction): GatewayTransaction {
+    const status = statuses[data.status] ?? 'pending'
+
+    return {
+      reference: data.tx_ref,
+      status,
+      amount: data.amount,
+      currency: data.currency,
+      paidAt: status === 'succeeded' ? data.created_at : null,
+      failureReason: status === 'failed' ? data.processor_response : null,
+      metadata: data.meta ?? {},
+      authorization: data.card?.token
+        ? {
+          code: data.card.token,
+          last4: data.card.last_4digits,
+          brand: data.card.type,
+          expiry: data.card.expiry,
+          reusable: true,
+        }
+        : null,
+    }
+  }
+
+  async initializeTransaction(request: InitializeRequest): Promise<InitializeResult> {
+    const data = await this.request<{ link: string }>('/payments', {
+      method: 'POST',
+      body: JSON.stringify({
+        tx_ref: request.reference,
+        amount: request.amount,
+        currency: request.currency,
+        redirect_url: request.callbackUrl,
+        customer: { email: request.email },
+        customizations: { title: request.description },
+        meta: request.metadata,
+      }),
+    })
+
+    return { reference: request.reference, checkoutUrl: data.link }
+  }
+
+  async verifyTransaction(reference: string): Promise<GatewayTransaction> {
+    const data = await this.request<FlutterwaveTransaction>(
+      `/transactions/verify_by_reference?tx_ref=${encodeURIComponent(reference)}`,
+    )
+    return this.toTransaction(data)
+  }
+
+  async chargeAuthorization(request: ChargeRequest): Promise<GatewayTransaction> {
+    const data = await this.request<FlutterwaveTransaction>('/tokenized-charges', {
+      method: 'POST',
+      body: JSON.stringify({
+        tx_ref: request.reference,
+        token: request.authorization.code,
+        amount: request.amount,
+        currency: request.currency,
+        email: request.email,
+        meta: request.metadata,
+      }),
+    })
+    return this.toTransaction(data)
+  }
+
+  async listSettlements(from: string, to: string): Promise<SettlementLine[]> {
+    const lines: SettlementLine[] = []
+
+    for (let page = 1; ; page++) {
+      const query = new URLSearchParams({ status: 'successful', from, to, page: String(page) })
+      const data = await this.request<FlutterwaveTransaction[]>(`/transactions?${query}`)
+
+      // Flutterwave pages by a fixed size of its own, so an empty page is the end
+      if (data.length === 0) return lines
+
+      lines.push(...data.map((transaction) => ({
+        reference: transaction.tx_ref,
+        amount: transaction.amount,
+        fee: transaction.app_fee ?? 0,
+        currency: transaction.currency,
+        settledAt: transaction.created_at,
+      })))
+    }
+  }
+
+  async parseWebhook(body: string, headers: Headers): Promise<WebhookEvent> {
+    const secret = this.config.webhookSecret
+    if (!secret) {
+      throw new WebhookSignatureError('Flutterwave webhook_secret is not configured')
+    }
+
+    const signature = headers.get('flutterwave-signature')
+    const valid = signature
+      ? safeEqual(signature, toBase64(await hmac('SHA-256', secret, body)))
+      : safeEqual(headers.get('verif-hash') ?? '', secret)
+
+    if (!valid) {
+      throw new WebhookSignatureError()
+    }
+
+    const event = JSON.parse(body) as {
+      event: string
+      data: {
+        id: number
+        tx_ref?: string
+        status?: string
+        AmountRefunded?: number
+        TransactionId?: number
+      }
+    }
+
+    return {
+      id: `${event.event}:${event.data.id}`,
+      type: event.event,
+      reference: event.event === 'charge.completed' ? event.data.tx_ref ?? null : null,
+      refund: event.event === 'refund.completed' && event.data.status === 'completed'
+        ? await this.refundedPayment(event.data.TransactionId, event.data.AmountRefunded)
+        : undefined,
+    }
+  }
+
+  // Refund events name the refunded transaction by Flutterwave's id rather
+  // than our `tx_ref`, so the transaction is looked up to find it. Each
+  // refund is reported once, in major units.
+  private async refundedPayment(
+    transactionId: number | undefined,
+    amount: number | undefined,
+  ): Promise<WebhookEvent['refund']> {
+    if (!transactionId || !amount) return undefined
+
+    const data = await this.request<FlutterwaveTransaction>(`/transactions/${transactionId}/verify`)
+    return { reference: data.tx_ref, amount }
+  }
+}
@@ -0,0 +1,44 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0'
+import { GatewayAdapter, GatewayConfig, GatewayName } from './types.ts'
+import { PaystackAdapter } from './paystack.ts'
+import { FlutterwaveAdapter } from './flutterwave.ts'
+import { StripeAdapter } from './stripe.ts'
+
+export * from './types.ts'
+
+const adapters: Record<GatewayName, (config: GatewayConfig) => GatewayAdapter> = {
+  paystack: (config) => new PaystackAdapter(config),
+  flutterwave: (config) => new FlutterwaveAdapter(config),
+  stripe: (config) => new StripeAdapter(config),
+}
+
+export const isGatewayName = (name: unknown): name is GatewayName =>
+  typeof name === 'string' && name in adapters
+
+// Builds the adapter for a provider from its active row in
+// `payment_provider_settings`. The client must use the service role, as
+// the table is closed to everyone else.
+export const getGatewayAdapter = async (supabaseClient: SupabaseClient, name: string): Promise<GatewayAdapter> => {
+  if (!isGatewayName(name)) {
+    throw new Error(`Unknown payment gateway: ${name}`)
+  }
+
+  const { data, error } = await supabaseClient
+    .from('payment_provider_settings')
+    .select('config')
+    .eq('provider', name)
+    .eq('is_active', true)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data?.config?.secret_key) {
+    throw new Error(`${name} payments are not configured`)
+  }
+
+  return adapters[name]({
+    secretKey: data.config.secret_key,
+    publicKey: data.config.public_key,
+    webhookSecret: data.config.webhook_secret,
+    baseUrl: data.config.base_url,
+  })
+}
@@ -0,0 +1,183 @@
+import {
+  ChargeRequest,
+  GatewayAdapter,
+  GatewayConfig,
+  GatewayTransaction,
+  InitializeRequest,
+  InitializeResult,
+  SettlementLine,
+  TransactionStatus,
+  WebhookEvent,
+  WebhookSignatureError,
+} from './types.ts'
+import { hmac, safeEqual, toHex } from './signatures.ts'
+
+// https://paystack.com/docs/api/ — amounts are in kobo (or cents), and
+// webhooks are signed with the secret key using HMAC-SHA512.
+
+interface PaystackResponse<T> {
+  status: boolean
+  message: string
+  data: T
+}
+
+interface PaystackTransaction {
+  id: number
+  reference: string
+  status: string
+  amount: number
+  currency: string
+  paid_at: string | null
+  gateway_response: string | null
+  metadata: Record<string, string> | string | null
+  fees?: number | null
+  authorization?: {
+    authorization_code: string
+    last4: string
+    exp_month: string
+    exp_year: string
+    brand: string
+    reusable: boolean
+  } | null
+}
+
+const statuses: Record<string, TransactionStatus> = {
+  success: 'succeeded',
+  failed: 'failed',
+  reversed: 'failed',
+}
+
+export class PaystackAdapter implements GatewayAdapter {
+  name = 'paystack' as const
+  private baseUrl: string
+
+  constructor(private config: GatewayConfig) {
+    this.baseUrl = config.baseUrl ?? 'https://api.paystack.co'
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${this.config.secretKey}`,
+        'Content-Type': 'application/json',
+      },
+    })
+    const body = await response.json() as PaystackResponse<T>
+
+    if (!response.ok || !body.status) {
+      throw new Error(`Paystack: ${body.message || response.statusText}`)
+    }
+    return body.data
+  }
+
+  private toTransaction(data: PaystackTransaction): GatewayTransaction {
+    const status = statuses[data.status] ?? 'pending'
+    const authorization = data.authorization?.authorization_code ? data.authorization : null
+
+    return {
+      reference: data.reference,
+      status,
+      amount: data.amount / 100,
+      currency: data.currency,
+      paidAt: data.paid_at,
+      failureReason: status === 'failed' ? data.gateway_response : null,
+      // Paystack sends an empty string when there is no metadata
+      metadata: typeof data.metadata === 'object' && data.metadata ? data.metadata : {},
+      authorization: authorization && {
+        code: authorization.authorization_code,
+        last4: authorization.last4,
+        brand: authorization.brand,
+        expiry: `${authorization.exp_month}/${authorization.exp_year.slice(-2)}`,
+        reusable: authorization.reusable,
+      },
+    }
+  }
+
+  async initializeTransaction(request: InitializeRequest): Promise<InitializeResult> {
+    const data = await this.request<{ authorization_url: string; reference: string }>('/transaction/initialize', {
+      method: 'POST',
+      body: JSON.stringify({
+        reference: request.reference,
+        amount: Math.round(request.amount * 100),
+        currency: request.currency,
+        email: request.email,
+        callback_url: request.callbackUrl,
+        metadata: { ...request.metadata, description: request.description },
+      }),
+    })
+
+    return { reference: data.reference, checkoutUrl: data.authorization_url }
+  }
+
+  async verifyTransaction(reference: string): Promise<GatewayTransaction> {
+    const data = await this.request<PaystackTransaction>(`/transaction/verify/${encodeURIComponent(reference)}`)
+    return this.toTransaction(data)
+  }
+
+  async chargeAuthorization(request: ChargeRequest): Promise<GatewayTransaction> {
+    const data = await this.request<PaystackTransaction>('/transaction/charge_authorization', {
+      method: 'POST',
+      body: JSON.stringify({
+        reference: request.reference,
+        authorization_code: request.authorization.code,
+        amount: Math.round(request.amount * 100),
+        currency: request.currency,
+        email: request.email,
+        metadata: request.metadata,
+      }),
+    })
+    return this.toTransaction(data)
+  }
+
+  async listSettlements(from: string, to: string): Promise<SettlementLine[]> {
+    const perPage = 100
+    const lines: SettlementLine[] = []
+
+    for (let page = 1; ; page++) {
+      const query = new URLSearchParams({
+        status: 'success',
+        from: `${from}T00:00:00Z`,
+        to: `${to}T23:59:59Z`,
+        perPage: String(perPage),
+        page: String(page),
+      })
+      const data = await this.request<PaystackTransaction[]>(`/transaction?${query}`)
+
+      lines.push(...data.map((transaction) => ({
+        reference: transaction.reference,
+        amount: transaction.amount / 100,
+        fee: (transaction.fees ?? 0) / 100,
+        currency: transaction.currency,
+        settledAt: transaction.paid_at,
+      })))
+
+      if (data.length < perPage) return lines
+    }
+  }
+
+  async parseWebhook(body: string, headers: Headers): Promise<WebhookEvent> {
+    const signature = headers.get('x-paystack-signature') ?? ''
+    const expected = toHex(await hmac('SHA-512', this.config.secretKey, body))
+
+    if (!safeEqual(signature, expected)) {
+      throw new WebhookSignatureError()
+    }
+
+    const event = JSON.parse(body) as {
+      event: string
+      data: { id: number; reference?: string; transaction_reference?: string; amount?: number }
+    }
+
+    return {
+      // Paystack events carry no id of their own
+      id: `${event.event}:${event.data.id}`,
+      type: event.event,
+      reference: event.event === 'charge.success' ? event.data.reference ?? null : null,
+      // Each refund is reported once, in kobo
+      refund: event.event === 'refund.processed' && event.data.transaction_reference
+        ? { reference: event.data.transaction_reference, amount: (event.data.amount ?? 0) / 100 }
+        : undefined,
+    }
+  }
+}
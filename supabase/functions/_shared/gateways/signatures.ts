@@ -0,0 +1,30 @@
+// HMAC helpers for checking webhook signatures with Web Crypto
+
+const encoder = new TextEncoder()
+
+export const hmac = async (hash: 'SHA-256' | 'SHA-512', secret: string, body: string): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash },
+    false,
+    ['sign'],
+  )
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(body)))
+}
+
+export const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes).map((byte) => byte.toString(16).padStart(2, '0')).join('')
+
+export const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes))
+
+// Compares without returning early, so timing does not leak how much matched
+export const safeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false
+
+  let difference = 0
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return difference === 0
+}
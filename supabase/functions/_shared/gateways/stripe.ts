@@ -0,0 +1,211 @@
+import Stripe from 'https://esm.sh/stripe@14.21.0'
+import {
+  ChargeRequest,
+  GatewayAdapter,
+  GatewayConfig,
+  GatewayTransaction,
+  InitializeRequest,
+  InitializeResult,
+  SettlementLine,
+  WebhookEvent,
+  WebhookSignatureError,
+} from './types.ts'
+
+// Stripe through Checkout sessions. Payments are settled under their payment
+// intent id, the same reference the `stripe-webhook` function uses, so a
+// payment verified here and reported by webhook is only applied once.
+// `base_url` can point at stripe-mock for local runs.
+
+const cryptoProvider = Stripe.createSubtleCryptoProvider()
+
+// Currencies Stripe counts in whole units rather than hundredths
+const zeroDecimalCurrencies = [
+  'BIF', 'CLP', 'DJF', 'GNF', 'JPY', 'KMF', 'KRW', 'MGA',
+  'PYG', 'RWF', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF',
+]
+
+const minorUnitsPerMajor = (currency: string) =>
+  zeroDecimalCurrencies.includes(currency.toUpperCase()) ? 1 : 100
+
+export const toStripeAmount = (amount: number, currency: string) =>
+  Math.round(amount * minorUnitsPerMajor(currency))
+
+export const fromStripeAmount = (amount: number, currency: string) =>
+  amount / minorUnitsPerMajor(currency)
+
+export class StripeAdapter implements GatewayAdapter {
+  name = 'stripe' as const
+  private stripe: Stripe
+
+  constructor(private config: GatewayConfig) {
+    const url = config.baseUrl ? new URL(config.baseUrl) : null
+
+    this.stripe = new Stripe(config.secretKey, {
+      apiVersion: '2023-10-16',
+      ...(url && {
+        host: url.hostname,
+        port: url.port,
+        protocol: url.protocol.replace(':', '') as 'http' | 'https',
+      }),
+    })
+  }
+
+  async initializeTransaction(request: InitializeRequest): Promise<InitializeResult> {
+    const session = await this.stripe.checkout.sessions.create({
+      mode: 'payment',
+      customer_email: request.email,
+      customer_creation: 'always',
+      client_reference_id: request.reference,
+      line_items: [
+        {
+          price_data: {
+            currency: request.currency.toLowerCase(),
+            product_data: { name: request.description },
+            unit_amount: toStripeAmount(request.amount, request.currency),
+          },
+          quantity: 1,
+        },
+      ],
+      success_url: request.callbackUrl ?? 'https://stripe.com',
+      cancel_url: request.callbackUrl ?? 'https://stripe.com',
+      metadata: request.metadata,
+      // Keeps the card for later off-session charges
+      payment_intent_data: {
+        metadata: request.metadata,
+        setup_future_usage: 'off_session',
+      },
+    })
+
+    return { reference: session.id, checkoutUrl: session.url ?? '' }
+  }
+
+  async verifyTransaction(reference: string): Promise<GatewayTransaction> {
+    const session = await this.stripe.checkout.sessions.retrieve(reference, {
+      expand: ['payment_intent.payment_method'],
+    })
+    const intent = session.payment_intent as Stripe.PaymentIntent | null
+    const method = intent?.payment_method as Stripe.PaymentMethod | null
+    const customer = typeof session.customer === 'string' ? session.customer : session.customer?.id
+
+    return {
+      reference: intent?.id ?? session.id,
+      status: session.payment_status === 'paid' ? 'succeeded' : session.status === 'expired' ? 'failed' : 'pending',
+      amount: fromStripeAmount(session.amount_total ?? 0, session.currency ?? ''),
+      currency: (session.currency ?? '').toUpperCase(),
+      paidAt: session.payment_status === 'paid' && intent ? new Date(intent.created * 1000).toISOString() : null,
+      failureReason: session.status === 'expired' ? 'The checkout session expired' : null,
+      metadata: session.metadata ?? {},
+      authorization: method?.card
+        ? {
+          code: method.id,
+          customerCode: customer,
+          last4: method.card.last4,
+          brand: method.card.brand,
+          expiry: `${method.card.exp_month}/${String(method.card.exp_year).slice(-2)}`,
+          reusable: Boolean(customer),
+        }
+        : null,
+    }
+  }
+
+  async chargeAuthorization(request: ChargeRequest): Promise<GatewayTransaction> {
+    const base = {
+      reference: request.reference,
+      amount: request.amount,
+      currency: request.currency,
+      metadata: request.metadata,
+      authorization: null,
+    }
+
+    try {
+      const intent = await this.stripe.paymentIntents.create({
+        amount: toStripeAmount(request.amount, request.currency),
+        currency: request.currency.toLowerCase(),
+        customer: request.authorization.customerCode,
+        payment_method: request.authorization.code,
+        off_session: true,
+        confirm: true,
+        receipt_email: request.email,
+        metadata: { ...request.metadata, reference: request.reference },
+      }, { idempotencyKey: request.reference })
+
+      return {
+        ...base,
+        reference: intent.id,
+        // What Stripe actually charged, checked against the attempt
+        amount: fromStripeAmount(intent.amount, intent.currency),
+        currency: intent.currency.toUpperCase(),
+        status: intent.status === 'succeeded' ? 'succeeded' : intent.status === 'processing' ? 'pending' : 'failed',
+        paidAt: intent.status === 'succeeded' ? new Date().toISOString() : null,
+        failureReason: intent.last_payment_error?.message ?? null,
+      }
+    } catch (error) {
+      // Declines are thrown rather than returned
+      if (error instanceof Stripe.errors.StripeCardError) {
+        return {
+          ...base,
+          reference: error.payment_intent?.id ?? request.reference,
+          status: 'failed',
+          paidAt: null,
+          failureReason: error.message,
+        }
+      }
+      throw error
+    }
+  }
+
+  async listSettlements(from: string, to: string): Promise<SettlementLine[]> {
+    const lines: SettlementLine[] = []
+    const charges = this.stripe.charges.list({
+      created: {
+        gte: Math.floor(Date.parse(`${from}T00:00:00Z`) / 1000),
+        lte: Math.floor(Date.parse(`${to}T23:59:59Z`) / 1000),
+      },
+      limit: 100,
+      expand: ['data.balance_transaction'],
+    })
+
+    for await (const charge of charges) {
+      if (charge.status !== 'succeeded') continue
+
+      const balance = charge.balance_transaction as Stripe.BalanceTransaction | null
+      lines.push({
+        // Payments are settled under their payment intent
+        reference: (typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id) ?? charge.id,
+        // Net of refunds, as refunds are taken off the contribution too
+        amount: fromStripeAmount(charge.amount - charge.amount_refunded, charge.currency),
+        // Fees are charged in the account's settlement currency
+        fee: fromStripeAmount(balance?.fee ?? 0, balance?.currency ?? charge.currency),
+        currency: charge.currency.toUpperCase(),
+        settledAt: new Date(charge.created * 1000).toISOString(),
+      })
+    }
+
+    return lines
+  }
+
+  async parseWebhook(body: string, headers: Headers): Promise<WebhookEvent> {
+    let event: Stripe.Event
+    try {
+      event = await this.stripe.webhooks.constructEventAsync(
+        body,
+        headers.get('Stripe-Signature') ?? '',
+        this.config.webhookSecret ?? '',
+        undefined,
+        cryptoProvider
+      )
+    } catch (error) {
+      throw new WebhookSignatureError(error.message)
+    }
+
+    const session = event.type === 'checkout.session.completed'
+      ? event.data.object as Stripe.Checkout.Session
+      : null
+
+    return {
+      id: event.id,
+      type: event.type,
+      reference: session?.id ?? null,
+    }
+  }
+}
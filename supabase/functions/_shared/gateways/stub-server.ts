@@ -0,0 +1,274 @@
+// A local stand-in for the Paystack and Flutterwave APIs, enough for the
+// adapters to run end to end without real keys:
+//
+//   deno run --allow-net --allow-env stub-server.ts
+//
+// then set `base_url` in payment_provider_settings to
+// http://host.docker.internal:4010/paystack (or /flutterwave) when the
+// functions are served by the Supabase CLI. Transactions live in memory.
+//
+// Opening a checkout link pays the transaction; add `?outcome=failed` to
+// decline it instead. Saved authorizations ending in `decline` are always
+// declined. When STUB_WEBHOOK_URL points at the `gateway-webhook` function,
+// every outcome is also sent there as a signed webhook.
+//
+// Stripe is not stubbed here; point its `base_url` at stripe-mock instead.
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { hmac, toBase64, toHex } from './signatures.ts'
+
+const port = Number(Deno.env.get('STUB_PORT') ?? '4010')
+const paystackSecret = Deno.env.get('STUB_PAYSTACK_SECRET_KEY') ?? 'sk_test_stub'
+const flutterwaveSecret = Deno.env.get('STUB_FLUTTERWAVE_SECRET_KEY') ?? 'FLWSECK_TEST-stub'
+const flutterwaveHash = Deno.env.get('STUB_FLUTTERWAVE_WEBHOOK_SECRET') ?? 'stub-secret-hash'
+const webhookUrl = Deno.env.get('STUB_WEBHOOK_URL')
+
+interface StubTransaction {
+  id: number
+  reference: string
+  amount: number
+  currency: string
+  email: string
+  metadata: Record<string, string>
+  status: 'pending' | 'success' | 'failed'
+  paidAt: string | null
+  authorization: string | null
+}
+
+const transactions = new Map<string, StubTransaction>()
+let nextId = 1000
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+
+const createTransaction = (fields: Pick<StubTransaction, 'reference' | 'amount' | 'currency' | 'email' | 'metadata'>) => {
+  const transaction: StubTransaction = { ...fields, id: nextId++, status: 'pending', paidAt: null, authorization: null }
+  transactions.set(transaction.reference, transaction)
+  return transaction
+}
+
+const complete = (transaction: StubTransaction, succeeded: boolean, authorization: string) => {
+  transaction.status = succeeded ? 'success' : 'failed'
+  transaction.paidAt = succeeded ? new Date().toISOString() : null
+  transaction.authorization = authorization
+}
+
+// One page of the successful transactions paid between `from` and `to`.
+// Plain dates cover the whole day.
+const paidBetween = (params: URLSearchParams, page: number, perPage: number) => {
+  const from = params.get('from') ?? ''
+  const to = params.get('to') ?? ''
+  const start = from ? Date.parse(from) : 0
+  const end = to ? Date.parse(to.length === 10 ? `${to}T23:59:59.999Z` : to) : Date.now()
+
+  return [...transactions.values()]
+    .filter((transaction) => transaction.status === 'success')
+    .filter((transaction) => {
+      const paidAt = Date.parse(transaction.paidAt ?? '')
+      return paidAt >= start && paidAt <= end
+    })
+    .slice((page - 1) * perPage, page * perPage)
+}
+
+// Paystack: amounts in kobo, `{ status: true, message, data }` envelopes
+
+const paystackTransaction = (transaction: StubTransaction) => ({
+  id: transaction.id,
+  reference: transaction.reference,
+  status: transaction.status === 'pending' ? 'ongoing' : transaction.status,
+  amount: transaction.amount,
+  currency: transaction.currency,
+  paid_at: transaction.paidAt,
+  gateway_response: transaction.status === 'failed' ? 'Declined' : 'Approved',
+  metadata: transaction.metadata,
+  fees: transaction.status === 'success' ? Math.round(transaction.amount * 0.015) : null,
+  customer: { email: transaction.email },
+  authorization: transaction.authorization && {
+    authorization_code: transaction.authorization,
+    last4: '4081',
+    exp_month: '12',
+    exp_year: '2030',
+    brand: 'visa',
+    reusable: true,
+  },
+})
+
+const sendPaystackWebhook = async (transaction: StubTransaction) => {
+  if (!webhookUrl || transaction.status !== 'success') return
+
+  const body = JSON.stringify({ event: 'charge.success', data: paystackTransaction(transaction) })
+  const signature = toHex(await hmac('SHA-512', paystackSecret, body))
+  const response = await fetch(`${webhookUrl}?provider=paystack`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-paystack-signature': signature },
+    body,
+  })
+  console.log(`Paystack webhook for ${transaction.reference}: ${response.status} ${await response.text()}`)
+}
+
+const paystack = async (req: Request, path: string, origin: string) => {
+  const ok = (data: unknown) => json({ status: true, message: 'Stub response', data })
+  const notFound = () => json({ status: false, message: 'Transaction reference not found' }, 404)
+
+  const checkout = path.match(/^\/checkout\/(.+)$/)
+  if (checkout) {
+    const transaction = transactions.get(decodeURIComponent(checkout[1]))
+    if (!transaction) return notFound()
+
+    complete(transaction, new URL(req.url).searchParams.get('outcome') !== 'failed', `AUTH_stub_${transaction.id}`)
+    await sendPaystackWebhook(transaction)
+    return new Response(`Paystack stub: payment ${transaction.status}`)
+  }
+
+  if (req.headers.get('Authorization') !== `Bearer ${paystackSecret}`) {
+    return json({ status: false, message: 'Invalid key' }, 401)
+  }
+
+  if (req.method === 'POST' && path === '/transaction/initialize') {
+    const body = await req.json()
+    const transaction = createTransaction({
+      reference: body.reference,
+      amount: Number(body.amount),
+      currency: body.currency ?? 'NGN',
+      email: body.email,
+      metadata: body.metadata ?? {},
+    })
+    return ok({
+      authorization_url: `${origin}/paystack/checkout/${encodeURIComponent(transaction.reference)}`,
+      access_code: `stub_access_${transaction.id}`,
+      reference: transaction.reference,
+    })
+  }
+
+  const verify = path.match(/^\/transaction\/verify\/(.+)$/)
+  if (req.method === 'GET' && verify) {
+    const transaction = transactions.get(decodeURIComponent(verify[1]))
+    return transaction ? ok(paystackTransaction(transaction)) : notFound()
+  }
+
+  if (req.method === 'GET' && path === '/transaction') {
+    const params = new URL(req.url).searchParams
+    const page = paidBetween(params, Number(params.get('page') ?? '1'), Number(params.get('perPage') ?? '50'))
+    return ok(page.map(paystackTransaction))
+  }
+
+  if (req.method === 'POST' && path === '/transaction/charge_authorization') {
+    const body = await req.json()
+    const transaction = createTransaction({
+      reference: body.reference,
+      amount: Number(body.amount),
+      currency: body.currency ?? 'NGN',
+      email: body.email,
+      metadata: body.metadata ?? {},
+    })
+    complete(transaction, !body.authorization_code.endsWith('decline'), body.authorization_code)
+    await sendPaystackWebhook(transaction)
+    return ok(paystackTransaction(transaction))
+  }
+
+  return json({ status: false, message: `No stub for ${req.method} ${path}` }, 404)
+}
+
+// Flutterwave: amounts in major units, `{ status: 'success', message, data }`
+// envelopes, all under /v3
+
+const flutterwaveTransaction = (transaction: StubTransaction) => ({
+  id: transaction.id,
+  tx_ref: transaction.reference,
+  status: transaction.status === 'success' ? 'successful' : transaction.status,
+  amount: transaction.amount,
+  currency: transaction.currency,
+  created_at: transaction.paidAt ?? new Date().toISOString(),
+  processor_response: transaction.status === 'failed' ? 'Declined' : 'Approved',
+  app_fee: transaction.status === 'success' ? Math.round(transaction.amount * 1.4) / 100 : null,
+  meta: transaction.metadata,
+  customer: { email: transaction.email },
+  card: transaction.authorization && {
+    last_4digits: '4081',
+    type: 'VISA',
+    expiry: '12/30',
+    token: transaction.authorization,
+  },
+})
+
+const sendFlutterwaveWebhook = async (transaction: StubTransaction) => {
+  if (!webhookUrl || transaction.status === 'pending') return
+
+  const body = JSON.stringify({ event: 'charge.completed', data: flutterwaveTransaction(transaction) })
+  const signature = toBase64(await hmac('SHA-256', flutterwaveHash, body))
+  const response = await fetch(`${webhookUrl}?provider=flutterwave`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'flutterwave-signature': signature },
+    body,
+  })
+  console.log(`Flutterwave webhook for ${transaction.reference}: ${response.status} ${await response.text()}`)
+}
+
+const flutterwave = async (req: Request, path: string, origin: string) => {
+  const ok = (data: unknown) => json({ status: 'success', message: 'Stub response', data })
+  const notFound = () => json({ status: 'error', message: 'No transaction was found for this id', data: null }, 404)
+
+  const checkout = path.match(/^\/checkout\/(.+)$/)
+  if (checkout) {
+    const transaction = transactions.get(decodeURIComponent(checkout[1]))
+    if (!transaction) return notFound()
+
+    complete(transaction, new URL(req.url).searchParams.get('outcome') !== 'failed', `flw-t1nf-stub-${transaction.id}`)
+    await sendFlutterwaveWebhook(transaction)
+    return new Response(`Flutterwave stub: payment ${transaction.status}`)
+  }
+
+  if (req.headers.get('Authorization') !== `Bearer ${flutterwaveSecret}`) {
+    return json({ status: 'error', message: 'Invalid authorization key', data: null }, 401)
+  }
+
+  if (req.method === 'POST' && path === '/v3/payments') {
+    const body = await req.json()
+    const transaction = createTransaction({
+      reference: body.tx_ref,
+      amount: Number(body.amount),
+      currency: body.currency ?? 'NGN',
+      email: body.customer?.email,
+      metadata: body.meta ?? {},
+    })
+    return ok({ link: `${origin}/flutterwave/checkout/${encodeURIComponent(transaction.reference)}` })
+  }
+
+  if (req.method === 'GET' && path === '/v3/transactions/verify_by_reference') {
+    const transaction = transactions.get(new URL(req.url).searchParams.get('tx_ref') ?? '')
+    return transaction ? ok(flutterwaveTransaction(transaction)) : notFound()
+  }
+
+  if (req.method === 'GET' && path === '/v3/transactions') {
+    const params = new URL(req.url).searchParams
+    const page = paidBetween(params, Number(params.get('page') ?? '1'), 10)
+    return ok(page.map(flutterwaveTransaction))
+  }
+
+  if (req.method === 'POST' && path === '/v3/tokenized-charges') {
+    const body = await req.json()
+    const transaction = createTransaction({
+      reference: body.tx_ref,
+      amount: Number(body.amount),
+      currency: body.currency ?? 'NGN',
+      email: body.email,
+      metadata: body.meta ?? {},
+    })
+    complete(transaction, !body.token.endsWith('decline'), body.token)
+    await sendFlutterwaveWebhook(transaction)
+    return ok(flutterwaveTransaction(transaction))
+  }
+
+  return json({ status: 'error', message: `No stub for ${req.method} ${path}`, data: null }, 404)
+}
+
+serve(async (req) => {
+  const url = new URL(req.url)
+  const [, provider, ...rest] = url.pathname.split('/')
+  const path = `/${rest.join('/')}`
+  console.log(`${req.method} ${url.pathname}${url.search}`)
+
+  if (provider === 'paystack') return paystack(req, path, url.origin)
+  if (provider === 'flutterwave') return flutterwave(req, path, url.origin)
+
+  return json({ error: 'Use /paystack or /flutterwave' }, 404)
+}, { port })
@@ -0,0 +1,104 @@
+// The interface every payment gateway adapter implements. Amounts are always
+// in major units (naira, dollars); each adapter converts to what its API
+// expects.
+
+export type GatewayName = 'paystack' | 'flutterwave' | 'stripe'
+
+export type TransactionStatus = 'pending' | 'succeeded' | 'failed'
+
+// Read from `payment_provider_settings.config`
+export interface GatewayConfig {
+  secretKey: string
+  publicKey?: string
+  webhookSecret?: string
+  // Overrides the provider's API host, e.g. to use the local stub server
+  baseUrl?: string
+}
+
+export interface InitializeRequest {
+  // Ours, unique per attempt; the provider echoes it back
+  reference: string
+  amount: number
+  currency: string
+  email: string
+  description: string
+  callbackUrl?: string
+  metadata: Record<string, string>
+}
+
+export interface InitializeResult {
+  // What `verifyTransaction` must be called with
+  reference: string
+  checkoutUrl: string
+}
+
+// A card or account the provider will charge again without the member
+export interface SavedAuthorization {
+  code: string
+  // Stripe charges saved cards through the customer they belong to
+  customerCode?: string
+  last4: string | null
+  brand: string | null
+  expiry: string | null
+  reusable: boolean
+}
+
+export interface GatewayTransaction {
+  // What the payment is settled under; for Stripe the payment intent
+  reference: string
+  status: TransactionStatus
+  amount: number
+  currency: string
+  paidAt: string | null
+  failureReason: string | null
+  metadata: Record<string, string>
+  authorization: SavedAuthorization | null
+}
+
+export interface ChargeRequest {
+  reference: string
+  authorization: Pick<SavedAuthorization, 'code' | 'customerCode'>
+  email: string
+  amount: number
+  currency: string
+  metadata: Record<string, string>
+}
+
+export interface WebhookEvent {
+  // Unique per delivery target, used to ignore redeliveries
+  id: string
+  type: string
+  // What `verifyTransaction` takes, only set for events that report a
+  // payment's outcome
+  reference: string | null
+  // Set for events that report money refunded on an earlier payment
+  refund?: { reference: string; amount: number }
+}
+
+// One successful payment as the provider settles it
+export interface SettlementLine {
+  // Matches `GatewayTransaction.reference`
+  reference: string
+  amount: number
+  fee: number
+  currency: string
+  settledAt: string | null
+}
+
+export class WebhookSignatureError extends Error {
+  constructor(message = 'Invalid webhook signature') {
+    super(message)
+    this.name = 'WebhookSignatureError'
+  }
+}
+
+export interface GatewayAdapter {
+  name: GatewayName
+  initializeTransaction(request: InitializeRequest): Promise<InitializeResult>
+  verifyTransaction(reference: string): Promise<GatewayTransaction>
+  chargeAuthorization(request: ChargeRequest): Promise<GatewayTransaction>
+  // Throws WebhookSignatureError unless the body was signed by the provider
+  parseWebhook(body: string, headers: Headers): Promise<WebhookEvent>
+  // Successful payments between two dates (YYYY-MM-DD, inclusive)
+  listSettlements(from: string, to: string): Promise<SettlementLine[]>
+}
@@ -0,0 +1,54 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0'
+
+// Keeps `payment_attempts` in step with what the gateways report. An attempt
+// that already succeeded is left alone, so late or repeated reports are
+// harmless; the database keeps the status history.
+
+export interface AttemptOutcome {
+  status: 'pending' | 'succeeded' | 'failed'
+  gatewayReference: string
+  failureReason?: string | null
+}
+
+export const recordAttemptOutcome = async (
+  supabaseClient: SupabaseClient,
+  reference: string,
+  outcome: AttemptOutcome,
+) => {
+  // A pending report tells us nothing new about the attempt's status
+  const changes = outcome.status === 'pending'
+    ? { gateway_reference: outcome.gatewayReference }
+    : {
+      status: outcome.status,
+      gateway_reference: outcome.gatewayReference,
+      failure_reason: outcome.failureReason ?? null,
+    }
+
+  const { data, error } = await supabaseClient
+    .from('payment_attempts')
+    .update(changes)
+    .eq('reference', reference)
+    .neq('status', 'succeeded')
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+// Why a payment the gateway reports cannot be applied to its attempt, or
+// null when it took exactly the amount and currency the attempt was for
+export const settlementMismatch = (
+  attempt: { amount: number; currency: string },
+  reported: { amount: number; currency: string },
+): string | null => {
+  if (reported.currency.toUpperCase() !== attempt.currency.toUpperCase()) {
+    return `Paid in ${reported.currency} but the payment was for ${attempt.currency}`
+  }
+
+  if (Math.round(reported.amount * 100) !== Math.round(attempt.amount * 100)) {
+    return `Paid ${reported.amount} ${reported.currency} but the payment was for ${attempt.amount}`
+  }
+
+  return null
+}
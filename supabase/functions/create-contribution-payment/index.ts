@@ -1,6 +1,11 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from 'https://esm.sh/stripe@14.21.0'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0'
+import { toStripeAmount } from '../_shared/gateways/stripe.ts'
+
+// Starts a Stripe Checkout session for one of the member's contributions, in
+// the thrift system's currency. The session is recorded as a
+// `payment_attempts` row, which is what `stripe-webhook` settles against.
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -34,7 +39,9 @@ serve(async (req) => {
         memberships!inner(
           user_id,
           thrift_systems!inner(
-            name
+            id,
+            name,
+            currency
           )
         )
       `)
@@ -49,6 +56,12 @@ serve(async (req) => {
       throw new Error('Unauthorized')
     }
 
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new Error('Please enter a valid amount')
+    }
+
+    const currency = contribution.memberships.thrift_systems.currency
+
     const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
       apiVersion: '2023-10-16',
     })
@@ -59,11 +72,11 @@ serve(async (req) => {
       line_items: [
         {
           price_data: {
-            currency: 'usd',
+            currency: currency.toLowerCase(),
             product_data: {
               name: `Contribution for ${contribution.memberships.thrift_systems.name}`,
             },
-            unit_amount: Math.round(amount * 100), // Convert to cents
+            unit_amount: toStripeAmount(amount, currency),
           },
           quantity: 1,
         },
@@ -75,8 +88,37 @@ serve(async (req) => {
         contributionId,
         userId: user.id,
       },
+      // Copied onto the payment intent so the webhook can match failures
+      // and refunds back to the contribution
+      payment_intent_data: {
+        metadata: {
+          contributionId,
+          userId: user.id,
+        },
+      },
     })
 
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    )
+
+    const { error: attemptError } = await serviceClient
+      .from('payment_attempts')
+      .insert({
+        user_id: user.id,
+        gateway: 'stripe',
+        reference: session.id,
+        amount,
+        currency,
+        description: `Contribution for ${contribution.memberships.thrift_systems.name}`,
+        contribution_id: contributionId,
+        checkout_url: session.url,
+        metadata: { contributionId, userId: user.id },
+      })
+
+    if (attemptError) throw attemptError
+
     return new Response(
       JSON.stringify({ url: session.url }),
       { 
@@ -0,0 +1,122 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0'
+import { getGatewayAdapter, WebhookSignatureError } from '../_shared/gateways/index.ts'
+import { recordAttemptOutcome, settlementMismatch } from '../_shared/payment-attempts.ts'
+
+// Receives Paystack and Flutterwave webhooks at
+// `/gateway-webhook?provider=paystack` (or `flutterwave`); Stripe has its
+// own `stripe-webhook` function. Event bodies are only trusted for their
+// signature and reference: the transaction itself is fetched back from the
+// provider before anything is settled. Refunds are taken from the signed
+// event, which is the only place Paystack reports them. Providers retry
+// anything that is not answered with a 2xx, so errors are returned as 500s.
+
+const webhookProviders = ['paystack', 'flutterwave']
+
+serve(async (req) => {
+  const provider = new URL(req.url).searchParams.get('provider') ?? ''
+  if (!webhookProviders.includes(provider)) {
+    return new Response(JSON.stringify({ error: `Unsupported provider: ${provider}` }), {
+      headers: { 'Content-Type': 'application/json' },
+      status: 400,
+    })
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    )
+    const adapter = await getGatewayAdapter(supabaseClient, provider)
+
+    // The signature covers the raw body, so it is read as text before parsing
+    const event = await adapter.parseWebhook(await req.text(), req.headers)
+
+    let outcome = 'ignored'
+
+    if (event.reference) {
+      const transaction = await adapter.verifyTransaction(event.reference)
+
+      // What the payment was for comes from our attempt, not the metadata
+      const { data: attempt, error: attemptError } = await supabaseClient
+        .from('payment_attempts')
+        .select('user_id, contribution_id, amount, currency, metadata')
+        .eq('reference', event.reference)
+        .maybeSingle()
+      if (attemptError) throw attemptError
+
+      // Money taken in another amount or currency is not applied; the
+      // attempt is failed and reconciliation flags the settlement
+      const mismatch = attempt && transaction.status === 'succeeded'
+        ? settlementMismatch(attempt, transaction)
+        : null
+
+      await recordAttemptOutcome(supabaseClient, event.reference, {
+        status: mismatch ? 'failed' : transaction.status,
+        gatewayReference: transaction.reference,
+        failureReason: mismatch ?? transaction.failureReason,
+      })
+
+      if (mismatch) {
+        outcome = 'rejected'
+      } else if (attempt?.contribution_id && transaction.status !== 'pending') {
+        const { data, error } = await supabaseClient.rpc('apply_gateway_webhook_event', {
+          p_provider: provider,
+          p_event_id: event.id,
+          p_event_type: event.type,
+          p_succeeded: transaction.status === 'succeeded',
+          p_contribution_id: attempt.contribution_id,
+          p_reference: transaction.reference,
+          p_amount: transaction.amount,
+          p_reason: transaction.failureReason,
+        })
+        if (error) throw error
+        outcome = data
+      } else if (attempt?.metadata?.purpose === 'wallet_topup' && transaction.status === 'succeeded') {
+        const { data, error } = await supabaseClient.rpc('apply_gateway_topup_event', {
+          p_provider: provider,
+          p_event_id: event.id,
+          p_event_type: event.type,
+          p_user_id: attempt.user_id,
+          p_reference: transaction.reference,
+          p_amount: transaction.amount,
+        })
+        if (error) throw error
+        outcome = data
+      }
+    }
+
+    if (event.refund) {
+      const { data, error } = await supabaseClient.rpc('apply_gateway_refund_event', {
+        p_provider: provider,
+        p_event_id: event.id,
+        p_event_type: event.type,
+        p_reference: event.refund.reference,
+        p_amount: event.refund.amount,
+      })
+      if (error) throw error
+      outcome = data
+    }
+
+    console.log(`${provider} event ${event.id} (${event.type}): ${outcome}`)
+
+    return new Response(JSON.stringify({ received: true, outcome }), {
+      headers: { 'Content-Type': 'application/json' },
+      status: 200,
+    })
+  } catch (error) {
+    if (error instanceof WebhookSignatureError) {
+      console.error(`${provider} signature verification failed:`, error.message)
+      return new Response(JSON.stringify({ error: 'Invalid signature' }), {
+        headers: { 'Content-Type': 'application/json' },
+        status: 400,
+      })
+    }
+
+    console.error(`Error handling ${provider} webhook:`, error)
+    return new Response(JSON.stringify({ error: error.message }), {
+      headers: { 'Content-Type': 'application/json' },
+      status: 500,
+    })
+  }
+})
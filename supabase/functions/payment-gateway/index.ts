@@ -0,0 +1,277 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0'
+import { GatewayTransaction, getGatewayAdapter } from '../_shared/gateways/index.ts'
+import { AttemptOutcome, recordAttemptOutcome, settlementMismatch } from '../_shared/payment-attempts.ts'
+
+// The browser's way to Paystack, Flutterwave and Stripe. Provider keys and
+// saved card authorizations never leave the server: the member starts an
+// attempt, pays on the provider's checkout page, then asks for it to be
+// verified, or charges a card saved by an earlier attempt. A verified payment
+// for a contribution or a wallet top-up is applied straight away; the
+// webhooks apply it too if the member never comes back, and the reference
+// keeps it from counting twice.
+// Every action answers with the member's `payment_attempts` row. The member
+// picks the amount; the currency is the thrift system's, and wallets are kept
+// in naira.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const walletCurrency = 'NGN'
+
+// The currency a member's own contribution is paid in
+const contributionCurrency = async (supabaseClient: SupabaseClient, contributionId: string, userId: string) => {
+  const { data: contribution, error } = await supabaseClient
+    .from('contributions')
+    .select('id, memberships!inner(user_id, thrift_systems!inner(currency))')
+    .eq('id', contributionId)
+    .single()
+
+  if (error) throw error
+  if (contribution.memberships.user_id !== userId) {
+    throw new Error('Unauthorized')
+  }
+
+  return contribution.memberships.thrift_systems.currency as string
+}
+
+// Applies a confirmed payment to what its attempt was for and returns the
+// outcome to record. The attempt row is ours, so it decides, not the
+// metadata the gateway echoes back; a payment in another amount or currency
+// is failed and left for reconciliation.
+const settle = async (
+  supabaseClient: SupabaseClient,
+  gateway: string,
+  attempt: {
+    user_id: string
+    contribution_id: string | null
+    amount: number
+    currency: string
+    metadata: Record<string, string>
+  },
+  transaction: GatewayTransaction,
+): Promise<AttemptOutcome> => {
+  const outcome: AttemptOutcome = {
+    status: transaction.status,
+    gatewayReference: transaction.reference,
+    failureReason: transaction.failureReason,
+  }
+
+  if (transaction.status !== 'succeeded') return outcome
+
+  const mismatch = settlementMismatch(attempt, transaction)
+  if (mismatch) return { ...outcome, status: 'failed', failureReason: mismatch }
+
+  if (attempt.contribution_id) {
+    const { error } = await supabaseClient.rpc('settle_gateway_contribution_payment', {
+      p_provider: gateway,
+      p_contribution_id: attempt.contribution_id,
+      p_reference: transaction.reference,
+      p_amount: transaction.amount,
+    })
+    if (error) throw error
+  } else if (attempt.metadata?.purpose === 'wallet_topup') {
+    const { error } = await supabaseClient.rpc('credit_gateway_wallet_topup', {
+      p_provider: gateway,
+      p_user_id: attempt.user_id,
+      p_reference: transaction.reference,
+      p_amount: transaction.amount,
+    })
+    if (error) throw error
+  }
+
+  return outcome
+}
+
+const fetchAttempt = async (supabaseClient: SupabaseClient, attemptId: string, userId: string) => {
+  const { data, error } = await supabaseClient
+    .from('payment_attempts')
+    .select('*')
+    .eq('id', attemptId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) throw new Error('Payment not found')
+  return data
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const { action, gateway, ...params } = await req.json()
+
+    const authClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    )
+    const authHeader = req.headers.get('Authorization') ?? ''
+    const { data: { user } } = await authClient.auth.getUser(authHeader.replace('Bearer ', ''))
+
+    if (!user) throw new Error('Not authenticated')
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    )
+    const newAttempt = async (gateway: string, status: 'pending' | 'processing', paymentMethodId: string | null) => {
+      const currency = params.contributionId
+        ? await contributionCurrency(supabaseClient, params.contributionId, user.id)
+        : walletCurrency
+
+      // Keys the webhooks rely on are never taken from the browser
+      const { contributionId: _contributionId, userId: _userId, purpose: _purpose, ...extra } = params.metadata ?? {}
+
+      const { data, error } = await supabaseClient
+        .from('payment_attempts')
+        .insert({
+          user_id: user.id,
+          gateway,
+          reference: `${gateway}_${crypto.randomUUID()}`,
+          amount: params.amount,
+          currency,
+          description: params.description,
+          status,
+          payment_method_id: paymentMethodId,
+          contribution_id: params.contributionId ?? null,
+          metadata: {
+            ...extra,
+            ...(params.contributionId && { contributionId: params.contributionId }),
+            ...(!params.contributionId && params.purpose === 'wallet_topup' && { purpose: 'wallet_topup' }),
+            userId: user.id,
+          },
+        })
+        .select()
+        .single()
+
+      if (error) throw error
+      return data
+    }
+
+    const failAttempt = async (reference: string, error: Error) => {
+      await recordAttemptOutcome(supabaseClient, reference, {
+        status: 'failed',
+        gatewayReference: reference,
+        failureReason: error.message,
+      })
+      throw error
+    }
+
+    let attempt
+
+    switch (action) {
+      case 'initialize': {
+        const adapter = await getGatewayAdapter(supabaseClient, gateway)
+        attempt = await newAttempt(gateway, 'pending', null)
+
+        const initialized = await adapter.initializeTransaction({
+          reference: attempt.reference,
+          amount: attempt.amount,
+          currency: attempt.currency,
+          email: user.email ?? '',
+          description: attempt.description,
+          callbackUrl: params.callbackUrl,
+          metadata: attempt.metadata,
+        }).catch((error) => failAttempt(attempt.reference, error))
+
+        // Stripe verifies by its own session id rather than our reference
+        const { data, error } = await supabaseClient
+          .from('payment_attempts')
+          .update({ reference: initialized.reference, checkout_url: initialized.checkoutUrl })
+          .eq('id', attempt.id)
+          .select()
+          .single()
+
+        if (error) throw error
+        attempt = data
+        break
+      }
+
+      case 'verify': {
+        // An existing payment is always verified with the gateway it was made through
+        attempt = await fetchAttempt(supabaseClient, params.paymentId, user.id)
+        const adapter = await getGatewayAdapter(supabaseClient, attempt.gateway)
+        const transaction = await adapter.verifyTransaction(attempt.reference)
+
+        const outcome = await settle(supabaseClient, attempt.gateway, attempt, transaction)
+        await recordAttemptOutcome(supabaseClient, attempt.reference, outcome)
+
+        const authorization = transaction.authorization
+        if (outcome.status === 'succeeded' && params.saveMethod && authorization?.reusable && !attempt.payment_method_id) {
+          const { data: methodId, error } = await supabaseClient.rpc('save_tokenized_payment_method', {
+            p_user_id: user.id,
+            p_gateway: attempt.gateway,
+            p_authorization_code: authorization.code,
+            p_customer_code: authorization.customerCode ?? null,
+            p_last4: authorization.last4,
+            p_brand: authorization.brand,
+            p_expiry: authorization.expiry,
+          })
+          if (error) throw error
+
+          await supabaseClient.from('payment_attempts').update({ payment_method_id: methodId }).eq('id', attempt.id)
+        }
+
+        attempt = await fetchAttempt(supabaseClient, attempt.id, user.id)
+        break
+      }
+
+      case 'charge': {
+        const { data: method, error: methodError } = await supabaseClient
+          .from('payment_methods')
+          .select('id, gateway, authorization_code, customer_code')
+          .eq('id', params.paymentMethodId)
+          .eq('user_id', user.id)
+          .not('authorization_code', 'is', null)
+          .maybeSingle()
+
+        if (methodError) throw methodError
+        if (!method) throw new Error('This payment method cannot be charged')
+
+        // A saved card is charged through the gateway that tokenized it
+        const adapter = await getGatewayAdapter(supabaseClient, method.gateway)
+        attempt = await newAttempt(method.gateway, 'processing', method.id)
+
+        const transaction = await adapter.chargeAuthorization({
+          reference: attempt.reference,
+          authorization: { code: method.authorization_code, customerCode: method.customer_code ?? undefined },
+          amount: attempt.amount,
+          currency: attempt.currency,
+          email: user.email ?? '',
+          metadata: attempt.metadata,
+        }).catch((error) => failAttempt(attempt.reference, error))
+
+        const outcome = await settle(supabaseClient, attempt.gateway, attempt, transaction)
+        await recordAttemptOutcome(supabaseClient, attempt.reference, outcome)
+
+        attempt = await fetchAttempt(supabaseClient, attempt.id, user.id)
+        break
+      }
+
+      default:
+        throw new Error(`Unknown action: ${action}`)
+    }
+
+    return new Response(
+      JSON.stringify(attempt),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    )
+  } catch (error) {
+    console.error('Error calling payment gateway:', error)
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    )
+  }
+})
@@ -0,0 +1,219 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0'
+import { getTransferProvider, TransferRecipient } from './providers.ts'
+
+// Sends due payouts and wallet withdrawals to members' bank accounts. The
+// `process-payouts` cron job calls it every five minutes with the service
+// role key; each run claims a batch under a lease, so overlapping runs never
+// pick up the same transfer.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const numberFromEnv = (name: string, fallback: number) => {
+  const value = Number(Deno.env.get(name))
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const supabaseClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey)
+    const provider = getTransferProvider(Deno.env.get('PAYOUT_TRANSFER_PROVIDER'))
+    const maxAttempts = numberFromEnv('PAYOUT_MAX_ATTEMPTS', 5)
+    const baseDelaySeconds = numberFromEnv('PAYOUT_RETRY_BASE_SECONDS', 60)
+
+    const { data: payouts, error: claimError } = await supabaseClient.rpc('claim_due_payouts', {
+      p_worker: `process-payouts-${crypto.randomUUID()}`,
+      p_limit: numberFromEnv('PAYOUT_BATCH_SIZE', 20),
+      p_lease_seconds: numberFromEnv('PAYOUT_LEASE_SECONDS', 300),
+    })
+
+    if (claimError) throw claimError
+
+    const summary = { claimed: payouts.length, completed: 0, retrying: 0, failed: 0 }
+    const currencies = await thriftCurrencies(supabaseClient, payouts.map((payout) => payout.thrift_system_id))
+
+    for (const payout of payouts) {
+      // Wallet payouts are credited as they are claimed
+      if (payout.status === 'completed') {
+        summary.completed++
+        continue
+      }
+
+      let result
+      try {
+        const recipient = await findRecipient(supabaseClient, payout)
+        result = recipient
+          ? await provider.sendTransfer({
+              idempotencyKey: payout.transfer_idempotency_key,
+              amount: payout.amount,
+              currency: currencies.get(payout.thrift_system_id) ?? 'NGN',
+              recipient,
+              narration: `Thrift payout for position ${payout.position}`,
+            })
+          : { ok: false as const, error: 'Member has no verified bank account' }
+      } catch (error) {
+        result = { ok: false as const, error: error.message || 'Transfer provider error' }
+      }
+
+      if (result.ok) {
+        const { error } = await supabaseClient.rpc('complete_payout_transfer', {
+          p_payout_id: payout.id,
+          p_idempotency_key: payout.transfer_idempotency_key,
+          p_provider: provider.name,
+          p_provider_reference: result.reference,
+        })
+        if (error) {
+          console.error(`Error completing payout ${payout.id}:`, error)
+          continue
+        }
+        summary.completed++
+      } else {
+        const { data: outcome, error } = await supabaseClient.rpc('fail_payout_transfer', {
+          p_payout_id: payout.id,
+          p_idempotency_key: payout.transfer_idempotency_key,
+          p_provider: provider.name,
+          p_error: result.error,
+          p_max_attempts: maxAttempts,
+          p_base_delay_seconds: baseDelaySeconds,
+        })
+        if (error) {
+          console.error(`Error recording failed payout ${payout.id}:`, error)
+          continue
+        }
+        summary[outcome === 'failed' ? 'failed' : 'retrying']++
+      }
+    }
+
+    const { data: withdrawals, error: withdrawalClaimError } = await supabaseClient.rpc('claim_due_withdrawals', {
+      p_worker: `process-payouts-${crypto.randomUUID()}`,
+      p_limit: numberFromEnv('PAYOUT_BATCH_SIZE', 20),
+      p_lease_seconds: numberFromEnv('PAYOUT_LEASE_SECONDS', 300),
+    })
+
+    if (withdrawalClaimError) throw withdrawalClaimError
+
+    const withdrawalSummary = { claimed: withdrawals.length, completed: 0, retrying: 0, failed: 0 }
+
+    for (const withdrawal of withdrawals) {
+      let result
+      try {
+        const recipient = await findRecipient(supabaseClient, {
+          bank_account_id: withdrawal.bank_account_id,
+          member_id: withdrawal.user_id,
+        })
+        result = recipient
+          ? await provider.sendTransfer({
+              idempotencyKey: withdrawal.transfer_idempotency_key,
+              amount: withdrawal.amount,
+              // Wallets are held in naira
+              currency: 'NGN',
+              recipient,
+              narration: 'Wallet withdrawal',
+            })
+          : { ok: false as const, error: 'Bank account is no longer verified' }
+      } catch (error) {
+        result = { ok: false as const, error: error.message || 'Transfer provider error' }
+      }
+
+      if (result.ok) {
+        const { error } = await supabaseClient.rpc('complete_withdrawal_transfer', {
+          p_withdrawal_id: withdrawal.id,
+          p_idempotency_key: withdrawal.transfer_idempotency_key,
+          p_provider_reference: result.reference,
+        })
+        if (error) {
+          console.error(`Error completing withdrawal ${withdrawal.id}:`, error)
+          continue
+        }
+        withdrawalSummary.completed++
+      } else {
+        const { data: outcome, error } = await supabaseClient.rpc('fail_withdrawal_transfer', {
+          p_withdrawal_id: withdrawal.id,
+          p_idempotency_key: withdrawal.transfer_idempotency_key,
+          p_error: result.error,
+          p_max_attempts: maxAttempts,
+          p_base_delay_seconds: baseDelaySeconds,
+        })
+        if (error) {
+          console.error(`Error recording failed withdrawal ${withdrawal.id}:`, error)
+          continue
+        }
+        withdrawalSummary[outcome === 'failed' ? 'failed' : 'retrying']++
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ ...summary, withdrawals: withdrawalSummary }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    )
+  } catch (error) {
+    console.error('Error processing payouts:', error)
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    )
+  }
+})
+
+// Each payout is sent in its thrift system's currency
+async function thriftCurrencies(
+  supabaseClient: ReturnType<typeof createClient>,
+  thriftSystemIds: string[]
+): Promise<Map<string, string>> {
+  if (thriftSystemIds.length === 0) return new Map()
+
+  const { data, error } = await supabaseClient
+    .from('thrift_systems')
+    .select('id, currency')
+    .in('id', [...new Set(thriftSystemIds)])
+
+  if (error) throw error
+  return new Map((data ?? []).map((thrift) => [thrift.id, thrift.currency]))
+}
+
+// The payout's own bank account, or else the member's most recently
+// verified one
+async function findRecipient(
+  supabaseClient: ReturnType<typeof createClient>,
+  payout: { bank_account_id: string | null; member_id: string }
+): Promise<TransferRecipient | null> {
+  let query = supabaseClient
+    .from('bank_accounts')
+    .select('account_name, account_number, bank_name')
+    .eq('verification_status', 'verified')
+
+  query = payout.bank_account_id
+    ? query.eq('id', payout.bank_account_id)
+    : query.eq('user_id', payout.member_id).order('verified_at', { ascending: false })
+
+  const { data, error } = await query.limit(1).maybeSingle()
+  if (error) throw error
+  if (!data) return null
+
+  return {
+    accountName: data.account_name,
+    accountNumber: data.account_number,
+    bankName: data.bank_name,
+  }
+}
@@ -0,0 +1,187 @@
+// Transfer providers the payout processor can send money through. Each one
+// must treat a repeated idempotency key as the same transfer, so a retry
+// after a lost response never pays a member twice.
+
+export interface TransferRecipient {
+  accountName: string
+  accountNumber: string
+  bankName: string
+}
+
+export interface TransferRequest {
+  idempotencyKey: string
+  amount: number
+  currency: string
+  recipient: TransferRecipient
+  narration: string
+}
+
+export type TransferResult =
+  | { ok: true; reference: string }
+  | { ok: false; error: string }
+
+export interface TransferProvider {
+  name: string
+  sendTransfer(request: TransferRequest): Promise<TransferResult>
+}
+
+// For local runs and tests. Accounts ending in 0000 are always rejected and
+// FAKE_TRANSFER_FAILURE_RATE (0 to 1) fails a share of the rest at random.
+// Only successes are remembered, so a failed key can be retried.
+export class FakeTransferProvider implements TransferProvider {
+  name = 'fake'
+  private sent = new Map<string, string>()
+
+  constructor(private failureRate = 0) {}
+
+  async sendTransfer(request: TransferRequest): Promise<TransferResult> {
+    const existing = this.sent.get(request.idempotencyKey)
+    if (existing) {
+      return { ok: true, reference: existing }
+    }
+
+    if (request.recipient.accountNumber.endsWith('0000')) {
+      return { ok: false, error: 'Recipient account not found' }
+    }
+
+    if (Math.random() < this.failureRate) {
+      return { ok: false, error: 'Transfer declined by the fake provider' }
+    }
+
+    const reference = `fake_${crypto.randomUUID()}`
+    this.sent.set(request.idempotencyKey, reference)
+    return { ok: true, reference }
+  }
+}
+
+interface PaystackResponse<T> {
+  status: boolean
+  message: string
+  data: T
+}
+
+interface PaystackTransfer {
+  reference: string
+  transfer_code: string
+  status: string
+}
+
+// https://paystack.com/docs/transfers/ — the transfer's reference is the
+// idempotency key, so a retry finds the transfer Paystack already accepted
+// instead of sending another. Amounts are in kobo (or cents), and a queued
+// or pending transfer counts as sent.
+export class PaystackTransferProvider implements TransferProvider {
+  name = 'paystack'
+  private bankCodes = new Map<string, Map<string, string>>()
+
+  constructor(private secretKey: string, private baseUrl = 'https://api.paystack.co') {}
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${this.secretKey}`,
+        'Content-Type': 'application/json',
+      },
+    })
+    const body = await response.json() as PaystackResponse<T>
+
+    if (!response.ok || !body.status) {
+      throw new Error(`Paystack: ${body.message || response.statusText}`)
+    }
+    return body.data
+  }
+
+  private async findTransfer(reference: string): Promise<PaystackTransfer | null> {
+    try {
+      return await this.request<PaystackTransfer>(`/transfer/verify/${encodeURIComponent(reference)}`)
+    } catch {
+      return null
+    }
+  }
+
+  // Bank accounts store the bank's name, which Paystack's bank list maps to
+  // the code a recipient needs
+  private async bankCode(bankName: string, currency: string): Promise<string | null> {
+    let codes = this.bankCodes.get(currency)
+    if (!codes) {
+      const banks = await this.request<{ name: string; code: string }[]>(
+        `/bank?currency=${encodeURIComponent(currency)}&perPage=100`
+      )
+      codes = new Map(banks.map((bank) => [bank.name.trim().toLowerCase(), bank.code]))
+      this.bankCodes.set(currency, codes)
+    }
+    return codes.get(bankName.trim().toLowerCase()) ?? null
+  }
+
+  async sendTransfer(request: TransferRequest): Promise<TransferResult> {
+    const existing = await this.findTransfer(request.idempotencyKey)
+    if (existing) {
+      return ['failed', 'reversed', 'abandoned'].includes(existing.status)
+        ? { ok: false, error: `Paystack transfer ${existing.status}` }
+        : { ok: true, reference: existing.transfer_code }
+    }
+
+    const bankCode = await this.bankCode(request.recipient.bankName, request.currency)
+    if (!bankCode) {
+      return { ok: false, error: `Paystack does not recognise the bank ${request.recipient.bankName}` }
+    }
+
+    const recipient = await this.request<{ recipient_code: string }>('/transferrecipient', {
+      method: 'POST',
+      body: JSON.stringify({
+        type: 'nuban',
+        name: request.recipient.accountName,
+        account_number: request.recipient.accountNumber,
+        bank_code: bankCode,
+        currency: request.currency,
+      }),
+    })
+
+    const transfer = await this.request<PaystackTransfer>('/transfer', {
+      method: 'POST',
+      body: JSON.stringify({
+        source: 'balance',
+        amount: Math.round(request.amount * 100),
+        currency: request.currency,
+        recipient: recipient.recipient_code,
+        reference: request.idempotencyKey,
+        reason: request.narration,
+      }),
+    })
+
+    return ['failed', 'reversed'].includes(transfer.status)
+      ? { ok: false, error: `Paystack transfer ${transfer.status}` }
+      : { ok: true, reference: transfer.transfer_code }
+  }
+}
+
+const providers: Record<string, () => TransferProvider> = {
+  paystack: () => {
+    const secretKey = Deno.env.get('PAYSTACK_SECRET_KEY')
+    if (!secretKey) {
+      throw new Error('PAYSTACK_SECRET_KEY is not set')
+    }
+    return new PaystackTransferProvider(secretKey)
+  },
+  // Never moves money, so it only runs where fake transfers are allowed
+  fake: () => {
+    if (Deno.env.get('ALLOW_FAKE_TRANSFERS') !== 'true') {
+      throw new Error('The fake transfer provider is only for local runs; set ALLOW_FAKE_TRANSFERS=true to use it')
+    }
+    return new FakeTransferProvider(Number(Deno.env.get('FAKE_TRANSFER_FAILURE_RATE') ?? '0'))
+  },
+}
+
+export const getTransferProvider = (name: string | undefined): TransferProvider => {
+  if (!name) {
+    throw new Error('PAYOUT_TRANSFER_PROVIDER is not set')
+  }
+
+  const create = providers[name]
+  if (!create) {
+    throw new Error(`Unknown transfer provider: ${name}`)
+  }
+
+  return create()
+}
@@ -0,0 +1,78 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0'
+import { getGatewayAdapter } from '../_shared/gateways/index.ts'
+
+// Pulls what a gateway settled over a period through its adapter and imports
+// it as a settlement report. The import runs as the calling admin, so
+// `import_settlement_report` both checks and records who pulled it.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const isDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const { gateway, from, to } = await req.json()
+
+    if (!isDate(from) || !isDate(to)) {
+      throw new Error('from and to must be dates (YYYY-MM-DD)')
+    }
+
+    const authHeader = req.headers.get('Authorization') ?? ''
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } },
+    )
+
+    // Checked before the provider is called, not only by the import
+    const { data: isAdmin, error: adminError } = await userClient.rpc('is_platform_admin')
+    if (adminError) throw adminError
+    if (!isAdmin) throw new Error('Unauthorized')
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    )
+    const adapter = await getGatewayAdapter(supabaseClient, gateway)
+    const settlements = await adapter.listSettlements(from, to)
+
+    if (settlements.length === 0) {
+      throw new Error(`${gateway} settled nothing between ${from} and ${to}`)
+    }
+
+    const { data: reportId, error } = await userClient.rpc('import_settlement_report', {
+      p_gateway: gateway,
+      p_source: 'adapter',
+      p_period_start: from,
+      p_period_end: to,
+      p_lines: settlements.map((line) => ({
+        reference: line.reference,
+        amount: line.amount,
+        fee: line.fee,
+        currency: line.currency,
+        settled_at: line.settledAt,
+      })),
+    })
+    if (error) throw error
+
+    return new Response(JSON.stringify({ reportId, lines: settlements.length }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    })
+  } catch (error) {
+    console.error('Error pulling settlements:', error)
+    return new Response(JSON.stringify({ error: error.message }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 500,
+    })
+  }
+})
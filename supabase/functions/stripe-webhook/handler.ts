@@ -0,0 +1,105 @@
+import Stripe from 'https://esm.sh/stripe@14.21.0'
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0'
+import { recordAttemptOutcome, settlementMismatch } from '../_shared/payment-attempts.ts'
+import { fromStripeAmount } from '../_shared/gateways/stripe.ts'
+
+// Applies one verified Stripe event to the contribution or wallet top-up it
+// concerns and resolves to what happened: `settled`, `credited`, `failed`,
+// `refunded`, `rejected`, `duplicate`, `pending` or `ignored`. The database
+// functions record each event id, so handling a redelivered event is a no-op.
+// What a paid session was for, and for how much, comes from its
+// `payment_attempts` row rather than the session's metadata.
+
+const paymentIntentId = (value: string | { id: string } | null) =>
+  typeof value === 'string' ? value : value?.id ?? null
+
+export const handleStripeEvent = async (event: Stripe.Event, supabaseClient: SupabaseClient): Promise<string> => {
+  switch (event.type) {
+    case 'checkout.session.completed':
+    case 'checkout.session.async_payment_succeeded': {
+      const session = event.data.object as Stripe.Checkout.Session
+
+      const { data: attempt, error: attemptError } = await supabaseClient
+        .from('payment_attempts')
+        .select('user_id, contribution_id, amount, currency, metadata')
+        .eq('reference', session.id)
+        .maybeSingle()
+      if (attemptError) throw attemptError
+
+      const isTopup = attempt?.metadata?.purpose === 'wallet_topup'
+
+      if (!attempt?.contribution_id && !isTopup) return 'ignored'
+      // Bank debits and other delayed methods finish with a later event
+      if (session.payment_status !== 'paid') return 'pending'
+
+      const currency = (session.currency ?? '').toUpperCase()
+      const amount = fromStripeAmount(session.amount_total ?? 0, currency)
+      const mismatch = settlementMismatch(attempt, { amount, currency })
+
+      await recordAttemptOutcome(supabaseClient, session.id, {
+        status: mismatch ? 'failed' : 'succeeded',
+        gatewayReference: paymentIntentId(session.payment_intent) ?? session.id,
+        failureReason: mismatch,
+      })
+
+      // Left for reconciliation to flag
+      if (mismatch) return 'rejected'
+
+      if (isTopup) {
+        const { data, error } = await supabaseClient.rpc('credit_stripe_wallet_topup', {
+          p_event_id: event.id,
+          p_event_type: event.type,
+          p_user_id: attempt.user_id,
+          p_payment_intent_id: paymentIntentId(session.payment_intent),
+          p_amount: amount,
+        })
+        if (error) throw error
+        return data
+      }
+
+      const { data, error } = await supabaseClient.rpc('settle_stripe_contribution_payment', {
+        p_event_id: event.id,
+        p_event_type: event.type,
+        p_contribution_id: attempt.contribution_id,
+        p_payment_intent_id: paymentIntentId(session.payment_intent),
+        p_amount: amount,
+      })
+      if (error) throw error
+      return data
+    }
+
+    case 'payment_intent.payment_failed': {
+      const intent = event.data.object as Stripe.PaymentIntent
+      const contributionId = intent.metadata?.contributionId
+
+      if (!contributionId) return 'ignored'
+
+      const { data, error } = await supabaseClient.rpc('record_stripe_payment_failure', {
+        p_event_id: event.id,
+        p_contribution_id: contributionId,
+        p_payment_intent_id: intent.id,
+        p_reason: intent.last_payment_error?.message ?? null,
+      })
+      if (error) throw error
+      return data
+    }
+
+    case 'charge.refunded': {
+      const charge = event.data.object as Stripe.Charge
+      const intentId = paymentIntentId(charge.payment_intent)
+
+      if (!intentId) return 'ignored'
+
+      const { data, error } = await supabaseClient.rpc('refund_stripe_contribution_payment', {
+        p_event_id: event.id,
+        p_payment_intent_id: intentId,
+        p_amount_refunded: fromStripeAmount(charge.amount_refunded, charge.currency),
+      })
+      if (error) throw error
+      return data
+    }
+
+    default:
+      return 'ignored'
+  }
+}
@@ -0,0 +1,65 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import Stripe from 'https://esm.sh/stripe@14.21.0'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0'
+import { handleStripeEvent } from './handler.ts'
+
+// Receives Stripe's events for the Checkout sessions created by
+// `create-contribution-payment`. Stripe retries anything that is not
+// answered with a 2xx, so errors are returned as 500s.
+
+const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
+  apiVersion: '2023-10-16',
+})
+
+const cryptoProvider = Stripe.createSubtleCryptoProvider()
+
+serve(async (req) => {
+  const signature = req.headers.get('Stripe-Signature')
+  if (!signature) {
+    return new Response(JSON.stringify({ error: 'Missing Stripe-Signature header' }), {
+      headers: { 'Content-Type': 'application/json' },
+      status: 400,
+    })
+  }
+
+  // The signature covers the raw body, so it is read as text before parsing
+  const body = await req.text()
+
+  let event: Stripe.Event
+  try {
+    event = await stripe.webhooks.constructEventAsync(
+      body,
+      signature,
+      Deno.env.get('STRIPE_WEBHOOK_SECRET') || '',
+      undefined,
+      cryptoProvider
+    )
+  } catch (error) {
+    console.error('Stripe signature verification failed:', error.message)
+    return new Response(JSON.stringify({ error: 'Invalid signature' }), {
+      headers: { 'Content-Type': 'application/json' },
+      status: 400,
+    })
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    )
+
+    const outcome = await handleStripeEvent(event, supabaseClient)
+    console.log(`Stripe event ${event.id} (${event.type}): ${outcome}`)
+
+    return new Response(JSON.stringify({ received: true, outcome }), {
+      headers: { 'Content-Type': 'application/json' },
+      status: 200,
+    })
+  } catch (error) {
+    console.error(`Error handling Stripe event ${event.id}:`, error)
+    return new Response(JSON.stringify({ error: error.message }), {
+      headers: { 'Content-Type': 'application/json' },
+      status: 500,
+    })
+  }
+})
@@ -0,0 +1,54 @@
+// Signs a fixture event with STRIPE_WEBHOOK_SECRET and posts it to the
+// locally served webhook, so settlement can be exercised without Stripe:
+//
+//   supabase functions serve stripe-webhook --no-verify-jwt --env-file .env.local
+//   deno run --allow-read --allow-env --allow-net send-fixture.ts \
+//     fixtures/checkout.session.completed.json <contributionId> [userId]
+//
+// Posting the same fixture twice should answer `duplicate` the second time.
+// The checkout fixture is only settled against a `payment_attempts` row with
+// reference `cs_test_fixture`, amount 5000 and currency NGN.
+
+const [fixturePath, contributionId = '', userId = ''] = Deno.args
+
+if (!fixturePath) {
+  console.error('Usage: send-fixture.ts <fixture.json> [contributionId] [userId]')
+  Deno.exit(1)
+}
+
+const secret = Deno.env.get('STRIPE_WEBHOOK_SECRET')
+if (!secret) {
+  console.error('STRIPE_WEBHOOK_SECRET must be set to the secret the function is served with')
+  Deno.exit(1)
+}
+
+const url = Deno.env.get('STRIPE_WEBHOOK_URL') ?? 'http://localhost:54321/functions/v1/stripe-webhook'
+
+const payload = (await Deno.readTextFile(fixturePath))
+  .replaceAll('{{contributionId}}', contributionId)
+  .replaceAll('{{userId}}', userId)
+
+// Stripe signs `<timestamp>.<payload>` with HMAC-SHA256 and sends it as `t=...,v1=...`
+const timestamp = Math.floor(Date.now() / 1000)
+const key = await crypto.subtle.importKey(
+  'raw',
+  new TextEncoder().encode(secret),
+  { name: 'HMAC', hash: 'SHA-256' },
+  false,
+  ['sign'],
+)
+const digest = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${payload}`))
+const signature = Array.from(new Uint8Array(digest))
+  .map((byte) => byte.toString(16).padStart(2, '0'))
+  .join('')
+
+const response = await fetch(url, {
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/json',
+    'Stripe-Signature': `t=${timestamp},v1=${signature}`,
+  },
+  body: payload,
+})
+
+console.log(response.status, await response.text())
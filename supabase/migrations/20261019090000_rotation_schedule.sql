@@ -0,0 +1,86 @@
+-- Rotation schedule: explicit payout positions and contribution periods
+ALTER TABLE public.payouts ADD COLUMN IF NOT EXISTS position INTEGER;
+ALTER TABLE public.contributions ADD COLUMN IF NOT EXISTS period_number INTEGER;
+
+CREATE UNIQUE INDEX IF NOT EXISTS payouts_thrift_system_position_key
+  ON public.payouts (thrift_system_id, position)
+  WHERE position IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS contributions_membership_period_key
+  ON public.contributions (membership_id, period_number)
+  WHERE period_number IS NOT NULL;
+
+-- Writes a schedule built by the client (see src/lib/rotation-schedule.ts).
+-- Re-running is safe: rows that are no longer pending are never touched, and
+-- pending rows beyond the new schedule are removed.
+CREATE OR REPLACE FUNCTION public.apply_rotation_schedule(
+  p_thrift_system_id UUID,
+  p_schedule JSONB
+) RETURNS INTEGER AS $$
+DECLARE
+  v_payout JSONB;
+  v_contribution JSONB;
+  v_positions INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = p_thrift_system_id AND admin_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the thrift system admin can generate its schedule';
+  END IF;
+
+  v_positions := jsonb_array_length(p_schedule->'payouts');
+
+  FOR v_payout IN SELECT * FROM jsonb_array_elements(p_schedule->'payouts') LOOP
+    INSERT INTO payouts (thrift_system_id, member_id, position, amount, scheduled_date, status)
+    VALUES (
+      p_thrift_system_id,
+      (v_payout->>'member_id')::UUID,
+      (v_payout->>'position')::INTEGER,
+      (v_payout->>'amount')::NUMERIC,
+      (v_payout->>'scheduled_date')::TIMESTAMPTZ,
+      'pending'
+    )
+    ON CONFLICT (thrift_system_id, position) WHERE position IS NOT NULL
+    DO UPDATE SET
+      member_id = EXCLUDED.member_id,
+      amount = EXCLUDED.amount,
+      scheduled_date = EXCLUDED.scheduled_date
+    WHERE payouts.status = 'pending';
+  END LOOP;
+
+  FOR v_contribution IN SELECT * FROM jsonb_array_elements(p_schedule->'contributions') LOOP
+    INSERT INTO contributions (membership_id, period_number, amount, due_date, status)
+    VALUES (
+      (v_contribution->>'membership_id')::UUID,
+      (v_contribution->>'period_number')::INTEGER,
+      (v_contribution->>'amount')::NUMERIC,
+      (v_contribution->>'due_date')::TIMESTAMPTZ,
+      'pending'
+    )
+    ON CONFLICT (membership_id, period_number) WHERE period_number IS NOT NULL
+    DO UPDATE SET
+      amount = EXCLUDED.amount,
+      due_date = EXCLUDED.due_date
+    WHERE contributions.status = 'pending';
+  END LOOP;
+
+  DELETE FROM payouts
+  WHERE thrift_system_id = p_thrift_system_id
+    AND status = 'pending'
+    AND position > v_positions;
+
+  DELETE FROM contributions
+  WHERE status = 'pending'
+    AND period_number > v_positions
+    AND membership_id IN (
+      SELECT id FROM memberships WHERE thrift_system_id = p_thrift_system_id
+    );
+
+  UPDATE thrift_systems
+  SET status = 'active', updated_at = NOW()
+  WHERE id = p_thrift_system_id;
+
+  RETURN v_positions;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
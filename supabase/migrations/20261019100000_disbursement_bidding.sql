@@ -0,0 +1,111 @@
+-- Sealed-bid resolution for disbursement positions
+ALTER TABLE public.thrift_systems ADD COLUMN IF NOT EXISTS bidding_closed_at TIMESTAMPTZ;
+ALTER TABLE public.disbursement_preferences ADD COLUMN IF NOT EXISTS bid_premium NUMERIC NOT NULL DEFAULT 0;
+ALTER TABLE public.payouts ADD COLUMN IF NOT EXISTS bid_premium NUMERIC NOT NULL DEFAULT 0;
+
+-- Stores the outcome computed by resolveBids (src/lib/bid-resolution.ts)
+-- and closes the bidding window.
+CREATE OR REPLACE FUNCTION public.close_disbursement_bidding(
+  p_thrift_system_id UUID,
+  p_assignments JSONB
+) RETURNS VOID AS $$
+DECLARE
+  v_assignment JSONB;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = p_thrift_system_id AND admin_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the thrift system admin can close bidding';
+  END IF;
+
+  FOR v_assignment IN SELECT * FROM jsonb_array_elements(p_assignments) LOOP
+    UPDATE disbursement_preferences
+    SET
+      actual_position = (v_assignment->>'actual_position')::INTEGER,
+      status = v_assignment->>'status',
+      bid_premium = (v_assignment->>'premium')::NUMERIC
+    WHERE id = (v_assignment->>'preference_id')::UUID
+      AND thrift_system_id = p_thrift_system_id;
+  END LOOP;
+
+  UPDATE thrift_systems
+  SET bidding_closed_at = NOW(), updated_at = NOW()
+  WHERE id = p_thrift_system_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Winning bids are deducted from the winner's payout
+CREATE OR REPLACE FUNCTION public.apply_rotation_schedule(
+  p_thrift_system_id UUID,
+  p_schedule JSONB
+) RETURNS INTEGER AS $$
+DECLARE
+  v_payout JSONB;
+  v_contribution JSONB;
+  v_positions INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = p_thrift_system_id AND admin_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the thrift system admin can generate its schedule';
+  END IF;
+
+  v_positions := jsonb_array_length(p_schedule->'payouts');
+
+  FOR v_payout IN SELECT * FROM jsonb_array_elements(p_schedule->'payouts') LOOP
+    INSERT INTO payouts (thrift_system_id, member_id, position, amount, bid_premium, scheduled_date, status)
+    VALUES (
+      p_thrift_system_id,
+      (v_payout->>'member_id')::UUID,
+      (v_payout->>'position')::INTEGER,
+      (v_payout->>'amount')::NUMERIC,
+      COALESCE((v_payout->>'bid_premium')::NUMERIC, 0),
+      (v_payout->>'scheduled_date')::TIMESTAMPTZ,
+      'pending'
+    )
+    ON CONFLICT (thrift_system_id, position) WHERE position IS NOT NULL
+    DO UPDATE SET
+      member_id = EXCLUDED.member_id,
+      amount = EXCLUDED.amount,
+      bid_premium = EXCLUDED.bid_premium,
+      scheduled_date = EXCLUDED.scheduled_date
+    WHERE payouts.status = 'pending';
+  END LOOP;
+
+  FOR v_contribution IN SELECT * FROM jsonb_array_elements(p_schedule->'contributions') LOOP
+    INSERT INTO contributions (membership_id, period_number, amount, due_date, status)
+    VALUES (
+      (v_contribution->>'membership_id')::UUID,
+      (v_contribution->>'period_number')::INTEGER,
+      (v_contribution->>'amount')::NUMERIC,
+      (v_contribution->>'due_date')::TIMESTAMPTZ,
+      'pending'
+    )
+    ON CONFLICT (membership_id, period_number) WHERE period_number IS NOT NULL
+    DO UPDATE SET
+      amount = EXCLUDED.amount,
+      due_date = EXCLUDED.due_date
+    WHERE contributions.status = 'pending';
+  END LOOP;
+
+  DELETE FROM payouts
+  WHERE thrift_system_id = p_thrift_system_id
+    AND status = 'pending'
+    AND position > v_positions;
+
+  DELETE FROM contributions
+  WHERE status = 'pending'
+    AND period_number > v_positions
+    AND membership_id IN (
+      SELECT id FROM memberships WHERE thrift_system_id = p_thrift_system_id
+    );
+
+  UPDATE thrift_systems
+  SET status = 'active', updated_at = NOW()
+  WHERE id = p_thrift_system_id;
+
+  RETURN v_positions;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
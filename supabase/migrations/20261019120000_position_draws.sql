@@ -0,0 +1,141 @@
+-- Verifiable random draw for assigning payout positions
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+ALTER TABLE public.thrift_systems
+  ADD COLUMN IF NOT EXISTS position_assignment_mode TEXT NOT NULL DEFAULT 'bidding'
+  CHECK (position_assignment_mode IN ('bidding', 'draw'));
+
+CREATE TABLE IF NOT EXISTS public.position_draws (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thrift_system_id UUID NOT NULL REFERENCES public.thrift_systems(id) ON DELETE CASCADE,
+  seed_hash TEXT NOT NULL,
+  participants JSONB NOT NULL,
+  seed TEXT,
+  result JSONB,
+  committed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  revealed_at TIMESTAMPTZ,
+  created_by UUID REFERENCES public.profiles(id)
+);
+
+CREATE INDEX IF NOT EXISTS position_draws_thrift_system_id_idx
+  ON public.position_draws (thrift_system_id, committed_at DESC);
+
+ALTER TABLE public.position_draws ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members and admins can audit draws"
+ON public.position_draws FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE thrift_systems.id = position_draws.thrift_system_id
+      AND thrift_systems.admin_id = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM memberships
+    WHERE memberships.thrift_system_id = position_draws.thrift_system_id
+      AND memberships.user_id = auth.uid()
+  )
+);
+
+-- Commits to sha256(seed) and snapshots the active members taking part.
+CREATE OR REPLACE FUNCTION public.commit_position_draw(
+  p_thrift_system_id UUID,
+  p_seed_hash TEXT
+) RETURNS UUID AS $$
+DECLARE
+  v_draw_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = p_thrift_system_id AND admin_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the thrift system admin can run a draw';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM position_draws
+    WHERE thrift_system_id = p_thrift_system_id AND revealed_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'A committed draw is waiting to be revealed';
+  END IF;
+
+  INSERT INTO position_draws (thrift_system_id, seed_hash, participants, created_by)
+  SELECT
+    p_thrift_system_id,
+    lower(p_seed_hash),
+    COALESCE(jsonb_agg(user_id::TEXT ORDER BY user_id::TEXT), '[]'::JSONB),
+    auth.uid()
+  FROM memberships
+  WHERE thrift_system_id = p_thrift_system_id AND status = 'active'
+  RETURNING id INTO v_draw_id;
+
+  RETURN v_draw_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Reveals the seed, checks it against the commitment and derives the order:
+-- participants sorted by sha256(seed || ':' || user_id), compared bytewise.
+-- The same computation runs in the browser (src/lib/position-draw.ts).
+CREATE OR REPLACE FUNCTION public.reveal_position_draw(
+  p_draw_id UUID,
+  p_seed TEXT
+) RETURNS JSONB AS $$
+DECLARE
+  v_draw position_draws;
+  v_result JSONB;
+BEGIN
+  SELECT * INTO v_draw FROM position_draws WHERE id = p_draw_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Draw % not found', p_draw_id;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = v_draw.thrift_system_id AND admin_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the thrift system admin can reveal a draw';
+  END IF;
+
+  IF v_draw.revealed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This draw has already been revealed';
+  END IF;
+
+  IF encode(extensions.digest(p_seed, 'sha256'), 'hex') <> v_draw.seed_hash THEN
+    RAISE EXCEPTION 'Seed does not match the committed hash';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(participant ORDER BY encode(extensions.digest(p_seed || ':' || participant, 'sha256'), 'hex') COLLATE "C"), '[]'::JSONB)
+  INTO v_result
+  FROM jsonb_array_elements_text(v_draw.participants) AS participant;
+
+  UPDATE position_draws
+  SET seed = p_seed, result = v_result, revealed_at = NOW()
+  WHERE id = p_draw_id;
+
+  -- Record the drawn positions the same way resolved bids are recorded
+  UPDATE disbursement_preferences dp
+  SET
+    preferred_position = drawn.position,
+    actual_position = drawn.position,
+    bid_amount = 0,
+    bid_premium = 0,
+    status = 'drawn'
+  FROM jsonb_array_elements_text(v_result) WITH ORDINALITY AS drawn(member_id, position)
+  WHERE dp.thrift_system_id = v_draw.thrift_system_id
+    AND dp.member_id = drawn.member_id::UUID;
+
+  INSERT INTO disbursement_preferences (
+    thrift_system_id, member_id, preferred_position, actual_position, bid_amount, status
+  )
+  SELECT v_draw.thrift_system_id, drawn.member_id::UUID, drawn.position, drawn.position, 0, 'drawn'
+  FROM jsonb_array_elements_text(v_result) WITH ORDINALITY AS drawn(member_id, position)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM disbursement_preferences dp
+    WHERE dp.thrift_system_id = v_draw.thrift_system_id
+      AND dp.member_id = drawn.member_id::UUID
+  );
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
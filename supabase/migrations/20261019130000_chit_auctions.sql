@@ -0,0 +1,415 @@
+-- Chit-fund mode: each period's pot is auctioned among members not yet paid
+ALTER TABLE public.thrift_systems
+  ADD COLUMN IF NOT EXISTS payout_schedule_mode TEXT NOT NULL DEFAULT 'rotation'
+  CHECK (payout_schedule_mode IN ('rotation', 'auction'));
+
+-- Share of each pot kept by the organizer, taken out of the discount
+ALTER TABLE public.thrift_systems
+  ADD COLUMN IF NOT EXISTS organizer_commission_percent NUMERIC NOT NULL DEFAULT 0
+  CHECK (organizer_commission_percent >= 0 AND organizer_commission_percent < 100);
+
+-- Largest discount a winning bid may give up, as a share of the pot
+ALTER TABLE public.thrift_systems
+  ADD COLUMN IF NOT EXISTS auction_max_discount_percent NUMERIC NOT NULL DEFAULT 40
+  CHECK (auction_max_discount_percent > 0 AND auction_max_discount_percent <= 100);
+
+CREATE TABLE IF NOT EXISTS public.auction_rounds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thrift_system_id UUID NOT NULL REFERENCES public.thrift_systems(id) ON DELETE CASCADE,
+  period_number INTEGER NOT NULL,
+  pot_amount NUMERIC NOT NULL,
+  commission_amount NUMERIC NOT NULL DEFAULT 0,
+  min_take NUMERIC NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  winner_id UUID REFERENCES public.profiles(id),
+  winning_take NUMERIC,
+  dividend_amount NUMERIC,
+  payout_id UUID REFERENCES public.payouts(id),
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  closed_at TIMESTAMPTZ,
+  UNIQUE (thrift_system_id, period_number)
+);
+
+CREATE TABLE IF NOT EXISTS public.auction_bids (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  round_id UUID NOT NULL REFERENCES public.auction_rounds(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES public.profiles(id),
+  take_amount NUMERIC NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS auction_bids_round_id_idx
+  ON public.auction_bids (round_id, take_amount, created_at);
+
+CREATE TABLE IF NOT EXISTS public.dividend_credits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thrift_system_id UUID NOT NULL REFERENCES public.thrift_systems(id) ON DELETE CASCADE,
+  round_id UUID NOT NULL REFERENCES public.auction_rounds(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES public.profiles(id),
+  amount NUMERIC NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (round_id, member_id)
+);
+
+ALTER TABLE public.auction_rounds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.auction_bids ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.dividend_credits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members and admins can view auction rounds"
+ON public.auction_rounds FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE thrift_systems.id = auction_rounds.thrift_system_id
+      AND thrift_systems.admin_id = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM memberships
+    WHERE memberships.thrift_system_id = auction_rounds.thrift_system_id
+      AND memberships.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Members and admins can view auction bids"
+ON public.auction_bids FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM auction_rounds
+    JOIN thrift_systems ON thrift_systems.id = auction_rounds.thrift_system_id
+    WHERE auction_rounds.id = auction_bids.round_id
+      AND thrift_systems.admin_id = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM auction_rounds
+    JOIN memberships ON memberships.thrift_system_id = auction_rounds.thrift_system_id
+    WHERE auction_rounds.id = auction_bids.round_id
+      AND memberships.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Members and admins can view dividend credits"
+ON public.dividend_credits FOR SELECT
+USING (
+  member_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE thrift_systems.id = dividend_credits.thrift_system_id
+      AND thrift_systems.admin_id = auth.uid()
+  )
+);
+
+-- Auction rooms follow rounds and bids live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.auction_rounds, public.auction_bids;
+
+-- Opens the next round. The pot is every active member's contribution.
+CREATE OR REPLACE FUNCTION public.open_auction_round(
+  p_thrift_system_id UUID
+) RETURNS UUID AS $$
+DECLARE
+  v_system thrift_systems;
+  v_pot NUMERIC;
+  v_round_id UUID;
+BEGIN
+  SELECT * INTO v_system FROM thrift_systems
+  WHERE id = p_thrift_system_id AND admin_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the thrift system admin can open an auction round';
+  END IF;
+
+  IF v_system.payout_schedule_mode <> 'auction' THEN
+    RAISE EXCEPTION 'This thrift system does not pay out by auction';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM auction_rounds
+    WHERE thrift_system_id = p_thrift_system_id AND status = 'open'
+  ) THEN
+    RAISE EXCEPTION 'An auction round is already open';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM memberships m
+    WHERE m.thrift_system_id = p_thrift_system_id
+      AND m.status = 'active'
+      AND NOT EXISTS (
+        SELECT 1 FROM payouts p
+        WHERE p.thrift_system_id = p_thrift_system_id AND p.member_id = m.user_id
+      )
+  ) THEN
+    RAISE EXCEPTION 'Every member has already been paid this cycle';
+  END IF;
+
+  SELECT v_system.contribution_amount * COUNT(*) INTO v_pot
+  FROM memberships
+  WHERE thrift_system_id = p_thrift_system_id AND status = 'active';
+
+  INSERT INTO auction_rounds (thrift_system_id, period_number, pot_amount, commission_amount, min_take)
+  SELECT
+    p_thrift_system_id,
+    COALESCE(MAX(period_number), 0) + 1,
+    v_pot,
+    round(v_pot * v_system.organizer_commission_percent / 100, 2),
+    round(v_pot * (100 - v_system.auction_max_discount_percent) / 100, 2)
+  FROM auction_rounds
+  WHERE thrift_system_id = p_thrift_system_id
+  RETURNING id INTO v_round_id;
+
+  RETURN v_round_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Records a bid. Each bid must undercut the lowest take so far.
+CREATE OR REPLACE FUNCTION public.place_auction_bid(
+  p_round_id UUID,
+  p_take_amount NUMERIC
+) RETURNS UUID AS $$
+DECLARE
+  v_round auction_rounds;
+  v_lowest NUMERIC;
+  v_bid_id UUID;
+BEGIN
+  SELECT * INTO v_round FROM auction_rounds WHERE id = p_round_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Auction round % not found', p_round_id;
+  END IF;
+
+  IF v_round.status <> 'open' THEN
+    RAISE EXCEPTION 'This auction round is closed';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM memberships
+    WHERE thrift_system_id = v_round.thrift_system_id
+      AND user_id = auth.uid()
+      AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'Only active members can bid';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM payouts
+    WHERE thrift_system_id = v_round.thrift_system_id AND member_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You have already received a payout this cycle';
+  END IF;
+
+  IF p_take_amount > v_round.pot_amount - v_round.commission_amount THEN
+    RAISE EXCEPTION 'Bids cannot exceed %', v_round.pot_amount - v_round.commission_amount;
+  END IF;
+
+  IF p_take_amount < v_round.min_take THEN
+    RAISE EXCEPTION 'Bids cannot be lower than %', v_round.min_take;
+  END IF;
+
+  SELECT MIN(take_amount) INTO v_lowest FROM auction_bids WHERE round_id = p_round_id;
+
+  IF v_lowest IS NOT NULL AND p_take_amount >= v_lowest THEN
+    RAISE EXCEPTION 'Bid must be lower than the current lowest take of %', v_lowest;
+  END IF;
+
+  INSERT INTO auction_bids (round_id, member_id, take_amount)
+  VALUES (p_round_id, auth.uid(), p_take_amount)
+  RETURNING id INTO v_bid_id;
+
+  RETURN v_bid_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Closes a round: the lowest take wins and is paid out; the discount, less
+-- the organizer's commission, is credited evenly to every other member.
+-- When a single unpaid member is left they take the pot without bidding.
+CREATE OR REPLACE FUNCTION public.close_auction_round(
+  p_round_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+  v_round auction_rounds;
+  v_winner UUID;
+  v_take NUMERIC;
+  v_unpaid INTEGER;
+  v_recipients INTEGER;
+  v_dividend_kobo BIGINT;
+  v_payout_id UUID;
+BEGIN
+  SELECT * INTO v_round FROM auction_rounds WHERE id = p_round_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Auction round % not found', p_round_id;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = v_round.thrift_system_id AND admin_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the thrift system admin can close an auction round';
+  END IF;
+
+  IF v_round.status <> 'open' THEN
+    RAISE EXCEPTION 'This auction round is already closed';
+  END IF;
+
+  SELECT member_id, take_amount INTO v_winner, v_take
+  FROM auction_bids
+  WHERE round_id = p_round_id
+  ORDER BY take_amount, created_at, id
+  LIMIT 1;
+
+  IF v_winner IS NULL THEN
+    SELECT COUNT(DISTINCT m.user_id), MIN(m.user_id::TEXT)::UUID INTO v_unpaid, v_winner
+    FROM memberships m
+    WHERE m.thrift_system_id = v_round.thrift_system_id
+      AND m.status = 'active'
+      AND NOT EXISTS (
+        SELECT 1 FROM payouts p
+        WHERE p.thrift_system_id = v_round.thrift_system_id AND p.member_id = m.user_id
+      );
+
+    IF v_unpaid <> 1 THEN
+      RAISE EXCEPTION 'No bids have been placed in this round';
+    END IF;
+
+    v_take := v_round.pot_amount - v_round.commission_amount;
+  END IF;
+
+  INSERT INTO payouts (thrift_system_id, member_id, position, amount, bid_premium, scheduled_date, status)
+  VALUES (
+    v_round.thrift_system_id,
+    v_winner,
+    v_round.period_number,
+    v_take,
+    v_round.pot_amount - v_take,
+    NOW(),
+    'pending'
+  )
+  RETURNING id INTO v_payout_id;
+
+  SELECT COUNT(DISTINCT user_id) INTO v_recipients
+  FROM memberships
+  WHERE thrift_system_id = v_round.thrift_system_id
+    AND status = 'active'
+    AND user_id <> v_winner;
+
+  v_dividend_kobo := round((v_round.pot_amount - v_take - v_round.commission_amount) * 100);
+
+  -- Split in kobo; leftover kobo go to the first members by id
+  IF v_recipients > 0 AND v_dividend_kobo > 0 THEN
+    INSERT INTO dividend_credits (thrift_system_id, round_id, member_id, amount)
+    SELECT
+      v_round.thrift_system_id,
+      p_round_id,
+      recipient.user_id,
+      (v_dividend_kobo / v_recipients
+        + CASE WHEN recipient.rank <= v_dividend_kobo % v_recipients THEN 1 ELSE 0 END) / 100.0
+    FROM (
+      SELECT user_id, ROW_NUMBER() OVER (ORDER BY user_id) AS rank
+      FROM memberships
+      WHERE thrift_system_id = v_round.thrift_system_id
+        AND status = 'active'
+        AND user_id <> v_winner
+      GROUP BY user_id
+    ) AS recipient;
+  END IF;
+
+  UPDATE auction_rounds
+  SET
+    status = 'closed',
+    winner_id = v_winner,
+    winning_take = v_take,
+    dividend_amount = CASE
+      WHEN v_recipients > 0 THEN floor(v_dividend_kobo / v_recipients) / 100.0
+      ELSE 0
+    END,
+    payout_id = v_payout_id,
+    closed_at = NOW()
+  WHERE id = p_round_id;
+
+  RETURN jsonb_build_object(
+    'winner_id', v_winner,
+    'winning_take', v_take,
+    'payout_id', v_payout_id,
+    'dividend_recipients', v_recipients
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Auction-mode schedules carry contributions only; `periods` says how many
+-- positions the cycle has so pending rows beyond it are still cleaned up.
+CREATE OR REPLACE FUNCTION public.apply_rotation_schedule(
+  p_thrift_system_id UUID,
+  p_schedule JSONB
+) RETURNS INTEGER AS $$
+DECLARE
+  v_payout JSONB;
+  v_contribution JSONB;
+  v_positions INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = p_thrift_system_id AND admin_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the thrift system admin can generate its schedule';
+  END IF;
+
+  v_positions := COALESCE(
+    (p_schedule->>'periods')::INTEGER,
+    jsonb_array_length(p_schedule->'payouts')
+  );
+
+  FOR v_payout IN SELECT * FROM jsonb_array_elements(p_schedule->'payouts') LOOP
+    INSERT INTO payouts (thrift_system_id, member_id, position, amount, bid_premium, premium_share, scheduled_date, status)
+    VALUES (
+      p_thrift_system_id,
+      (v_payout->>'member_id')::UUID,
+      (v_payout->>'position')::INTEGER,
+      (v_payout->>'amount')::NUMERIC,
+      COALESCE((v_payout->>'bid_premium')::NUMERIC, 0),
+      COALESCE((v_payout->>'premium_share')::NUMERIC, 0),
+      (v_payout->>'scheduled_date')::TIMESTAMPTZ,
+      'pending'
+    )
+    ON CONFLICT (thrift_system_id, position) WHERE position IS NOT NULL
+    DO UPDATE SET
+      member_id = EXCLUDED.member_id,
+      amount = EXCLUDED.amount,
+      bid_premium = EXCLUDED.bid_premium,
+      premium_share = EXCLUDED.premium_share,
+      scheduled_date = EXCLUDED.scheduled_date
+    WHERE payouts.status = 'pending';
+  END LOOP;
+
+  FOR v_contribution IN SELECT * FROM jsonb_array_elements(p_schedule->'contributions') LOOP
+    INSERT INTO contributions (membership_id, period_number, amount, due_date, status)
+    VALUES (
+      (v_contribution->>'membership_id')::UUID,
+      (v_contribution->>'period_number')::INTEGER,
+      (v_contribution->>'amount')::NUMERIC,
+      (v_contribution->>'due_date')::TIMESTAMPTZ,
+      'pending'
+    )
+    ON CONFLICT (membership_id, period_number) WHERE period_number IS NOT NULL
+    DO UPDATE SET
+      amount = EXCLUDED.amount,
+      due_date = EXCLUDED.due_date
+    WHERE contributions.status = 'pending';
+  END LOOP;
+
+  DELETE FROM payouts
+  WHERE thrift_system_id = p_thrift_system_id
+    AND status = 'pending'
+    AND position > v_positions;
+
+  DELETE FROM contributions
+  WHERE status = 'pending'
+    AND period_number > v_positions
+    AND membership_id IN (
+      SELECT id FROM memberships WHERE thrift_system_id = p_thrift_system_id
+    );
+
+  UPDATE thrift_systems
+  SET status = 'active', updated_at = NOW()
+  WHERE id = p_thrift_system_id;
+
+  RETURN v_positions;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
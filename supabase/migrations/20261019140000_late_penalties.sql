@@ -0,0 +1,131 @@
+-- Per-thrift rules for contributions paid after their due date
+ALTER TABLE public.thrift_systems
+  ADD COLUMN IF NOT EXISTS late_grace_days INTEGER NOT NULL DEFAULT 0
+  CHECK (late_grace_days >= 0);
+
+ALTER TABLE public.thrift_systems
+  ADD COLUMN IF NOT EXISTS late_fee_type TEXT NOT NULL DEFAULT 'none'
+  CHECK (late_fee_type IN ('none', 'flat', 'percentage'));
+
+-- Naira per day for flat fees, percent of the contribution per day otherwise
+ALTER TABLE public.thrift_systems
+  ADD COLUMN IF NOT EXISTS late_fee_amount NUMERIC NOT NULL DEFAULT 0
+  CHECK (late_fee_amount >= 0);
+
+-- Most a single contribution can accrue in penalties; NULL means no cap
+ALTER TABLE public.thrift_systems
+  ADD COLUMN IF NOT EXISTS late_fee_cap NUMERIC
+  CHECK (late_fee_cap IS NULL OR late_fee_cap >= 0);
+
+-- One line per contribution per day of accrued penalty
+CREATE TABLE IF NOT EXISTS public.contribution_penalties (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contribution_id UUID NOT NULL REFERENCES public.contributions(id) ON DELETE CASCADE,
+  penalty_date DATE NOT NULL,
+  amount NUMERIC NOT NULL,
+  reason TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (contribution_id, penalty_date)
+);
+
+ALTER TABLE public.contribution_penalties ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members and admins can view contribution penalties"
+ON public.contribution_penalties FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM contributions
+    JOIN memberships ON memberships.id = contributions.membership_id
+    WHERE contributions.id = contribution_penalties.contribution_id
+      AND memberships.user_id = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM contributions
+    JOIN memberships ON memberships.id = contributions.membership_id
+    JOIN thrift_systems ON thrift_systems.id = memberships.thrift_system_id
+    WHERE contributions.id = contribution_penalties.contribution_id
+      AND thrift_systems.admin_id = auth.uid()
+  )
+);
+
+-- Marks contributions past their grace period as overdue and accrues a
+-- penalty line for every overdue day not yet charged, up to the cap.
+-- Safe to run more than once a day; missed days are caught up.
+CREATE OR REPLACE FUNCTION public.apply_late_penalties() RETURNS INTEGER AS $$
+DECLARE
+  v_contribution RECORD;
+  v_day DATE;
+  v_daily NUMERIC;
+  v_accrued NUMERIC;
+  v_charge NUMERIC;
+  v_lines INTEGER := 0;
+BEGIN
+  UPDATE contributions c
+  SET status = 'overdue'
+  FROM memberships m
+  JOIN thrift_systems t ON t.id = m.thrift_system_id
+  WHERE m.id = c.membership_id
+    AND c.status = 'pending'
+    AND c.due_date::DATE + t.late_grace_days < CURRENT_DATE;
+
+  FOR v_contribution IN
+    SELECT c.id, c.amount, c.due_date::DATE + t.late_grace_days + 1 AS first_day,
+      t.late_fee_type, t.late_fee_amount, t.late_fee_cap
+    FROM contributions c
+    JOIN memberships m ON m.id = c.membership_id
+    JOIN thrift_systems t ON t.id = m.thrift_system_id
+    WHERE c.status = 'overdue'
+      AND t.late_fee_type <> 'none'
+      AND t.late_fee_amount > 0
+  LOOP
+    v_daily := CASE v_contribution.late_fee_type
+      WHEN 'flat' THEN v_contribution.late_fee_amount
+      ELSE round(v_contribution.amount * v_contribution.late_fee_amount / 100, 2)
+    END;
+
+    SELECT COALESCE(SUM(amount), 0) INTO v_accrued
+    FROM contribution_penalties
+    WHERE contribution_id = v_contribution.id;
+
+    FOR v_day IN
+      SELECT d::DATE FROM generate_series(v_contribution.first_day, CURRENT_DATE, INTERVAL '1 day') AS d
+    LOOP
+      EXIT WHEN v_contribution.late_fee_cap IS NOT NULL AND v_accrued >= v_contribution.late_fee_cap;
+
+      v_charge := CASE
+        WHEN v_contribution.late_fee_cap IS NULL THEN v_daily
+        ELSE LEAST(v_daily, v_contribution.late_fee_cap - v_accrued)
+      END;
+
+      INSERT INTO contribution_penalties (contribution_id, penalty_date, amount, reason)
+      VALUES (
+        v_contribution.id,
+        v_day,
+        v_charge,
+        CASE v_contribution.late_fee_type
+          WHEN 'flat' THEN 'Late fee of ' || v_contribution.late_fee_amount || ' per day'
+          ELSE 'Late fee of ' || v_contribution.late_fee_amount || '% per day'
+        END
+      )
+      ON CONFLICT (contribution_id, penalty_date) DO NOTHING;
+
+      IF FOUND THEN
+        v_accrued := v_accrued + v_charge;
+        v_lines := v_lines + 1;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_lines;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.apply_late_penalties() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'apply-late-penalties',
+  '15 0 * * *',
+  $$SELECT public.apply_late_penalties()$$
+);
@@ -0,0 +1,217 @@
+-- Money received from members, allocated against contributions
+CREATE TABLE IF NOT EXISTS public.contribution_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  membership_id UUID NOT NULL REFERENCES public.memberships(id) ON DELETE CASCADE,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  reference TEXT,
+  paid_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  recorded_by UUID REFERENCES public.profiles(id)
+);
+
+-- How each payment was applied: penalties first, then the contribution itself
+CREATE TABLE IF NOT EXISTS public.payment_allocations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id UUID NOT NULL REFERENCES public.contribution_payments(id) ON DELETE CASCADE,
+  contribution_id UUID NOT NULL REFERENCES public.contributions(id) ON DELETE CASCADE,
+  allocation_type TEXT NOT NULL CHECK (allocation_type IN ('principal', 'penalty')),
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS payment_allocations_contribution_id_idx
+  ON public.payment_allocations (contribution_id);
+
+ALTER TABLE public.contribution_payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members and admins can view contribution payments"
+ON public.contribution_payments FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM memberships
+    WHERE memberships.id = contribution_payments.membership_id
+      AND memberships.user_id = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM memberships
+    JOIN thrift_systems ON thrift_systems.id = memberships.thrift_system_id
+    WHERE memberships.id = contribution_payments.membership_id
+      AND thrift_systems.admin_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Members and admins can view payment allocations"
+ON public.payment_allocations FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM contributions
+    JOIN memberships ON memberships.id = contributions.membership_id
+    WHERE contributions.id = payment_allocations.contribution_id
+      AND memberships.user_id = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM contributions
+    JOIN memberships ON memberships.id = contributions.membership_id
+    JOIN thrift_systems ON thrift_systems.id = memberships.thrift_system_id
+    WHERE contributions.id = payment_allocations.contribution_id
+      AND thrift_systems.admin_id = auth.uid()
+  )
+);
+
+-- Records a payment against one contribution. Accrued penalties are settled
+-- before the contribution itself; the row becomes `partially_paid` until
+-- nothing is left owing, then `completed`.
+CREATE OR REPLACE FUNCTION public.record_contribution_payment(
+  p_contribution_id UUID,
+  p_amount NUMERIC,
+  p_reference TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+  v_contribution contributions;
+  v_membership memberships;
+  v_penalties_owed NUMERIC;
+  v_principal_owed NUMERIC;
+  v_to_penalties NUMERIC;
+  v_to_principal NUMERIC;
+  v_remaining NUMERIC;
+  v_status TEXT;
+  v_payment_id UUID;
+BEGIN
+  SELECT * INTO v_contribution FROM contributions WHERE id = p_contribution_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contribution % not found', p_contribution_id;
+  END IF;
+
+  SELECT * INTO v_membership FROM memberships WHERE id = v_contribution.membership_id;
+
+  IF v_membership.user_id <> auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = v_membership.thrift_system_id AND admin_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the member or the thrift system admin can record this payment';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero';
+  END IF;
+
+  SELECT
+    COALESCE((SELECT SUM(amount) FROM contribution_penalties WHERE contribution_id = p_contribution_id), 0)
+    - COALESCE((SELECT SUM(amount) FROM payment_allocations
+                WHERE contribution_id = p_contribution_id AND allocation_type = 'penalty'), 0),
+    v_contribution.amount
+    - COALESCE((SELECT SUM(amount) FROM payment_allocations
+                WHERE contribution_id = p_contribution_id AND allocation_type = 'principal'), 0)
+  INTO v_penalties_owed, v_principal_owed;
+
+  IF p_amount > v_penalties_owed + v_principal_owed THEN
+    RAISE EXCEPTION 'Payment of % is more than the % still owed', p_amount, v_penalties_owed + v_principal_owed;
+  END IF;
+
+  INSERT INTO contribution_payments (membership_id, amount, reference, recorded_by)
+  VALUES (v_contribution.membership_id, p_amount, p_reference, auth.uid())
+  RETURNING id INTO v_payment_id;
+
+  v_to_penalties := LEAST(p_amount, v_penalties_owed);
+  v_to_principal := p_amount - v_to_penalties;
+
+  IF v_to_penalties > 0 THEN
+    INSERT INTO payment_allocations (payment_id, contribution_id, allocation_type, amount)
+    VALUES (v_payment_id, p_contribution_id, 'penalty', v_to_penalties);
+  END IF;
+
+  IF v_to_principal > 0 THEN
+    INSERT INTO payment_allocations (payment_id, contribution_id, allocation_type, amount)
+    VALUES (v_payment_id, p_contribution_id, 'principal', v_to_principal);
+  END IF;
+
+  v_remaining := v_penalties_owed + v_principal_owed - p_amount;
+  v_status := CASE WHEN v_remaining = 0 THEN 'completed' ELSE 'partially_paid' END;
+
+  UPDATE contributions
+  SET
+    status = v_status,
+    paid_date = CASE WHEN v_remaining = 0 THEN NOW() ELSE paid_date END
+  WHERE id = p_contribution_id;
+
+  RETURN jsonb_build_object(
+    'payment_id', v_payment_id,
+    'status', v_status,
+    'remaining', v_remaining
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Partly paid contributions keep accruing penalties once past their grace period
+CREATE OR REPLACE FUNCTION public.apply_late_penalties() RETURNS INTEGER AS $$
+DECLARE
+  v_contribution RECORD;
+  v_day DATE;
+  v_daily NUMERIC;
+  v_accrued NUMERIC;
+  v_charge NUMERIC;
+  v_lines INTEGER := 0;
+BEGIN
+  UPDATE contributions c
+  SET status = 'overdue'
+  FROM memberships m
+  JOIN thrift_systems t ON t.id = m.thrift_system_id
+  WHERE m.id = c.membership_id
+    AND c.status = 'pending'
+    AND c.due_date::DATE + t.late_grace_days < CURRENT_DATE;
+
+  FOR v_contribution IN
+    SELECT c.id, c.amount, c.due_date::DATE + t.late_grace_days + 1 AS first_day,
+      t.late_fee_type, t.late_fee_amount, t.late_fee_cap
+    FROM contributions c
+    JOIN memberships m ON m.id = c.membership_id
+    JOIN thrift_systems t ON t.id = m.thrift_system_id
+    WHERE c.status IN ('overdue', 'partially_paid')
+      AND c.due_date::DATE + t.late_grace_days < CURRENT_DATE
+      AND t.late_fee_type <> 'none'
+      AND t.late_fee_amount > 0
+  LOOP
+    v_daily := CASE v_contribution.late_fee_type
+      WHEN 'flat' THEN v_contribution.late_fee_amount
+      ELSE round(v_contribution.amount * v_contribution.late_fee_amount / 100, 2)
+    END;
+
+    SELECT COALESCE(SUM(amount), 0) INTO v_accrued
+    FROM contribution_penalties
+    WHERE contribution_id = v_contribution.id;
+
+    FOR v_day IN
+      SELECT d::DATE FROM generate_series(v_contribution.first_day, CURRENT_DATE, INTERVAL '1 day') AS d
+    LOOP
+      EXIT WHEN v_contribution.late_fee_cap IS NOT NULL AND v_accrued >= v_contribution.late_fee_cap;
+
+      v_charge := CASE
+        WHEN v_contribution.late_fee_cap IS NULL THEN v_daily
+        ELSE LEAST(v_daily, v_contribution.late_fee_cap - v_accrued)
+      END;
+
+      INSERT INTO contribution_penalties (contribution_id, penalty_date, amount, reason)
+      VALUES (
+        v_contribution.id,
+        v_day,
+        v_charge,
+        CASE v_contribution.late_fee_type
+          WHEN 'flat' THEN 'Late fee of ' || v_contribution.late_fee_amount || ' per day'
+          ELSE 'Late fee of ' || v_contribution.late_fee_amount || '% per day'
+        END
+      )
+      ON CONFLICT (contribution_id, penalty_date) DO NOTHING;
+
+      IF FOUND THEN
+        v_accrued := v_accrued + v_charge;
+        v_lines := v_lines + 1;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_lines;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.apply_late_penalties() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,487 @@
+-- Multiple hands: a membership can hold several slots, each contributing
+-- every period and receiving its own payout
+ALTER TABLE public.memberships
+  ADD COLUMN IF NOT EXISTS slot_count INTEGER NOT NULL DEFAULT 1
+  CHECK (slot_count >= 1);
+
+ALTER TABLE public.contributions ADD COLUMN IF NOT EXISTS slot_number INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE public.payouts ADD COLUMN IF NOT EXISTS slot_number INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE public.disbursement_preferences ADD COLUMN IF NOT EXISTS slot_number INTEGER NOT NULL DEFAULT 1;
+
+DROP INDEX IF EXISTS public.contributions_membership_period_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS contributions_membership_slot_period_key
+  ON public.contributions (membership_id, slot_number, period_number)
+  WHERE period_number IS NOT NULL;
+
+-- `max_members` caps the slots held by active members, not the head count
+CREATE OR REPLACE FUNCTION public.enforce_thrift_slot_capacity() RETURNS TRIGGER AS $$
+DECLARE
+  v_max INTEGER;
+  v_taken INTEGER;
+BEGIN
+  IF NEW.status <> 'active' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT max_members INTO v_max FROM thrift_systems WHERE id = NEW.thrift_system_id;
+
+  SELECT COALESCE(SUM(slot_count), 0) INTO v_taken
+  FROM memberships
+  WHERE thrift_system_id = NEW.thrift_system_id
+    AND status = 'active'
+    AND id <> NEW.id;
+
+  IF v_taken + NEW.slot_count > v_max THEN
+    RAISE EXCEPTION 'This thrift system has % of % slots taken; % more will not fit',
+      v_taken, v_max, NEW.slot_count;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS memberships_slot_capacity ON public.memberships;
+
+CREATE TRIGGER memberships_slot_capacity
+BEFORE INSERT OR UPDATE OF status, slot_count ON public.memberships
+FOR EACH ROW EXECUTE FUNCTION public.enforce_thrift_slot_capacity();
+
+-- Payouts and contributions are written per slot
+CREATE OR REPLACE FUNCTION public.apply_rotation_schedule(
+  p_thrift_system_id UUID,
+  p_schedule JSONB
+) RETURNS INTEGER AS $$
+DECLARE
+  v_payout JSONB;
+  v_contribution JSONB;
+  v_positions INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = p_thrift_system_id AND admin_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the thrift system admin can generate its schedule';
+  END IF;
+
+  v_positions := COALESCE(
+    (p_schedule->>'periods')::INTEGER,
+    jsonb_array_length(p_schedule->'payouts')
+  );
+
+  FOR v_payout IN SELECT * FROM jsonb_array_elements(p_schedule->'payouts') LOOP
+    INSERT INTO payouts (thrift_system_id, member_id, slot_number, position, amount, bid_premium, premium_share, scheduled_date, status)
+    VALUES (
+      p_thrift_system_id,
+      (v_payout->>'member_id')::UUID,
+      COALESCE((v_payout->>'slot_number')::INTEGER, 1),
+      (v_payout->>'position')::INTEGER,
+      (v_payout->>'amount')::NUMERIC,
+      COALESCE((v_payout->>'bid_premium')::NUMERIC, 0),
+      COALESCE((v_payout->>'premium_share')::NUMERIC, 0),
+      (v_payout->>'scheduled_date')::TIMESTAMPTZ,
+      'pending'
+    )
+    ON CONFLICT (thrift_system_id, position) WHERE position IS NOT NULL
+    DO UPDATE SET
+      member_id = EXCLUDED.member_id,
+      slot_number = EXCLUDED.slot_number,
+      amount = EXCLUDED.amount,
+      bid_premium = EXCLUDED.bid_premium,
+      premium_share = EXCLUDED.premium_share,
+      scheduled_date = EXCLUDED.scheduled_date
+    WHERE payouts.status = 'pending';
+  END LOOP;
+
+  FOR v_contribution IN SELECT * FROM jsonb_array_elements(p_schedule->'contributions') LOOP
+    INSERT INTO contributions (membership_id, slot_number, period_number, amount, due_date, status)
+    VALUES (
+      (v_contribution->>'membership_id')::UUID,
+      COALESCE((v_contribution->>'slot_number')::INTEGER, 1),
+      (v_contribution->>'period_number')::INTEGER,
+      (v_contribution->>'amount')::NUMERIC,
+      (v_contribution->>'due_date')::TIMESTAMPTZ,
+      'pending'
+    )
+    ON CONFLICT (membership_id, slot_number, period_number) WHERE period_number IS NOT NULL
+    DO UPDATE SET
+      amount = EXCLUDED.amount,
+      due_date = EXCLUDED.due_date
+    WHERE contributions.status = 'pending';
+  END LOOP;
+
+  DELETE FROM payouts
+  WHERE thrift_system_id = p_thrift_system_id
+    AND status = 'pending'
+    AND position > v_positions;
+
+  DELETE FROM contributions c
+  USING memberships m
+  WHERE m.id = c.membership_id
+    AND m.thrift_system_id = p_thrift_system_id
+    AND c.status = 'pending'
+    AND (c.period_number > v_positions OR c.slot_number > m.slot_count);
+
+  UPDATE thrift_systems
+  SET status = 'active', updated_at = NOW()
+  WHERE id = p_thrift_system_id;
+
+  RETURN v_positions;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Draw participants are slots, written `<user_id>:<slot_number>`
+CREATE OR REPLACE FUNCTION public.commit_position_draw(
+  p_thrift_system_id UUID,
+  p_seed_hash TEXT
+) RETURNS UUID AS $$
+DECLARE
+  v_draw_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = p_thrift_system_id AND admin_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the thrift system admin can run a draw';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM position_draws
+    WHERE thrift_system_id = p_thrift_system_id AND revealed_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'A committed draw is waiting to be revealed';
+  END IF;
+
+  INSERT INTO position_draws (thrift_system_id, seed_hash, participants, created_by)
+  SELECT
+    p_thrift_system_id,
+    lower(p_seed_hash),
+    COALESCE(jsonb_agg(m.user_id::TEXT || ':' || slot ORDER BY m.user_id::TEXT, slot), '[]'::JSONB),
+    auth.uid()
+  FROM memberships m
+  CROSS JOIN LATERAL generate_series(1, m.slot_count) AS slot
+  WHERE m.thrift_system_id = p_thrift_system_id AND m.status = 'active'
+  RETURNING id INTO v_draw_id;
+
+  RETURN v_draw_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Draws committed before slots existed list bare user ids; those are slot 1
+CREATE OR REPLACE FUNCTION public.reveal_position_draw(
+  p_draw_id UUID,
+  p_seed TEXT
+) RETURNS JSONB AS $$
+DECLARE
+  v_draw position_draws;
+  v_result JSONB;
+BEGIN
+  SELECT * INTO v_draw FROM position_draws WHERE id = p_draw_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Draw % not found', p_draw_id;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = v_draw.thrift_system_id AND admin_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the thrift system admin can reveal a draw';
+  END IF;
+
+  IF v_draw.revealed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This draw has already been revealed';
+  END IF;
+
+  IF encode(extensions.digest(p_seed, 'sha256'), 'hex') <> v_draw.seed_hash THEN
+    RAISE EXCEPTION 'Seed does not match the committed hash';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(participant ORDER BY encode(extensions.digest(p_seed || ':' || participant, 'sha256'), 'hex') COLLATE "C"), '[]'::JSONB)
+  INTO v_result
+  FROM jsonb_array_elements_text(v_draw.participants) AS participant;
+
+  UPDATE position_draws
+  SET seed = p_seed, result = v_result, revealed_at = NOW()
+  WHERE id = p_draw_id;
+
+  -- Record the drawn positions the same way resolved bids are recorded
+  UPDATE disbursement_preferences dp
+  SET
+    preferred_position = drawn.position,
+    actual_position = drawn.position,
+    bid_amount = 0,
+    bid_premium = 0,
+    status = 'drawn'
+  FROM (
+    SELECT
+      split_part(participant, ':', 1)::UUID AS member_id,
+      COALESCE(NULLIF(split_part(participant, ':', 2), ''), '1')::INTEGER AS slot_number,
+      position::INTEGER AS position
+    FROM jsonb_array_elements_text(v_result) WITH ORDINALITY AS drawn(participant, position)
+  ) AS drawn
+  WHERE dp.thrift_system_id = v_draw.thrift_system_id
+    AND dp.member_id = drawn.member_id
+    AND dp.slot_number = drawn.slot_number;
+
+  INSERT INTO disbursement_preferences (
+    thrift_system_id, member_id, slot_number, preferred_position, actual_position, bid_amount, status
+  )
+  SELECT v_draw.thrift_system_id, drawn.member_id, drawn.slot_number, drawn.position, drawn.position, 0, 'drawn'
+  FROM (
+    SELECT
+      split_part(participant, ':', 1)::UUID AS member_id,
+      COALESCE(NULLIF(split_part(participant, ':', 2), ''), '1')::INTEGER AS slot_number,
+      position::INTEGER AS position
+    FROM jsonb_array_elements_text(v_result) WITH ORDINALITY AS drawn(participant, position)
+  ) AS drawn
+  WHERE NOT EXISTS (
+    SELECT 1 FROM disbursement_preferences dp
+    WHERE dp.thrift_system_id = v_draw.thrift_system_id
+      AND dp.member_id = drawn.member_id
+      AND dp.slot_number = drawn.slot_number
+  );
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Every slot contributes to the pot, and a member can win once per slot
+CREATE OR REPLACE FUNCTION public.open_auction_round(
+  p_thrift_system_id UUID
+) RETURNS UUID AS $$
+DECLARE
+  v_system thrift_systems;
+  v_pot NUMERIC;
+  v_round_id UUID;
+BEGIN
+  SELECT * INTO v_system FROM thrift_systems
+  WHERE id = p_thrift_system_id AND admin_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the thrift system admin can open an auction round';
+  END IF;
+
+  IF v_system.payout_schedule_mode <> 'auction' THEN
+    RAISE EXCEPTION 'This thrift system does not pay out by auction';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM auction_rounds
+    WHERE thrift_system_id = p_thrift_system_id AND status = 'open'
+  ) THEN
+    RAISE EXCEPTION 'An auction round is already open';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM memberships m
+    WHERE m.thrift_system_id = p_thrift_system_id
+      AND m.status = 'active'
+      AND m.slot_count > (
+        SELECT COUNT(*) FROM payouts p
+        WHERE p.thrift_system_id = p_thrift_system_id AND p.member_id = m.user_id
+      )
+  ) THEN
+    RAISE EXCEPTION 'Every member has already been paid this cycle';
+  END IF;
+
+  SELECT v_system.contribution_amount * COALESCE(SUM(slot_count), 0) INTO v_pot
+  FROM memberships
+  WHERE thrift_system_id = p_thrift_system_id AND status = 'active';
+
+  INSERT INTO auction_rounds (thrift_system_id, period_number, pot_amount, commission_amount, min_take)
+  SELECT
+    p_thrift_system_id,
+    COALESCE(MAX(period_number), 0) + 1,
+    v_pot,
+    round(v_pot * v_system.organizer_commission_percent / 100, 2),
+    round(v_pot * (100 - v_system.auction_max_discount_percent) / 100, 2)
+  FROM auction_rounds
+  WHERE thrift_system_id = p_thrift_system_id
+  RETURNING id INTO v_round_id;
+
+  RETURN v_round_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.place_auction_bid(
+  p_round_id UUID,
+  p_take_amount NUMERIC
+) RETURNS UUID AS $$
+DECLARE
+  v_round auction_rounds;
+  v_slots INTEGER;
+  v_lowest NUMERIC;
+  v_bid_id UUID;
+BEGIN
+  SELECT * INTO v_round FROM auction_rounds WHERE id = p_round_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Auction round % not found', p_round_id;
+  END IF;
+
+  IF v_round.status <> 'open' THEN
+    RAISE EXCEPTION 'This auction round is closed';
+  END IF;
+
+  SELECT slot_count INTO v_slots
+  FROM memberships
+  WHERE thrift_system_id = v_round.thrift_system_id
+    AND user_id = auth.uid()
+    AND status = 'active';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only active members can bid';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM payouts
+    WHERE thrift_system_id = v_round.thrift_system_id AND member_id = auth.uid()
+  ) >= v_slots THEN
+    RAISE EXCEPTION 'Every one of your slots has already received a payout this cycle';
+  END IF;
+
+  IF p_take_amount > v_round.pot_amount - v_round.commission_amount THEN
+    RAISE EXCEPTION 'Bids cannot exceed %', v_round.pot_amount - v_round.commission_amount;
+  END IF;
+
+  IF p_take_amount < v_round.min_take THEN
+    RAISE EXCEPTION 'Bids cannot be lower than %', v_round.min_take;
+  END IF;
+
+  SELECT MIN(take_amount) INTO v_lowest FROM auction_bids WHERE round_id = p_round_id;
+
+  IF v_lowest IS NOT NULL AND p_take_amount >= v_lowest THEN
+    RAISE EXCEPTION 'Bid must be lower than the current lowest take of %', v_lowest;
+  END IF;
+
+  INSERT INTO auction_bids (round_id, member_id, take_amount)
+  VALUES (p_round_id, auth.uid(), p_take_amount)
+  RETURNING id INTO v_bid_id;
+
+  RETURN v_bid_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Dividends are shared per slot: every slot except the winning one gets an
+-- equal share, so a member holding three hands gets three shares.
+CREATE OR REPLACE FUNCTION public.close_auction_round(
+  p_round_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+  v_round auction_rounds;
+  v_winner UUID;
+  v_winner_slot INTEGER;
+  v_take NUMERIC;
+  v_unpaid INTEGER;
+  v_recipients INTEGER;
+  v_dividend_kobo BIGINT;
+  v_payout_id UUID;
+BEGIN
+  SELECT * INTO v_round FROM auction_rounds WHERE id = p_round_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Auction round % not found', p_round_id;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = v_round.thrift_system_id AND admin_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the thrift system admin can close an auction round';
+  END IF;
+
+  IF v_round.status <> 'open' THEN
+    RAISE EXCEPTION 'This auction round is already closed';
+  END IF;
+
+  SELECT member_id, take_amount INTO v_winner, v_take
+  FROM auction_bids
+  WHERE round_id = p_round_id
+  ORDER BY take_amount, created_at, id
+  LIMIT 1;
+
+  IF v_winner IS NULL THEN
+    SELECT SUM(unpaid.slots), MIN(unpaid.user_id::TEXT)::UUID INTO v_unpaid, v_winner
+    FROM (
+      SELECT m.user_id, m.slot_count - (
+        SELECT COUNT(*) FROM payouts p
+        WHERE p.thrift_system_id = v_round.thrift_system_id AND p.member_id = m.user_id
+      ) AS slots
+      FROM memberships m
+      WHERE m.thrift_system_id = v_round.thrift_system_id
+        AND m.status = 'active'
+    ) AS unpaid
+    WHERE unpaid.slots > 0;
+
+    IF COALESCE(v_unpaid, 0) <> 1 THEN
+      RAISE EXCEPTION 'No bids have been placed in this round';
+    END IF;
+
+    v_take := v_round.pot_amount - v_round.commission_amount;
+  END IF;
+
+  SELECT COUNT(*) + 1 INTO v_winner_slot
+  FROM payouts
+  WHERE thrift_system_id = v_round.thrift_system_id AND member_id = v_winner;
+
+  INSERT INTO payouts (thrift_system_id, member_id, slot_number, position, amount, bid_premium, scheduled_date, status)
+  VALUES (
+    v_round.thrift_system_id,
+    v_winner,
+    v_winner_slot,
+    v_round.period_number,
+    v_take,
+    v_round.pot_amount - v_take,
+    NOW(),
+    'pending'
+  )
+  RETURNING id INTO v_payout_id;
+
+  SELECT COALESCE(SUM(slot_count), 0) - 1 INTO v_recipients
+  FROM memberships
+  WHERE thrift_system_id = v_round.thrift_system_id AND status = 'active';
+
+  v_dividend_kobo := round((v_round.pot_amount - v_take - v_round.commission_amount) * 100);
+
+  -- Split in kobo per slot; leftover kobo go to the first slots by member id
+  IF v_recipients > 0 AND v_dividend_kobo > 0 THEN
+    INSERT INTO dividend_credits (thrift_system_id, round_id, member_id, amount)
+    SELECT
+      v_round.thrift_system_id,
+      p_round_id,
+      user_id,
+      SUM(v_dividend_kobo / v_recipients
+        + CASE WHEN rank <= v_dividend_kobo % v_recipients THEN 1 ELSE 0 END) / 100.0
+    FROM (
+      SELECT m.user_id, ROW_NUMBER() OVER (ORDER BY m.user_id, slot) AS rank
+      FROM memberships m
+      CROSS JOIN LATERAL generate_series(1, m.slot_count) AS slot
+      WHERE m.thrift_system_id = v_round.thrift_system_id
+        AND m.status = 'active'
+        AND NOT (m.user_id = v_winner AND slot = v_winner_slot)
+    ) AS dividend_slots
+    GROUP BY user_id;
+  END IF;
+
+  UPDATE auction_rounds
+  SET
+    status = 'closed',
+    winner_id = v_winner,
+    winning_take = v_take,
+    dividend_amount = CASE
+      WHEN v_recipients > 0 THEN floor(v_dividend_kobo / v_recipients) / 100.0
+      ELSE 0
+    END,
+    payout_id = v_payout_id,
+    closed_at = NOW()
+  WHERE id = p_round_id;
+
+  RETURN jsonb_build_object(
+    'winner_id', v_winner,
+    'winning_take', v_take,
+    'payout_id', v_payout_id,
+    'dividend_recipients', v_recipients
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
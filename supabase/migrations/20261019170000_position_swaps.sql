@@ -0,0 +1,302 @@
+-- Members trading payout positions with each other
+ALTER TABLE public.thrift_systems
+  ADD COLUMN IF NOT EXISTS swap_approval_mode TEXT NOT NULL DEFAULT 'admin'
+  CHECK (swap_approval_mode IN ('admin', 'auto'));
+
+-- `proposed` waits on the counterparty, `accepted` waits on the admin.
+-- Compensation is what the proposer agrees to pay the counterparty for the trade.
+CREATE TABLE IF NOT EXISTS public.position_swaps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thrift_system_id UUID NOT NULL REFERENCES public.thrift_systems(id) ON DELETE CASCADE,
+  proposer_id UUID NOT NULL REFERENCES public.profiles(id),
+  proposer_payout_id UUID NOT NULL REFERENCES public.payouts(id) ON DELETE CASCADE,
+  counterparty_id UUID NOT NULL REFERENCES public.profiles(id),
+  counterparty_payout_id UUID NOT NULL REFERENCES public.payouts(id) ON DELETE CASCADE,
+  compensation_amount NUMERIC NOT NULL DEFAULT 0 CHECK (compensation_amount >= 0),
+  message TEXT,
+  status TEXT NOT NULL DEFAULT 'proposed'
+    CHECK (status IN ('proposed', 'accepted', 'completed', 'declined', 'rejected', 'cancelled')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  responded_at TIMESTAMPTZ,
+  decided_at TIMESTAMPTZ,
+  decided_by UUID REFERENCES public.profiles(id)
+);
+
+CREATE INDEX IF NOT EXISTS position_swaps_thrift_system_id_idx
+  ON public.position_swaps (thrift_system_id, created_at DESC);
+
+ALTER TABLE public.position_swaps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members and admins can view position swaps"
+ON public.position_swaps FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE thrift_systems.id = position_swaps.thrift_system_id
+      AND thrift_systems.admin_id = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM memberships
+    WHERE memberships.thrift_system_id = position_swaps.thrift_system_id
+      AND memberships.user_id = auth.uid()
+  )
+);
+
+-- Trades the position and date of both payouts in one go, pins the new
+-- positions on the members' preferences so a regenerated schedule keeps
+-- them, and tells the whole group.
+CREATE OR REPLACE FUNCTION public.execute_position_swap(p_swap_id UUID) RETURNS VOID AS $$
+DECLARE
+  v_swap position_swaps;
+  v_first payouts;
+  v_second payouts;
+  v_payout payouts;
+  v_new_position INTEGER;
+  v_first_name TEXT;
+  v_second_name TEXT;
+BEGIN
+  SELECT * INTO v_swap FROM position_swaps WHERE id = p_swap_id FOR UPDATE;
+
+  SELECT * INTO v_first FROM payouts WHERE id = v_swap.proposer_payout_id FOR UPDATE;
+  SELECT * INTO v_second FROM payouts WHERE id = v_swap.counterparty_payout_id FOR UPDATE;
+
+  IF v_first.status <> 'pending' OR v_second.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only payouts that have not been made yet can be swapped';
+  END IF;
+
+  -- Clear one position first so the unique index never sees a duplicate
+  UPDATE payouts SET position = NULL WHERE id = v_first.id;
+
+  UPDATE payouts
+  SET position = v_first.position, scheduled_date = v_first.scheduled_date
+  WHERE id = v_second.id;
+
+  UPDATE payouts
+  SET position = v_second.position, scheduled_date = v_second.scheduled_date
+  WHERE id = v_first.id;
+
+  FOREACH v_payout IN ARRAY ARRAY[v_first, v_second] LOOP
+    v_new_position := CASE WHEN v_payout.id = v_first.id THEN v_second.position ELSE v_first.position END;
+
+    UPDATE disbursement_preferences
+    SET actual_position = v_new_position
+    WHERE thrift_system_id = v_swap.thrift_system_id
+      AND member_id = v_payout.member_id
+      AND slot_number = v_payout.slot_number;
+
+    IF NOT FOUND THEN
+      INSERT INTO disbursement_preferences (
+        thrift_system_id, member_id, slot_number, preferred_position, actual_position, bid_amount, status
+      )
+      VALUES (
+        v_swap.thrift_system_id, v_payout.member_id, v_payout.slot_number, v_new_position, v_new_position, 0, 'swapped'
+      );
+    END IF;
+  END LOOP;
+
+  UPDATE position_swaps
+  SET status = 'completed', decided_at = COALESCE(decided_at, NOW())
+  WHERE id = p_swap_id;
+
+  -- Any other open offer on either payout was made for the old positions
+  UPDATE position_swaps
+  SET status = 'cancelled'
+  WHERE id <> p_swap_id
+    AND status IN ('proposed', 'accepted')
+    AND (proposer_payout_id IN (v_first.id, v_second.id) OR counterparty_payout_id IN (v_first.id, v_second.id));
+
+  SELECT full_name INTO v_first_name FROM profiles WHERE id = v_swap.proposer_id;
+  SELECT full_name INTO v_second_name FROM profiles WHERE id = v_swap.counterparty_id;
+
+  INSERT INTO notifications (user_id, type, message)
+  SELECT recipient, 'position_swap',
+    COALESCE(v_first_name, 'A member') || ' and ' || COALESCE(v_second_name, 'a member')
+      || ' swapped payout positions ' || v_first.position || ' and ' || v_second.position || '.'
+  FROM (
+    SELECT user_id AS recipient FROM memberships
+    WHERE thrift_system_id = v_swap.thrift_system_id AND status = 'active'
+    UNION
+    SELECT admin_id FROM thrift_systems WHERE id = v_swap.thrift_system_id
+  ) AS recipients
+  WHERE recipient IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.execute_position_swap(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Offers to trade one of the caller's pending payouts for another member's.
+CREATE OR REPLACE FUNCTION public.propose_position_swap(
+  p_proposer_payout_id UUID,
+  p_counterparty_payout_id UUID,
+  p_compensation NUMERIC DEFAULT 0,
+  p_message TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_mine payouts;
+  v_theirs payouts;
+  v_swap_id UUID;
+BEGIN
+  SELECT * INTO v_mine FROM payouts WHERE id = p_proposer_payout_id;
+  SELECT * INTO v_theirs FROM payouts WHERE id = p_counterparty_payout_id;
+
+  IF v_mine.id IS NULL OR v_theirs.id IS NULL THEN
+    RAISE EXCEPTION 'Payout not found';
+  END IF;
+
+  IF v_mine.member_id <> auth.uid() THEN
+    RAISE EXCEPTION 'You can only offer your own payout position';
+  END IF;
+
+  IF v_theirs.member_id = auth.uid() THEN
+    RAISE EXCEPTION 'Choose a position held by another member';
+  END IF;
+
+  IF v_mine.thrift_system_id <> v_theirs.thrift_system_id THEN
+    RAISE EXCEPTION 'Both payouts must belong to the same thrift system';
+  END IF;
+
+  IF v_mine.status <> 'pending' OR v_theirs.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only payouts that have not been made yet can be swapped';
+  END IF;
+
+  IF COALESCE(p_compensation, 0) < 0 THEN
+    RAISE EXCEPTION 'Compensation cannot be negative';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM position_swaps
+    WHERE status IN ('proposed', 'accepted')
+      AND (proposer_payout_id IN (v_mine.id, v_theirs.id) OR counterparty_payout_id IN (v_mine.id, v_theirs.id))
+  ) THEN
+    RAISE EXCEPTION 'One of these positions already has a swap in progress';
+  END IF;
+
+  INSERT INTO position_swaps (
+    thrift_system_id, proposer_id, proposer_payout_id, counterparty_id, counterparty_payout_id,
+    compensation_amount, message
+  )
+  VALUES (
+    v_mine.thrift_system_id, auth.uid(), v_mine.id, v_theirs.member_id, v_theirs.id,
+    COALESCE(p_compensation, 0), p_message
+  )
+  RETURNING id INTO v_swap_id;
+
+  INSERT INTO notifications (user_id, type, message)
+  SELECT v_theirs.member_id, 'position_swap',
+    COALESCE(full_name, 'A member') || ' wants to swap payout position ' || v_mine.position
+      || ' for your position ' || v_theirs.position
+      || CASE WHEN COALESCE(p_compensation, 0) > 0 THEN ' and offers ' || p_compensation || ' in compensation' ELSE '' END
+      || '.'
+  FROM profiles WHERE id = auth.uid();
+
+  RETURN v_swap_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The counterparty accepts or declines. Accepted swaps go through at once
+-- when the thrift auto-approves them, otherwise they wait for the admin.
+CREATE OR REPLACE FUNCTION public.respond_position_swap(
+  p_swap_id UUID,
+  p_accept BOOLEAN
+) RETURNS TEXT AS $$
+DECLARE
+  v_swap position_swaps;
+  v_mode TEXT;
+  v_admin_id UUID;
+BEGIN
+  SELECT * INTO v_swap FROM position_swaps WHERE id = p_swap_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Swap % not found', p_swap_id;
+  END IF;
+
+  IF v_swap.counterparty_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the member being asked can respond to this swap';
+  END IF;
+
+  IF v_swap.status <> 'proposed' THEN
+    RAISE EXCEPTION 'This swap is already %', v_swap.status;
+  END IF;
+
+  IF NOT p_accept THEN
+    UPDATE position_swaps SET status = 'declined', responded_at = NOW() WHERE id = p_swap_id;
+
+    INSERT INTO notifications (user_id, type, message)
+    VALUES (v_swap.proposer_id, 'position_swap', 'Your payout position swap was declined.');
+
+    RETURN 'declined';
+  END IF;
+
+  UPDATE position_swaps SET status = 'accepted', responded_at = NOW() WHERE id = p_swap_id;
+
+  SELECT swap_approval_mode, admin_id INTO v_mode, v_admin_id
+  FROM thrift_systems WHERE id = v_swap.thrift_system_id;
+
+  IF v_mode = 'auto' THEN
+    PERFORM execute_position_swap(p_swap_id);
+    RETURN 'completed';
+  END IF;
+
+  INSERT INTO notifications (user_id, type, message)
+  VALUES (v_admin_id, 'position_swap', 'A payout position swap is waiting for your approval.');
+
+  RETURN 'accepted';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Admin sign-off for accepted swaps in thrifts that require it.
+CREATE OR REPLACE FUNCTION public.decide_position_swap(
+  p_swap_id UUID,
+  p_approve BOOLEAN
+) RETURNS TEXT AS $$
+DECLARE
+  v_swap position_swaps;
+BEGIN
+  SELECT * INTO v_swap FROM position_swaps WHERE id = p_swap_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Swap % not found', p_swap_id;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = v_swap.thrift_system_id AND admin_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the thrift system admin can approve swaps';
+  END IF;
+
+  IF v_swap.status <> 'accepted' THEN
+    RAISE EXCEPTION 'Only swaps accepted by both members can be decided';
+  END IF;
+
+  UPDATE position_swaps SET decided_at = NOW(), decided_by = auth.uid() WHERE id = p_swap_id;
+
+  IF NOT p_approve THEN
+    UPDATE position_swaps SET status = 'rejected' WHERE id = p_swap_id;
+
+    INSERT INTO notifications (user_id, type, message)
+    VALUES
+      (v_swap.proposer_id, 'position_swap', 'The admin rejected your payout position swap.'),
+      (v_swap.counterparty_id, 'position_swap', 'The admin rejected your payout position swap.');
+
+    RETURN 'rejected';
+  END IF;
+
+  PERFORM execute_position_swap(p_swap_id);
+  RETURN 'completed';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.cancel_position_swap(p_swap_id UUID) RETURNS VOID AS $$
+BEGIN
+  UPDATE position_swaps
+  SET status = 'cancelled'
+  WHERE id = p_swap_id
+    AND proposer_id = auth.uid()
+    AND status IN ('proposed', 'accepted');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only an open swap you proposed can be cancelled';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,473 @@
+-- Guarantors vouch for a joining member and cover contributions they default on
+ALTER TABLE public.thrift_systems
+  ADD COLUMN IF NOT EXISTS guarantors_required INTEGER NOT NULL DEFAULT 0
+  CHECK (guarantors_required >= 0);
+
+-- Days a contribution must be overdue, after the grace period, before guarantors are called
+ALTER TABLE public.thrift_systems
+  ADD COLUMN IF NOT EXISTS guarantor_call_days INTEGER NOT NULL DEFAULT 7
+  CHECK (guarantor_call_days >= 0);
+
+CREATE TABLE IF NOT EXISTS public.membership_guarantors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  membership_id UUID NOT NULL REFERENCES public.memberships(id) ON DELETE CASCADE,
+  guarantor_id UUID NOT NULL REFERENCES public.profiles(id),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  responded_at TIMESTAMPTZ,
+  UNIQUE (membership_id, guarantor_id)
+);
+
+-- A guarantor being asked to cover one overdue contribution
+CREATE TABLE IF NOT EXISTS public.guarantor_calls (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  guarantee_id UUID NOT NULL REFERENCES public.membership_guarantors(id) ON DELETE CASCADE,
+  contribution_id UUID NOT NULL REFERENCES public.contributions(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'paid', 'lapsed')),
+  called_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  paid_at TIMESTAMPTZ,
+  UNIQUE (guarantee_id, contribution_id)
+);
+
+-- What a defaulter owes the guarantor who paid for them
+CREATE TABLE IF NOT EXISTS public.guarantor_receivables (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  guarantor_id UUID NOT NULL REFERENCES public.profiles(id),
+  debtor_id UUID NOT NULL REFERENCES public.profiles(id),
+  membership_id UUID NOT NULL REFERENCES public.memberships(id) ON DELETE CASCADE,
+  contribution_id UUID NOT NULL REFERENCES public.contributions(id) ON DELETE CASCADE,
+  payment_id UUID REFERENCES public.contribution_payments(id) ON DELETE SET NULL,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  amount_recovered NUMERIC NOT NULL DEFAULT 0 CHECK (amount_recovered >= 0),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'settled')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  settled_at TIMESTAMPTZ
+);
+
+ALTER TABLE public.membership_guarantors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.guarantor_calls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.guarantor_receivables ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Guarantors, members and admins can view guarantees"
+ON public.membership_guarantors FOR SELECT
+USING (
+  guarantor_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM memberships
+    WHERE memberships.id = membership_guarantors.membership_id
+      AND memberships.user_id = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM memberships
+    JOIN thrift_systems ON thrift_systems.id = memberships.thrift_system_id
+    WHERE memberships.id = membership_guarantors.membership_id
+      AND thrift_systems.admin_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Guarantors, members and admins can view guarantor calls"
+ON public.guarantor_calls FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM membership_guarantors g
+    JOIN memberships ON memberships.id = g.membership_id
+    JOIN thrift_systems ON thrift_systems.id = memberships.thrift_system_id
+    WHERE g.id = guarantor_calls.guarantee_id
+      AND (g.guarantor_id = auth.uid() OR memberships.user_id = auth.uid() OR thrift_systems.admin_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Guarantors, debtors and admins can view receivables"
+ON public.guarantor_receivables FOR SELECT
+USING (
+  guarantor_id = auth.uid()
+  OR debtor_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM memberships
+    JOIN thrift_systems ON thrift_systems.id = memberships.thrift_system_id
+    WHERE memberships.id = guarantor_receivables.membership_id
+      AND thrift_systems.admin_id = auth.uid()
+  )
+);
+
+-- A join request can only be approved once enough guarantors have accepted
+CREATE OR REPLACE FUNCTION public.enforce_membership_guarantors() RETURNS TRIGGER AS $$
+DECLARE
+  v_required INTEGER;
+  v_accepted INTEGER;
+BEGIN
+  IF NEW.status <> 'active' OR OLD.status = 'active' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT guarantors_required INTO v_required FROM thrift_systems WHERE id = NEW.thrift_system_id;
+
+  SELECT COUNT(*) INTO v_accepted
+  FROM membership_guarantors
+  WHERE membership_id = NEW.id AND status = 'accepted';
+
+  IF v_accepted < v_required THEN
+    RAISE EXCEPTION 'This member needs % accepted guarantor(s) before approval; % so far',
+      v_required, v_accepted;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS memberships_guarantors_required ON public.memberships;
+
+CREATE TRIGGER memberships_guarantors_required
+BEFORE UPDATE OF status ON public.memberships
+FOR EACH ROW EXECUTE FUNCTION public.enforce_membership_guarantors();
+
+-- The joining member names a guarantor by the email they signed up with.
+CREATE OR REPLACE FUNCTION public.nominate_guarantor(
+  p_membership_id UUID,
+  p_email TEXT
+) RETURNS UUID AS $$
+DECLARE
+  v_membership memberships;
+  v_guarantor_id UUID;
+  v_guarantee_id UUID;
+BEGIN
+  SELECT * INTO v_membership FROM memberships WHERE id = p_membership_id;
+
+  IF NOT FOUND OR v_membership.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'You can only nominate guarantors for your own join request';
+  END IF;
+
+  IF v_membership.status NOT IN ('pending', 'waitlisted') THEN
+    RAISE EXCEPTION 'Guarantors can only be added while the request is pending';
+  END IF;
+
+  SELECT id INTO v_guarantor_id FROM auth.users WHERE lower(email) = lower(trim(p_email));
+
+  IF v_guarantor_id IS NULL THEN
+    RAISE EXCEPTION 'No user is registered with %', p_email;
+  END IF;
+
+  IF v_guarantor_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot be your own guarantor';
+  END IF;
+
+  INSERT INTO membership_guarantors (membership_id, guarantor_id)
+  VALUES (p_membership_id, v_guarantor_id)
+  ON CONFLICT (membership_id, guarantor_id) DO NOTHING
+  RETURNING id INTO v_guarantee_id;
+
+  IF v_guarantee_id IS NULL THEN
+    RAISE EXCEPTION 'This user has already been nominated';
+  END IF;
+
+  INSERT INTO notifications (user_id, type, message)
+  SELECT v_guarantor_id, 'guarantor_request',
+    COALESCE(p.full_name, 'A member') || ' has asked you to guarantee their contributions in ' || t.name || '.'
+  FROM profiles p, thrift_systems t
+  WHERE p.id = auth.uid() AND t.id = v_membership.thrift_system_id;
+
+  RETURN v_guarantee_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.respond_guarantee(
+  p_guarantee_id UUID,
+  p_accept BOOLEAN
+) RETURNS VOID AS $$
+DECLARE
+  v_guarantee membership_guarantors;
+BEGIN
+  SELECT * INTO v_guarantee FROM membership_guarantors WHERE id = p_guarantee_id FOR UPDATE;
+
+  IF NOT FOUND OR v_guarantee.guarantor_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the nominated guarantor can respond';
+  END IF;
+
+  IF v_guarantee.status <> 'pending' THEN
+    RAISE EXCEPTION 'You have already responded to this request';
+  END IF;
+
+  UPDATE membership_guarantors
+  SET status = CASE WHEN p_accept THEN 'accepted' ELSE 'declined' END,
+    responded_at = NOW()
+  WHERE id = p_guarantee_id;
+
+  INSERT INTO notifications (user_id, type, message)
+  SELECT m.user_id, 'guarantor_request',
+    COALESCE(p.full_name, 'Your guarantor') || CASE WHEN p_accept THEN ' agreed' ELSE ' declined' END
+      || ' to guarantee your contributions.'
+  FROM memberships m, profiles p
+  WHERE m.id = v_guarantee.membership_id AND p.id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Guarantors with an open call may also pay the contribution; calls lapse
+-- once the contribution is settled by anyone.
+CREATE OR REPLACE FUNCTION public.record_contribution_payment(
+  p_contribution_id UUID,
+  p_amount NUMERIC,
+  p_reference TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+  v_contribution contributions;
+  v_membership memberships;
+  v_penalties_owed NUMERIC;
+  v_principal_owed NUMERIC;
+  v_to_penalties NUMERIC;
+  v_to_principal NUMERIC;
+  v_remaining NUMERIC;
+  v_status TEXT;
+  v_payment_id UUID;
+BEGIN
+  SELECT * INTO v_contribution FROM contributions WHERE id = p_contribution_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contribution % not found', p_contribution_id;
+  END IF;
+
+  SELECT * INTO v_membership FROM memberships WHERE id = v_contribution.membership_id;
+
+  IF v_membership.user_id <> auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = v_membership.thrift_system_id AND admin_id = auth.uid()
+  ) AND NOT EXISTS (
+    SELECT 1 FROM guarantor_calls c
+    JOIN membership_guarantors g ON g.id = c.guarantee_id
+    WHERE c.contribution_id = p_contribution_id
+      AND c.status = 'open'
+      AND g.guarantor_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the member, a called guarantor or the thrift system admin can record this payment';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero';
+  END IF;
+
+  SELECT
+    COALESCE((SELECT SUM(amount) FROM contribution_penalties WHERE contribution_id = p_contribution_id), 0)
+    - COALESCE((SELECT SUM(amount) FROM payment_allocations
+                WHERE contribution_id = p_contribution_id AND allocation_type = 'penalty'), 0),
+    v_contribution.amount
+    - COALESCE((SELECT SUM(amount) FROM payment_allocations
+                WHERE contribution_id = p_contribution_id AND allocation_type = 'principal'), 0)
+  INTO v_penalties_owed, v_principal_owed;
+
+  IF p_amount > v_penalties_owed + v_principal_owed THEN
+    RAISE EXCEPTION 'Payment of % is more than the % still owed', p_amount, v_penalties_owed + v_principal_owed;
+  END IF;
+
+  INSERT INTO contribution_payments (membership_id, amount, reference, recorded_by)
+  VALUES (v_contribution.membership_id, p_amount, p_reference, auth.uid())
+  RETURNING id INTO v_payment_id;
+
+  v_to_penalties := LEAST(p_amount, v_penalties_owed);
+  v_to_principal := p_amount - v_to_penalties;
+
+  IF v_to_penalties > 0 THEN
+    INSERT INTO payment_allocations (payment_id, contribution_id, allocation_type, amount)
+    VALUES (v_payment_id, p_contribution_id, 'penalty', v_to_penalties);
+  END IF;
+
+  IF v_to_principal > 0 THEN
+    INSERT INTO payment_allocations (payment_id, contribution_id, allocation_type, amount)
+    VALUES (v_payment_id, p_contribution_id, 'principal', v_to_principal);
+  END IF;
+
+  v_remaining := v_penalties_owed + v_principal_owed - p_amount;
+  v_status := CASE WHEN v_remaining = 0 THEN 'completed' ELSE 'partially_paid' END;
+
+  UPDATE contributions
+  SET
+    status = v_status,
+    paid_date = CASE WHEN v_remaining = 0 THEN NOW() ELSE paid_date END
+  WHERE id = p_contribution_id;
+
+  IF v_remaining = 0 THEN
+    UPDATE guarantor_calls SET status = 'lapsed'
+    WHERE contribution_id = p_contribution_id AND status = 'open';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'payment_id', v_payment_id,
+    'status', v_status,
+    'remaining', v_remaining
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A called guarantor pays everything still owed on the contribution, which
+-- becomes a receivable against the member who defaulted.
+CREATE OR REPLACE FUNCTION public.pay_guarantor_call(p_call_id UUID) RETURNS JSONB AS $$
+DECLARE
+  v_call guarantor_calls;
+  v_guarantee membership_guarantors;
+  v_debtor_id UUID;
+  v_owed NUMERIC;
+  v_payment JSONB;
+BEGIN
+  SELECT * INTO v_call FROM guarantor_calls WHERE id = p_call_id FOR UPDATE;
+  SELECT * INTO v_guarantee FROM membership_guarantors WHERE id = v_call.guarantee_id;
+
+  IF v_call.id IS NULL OR v_guarantee.guarantor_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the called guarantor can pay this contribution';
+  END IF;
+
+  IF v_call.status <> 'open' THEN
+    RAISE EXCEPTION 'This call is already %', v_call.status;
+  END IF;
+
+  SELECT
+    c.amount
+    + COALESCE((SELECT SUM(amount) FROM contribution_penalties WHERE contribution_id = c.id), 0)
+    - COALESCE((SELECT SUM(amount) FROM payment_allocations WHERE contribution_id = c.id), 0)
+  INTO v_owed
+  FROM contributions c
+  WHERE c.id = v_call.contribution_id;
+
+  v_payment := record_contribution_payment(v_call.contribution_id, v_owed, 'Guarantor payment');
+
+  UPDATE guarantor_calls SET status = 'paid', paid_at = NOW() WHERE id = p_call_id;
+
+  SELECT user_id INTO v_debtor_id FROM memberships WHERE id = v_guarantee.membership_id;
+
+  INSERT INTO guarantor_receivables (
+    guarantor_id, debtor_id, membership_id, contribution_id, payment_id, amount
+  )
+  VALUES (
+    auth.uid(), v_debtor_id, v_guarantee.membership_id, v_call.contribution_id,
+    (v_payment->>'payment_id')::UUID, v_owed
+  );
+
+  INSERT INTO notifications (user_id, type, message)
+  VALUES (
+    v_debtor_id,
+    'guarantor_call',
+    'Your guarantor paid ' || v_owed || ' for your overdue contribution. You now owe them that amount.'
+  );
+
+  RETURN v_payment || jsonb_build_object('amount', v_owed);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The guarantor records money the defaulter has paid back.
+CREATE OR REPLACE FUNCTION public.record_receivable_recovery(
+  p_receivable_id UUID,
+  p_amount NUMERIC
+) RETURNS VOID AS $$
+DECLARE
+  v_receivable guarantor_receivables;
+BEGIN
+  SELECT * INTO v_receivable FROM guarantor_receivables WHERE id = p_receivable_id FOR UPDATE;
+
+  IF NOT FOUND OR v_receivable.guarantor_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the guarantor can record a recovery';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 OR p_amount > v_receivable.amount - v_receivable.amount_recovered THEN
+    RAISE EXCEPTION 'Recovery must be between 0 and the % still owed',
+      v_receivable.amount - v_receivable.amount_recovered;
+  END IF;
+
+  UPDATE guarantor_receivables
+  SET
+    amount_recovered = amount_recovered + p_amount,
+    status = CASE WHEN amount_recovered + p_amount >= amount THEN 'settled' ELSE 'open' END,
+    settled_at = CASE WHEN amount_recovered + p_amount >= amount THEN NOW() ELSE NULL END
+  WHERE id = p_receivable_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Everything the caller currently guarantees: per member, what is still
+-- unpaid in total, what is overdue, and any open calls to pay.
+CREATE OR REPLACE FUNCTION public.guarantor_exposure() RETURNS JSONB AS $$
+  SELECT COALESCE(jsonb_agg(exposure ORDER BY exposure->>'thrift_name'), '[]'::JSONB)
+  FROM (
+    SELECT jsonb_build_object(
+      'guarantee_id', g.id,
+      'membership_id', m.id,
+      'member_name', p.full_name,
+      'thrift_name', t.name,
+      'outstanding', COALESCE(SUM(owed.amount), 0),
+      'overdue', COALESCE(SUM(owed.amount) FILTER (WHERE owed.overdue), 0),
+      'open_calls', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+          'call_id', gc.id,
+          'contribution_id', gc.contribution_id,
+          'due_date', c.due_date,
+          'called_at', gc.called_at
+        ) ORDER BY c.due_date)
+        FROM guarantor_calls gc
+        JOIN contributions c ON c.id = gc.contribution_id
+        WHERE gc.guarantee_id = g.id AND gc.status = 'open'
+      ), '[]'::JSONB)
+    ) AS exposure
+    FROM membership_guarantors g
+    JOIN memberships m ON m.id = g.membership_id
+    JOIN thrift_systems t ON t.id = m.thrift_system_id
+    LEFT JOIN profiles p ON p.id = m.user_id
+    LEFT JOIN LATERAL (
+      SELECT
+        c.amount
+        + COALESCE((SELECT SUM(amount) FROM contribution_penalties WHERE contribution_id = c.id), 0)
+        - COALESCE((SELECT SUM(amount) FROM payment_allocations WHERE contribution_id = c.id), 0) AS amount,
+        c.status = 'overdue' OR (c.status = 'partially_paid' AND c.due_date < NOW()) AS overdue
+      FROM contributions c
+      WHERE c.membership_id = m.id AND c.status <> 'completed'
+    ) AS owed ON TRUE
+    WHERE g.guarantor_id = auth.uid()
+      AND g.status = 'accepted'
+      AND m.status = 'active'
+    GROUP BY g.id, m.id, p.full_name, t.name
+  ) AS exposures;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Opens a call on every accepted guarantor once a contribution has been
+-- overdue for the thrift's call period. Run daily after late penalties.
+CREATE OR REPLACE FUNCTION public.call_guarantors() RETURNS INTEGER AS $$
+DECLARE
+  v_calls INTEGER;
+BEGIN
+  UPDATE guarantor_calls gc
+  SET status = 'lapsed'
+  FROM contributions c
+  WHERE c.id = gc.contribution_id
+    AND gc.status = 'open'
+    AND c.status = 'completed';
+
+  WITH new_calls AS (
+    INSERT INTO guarantor_calls (guarantee_id, contribution_id)
+    SELECT g.id, c.id
+    FROM contributions c
+    JOIN memberships m ON m.id = c.membership_id
+    JOIN thrift_systems t ON t.id = m.thrift_system_id
+    JOIN membership_guarantors g ON g.membership_id = m.id AND g.status = 'accepted'
+    WHERE c.status IN ('overdue', 'partially_paid')
+      AND c.due_date::DATE + t.late_grace_days + t.guarantor_call_days < CURRENT_DATE
+    ON CONFLICT (guarantee_id, contribution_id) DO NOTHING
+    RETURNING guarantee_id, contribution_id
+  ), notified AS (
+    INSERT INTO notifications (user_id, type, message)
+    SELECT g.guarantor_id, 'guarantor_call',
+      COALESCE(p.full_name, 'A member you guarantee') || ' has an overdue contribution of '
+        || c.amount || ' due ' || to_char(c.due_date, 'YYYY-MM-DD') || '. You can pay it from your dashboard.'
+    FROM new_calls
+    JOIN membership_guarantors g ON g.id = new_calls.guarantee_id
+    JOIN contributions c ON c.id = new_calls.contribution_id
+    JOIN memberships m ON m.id = g.membership_id
+    LEFT JOIN profiles p ON p.id = m.user_id
+    RETURNING 1
+  )
+  SELECT COUNT(*) INTO v_calls FROM notified;
+
+  RETURN v_calls;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.call_guarantors() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'call-guarantors',
+  '30 0 * * *',
+  $$SELECT public.call_guarantors()$$
+);
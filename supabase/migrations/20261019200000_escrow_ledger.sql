@@ -0,0 +1,264 @@
+-- Escrow for escrow-enabled thrift systems: every contribution payment is
+-- credited to the thrift's escrow account and every payout is debited from
+-- it, so the balance is what the group is holding at any time.
+ALTER TABLE public.thrift_systems ADD COLUMN IF NOT EXISTS escrow_enabled_at TIMESTAMPTZ;
+
+UPDATE public.thrift_systems
+SET escrow_enabled_at = NOW()
+WHERE is_escrow_enabled AND escrow_enabled_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS public.escrow_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thrift_system_id UUID NOT NULL REFERENCES public.thrift_systems(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('contribution', 'penalty', 'payout')),
+  -- Always positive; `payout` entries are debits, the rest credits
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  allocation_id UUID REFERENCES public.payment_allocations(id) ON DELETE SET NULL,
+  payout_id UUID REFERENCES public.payouts(id) ON DELETE SET NULL,
+  member_id UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS escrow_entries_thrift_system_id_idx
+  ON public.escrow_entries (thrift_system_id, created_at);
+
+CREATE UNIQUE INDEX IF NOT EXISTS escrow_entries_payout_id_key
+  ON public.escrow_entries (payout_id)
+  WHERE payout_id IS NOT NULL;
+
+ALTER TABLE public.escrow_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members and admins can view escrow entries"
+ON public.escrow_entries FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE thrift_systems.id = escrow_entries.thrift_system_id
+      AND thrift_systems.admin_id = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM memberships
+    WHERE memberships.thrift_system_id = escrow_entries.thrift_system_id
+      AND memberships.user_id = auth.uid()
+  )
+);
+
+-- Only money that moved after escrow was turned on is held in it
+CREATE OR REPLACE FUNCTION public.stamp_escrow_enabled_at() RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_escrow_enabled AND NEW.escrow_enabled_at IS NULL THEN
+    NEW.escrow_enabled_at := NOW();
+  ELSIF NOT COALESCE(NEW.is_escrow_enabled, FALSE) THEN
+    NEW.escrow_enabled_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS thrift_systems_escrow_enabled_at ON public.thrift_systems;
+
+CREATE TRIGGER thrift_systems_escrow_enabled_at
+BEFORE INSERT OR UPDATE OF is_escrow_enabled ON public.thrift_systems
+FOR EACH ROW EXECUTE FUNCTION public.stamp_escrow_enabled_at();
+
+CREATE OR REPLACE FUNCTION public.escrow_balance(p_thrift_system_id UUID) RETURNS NUMERIC AS $$
+  SELECT COALESCE(SUM(CASE WHEN entry_type = 'payout' THEN -amount ELSE amount END), 0)
+  FROM escrow_entries
+  WHERE thrift_system_id = p_thrift_system_id;
+$$ LANGUAGE sql STABLE;
+
+-- Credits each payment allocation, whoever paid it, to the thrift's escrow
+CREATE OR REPLACE FUNCTION public.credit_escrow_allocation() RETURNS TRIGGER AS $$
+DECLARE
+  v_thrift_system_id UUID;
+  v_member_id UUID;
+BEGIN
+  SELECT m.thrift_system_id, m.user_id INTO v_thrift_system_id, v_member_id
+  FROM contributions c
+  JOIN memberships m ON m.id = c.membership_id
+  JOIN thrift_systems t ON t.id = m.thrift_system_id
+  WHERE c.id = NEW.contribution_id
+    AND t.is_escrow_enabled;
+
+  IF v_thrift_system_id IS NOT NULL THEN
+    INSERT INTO escrow_entries (thrift_system_id, entry_type, amount, allocation_id, member_id)
+    VALUES (
+      v_thrift_system_id,
+      CASE WHEN NEW.allocation_type = 'penalty' THEN 'penalty' ELSE 'contribution' END,
+      NEW.amount,
+      NEW.id,
+      v_member_id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS payment_allocations_credit_escrow ON public.payment_allocations;
+
+CREATE TRIGGER payment_allocations_credit_escrow
+AFTER INSERT ON public.payment_allocations
+FOR EACH ROW EXECUTE FUNCTION public.credit_escrow_allocation();
+
+-- A payout is funded once every contribution for its period has been paid
+-- in full and escrow holds enough to cover it
+CREATE OR REPLACE FUNCTION public.escrow_payout_shortfall(p_payout_id UUID) RETURNS JSONB AS $$
+DECLARE
+  v_payout payouts;
+  v_unpaid_contributions INTEGER;
+  v_balance NUMERIC;
+BEGIN
+  SELECT * INTO v_payout FROM payouts WHERE id = p_payout_id;
+
+  SELECT COUNT(*) INTO v_unpaid_contributions
+  FROM contributions c
+  JOIN memberships m ON m.id = c.membership_id
+  WHERE m.thrift_system_id = v_payout.thrift_system_id
+    AND c.period_number = v_payout.position
+    AND c.status <> 'completed';
+
+  v_balance := escrow_balance(v_payout.thrift_system_id);
+
+  RETURN jsonb_build_object(
+    'unpaid_contributions', v_unpaid_contributions,
+    'balance', v_balance,
+    'shortfall', GREATEST(v_payout.amount - v_balance, 0)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Holds back payouts of escrow-enabled thrifts until they are funded, and
+-- debits escrow as they are released
+CREATE OR REPLACE FUNCTION public.release_escrow_payout() RETURNS TRIGGER AS $$
+DECLARE
+  v_shortfall JSONB;
+  v_entry_id UUID;
+BEGIN
+  IF OLD.status NOT IN ('pending', 'failed')
+     OR NEW.status NOT IN ('processing', 'completed')
+     OR EXISTS (SELECT 1 FROM escrow_entries WHERE payout_id = NEW.id)
+     OR NOT EXISTS (
+       SELECT 1 FROM thrift_systems
+       WHERE id = NEW.thrift_system_id AND is_escrow_enabled
+     ) THEN
+    RETURN NEW;
+  END IF;
+
+  v_shortfall := escrow_payout_shortfall(NEW.id);
+
+  IF (v_shortfall->>'unpaid_contributions')::INTEGER > 0 THEN
+    RAISE EXCEPTION 'Payout % is held in escrow: % contributions for this period are still unpaid',
+      NEW.position, v_shortfall->>'unpaid_contributions';
+  END IF;
+
+  IF (v_shortfall->>'shortfall')::NUMERIC > 0 THEN
+    RAISE EXCEPTION 'Payout % is held in escrow: the balance of % is % short',
+      NEW.position, v_shortfall->>'balance', v_shortfall->>'shortfall';
+  END IF;
+
+  INSERT INTO escrow_entries (thrift_system_id, entry_type, amount, payout_id, member_id)
+  VALUES (NEW.thrift_system_id, 'payout', NEW.amount, NEW.id, NEW.member_id)
+  RETURNING id INTO v_entry_id;
+
+  NEW.escrow_reference := v_entry_id::TEXT;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS payouts_release_escrow ON public.payouts;
+
+CREATE TRIGGER payouts_release_escrow
+BEFORE UPDATE OF status ON public.payouts
+FOR EACH ROW EXECUTE FUNCTION public.release_escrow_payout();
+
+-- Read-only statement for the admin and members. The ledger is reconciled
+-- against the payments and payouts recorded since escrow was turned on;
+-- any difference means money moved outside escrow.
+CREATE OR REPLACE FUNCTION public.escrow_statement(p_thrift_system_id UUID) RETURNS JSONB AS $$
+DECLARE
+  v_system thrift_systems;
+  v_credited NUMERIC;
+  v_released NUMERIC;
+  v_received NUMERIC;
+  v_paid_out NUMERIC;
+BEGIN
+  SELECT * INTO v_system FROM thrift_systems WHERE id = p_thrift_system_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Thrift system % not found', p_thrift_system_id;
+  END IF;
+
+  IF v_system.admin_id <> auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM memberships
+    WHERE thrift_system_id = p_thrift_system_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only members and the admin can view this escrow statement';
+  END IF;
+
+  IF NOT COALESCE(v_system.is_escrow_enabled, FALSE) THEN
+    RAISE EXCEPTION 'Escrow is not enabled for this thrift system';
+  END IF;
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE entry_type <> 'payout'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE entry_type = 'payout'), 0)
+  INTO v_credited, v_released
+  FROM escrow_entries
+  WHERE thrift_system_id = p_thrift_system_id;
+
+  SELECT COALESCE(SUM(a.amount), 0) INTO v_received
+  FROM payment_allocations a
+  JOIN contributions c ON c.id = a.contribution_id
+  JOIN memberships m ON m.id = c.membership_id
+  WHERE m.thrift_system_id = p_thrift_system_id
+    AND a.created_at >= v_system.escrow_enabled_at;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_paid_out
+  FROM payouts
+  WHERE thrift_system_id = p_thrift_system_id
+    AND status IN ('processing', 'completed')
+    AND (scheduled_date >= v_system.escrow_enabled_at OR escrow_reference IS NOT NULL);
+
+  RETURN jsonb_build_object(
+    'enabled_at', v_system.escrow_enabled_at,
+    'balance', v_credited - v_released,
+    'credited', v_credited,
+    'released', v_released,
+    'contributions_received', v_received,
+    'payouts_released', v_paid_out,
+    'discrepancy', (v_received - v_paid_out) - (v_credited - v_released),
+    'entries', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', e.id,
+        'entry_type', e.entry_type,
+        'amount', e.amount,
+        'member_name', p.full_name,
+        'payout_position', po.position,
+        'created_at', e.created_at
+      ) ORDER BY e.created_at, e.id)
+      FROM escrow_entries e
+      LEFT JOIN profiles p ON p.id = e.member_id
+      LEFT JOIN payouts po ON po.id = e.payout_id
+      WHERE e.thrift_system_id = p_thrift_system_id
+    ), '[]'::JSONB),
+    'held_payouts', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'payout_id', po.id,
+        'position', po.position,
+        'amount', po.amount,
+        'scheduled_date', po.scheduled_date,
+        'member_name', p.full_name,
+        'unpaid_contributions', (escrow_payout_shortfall(po.id)->>'unpaid_contributions')::INTEGER
+      ) ORDER BY po.position)
+      FROM payouts po
+      LEFT JOIN profiles p ON p.id = po.member_id
+      WHERE po.thrift_system_id = p_thrift_system_id
+        AND po.status = 'pending'
+        AND po.scheduled_date <= NOW()
+    ), '[]'::JSONB)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
@@ -0,0 +1,818 @@
+-- Double-entry journal behind every movement of money. Each journal entry
+-- has postings whose debits and credits must match; account balances,
+-- wallet balances and escrow totals are all derived from the postings.
+--
+-- Accounts:
+--   cash            money held with payment providers (asset, debit-normal)
+--   thrift_pool     what a thrift holds for its members
+--   escrow          the same for an escrow-enabled thrift
+--   thrift_premiums bid premiums waiting to be shared out with later payouts
+--   organizer_fees  commission and premiums kept by a thrift's organizer
+--   member_wallet   a user's wallet
+CREATE TABLE IF NOT EXISTS public.ledger_accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_type TEXT NOT NULL CHECK (account_type IN (
+    'cash', 'thrift_pool', 'escrow', 'thrift_premiums', 'organizer_fees', 'member_wallet'
+  )),
+  normal_balance TEXT NOT NULL CHECK (normal_balance IN ('debit', 'credit')),
+  thrift_system_id UUID REFERENCES public.thrift_systems(id) ON DELETE RESTRICT,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE RESTRICT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS ledger_accounts_owner_key
+  ON public.ledger_accounts (
+    account_type,
+    COALESCE(thrift_system_id, '00000000-0000-0000-0000-000000000000'),
+    COALESCE(user_id, '00000000-0000-0000-0000-000000000000')
+  );
+
+CREATE TABLE IF NOT EXISTS public.journal_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_type TEXT NOT NULL CHECK (entry_type IN (
+    'opening_balance', 'contribution', 'penalty', 'payout', 'payout_reversal',
+    'fee', 'bid_premium', 'premium_share', 'dividend', 'refund'
+  )),
+  thrift_system_id UUID REFERENCES public.thrift_systems(id) ON DELETE RESTRICT,
+  -- The member the money moved for, when there is one
+  member_id UUID REFERENCES public.profiles(id),
+  description TEXT,
+  -- Row that caused the entry, e.g. ('payment_allocation', id) or ('payout', id)
+  source_type TEXT,
+  source_id UUID,
+  reversal_of UUID REFERENCES public.journal_entries(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS journal_entries_source_idx
+  ON public.journal_entries (source_type, source_id);
+
+CREATE INDEX IF NOT EXISTS journal_entries_thrift_system_id_idx
+  ON public.journal_entries (thrift_system_id, created_at);
+
+CREATE UNIQUE INDEX IF NOT EXISTS journal_entries_reversal_of_key
+  ON public.journal_entries (reversal_of)
+  WHERE reversal_of IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.journal_postings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id UUID NOT NULL REFERENCES public.journal_entries(id) ON DELETE RESTRICT,
+  account_id UUID NOT NULL REFERENCES public.ledger_accounts(id) ON DELETE RESTRICT,
+  direction TEXT NOT NULL CHECK (direction IN ('debit', 'credit')),
+  amount NUMERIC NOT NULL CHECK (amount > 0)
+);
+
+CREATE INDEX IF NOT EXISTS journal_postings_entry_id_idx
+  ON public.journal_postings (entry_id);
+
+CREATE INDEX IF NOT EXISTS journal_postings_account_id_idx
+  ON public.journal_postings (account_id);
+
+ALTER TABLE public.ledger_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.journal_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.journal_postings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners, members and admins can view ledger accounts"
+ON public.ledger_accounts FOR SELECT
+USING (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE thrift_systems.id = ledger_accounts.thrift_system_id
+      AND thrift_systems.admin_id = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM memberships
+    WHERE memberships.thrift_system_id = ledger_accounts.thrift_system_id
+      AND memberships.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Involved members and admins can view journal entries"
+ON public.journal_entries FOR SELECT
+USING (
+  member_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE thrift_systems.id = journal_entries.thrift_system_id
+      AND thrift_systems.admin_id = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM memberships
+    WHERE memberships.thrift_system_id = journal_entries.thrift_system_id
+      AND memberships.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Postings are visible with their journal entry"
+ON public.journal_postings FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM journal_entries
+    WHERE journal_entries.id = journal_postings.entry_id
+  )
+);
+
+-- The journal is append-only: mistakes are corrected with reversing entries
+CREATE OR REPLACE FUNCTION public.prevent_journal_changes() RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'The journal is append-only; post a reversing entry instead';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS journal_entries_append_only ON public.journal_entries;
+
+CREATE TRIGGER journal_entries_append_only
+BEFORE UPDATE OR DELETE ON public.journal_entries
+FOR EACH ROW EXECUTE FUNCTION public.prevent_journal_changes();
+
+DROP TRIGGER IF EXISTS journal_postings_append_only ON public.journal_postings;
+
+CREATE TRIGGER journal_postings_append_only
+BEFORE UPDATE OR DELETE ON public.journal_postings
+FOR EACH ROW EXECUTE FUNCTION public.prevent_journal_changes();
+
+-- Checked at commit so an entry's postings can be inserted one at a time
+CREATE OR REPLACE FUNCTION public.check_journal_entry_balanced() RETURNS TRIGGER AS $$
+DECLARE
+  v_debits NUMERIC;
+  v_credits NUMERIC;
+BEGIN
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE direction = 'debit'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE direction = 'credit'), 0)
+  INTO v_debits, v_credits
+  FROM journal_postings
+  WHERE entry_id = NEW.entry_id;
+
+  IF v_debits <> v_credits THEN
+    RAISE EXCEPTION 'Journal entry % is unbalanced: debits % and credits %',
+      NEW.entry_id, v_debits, v_credits;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS journal_postings_balanced ON public.journal_postings;
+
+CREATE CONSTRAINT TRIGGER journal_postings_balanced
+AFTER INSERT ON public.journal_postings
+DEFERRABLE INITIALLY DEFERRED
+FOR EACH ROW EXECUTE FUNCTION public.check_journal_entry_balanced();
+
+-- Finds or opens the account of a type for a thrift and/or user
+CREATE OR REPLACE FUNCTION public.ledger_account_id(
+  p_account_type TEXT,
+  p_thrift_system_id UUID DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_account_id UUID;
+BEGIN
+  SELECT id INTO v_account_id
+  FROM ledger_accounts
+  WHERE account_type = p_account_type
+    AND thrift_system_id IS NOT DISTINCT FROM p_thrift_system_id
+    AND user_id IS NOT DISTINCT FROM p_user_id;
+
+  IF v_account_id IS NULL THEN
+    INSERT INTO ledger_accounts (account_type, normal_balance, thrift_system_id, user_id)
+    VALUES (
+      p_account_type,
+      CASE WHEN p_account_type = 'cash' THEN 'debit' ELSE 'credit' END,
+      p_thrift_system_id,
+      p_user_id
+    )
+    ON CONFLICT DO NOTHING
+    RETURNING id INTO v_account_id;
+
+    IF v_account_id IS NULL THEN
+      SELECT id INTO v_account_id
+      FROM ledger_accounts
+      WHERE account_type = p_account_type
+        AND thrift_system_id IS NOT DISTINCT FROM p_thrift_system_id
+        AND user_id IS NOT DISTINCT FROM p_user_id;
+    END IF;
+  END IF;
+
+  RETURN v_account_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Balance on the account's normal side
+CREATE OR REPLACE FUNCTION public.ledger_account_balance(p_account_id UUID) RETURNS NUMERIC AS $$
+  SELECT COALESCE(SUM(
+    CASE WHEN p.direction = a.normal_balance THEN p.amount ELSE -p.amount END
+  ), 0)
+  FROM ledger_accounts a
+  LEFT JOIN journal_postings p ON p.account_id = a.id
+  WHERE a.id = p_account_id;
+$$ LANGUAGE sql STABLE;
+
+-- Where a thrift's money is held at a given time: escrow once it was turned
+-- on, the plain pool otherwise
+CREATE OR REPLACE FUNCTION public.thrift_holding_account(
+  p_thrift_system_id UUID,
+  p_at TIMESTAMPTZ DEFAULT NOW()
+) RETURNS UUID AS $$
+DECLARE
+  v_system thrift_systems;
+BEGIN
+  SELECT * INTO v_system FROM thrift_systems WHERE id = p_thrift_system_id;
+
+  IF COALESCE(v_system.is_escrow_enabled, FALSE) AND p_at >= v_system.escrow_enabled_at THEN
+    RETURN ledger_account_id('escrow', p_thrift_system_id);
+  END IF;
+
+  RETURN ledger_account_id('thrift_pool', p_thrift_system_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Posts a two-legged entry moving `p_amount` from the credit account to the
+-- debit account. Returns NULL without posting when there is nothing to move.
+CREATE OR REPLACE FUNCTION public.post_ledger_transfer(
+  p_entry_type TEXT,
+  p_thrift_system_id UUID,
+  p_member_id UUID,
+  p_debit_account_id UUID,
+  p_credit_account_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT,
+  p_source_type TEXT,
+  p_source_id UUID,
+  p_created_at TIMESTAMPTZ DEFAULT NOW()
+) RETURNS UUID AS $$
+DECLARE
+  v_entry_id UUID;
+BEGIN
+  IF p_amount IS NULL OR p_amount = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_amount < 0 THEN
+    RAISE EXCEPTION 'Cannot post a negative amount of %', p_amount;
+  END IF;
+
+  INSERT INTO journal_entries (entry_type, thrift_system_id, member_id, description, source_type, source_id, created_at)
+  VALUES (p_entry_type, p_thrift_system_id, p_member_id, p_description, p_source_type, p_source_id, p_created_at)
+  RETURNING id INTO v_entry_id;
+
+  INSERT INTO journal_postings (entry_id, account_id, direction, amount)
+  VALUES
+    (v_entry_id, p_debit_account_id, 'debit', p_amount),
+    (v_entry_id, p_credit_account_id, 'credit', p_amount);
+
+  RETURN v_entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Reverses every entry of the given types posted for a source row that has
+-- not been reversed already
+CREATE OR REPLACE FUNCTION public.reverse_ledger_entries(
+  p_source_type TEXT,
+  p_source_id UUID,
+  p_entry_types TEXT[],
+  p_reversal_type TEXT
+) RETURNS INTEGER AS $$
+DECLARE
+  v_entry journal_entries;
+  v_reversal_id UUID;
+  v_reversed INTEGER := 0;
+BEGIN
+  FOR v_entry IN
+    SELECT * FROM journal_entries e
+    WHERE e.source_type = p_source_type
+      AND e.source_id = p_source_id
+      AND e.entry_type = ANY(p_entry_types)
+      AND NOT EXISTS (SELECT 1 FROM journal_entries r WHERE r.reversal_of = e.id)
+    ORDER BY e.created_at
+  LOOP
+    INSERT INTO journal_entries (entry_type, thrift_system_id, member_id, description, source_type, source_id, reversal_of)
+    VALUES (
+      p_reversal_type, v_entry.thrift_system_id, v_entry.member_id,
+      'Reversal of ' || v_entry.entry_type, p_source_type, p_source_id, v_entry.id
+    )
+    RETURNING id INTO v_reversal_id;
+
+    INSERT INTO journal_postings (entry_id, account_id, direction, amount)
+    SELECT
+      v_reversal_id,
+      account_id,
+      CASE WHEN direction = 'debit' THEN 'credit' ELSE 'debit' END,
+      amount
+    FROM journal_postings
+    WHERE entry_id = v_entry.id;
+
+    v_reversed := v_reversed + 1;
+  END LOOP;
+
+  RETURN v_reversed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.ledger_account_id(TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.thrift_holding_account(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_ledger_transfer(TEXT, UUID, UUID, UUID, UUID, NUMERIC, TEXT, TEXT, UUID, TIMESTAMPTZ)
+  FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reverse_ledger_entries(TEXT, UUID, TEXT[], TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Contribution and penalty payments come in from the payer's provider
+CREATE OR REPLACE FUNCTION public.post_payment_allocation(p_allocation_id UUID) RETURNS UUID AS $$
+DECLARE
+  v_allocation payment_allocations;
+  v_thrift_system_id UUID;
+  v_member_id UUID;
+BEGIN
+  SELECT * INTO v_allocation FROM payment_allocations WHERE id = p_allocation_id;
+
+  SELECT m.thrift_system_id, m.user_id INTO v_thrift_system_id, v_member_id
+  FROM contributions c
+  JOIN memberships m ON m.id = c.membership_id
+  WHERE c.id = v_allocation.contribution_id;
+
+  RETURN post_ledger_transfer(
+    CASE WHEN v_allocation.allocation_type = 'penalty' THEN 'penalty' ELSE 'contribution' END,
+    v_thrift_system_id,
+    v_member_id,
+    ledger_account_id('cash'),
+    thrift_holding_account(v_thrift_system_id, v_allocation.created_at),
+    v_allocation.amount,
+    NULL,
+    'payment_allocation',
+    v_allocation.id,
+    v_allocation.created_at
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A released payout leaves the thrift's holding account. Bid premiums the
+-- winner gave up move to the premiums account (or the organizer), and
+-- premium shares come back from it to top up the payout.
+CREATE OR REPLACE FUNCTION public.post_payout_release(
+  p_payout payouts,
+  p_created_at TIMESTAMPTZ DEFAULT NOW()
+) RETURNS UUID AS $$
+DECLARE
+  v_system thrift_systems;
+  v_holding UUID;
+  v_entry_id UUID;
+BEGIN
+  SELECT * INTO v_system FROM thrift_systems WHERE id = p_payout.thrift_system_id;
+  v_holding := thrift_holding_account(p_payout.thrift_system_id, p_created_at);
+
+  -- Auction commission and dividends are posted when the round closes
+  IF v_system.payout_schedule_mode <> 'auction' THEN
+    PERFORM post_ledger_transfer(
+      'bid_premium', p_payout.thrift_system_id, p_payout.member_id,
+      v_holding,
+      CASE
+        WHEN v_system.bid_premium_policy = 'organizer_fee'
+          THEN ledger_account_id('organizer_fees', p_payout.thrift_system_id)
+        ELSE ledger_account_id('thrift_premiums', p_payout.thrift_system_id)
+      END,
+      p_payout.bid_premium, NULL, 'payout', p_payout.id, p_created_at
+    );
+
+    PERFORM post_ledger_transfer(
+      'premium_share', p_payout.thrift_system_id, p_payout.member_id,
+      ledger_account_id('thrift_premiums', p_payout.thrift_system_id),
+      v_holding,
+      p_payout.premium_share, NULL, 'payout', p_payout.id, p_created_at
+    );
+  END IF;
+
+  v_entry_id := post_ledger_transfer(
+    'payout', p_payout.thrift_system_id, p_payout.member_id,
+    v_holding,
+    ledger_account_id('cash'),
+    p_payout.amount, 'Payout for position ' || p_payout.position, 'payout', p_payout.id, p_created_at
+  );
+
+  RETURN v_entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.post_payment_allocation(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_payout_release(payouts, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- Escrow is now an account in the journal rather than a table of its own
+DROP TRIGGER IF EXISTS payment_allocations_credit_escrow ON public.payment_allocations;
+DROP FUNCTION IF EXISTS public.credit_escrow_allocation();
+
+CREATE OR REPLACE FUNCTION public.post_allocation_to_ledger() RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM post_payment_allocation(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS payment_allocations_post_ledger ON public.payment_allocations;
+
+CREATE TRIGGER payment_allocations_post_ledger
+AFTER INSERT ON public.payment_allocations
+FOR EACH ROW EXECUTE FUNCTION public.post_allocation_to_ledger();
+
+CREATE OR REPLACE FUNCTION public.escrow_balance(p_thrift_system_id UUID) RETURNS NUMERIC AS $$
+  SELECT COALESCE((
+    SELECT ledger_account_balance(id)
+    FROM ledger_accounts
+    WHERE account_type = 'escrow' AND thrift_system_id = p_thrift_system_id
+  ), 0);
+$$ LANGUAGE sql STABLE;
+
+-- What releasing a payout takes out of the holding account: the payout
+-- itself plus the premium the winner gave up, less the premium share that
+-- comes back in from the premiums account
+CREATE OR REPLACE FUNCTION public.escrow_payout_shortfall(p_payout_id UUID) RETURNS JSONB AS $$
+DECLARE
+  v_payout payouts;
+  v_mode TEXT;
+  v_needed NUMERIC;
+  v_unpaid_contributions INTEGER;
+  v_balance NUMERIC;
+BEGIN
+  SELECT * INTO v_payout FROM payouts WHERE id = p_payout_id;
+  SELECT payout_schedule_mode INTO v_mode FROM thrift_systems WHERE id = v_payout.thrift_system_id;
+
+  v_needed := v_payout.amount + CASE
+    WHEN v_mode = 'auction' THEN 0
+    ELSE v_payout.bid_premium - v_payout.premium_share
+  END;
+
+  SELECT COUNT(*) INTO v_unpaid_contributions
+  FROM contributions c
+  JOIN memberships m ON m.id = c.membership_id
+  WHERE m.thrift_system_id = v_payout.thrift_system_id
+    AND c.period_number = v_payout.position
+    AND c.status <> 'completed';
+
+  v_balance := escrow_balance(v_payout.thrift_system_id);
+
+  RETURN jsonb_build_object(
+    'unpaid_contributions', v_unpaid_contributions,
+    'balance', v_balance,
+    'shortfall', GREATEST(v_needed - v_balance, 0)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS payouts_release_escrow ON public.payouts;
+DROP FUNCTION IF EXISTS public.release_escrow_payout();
+
+-- Posts payouts as they are released and reverses them if they fail
+-- afterwards. Payouts of escrow-enabled thrifts are held until funded.
+CREATE OR REPLACE FUNCTION public.post_payout_status_change() RETURNS TRIGGER AS $$
+DECLARE
+  v_shortfall JSONB;
+  v_entry_id UUID;
+  v_escrow BOOLEAN;
+BEGIN
+  SELECT COALESCE(is_escrow_enabled, FALSE) INTO v_escrow
+  FROM thrift_systems WHERE id = NEW.thrift_system_id;
+
+  IF OLD.status IN ('pending', 'failed') AND NEW.status IN ('processing', 'completed') THEN
+    IF v_escrow THEN
+      v_shortfall := escrow_payout_shortfall(NEW.id);
+
+      IF (v_shortfall->>'unpaid_contributions')::INTEGER > 0 THEN
+        RAISE EXCEPTION 'Payout % is held in escrow: % contributions for this period are still unpaid',
+          NEW.position, v_shortfall->>'unpaid_contributions';
+      END IF;
+
+      IF (v_shortfall->>'shortfall')::NUMERIC > 0 THEN
+        RAISE EXCEPTION 'Payout % is held in escrow: the balance of % is % short',
+          NEW.position, v_shortfall->>'balance', v_shortfall->>'shortfall';
+      END IF;
+    END IF;
+
+    v_entry_id := post_payout_release(NEW);
+
+    IF v_escrow THEN
+      NEW.escrow_reference := v_entry_id::TEXT;
+    END IF;
+  ELSIF OLD.status IN ('processing', 'completed') AND NEW.status IN ('pending', 'failed') THEN
+    PERFORM reverse_ledger_entries(
+      'payout', NEW.id, ARRAY['payout', 'bid_premium', 'premium_share'], 'payout_reversal'
+    );
+    NEW.escrow_reference := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS payouts_post_ledger ON public.payouts;
+
+CREATE TRIGGER payouts_post_ledger
+BEFORE UPDATE OF status ON public.payouts
+FOR EACH ROW EXECUTE FUNCTION public.post_payout_status_change();
+
+-- The organizer's auction commission is earned when a round closes
+CREATE OR REPLACE FUNCTION public.post_auction_commission() RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'closed' AND OLD.status <> 'closed' THEN
+    PERFORM post_ledger_transfer(
+      'fee', NEW.thrift_system_id, NULL,
+      thrift_holding_account(NEW.thrift_system_id),
+      ledger_account_id('organizer_fees', NEW.thrift_system_id),
+      NEW.commission_amount, 'Auction commission for period ' || NEW.period_number,
+      'auction_round', NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS auction_rounds_post_commission ON public.auction_rounds;
+
+CREATE TRIGGER auction_rounds_post_commission
+AFTER UPDATE OF status ON public.auction_rounds
+FOR EACH ROW EXECUTE FUNCTION public.post_auction_commission();
+
+-- Auction dividends are credited to each member's wallet
+CREATE OR REPLACE FUNCTION public.post_dividend_credit() RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM post_ledger_transfer(
+    'dividend', NEW.thrift_system_id, NEW.member_id,
+    thrift_holding_account(NEW.thrift_system_id, NEW.created_at),
+    ledger_account_id('member_wallet', NULL, NEW.member_id),
+    NEW.amount, NULL, 'dividend_credit', NEW.id, NEW.created_at
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS dividend_credits_post_ledger ON public.dividend_credits;
+
+CREATE TRIGGER dividend_credits_post_ledger
+AFTER INSERT ON public.dividend_credits
+FOR EACH ROW EXECUTE FUNCTION public.post_dividend_credit();
+
+-- `wallets.balance` mirrors the user's wallet account and cannot be set
+-- directly
+CREATE OR REPLACE FUNCTION public.derive_wallet_balance() RETURNS TRIGGER AS $$
+BEGIN
+  NEW.balance := COALESCE((
+    SELECT ledger_account_balance(id)
+    FROM ledger_accounts
+    WHERE account_type = 'member_wallet' AND user_id = NEW.user_id
+  ), 0);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.sync_wallet_balance() RETURNS TRIGGER AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  SELECT user_id INTO v_user_id
+  FROM ledger_accounts
+  WHERE id = NEW.account_id AND account_type = 'member_wallet';
+
+  IF v_user_id IS NOT NULL THEN
+    -- The balance itself is filled in by `derive_wallet_balance`
+    UPDATE wallets SET balance = NULL WHERE user_id = v_user_id;
+
+    IF NOT FOUND THEN
+      INSERT INTO wallets (user_id) VALUES (v_user_id);
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Existing wallet balances, auction rounds, dividends, payments and
+-- released payouts are posted once so the derived balances start out right
+DO $$
+DECLARE
+  v_wallet RECORD;
+  v_allocation RECORD;
+  v_payout payouts;
+  v_round RECORD;
+  v_dividend RECORD;
+  v_entry_id UUID;
+BEGIN
+  FOR v_wallet IN SELECT * FROM wallets WHERE user_id IS NOT NULL AND balance > 0 LOOP
+    PERFORM post_ledger_transfer(
+      'opening_balance', NULL, v_wallet.user_id,
+      ledger_account_id('cash'),
+      ledger_account_id('member_wallet', NULL, v_wallet.user_id),
+      v_wallet.balance, 'Wallet balance before the ledger', 'wallet', v_wallet.id
+    );
+  END LOOP;
+
+  FOR v_allocation IN SELECT id FROM payment_allocations ORDER BY created_at LOOP
+    PERFORM post_payment_allocation(v_allocation.id);
+  END LOOP;
+
+  FOR v_round IN SELECT * FROM auction_rounds WHERE status = 'closed' ORDER BY closed_at LOOP
+    PERFORM post_ledger_transfer(
+      'fee', v_round.thrift_system_id, NULL,
+      thrift_holding_account(v_round.thrift_system_id, v_round.closed_at),
+      ledger_account_id('organizer_fees', v_round.thrift_system_id),
+      v_round.commission_amount, 'Auction commission for period ' || v_round.period_number,
+      'auction_round', v_round.id, v_round.closed_at
+    );
+  END LOOP;
+
+  FOR v_dividend IN SELECT * FROM dividend_credits ORDER BY created_at LOOP
+    PERFORM post_ledger_transfer(
+      'dividend', v_dividend.thrift_system_id, v_dividend.member_id,
+      thrift_holding_account(v_dividend.thrift_system_id, v_dividend.created_at),
+      ledger_account_id('member_wallet', NULL, v_dividend.member_id),
+      v_dividend.amount, NULL, 'dividend_credit', v_dividend.id, v_dividend.created_at
+    );
+  END LOOP;
+
+  FOR v_payout IN
+    SELECT * FROM payouts
+    WHERE status IN ('processing', 'completed')
+    ORDER BY COALESCE(completed_date, scheduled_date)
+  LOOP
+    v_entry_id := post_payout_release(v_payout, COALESCE(v_payout.completed_date, v_payout.scheduled_date));
+
+    IF v_payout.escrow_reference IS NOT NULL THEN
+      UPDATE payouts SET escrow_reference = v_entry_id::TEXT WHERE id = v_payout.id;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS wallets_derive_balance ON public.wallets;
+
+CREATE TRIGGER wallets_derive_balance
+BEFORE INSERT OR UPDATE ON public.wallets
+FOR EACH ROW EXECUTE FUNCTION public.derive_wallet_balance();
+
+DROP TRIGGER IF EXISTS journal_postings_sync_wallet ON public.journal_postings;
+
+CREATE TRIGGER journal_postings_sync_wallet
+AFTER INSERT ON public.journal_postings
+FOR EACH ROW EXECUTE FUNCTION public.sync_wallet_balance();
+
+-- Wallets created by the backfill above
+UPDATE public.wallets SET balance = NULL
+WHERE user_id IN (SELECT user_id FROM ledger_accounts WHERE account_type = 'member_wallet');
+
+INSERT INTO public.wallets (user_id)
+SELECT a.user_id FROM ledger_accounts a
+WHERE a.account_type = 'member_wallet'
+  AND NOT EXISTS (SELECT 1 FROM wallets w WHERE w.user_id = a.user_id);
+
+DROP TABLE IF EXISTS public.escrow_entries;
+
+-- Escrow statement, now read from the thrift's escrow account. Reconciled
+-- against the payments and payouts recorded since escrow was turned on;
+-- any difference means money moved outside escrow.
+CREATE OR REPLACE FUNCTION public.escrow_statement(p_thrift_system_id UUID) RETURNS JSONB AS $$
+DECLARE
+  v_system thrift_systems;
+  v_account_id UUID;
+  v_credited NUMERIC;
+  v_released NUMERIC;
+  v_escrow_contributions NUMERIC;
+  v_escrow_payouts NUMERIC;
+  v_received NUMERIC;
+  v_paid_out NUMERIC;
+BEGIN
+  SELECT * INTO v_system FROM thrift_systems WHERE id = p_thrift_system_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Thrift system % not found', p_thrift_system_id;
+  END IF;
+
+  IF v_system.admin_id <> auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM memberships
+    WHERE thrift_system_id = p_thrift_system_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only members and the admin can view this escrow statement';
+  END IF;
+
+  IF NOT COALESCE(v_system.is_escrow_enabled, FALSE) THEN
+    RAISE EXCEPTION 'Escrow is not enabled for this thrift system';
+  END IF;
+
+  v_account_id := ledger_account_id('escrow', p_thrift_system_id);
+
+  SELECT
+    COALESCE(SUM(p.amount) FILTER (WHERE p.direction = 'credit'), 0),
+    COALESCE(SUM(p.amount) FILTER (WHERE p.direction = 'debit'), 0),
+    COALESCE(SUM(p.amount) FILTER (
+      WHERE p.direction = 'credit' AND e.entry_type IN ('contribution', 'penalty')
+    ), 0),
+    COALESCE(SUM(CASE WHEN p.direction = 'debit' THEN p.amount ELSE -p.amount END) FILTER (
+      WHERE e.entry_type = 'payout' OR (e.entry_type = 'payout_reversal' AND r.entry_type = 'payout')
+    ), 0)
+  INTO v_credited, v_released, v_escrow_contributions, v_escrow_payouts
+  FROM journal_postings p
+  JOIN journal_entries e ON e.id = p.entry_id
+  LEFT JOIN journal_entries r ON r.id = e.reversal_of
+  WHERE p.account_id = v_account_id;
+
+  SELECT COALESCE(SUM(a.amount), 0) INTO v_received
+  FROM payment_allocations a
+  JOIN contributions c ON c.id = a.contribution_id
+  JOIN memberships m ON m.id = c.membership_id
+  WHERE m.thrift_system_id = p_thrift_system_id
+    AND a.created_at >= v_system.escrow_enabled_at;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_paid_out
+  FROM payouts
+  WHERE thrift_system_id = p_thrift_system_id
+    AND status IN ('processing', 'completed')
+    AND (scheduled_date >= v_system.escrow_enabled_at OR escrow_reference IS NOT NULL);
+
+  RETURN jsonb_build_object(
+    'enabled_at', v_system.escrow_enabled_at,
+    'balance', v_credited - v_released,
+    'credited', v_credited,
+    'released', v_released,
+    'contributions_received', v_received,
+    'payouts_released', v_paid_out,
+    'discrepancy', (v_received - v_paid_out) - (v_escrow_contributions - v_escrow_payouts),
+    'entries', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', p.id,
+        'entry_type', e.entry_type,
+        'amount', CASE WHEN p.direction = 'credit' THEN p.amount ELSE -p.amount END,
+        'member_name', pr.full_name,
+        'payout_position', po.position,
+        'created_at', e.created_at
+      ) ORDER BY e.created_at, e.id)
+      FROM journal_postings p
+      JOIN journal_entries e ON e.id = p.entry_id
+      LEFT JOIN profiles pr ON pr.id = e.member_id
+      LEFT JOIN payouts po ON e.source_type = 'payout' AND po.id = e.source_id
+      WHERE p.account_id = v_account_id
+    ), '[]'::JSONB),
+    'held_payouts', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'payout_id', po.id,
+        'position', po.position,
+        'amount', po.amount,
+        'scheduled_date', po.scheduled_date,
+        'member_name', pr.full_name,
+        'unpaid_contributions', (escrow_payout_shortfall(po.id)->>'unpaid_contributions')::INTEGER
+      ) ORDER BY po.position)
+      FROM payouts po
+      LEFT JOIN profiles pr ON pr.id = po.member_id
+      WHERE po.thrift_system_id = p_thrift_system_id
+        AND po.status = 'pending'
+        AND po.scheduled_date <= NOW()
+    ), '[]'::JSONB)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Invariant check over the whole journal. Raises when total debits and
+-- credits differ or any single entry is unbalanced; run nightly so a
+-- failure shows up in the cron job history.
+CREATE OR REPLACE FUNCTION public.assert_ledger_balanced() RETURNS JSONB AS $$
+DECLARE
+  v_debits NUMERIC;
+  v_credits NUMERIC;
+  v_unbalanced UUID[];
+BEGIN
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE direction = 'debit'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE direction = 'credit'), 0)
+  INTO v_debits, v_credits
+  FROM journal_postings;
+
+  SELECT ARRAY_AGG(entry_id) INTO v_unbalanced
+  FROM (
+    SELECT entry_id
+    FROM journal_postings
+    GROUP BY entry_id
+    HAVING SUM(CASE WHEN direction = 'debit' THEN amount ELSE -amount END) <> 0
+  ) AS unbalanced;
+
+  IF v_debits <> v_credits OR v_unbalanced IS NOT NULL THEN
+    RAISE EXCEPTION 'Ledger is out of balance: debits %, credits %, unbalanced entries %',
+      v_debits, v_credits, COALESCE(v_unbalanced::TEXT, '{}');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM wallets w
+    JOIN ledger_accounts a ON a.account_type = 'member_wallet' AND a.user_id = w.user_id
+    WHERE w.balance IS DISTINCT FROM ledger_account_balance(a.id)
+  ) THEN
+    RAISE EXCEPTION 'Wallet balances no longer match the ledger';
+  END IF;
+
+  RETURN jsonb_build_object('debits', v_debits, 'credits', v_credits);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.assert_ledger_balanced() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'assert-ledger-balanced',
+  '0 3 * * *',
+  $$SELECT public.assert_ledger_balanced()$$
+);
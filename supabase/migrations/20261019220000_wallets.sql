@@ -0,0 +1,558 @@
+-- In-app wallets: top-ups through a payment gateway, paying contributions
+-- from the balance (by hand or automatically on the due date), payouts
+-- landing in the wallet and withdrawals to a verified bank account. The
+-- balance itself is the user's `member_wallet` ledger account.
+ALTER TABLE public.journal_entries DROP CONSTRAINT IF EXISTS journal_entries_entry_type_check;
+
+ALTER TABLE public.journal_entries ADD CONSTRAINT journal_entries_entry_type_check
+  CHECK (entry_type IN (
+    'opening_balance', 'contribution', 'penalty', 'payout', 'payout_reversal',
+    'fee', 'bid_premium', 'premium_share', 'dividend', 'refund',
+    'wallet_topup', 'wallet_payment', 'withdrawal', 'withdrawal_reversal'
+  ));
+
+ALTER TABLE public.memberships
+  ADD COLUMN IF NOT EXISTS wallet_autopay BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS payout_destination TEXT NOT NULL DEFAULT 'bank_account'
+  CHECK (payout_destination IN ('bank_account', 'wallet'));
+
+-- Where a released payout went, copied from the membership at release
+ALTER TABLE public.payouts
+  ADD COLUMN IF NOT EXISTS destination TEXT NOT NULL DEFAULT 'bank_account'
+  CHECK (destination IN ('bank_account', 'wallet'));
+
+CREATE TABLE IF NOT EXISTS public.wallet_topups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  gateway TEXT NOT NULL,
+  gateway_reference TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.wallet_withdrawals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  bank_account_id UUID NOT NULL REFERENCES public.bank_accounts(id),
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+  failure_reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS wallet_topups_user_id_idx
+  ON public.wallet_topups (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS wallet_withdrawals_user_id_idx
+  ON public.wallet_withdrawals (user_id, created_at DESC);
+
+ALTER TABLE public.wallet_topups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.wallet_withdrawals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own top-ups"
+ON public.wallet_topups FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view their own withdrawals"
+ON public.wallet_withdrawals FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION public.wallet_balance(p_user_id UUID) RETURNS NUMERIC AS $$
+  SELECT COALESCE((
+    SELECT ledger_account_balance(id)
+    FROM ledger_accounts
+    WHERE account_type = 'member_wallet' AND user_id = p_user_id
+  ), 0);
+$$ LANGUAGE sql STABLE;
+
+-- The caller's balance and latest wallet activity, newest first. Amounts
+-- are positive when money came into the wallet.
+CREATE OR REPLACE FUNCTION public.wallet_statement() RETURNS JSONB AS $$
+BEGIN
+  RETURN jsonb_build_object(
+    'balance', wallet_balance(auth.uid()),
+    'entries', COALESCE((
+      SELECT jsonb_agg(latest.entry ORDER BY latest.created_at DESC)
+      FROM (
+        SELECT jsonb_build_object(
+          'id', e.id,
+          'entry_type', e.entry_type,
+          'amount', CASE WHEN p.direction = 'credit' THEN p.amount ELSE -p.amount END,
+          'description', e.description,
+          'thrift_name', t.name,
+          'created_at', e.created_at
+        ) AS entry, e.created_at
+        FROM journal_postings p
+        JOIN ledger_accounts a ON a.id = p.account_id
+        JOIN journal_entries e ON e.id = p.entry_id
+        LEFT JOIN thrift_systems t ON t.id = e.thrift_system_id
+        WHERE a.account_type = 'member_wallet' AND a.user_id = auth.uid()
+        ORDER BY e.created_at DESC
+        LIMIT 50
+      ) latest
+    ), '[]'::JSONB)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Credits a top-up the gateway has confirmed. The gateway reference is
+-- unique, so the same payment can never be credited twice.
+CREATE OR REPLACE FUNCTION public.credit_wallet_topup(
+  p_amount NUMERIC,
+  p_gateway TEXT,
+  p_gateway_reference TEXT
+) RETURNS JSONB AS $$
+DECLARE
+  v_topup_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to top up a wallet';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Top-up amount must be greater than zero';
+  END IF;
+
+  IF COALESCE(p_gateway_reference, '') = '' THEN
+    RAISE EXCEPTION 'A gateway reference is required';
+  END IF;
+
+  INSERT INTO wallet_topups (user_id, amount, gateway, gateway_reference)
+  VALUES (auth.uid(), p_amount, p_gateway, p_gateway_reference)
+  ON CONFLICT (gateway_reference) DO NOTHING
+  RETURNING id INTO v_topup_id;
+
+  IF v_topup_id IS NULL THEN
+    RAISE EXCEPTION 'This payment has already been credited';
+  END IF;
+
+  PERFORM post_ledger_transfer(
+    'wallet_topup', NULL, auth.uid(),
+    ledger_account_id('cash'),
+    ledger_account_id('member_wallet', NULL, auth.uid()),
+    p_amount, 'Top-up via ' || p_gateway, 'wallet_topup', v_topup_id
+  );
+
+  RETURN jsonb_build_object(
+    'topup_id', v_topup_id,
+    'balance', wallet_balance(auth.uid())
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The body of `record_contribution_payment` without its permission check,
+-- so scheduled jobs and wallet payments can record payments too
+CREATE OR REPLACE FUNCTION public.apply_contribution_payment(
+  p_contribution_id UUID,
+  p_amount NUMERIC,
+  p_reference TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+  v_contribution contributions;
+  v_penalties_owed NUMERIC;
+  v_principal_owed NUMERIC;
+  v_to_penalties NUMERIC;
+  v_to_principal NUMERIC;
+  v_remaining NUMERIC;
+  v_status TEXT;
+  v_payment_id UUID;
+BEGIN
+  SELECT * INTO v_contribution FROM contributions WHERE id = p_contribution_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contribution % not found', p_contribution_id;
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero';
+  END IF;
+
+  SELECT
+    COALESCE((SELECT SUM(amount) FROM contribution_penalties WHERE contribution_id = p_contribution_id), 0)
+    - COALESCE((SELECT SUM(amount) FROM payment_allocations
+                WHERE contribution_id = p_contribution_id AND allocation_type = 'penalty'), 0),
+    v_contribution.amount
+    - COALESCE((SELECT SUM(amount) FROM payment_allocations
+                WHERE contribution_id = p_contribution_id AND allocation_type = 'principal'), 0)
+  INTO v_penalties_owed, v_principal_owed;
+
+  IF p_amount > v_penalties_owed + v_principal_owed THEN
+    RAISE EXCEPTION 'Payment of % is more than the % still owed', p_amount, v_penalties_owed + v_principal_owed;
+  END IF;
+
+  INSERT INTO contribution_payments (membership_id, amount, reference, recorded_by)
+  VALUES (v_contribution.membership_id, p_amount, p_reference, auth.uid())
+  RETURNING id INTO v_payment_id;
+
+  v_to_penalties := LEAST(p_amount, v_penalties_owed);
+  v_to_principal := p_amount - v_to_penalties;
+
+  IF v_to_penalties > 0 THEN
+    INSERT INTO payment_allocations (payment_id, contribution_id, allocation_type, amount)
+    VALUES (v_payment_id, p_contribution_id, 'penalty', v_to_penalties);
+  END IF;
+
+  IF v_to_principal > 0 THEN
+    INSERT INTO payment_allocations (payment_id, contribution_id, allocation_type, amount)
+    VALUES (v_payment_id, p_contribution_id, 'principal', v_to_principal);
+  END IF;
+
+  v_remaining := v_penalties_owed + v_principal_owed - p_amount;
+  v_status := CASE WHEN v_remaining = 0 THEN 'completed' ELSE 'partially_paid' END;
+
+  UPDATE contributions
+  SET
+    status = v_status,
+    paid_date = CASE WHEN v_remaining = 0 THEN NOW() ELSE paid_date END
+  WHERE id = p_contribution_id;
+
+  IF v_remaining = 0 THEN
+    UPDATE guarantor_calls SET status = 'lapsed'
+    WHERE contribution_id = p_contribution_id AND status = 'open';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'payment_id', v_payment_id,
+    'status', v_status,
+    'remaining', v_remaining
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.apply_contribution_payment(UUID, NUMERIC, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.record_contribution_payment(
+  p_contribution_id UUID,
+  p_amount NUMERIC,
+  p_reference TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+  v_membership memberships;
+BEGIN
+  SELECT m.* INTO v_membership
+  FROM contributions c
+  JOIN memberships m ON m.id = c.membership_id
+  WHERE c.id = p_contribution_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contribution % not found', p_contribution_id;
+  END IF;
+
+  IF v_membership.user_id <> auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = v_membership.thrift_system_id AND admin_id = auth.uid()
+  ) AND NOT EXISTS (
+    SELECT 1 FROM guarantor_calls c
+    JOIN membership_guarantors g ON g.id = c.guarantee_id
+    WHERE c.contribution_id = p_contribution_id
+      AND c.status = 'open'
+      AND g.guarantor_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the member, a called guarantor or the thrift system admin can record this payment';
+  END IF;
+
+  RETURN apply_contribution_payment(p_contribution_id, p_amount, p_reference);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Moves money from a user's wallet onto a contribution. The wallet account
+-- row is locked so concurrent payments cannot overdraw it.
+CREATE OR REPLACE FUNCTION public.debit_wallet_for_contribution(
+  p_user_id UUID,
+  p_contribution_id UUID,
+  p_amount NUMERIC
+) RETURNS JSONB AS $$
+DECLARE
+  v_account_id UUID;
+  v_balance NUMERIC;
+  v_result JSONB;
+  v_thrift_system_id UUID;
+BEGIN
+  v_account_id := ledger_account_id('member_wallet', NULL, p_user_id);
+  PERFORM 1 FROM ledger_accounts WHERE id = v_account_id FOR UPDATE;
+
+  v_balance := ledger_account_balance(v_account_id);
+
+  IF p_amount > v_balance THEN
+    RAISE EXCEPTION 'Your wallet balance of % is not enough to pay %', v_balance, p_amount;
+  END IF;
+
+  v_result := apply_contribution_payment(p_contribution_id, p_amount, 'Wallet');
+
+  SELECT m.thrift_system_id INTO v_thrift_system_id
+  FROM contributions c
+  JOIN memberships m ON m.id = c.membership_id
+  WHERE c.id = p_contribution_id;
+
+  PERFORM post_ledger_transfer(
+    'wallet_payment', v_thrift_system_id, p_user_id,
+    v_account_id,
+    ledger_account_id('cash'),
+    p_amount, 'Contribution paid from wallet', 'contribution_payment', (v_result->>'payment_id')::UUID
+  );
+
+  RETURN v_result || jsonb_build_object('balance', v_balance - p_amount);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.debit_wallet_for_contribution(UUID, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.pay_contribution_from_wallet(
+  p_contribution_id UUID,
+  p_amount NUMERIC
+) RETURNS JSONB AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM contributions c
+    JOIN memberships m ON m.id = c.membership_id
+    WHERE c.id = p_contribution_id AND m.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You can only pay your own contributions from your wallet';
+  END IF;
+
+  RETURN debit_wallet_for_contribution(auth.uid(), p_contribution_id, p_amount);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.update_wallet_preferences(
+  p_membership_id UUID,
+  p_wallet_autopay BOOLEAN,
+  p_payout_destination TEXT
+) RETURNS VOID AS $$
+BEGIN
+  UPDATE memberships
+  SET
+    wallet_autopay = p_wallet_autopay,
+    payout_destination = p_payout_destination
+  WHERE id = p_membership_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Membership % not found', p_membership_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Takes the wallet money out straight away; a failed transfer puts it back
+CREATE OR REPLACE FUNCTION public.request_wallet_withdrawal(
+  p_bank_account_id UUID,
+  p_amount NUMERIC
+) RETURNS JSONB AS $$
+DECLARE
+  v_account_id UUID;
+  v_balance NUMERIC;
+  v_withdrawal_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM bank_accounts
+    WHERE id = p_bank_account_id
+      AND user_id = auth.uid()
+      AND verification_status = 'verified'
+  ) THEN
+    RAISE EXCEPTION 'Withdrawals can only go to one of your verified bank accounts';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Withdrawal amount must be greater than zero';
+  END IF;
+
+  v_account_id := ledger_account_id('member_wallet', NULL, auth.uid());
+  PERFORM 1 FROM ledger_accounts WHERE id = v_account_id FOR UPDATE;
+
+  v_balance := ledger_account_balance(v_account_id);
+
+  IF p_amount > v_balance THEN
+    RAISE EXCEPTION 'Your wallet balance of % is not enough to withdraw %', v_balance, p_amount;
+  END IF;
+
+  INSERT INTO wallet_withdrawals (user_id, bank_account_id, amount)
+  VALUES (auth.uid(), p_bank_account_id, p_amount)
+  RETURNING id INTO v_withdrawal_id;
+
+  PERFORM post_ledger_transfer(
+    'withdrawal', NULL, auth.uid(),
+    v_account_id,
+    ledger_account_id('cash'),
+    p_amount, 'Withdrawal to bank account', 'wallet_withdrawal', v_withdrawal_id
+  );
+
+  RETURN jsonb_build_object(
+    'withdrawal_id', v_withdrawal_id,
+    'balance', v_balance - p_amount
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.reverse_failed_withdrawal() RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'failed' AND OLD.status <> 'failed' THEN
+    PERFORM reverse_ledger_entries('wallet_withdrawal', NEW.id, ARRAY['withdrawal'], 'withdrawal_reversal');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS wallet_withdrawals_reverse_failed ON public.wallet_withdrawals;
+
+CREATE TRIGGER wallet_withdrawals_reverse_failed
+AFTER UPDATE OF status ON public.wallet_withdrawals
+FOR EACH ROW EXECUTE FUNCTION public.reverse_failed_withdrawal();
+
+-- Payouts to a wallet are credited to the member's wallet account instead
+-- of leaving through the payment provider
+CREATE OR REPLACE FUNCTION public.post_payout_release(
+  p_payout payouts,
+  p_created_at TIMESTAMPTZ DEFAULT NOW()
+) RETURNS UUID AS $$
+DECLARE
+  v_system thrift_systems;
+  v_holding UUID;
+  v_entry_id UUID;
+BEGIN
+  SELECT * INTO v_system FROM thrift_systems WHERE id = p_payout.thrift_system_id;
+  v_holding := thrift_holding_account(p_payout.thrift_system_id, p_created_at);
+
+  -- Auction commission and dividends are posted when the round closes
+  IF v_system.payout_schedule_mode <> 'auction' THEN
+    PERFORM post_ledger_transfer(
+      'bid_premium', p_payout.thrift_system_id, p_payout.member_id,
+      v_holding,
+      CASE
+        WHEN v_system.bid_premium_policy = 'organizer_fee'
+          THEN ledger_account_id('organizer_fees', p_payout.thrift_system_id)
+        ELSE ledger_account_id('thrift_premiums', p_payout.thrift_system_id)
+      END,
+      p_payout.bid_premium, NULL, 'payout', p_payout.id, p_created_at
+    );
+
+    PERFORM post_ledger_transfer(
+      'premium_share', p_payout.thrift_system_id, p_payout.member_id,
+      ledger_account_id('thrift_premiums', p_payout.thrift_system_id),
+      v_holding,
+      p_payout.premium_share, NULL, 'payout', p_payout.id, p_created_at
+    );
+  END IF;
+
+  v_entry_id := post_ledger_transfer(
+    'payout', p_payout.thrift_system_id, p_payout.member_id,
+    v_holding,
+    CASE
+      WHEN p_payout.destination = 'wallet'
+        THEN ledger_account_id('member_wallet', NULL, p_payout.member_id)
+      ELSE ledger_account_id('cash')
+    END,
+    p_payout.amount, 'Payout for position ' || p_payout.position, 'payout', p_payout.id, p_created_at
+  );
+
+  RETURN v_entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- As before, plus: the destination is taken from the membership when a
+-- payout is released, and a wallet payout completes at once
+CREATE OR REPLACE FUNCTION public.post_payout_status_change() RETURNS TRIGGER AS $$
+DECLARE
+  v_shortfall JSONB;
+  v_entry_id UUID;
+  v_escrow BOOLEAN;
+BEGIN
+  SELECT COALESCE(is_escrow_enabled, FALSE) INTO v_escrow
+  FROM thrift_systems WHERE id = NEW.thrift_system_id;
+
+  IF OLD.status IN ('pending', 'failed') AND NEW.status IN ('processing', 'completed') THEN
+    IF v_escrow THEN
+      v_shortfall := escrow_payout_shortfall(NEW.id);
+
+      IF (v_shortfall->>'unpaid_contributions')::INTEGER > 0 THEN
+        RAISE EXCEPTION 'Payout % is held in escrow: % contributions for this period are still unpaid',
+          NEW.position, v_shortfall->>'unpaid_contributions';
+      END IF;
+
+      IF (v_shortfall->>'shortfall')::NUMERIC > 0 THEN
+        RAISE EXCEPTION 'Payout % is held in escrow: the balance of % is % short',
+          NEW.position, v_shortfall->>'balance', v_shortfall->>'shortfall';
+      END IF;
+    END IF;
+
+    SELECT COALESCE(MIN(payout_destination), 'bank_account') INTO NEW.destination
+    FROM memberships
+    WHERE thrift_system_id = NEW.thrift_system_id AND user_id = NEW.member_id;
+
+    IF NEW.destination = 'wallet' THEN
+      NEW.status := 'completed';
+      NEW.completed_date := NOW();
+    END IF;
+
+    v_entry_id := post_payout_release(NEW);
+
+    IF v_escrow THEN
+      NEW.escrow_reference := v_entry_id::TEXT;
+    END IF;
+  ELSIF OLD.status IN ('processing', 'completed') AND NEW.status IN ('pending', 'failed') THEN
+    PERFORM reverse_ledger_entries(
+      'payout', NEW.id, ARRAY['payout', 'bid_premium', 'premium_share'], 'payout_reversal'
+    );
+    NEW.escrow_reference := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Pays due contributions from the wallets of members who opted in, as far
+-- as each balance goes. Runs before late penalties are charged.
+CREATE OR REPLACE FUNCTION public.autopay_contributions_from_wallets() RETURNS INTEGER AS $$
+DECLARE
+  v_due RECORD;
+  v_owed NUMERIC;
+  v_amount NUMERIC;
+  v_paid INTEGER := 0;
+BEGIN
+  FOR v_due IN
+    SELECT c.id, c.amount, c.due_date, m.user_id, t.name AS thrift_name
+    FROM contributions c
+    JOIN memberships m ON m.id = c.membership_id
+    JOIN thrift_systems t ON t.id = m.thrift_system_id
+    WHERE m.wallet_autopay
+      AND m.status = 'active'
+      AND c.status IN ('pending', 'partially_paid', 'overdue')
+      AND c.due_date <= NOW()
+    ORDER BY c.due_date, c.id
+  LOOP
+    SELECT
+      v_due.amount
+      + COALESCE((SELECT SUM(amount) FROM contribution_penalties WHERE contribution_id = v_due.id), 0)
+      - COALESCE((SELECT SUM(amount) FROM payment_allocations WHERE contribution_id = v_due.id), 0)
+    INTO v_owed;
+
+    v_amount := LEAST(v_owed, wallet_balance(v_due.user_id));
+
+    IF v_amount > 0 THEN
+      PERFORM debit_wallet_for_contribution(v_due.user_id, v_due.id, v_amount);
+
+      INSERT INTO notifications (user_id, type, message)
+      VALUES (
+        v_due.user_id,
+        'wallet',
+        v_amount || ' was paid from your wallet towards your ' || v_due.thrift_name
+          || ' contribution due ' || to_char(v_due.due_date, 'YYYY-MM-DD')
+          || CASE WHEN v_amount < v_owed THEN '. ' || (v_owed - v_amount) || ' is still owed.' ELSE '.' END
+      );
+
+      v_paid := v_paid + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_paid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.autopay_contributions_from_wallets() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'autopay-contributions-from-wallets',
+  '5 0 * * *',
+  $$SELECT public.autopay_contributions_from_wallets()$$
+);
@@ -0,0 +1,316 @@
+-- Closing a thrift once every payout has gone out, and rolling it over into
+-- a new cycle. Each cycle is its own thrift system linked to the one before,
+-- so positions, contributions and the ledger start fresh.
+ALTER TABLE public.thrift_systems
+  ADD COLUMN IF NOT EXISTS cycle_number INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS previous_cycle_id UUID REFERENCES public.thrift_systems(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS settlement_report JSONB;
+
+-- A cycle can only be rolled over once
+CREATE UNIQUE INDEX IF NOT EXISTS thrift_systems_previous_cycle_id_key
+  ON public.thrift_systems (previous_cycle_id)
+  WHERE previous_cycle_id IS NOT NULL;
+
+-- Everything that has to be true before a cycle can close, plus the final
+-- figures for each member. `settled` is false while any contribution is
+-- unpaid or any payout has not completed.
+CREATE OR REPLACE FUNCTION public.cycle_settlement_report(p_thrift_system_id UUID) RETURNS JSONB AS $$
+DECLARE
+  v_system thrift_systems;
+  v_unpaid JSONB;
+  v_unsettled JSONB;
+BEGIN
+  SELECT * INTO v_system FROM thrift_systems WHERE id = p_thrift_system_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Thrift system % not found', p_thrift_system_id;
+  END IF;
+
+  IF v_system.admin_id <> auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM memberships
+    WHERE thrift_system_id = p_thrift_system_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only members and the admin can view this settlement report';
+  END IF;
+
+  -- Once closed the report is frozen
+  IF v_system.settlement_report IS NOT NULL THEN
+    RETURN v_system.settlement_report;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'contribution_id', c.id,
+    'member_name', p.full_name,
+    'period_number', c.period_number,
+    'due_date', c.due_date,
+    'owed', c.amount
+      + COALESCE((SELECT SUM(amount) FROM contribution_penalties WHERE contribution_id = c.id), 0)
+      - COALESCE((SELECT SUM(amount) FROM payment_allocations WHERE contribution_id = c.id), 0)
+  ) ORDER BY c.due_date, p.full_name), '[]'::JSONB)
+  INTO v_unpaid
+  FROM contributions c
+  JOIN memberships m ON m.id = c.membership_id
+  LEFT JOIN profiles p ON p.id = m.user_id
+  WHERE m.thrift_system_id = p_thrift_system_id
+    AND c.status <> 'completed';
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'payout_id', po.id,
+    'position', po.position,
+    'member_name', p.full_name,
+    'amount', po.amount,
+    'status', po.status
+  ) ORDER BY po.position), '[]'::JSONB)
+  INTO v_unsettled
+  FROM payouts po
+  LEFT JOIN profiles p ON p.id = po.member_id
+  WHERE po.thrift_system_id = p_thrift_system_id
+    AND po.status <> 'completed';
+
+  RETURN jsonb_build_object(
+    'thrift_system_id', p_thrift_system_id,
+    'cycle_number', v_system.cycle_number,
+    'settled', jsonb_array_length(v_unpaid) = 0
+      AND jsonb_array_length(v_unsettled) = 0
+      AND EXISTS (SELECT 1 FROM payouts WHERE thrift_system_id = p_thrift_system_id),
+    'positions', (SELECT COUNT(*) FROM payouts WHERE thrift_system_id = p_thrift_system_id),
+    'contributions_collected', (
+      SELECT COALESCE(SUM(a.amount), 0)
+      FROM payment_allocations a
+      JOIN contributions c ON c.id = a.contribution_id
+      JOIN memberships m ON m.id = c.membership_id
+      WHERE m.thrift_system_id = p_thrift_system_id AND a.allocation_type = 'principal'
+    ),
+    'penalties_collected', (
+      SELECT COALESCE(SUM(a.amount), 0)
+      FROM payment_allocations a
+      JOIN contributions c ON c.id = a.contribution_id
+      JOIN memberships m ON m.id = c.membership_id
+      WHERE m.thrift_system_id = p_thrift_system_id AND a.allocation_type = 'penalty'
+    ),
+    'paid_out', (
+      SELECT COALESCE(SUM(amount), 0) FROM payouts
+      WHERE thrift_system_id = p_thrift_system_id AND status = 'completed'
+    ),
+    'dividends', (
+      SELECT COALESCE(SUM(amount), 0) FROM dividend_credits
+      WHERE thrift_system_id = p_thrift_system_id
+    ),
+    'organizer_fees', (
+      SELECT COALESCE(SUM(ledger_account_balance(id)), 0) FROM ledger_accounts
+      WHERE thrift_system_id = p_thrift_system_id AND account_type = 'organizer_fees'
+    ),
+    -- What the group is still holding after the last payout, e.g. penalties
+    'remaining_balance', (
+      SELECT COALESCE(SUM(ledger_account_balance(id)), 0) FROM ledger_accounts
+      WHERE thrift_system_id = p_thrift_system_id
+        AND account_type IN ('thrift_pool', 'escrow', 'thrift_premiums')
+    ),
+    'unpaid_contributions', v_unpaid,
+    'unsettled_payouts', v_unsettled,
+    'members', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'membership_id', m.id,
+        'member_name', p.full_name,
+        'status', m.status,
+        'paid', COALESCE((
+          SELECT SUM(a.amount)
+          FROM payment_allocations a
+          JOIN contributions c ON c.id = a.contribution_id
+          WHERE c.membership_id = m.id
+        ), 0),
+        'received', COALESCE((
+          SELECT SUM(amount) FROM payouts
+          WHERE thrift_system_id = p_thrift_system_id
+            AND member_id = m.user_id
+            AND status = 'completed'
+        ), 0) + COALESCE((
+          SELECT SUM(amount) FROM dividend_credits
+          WHERE thrift_system_id = p_thrift_system_id AND member_id = m.user_id
+        ), 0)
+      ) ORDER BY p.full_name)
+      FROM memberships m
+      LEFT JOIN profiles p ON p.id = m.user_id
+      WHERE m.thrift_system_id = p_thrift_system_id
+        AND m.status IN ('active', 'exited')
+    ), '[]'::JSONB),
+    'generated_at', NOW()
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Closes a fully settled cycle and keeps its report
+CREATE OR REPLACE FUNCTION public.close_thrift_cycle(p_thrift_system_id UUID) RETURNS JSONB AS $$
+DECLARE
+  v_system thrift_systems;
+  v_report JSONB;
+BEGIN
+  SELECT * INTO v_system FROM thrift_systems WHERE id = p_thrift_system_id FOR UPDATE;
+
+  IF NOT FOUND OR v_system.admin_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the thrift system admin can close its cycle';
+  END IF;
+
+  IF v_system.status <> 'active' THEN
+    RAISE EXCEPTION 'Only an active thrift system can be closed';
+  END IF;
+
+  v_report := cycle_settlement_report(p_thrift_system_id);
+
+  IF NOT (v_report->>'settled')::BOOLEAN THEN
+    RAISE EXCEPTION 'The cycle cannot close yet: % contributions are unpaid and % payouts have not completed',
+      jsonb_array_length(v_report->'unpaid_contributions'),
+      jsonb_array_length(v_report->'unsettled_payouts');
+  END IF;
+
+  UPDATE thrift_systems
+  SET
+    status = 'completed',
+    completed_at = NOW(),
+    settlement_report = v_report,
+    updated_at = NOW()
+  WHERE id = p_thrift_system_id;
+
+  INSERT INTO notifications (user_id, type, message)
+  SELECT m.user_id, 'cycle_completed',
+    'Cycle ' || v_system.cycle_number || ' of ' || v_system.name || ' is complete. The final settlement report is ready.'
+  FROM memberships m
+  WHERE m.thrift_system_id = p_thrift_system_id AND m.status = 'active';
+
+  RETURN v_report;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Lets the admin know when the last payout of a cycle has completed
+CREATE OR REPLACE FUNCTION public.notify_cycle_ready_to_close() RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status <> 'completed' AND NOT EXISTS (
+    SELECT 1 FROM payouts
+    WHERE thrift_system_id = NEW.thrift_system_id AND status <> 'completed'
+  ) THEN
+    INSERT INTO notifications (user_id, type, message)
+    SELECT admin_id, 'cycle_completed',
+      'Every payout of ' || name || ' has completed. Close the cycle to produce its final settlement.'
+    FROM thrift_systems
+    WHERE id = NEW.thrift_system_id AND status = 'active';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS payouts_notify_cycle_ready ON public.payouts;
+
+CREATE TRIGGER payouts_notify_cycle_ready
+AFTER UPDATE OF status ON public.payouts
+FOR EACH ROW EXECUTE FUNCTION public.notify_cycle_ready_to_close();
+
+-- Opens the next cycle with the same settings. Members of the closed cycle
+-- are invited and take part once they opt in; the schedule is generated
+-- again with a fresh draw, bidding round or auction.
+CREATE OR REPLACE FUNCTION public.start_next_cycle(
+  p_thrift_system_id UUID,
+  p_cycle_start_date TIMESTAMPTZ
+) RETURNS UUID AS $$
+DECLARE
+  v_system thrift_systems;
+  v_next_id UUID;
+BEGIN
+  SELECT * INTO v_system FROM thrift_systems WHERE id = p_thrift_system_id FOR UPDATE;
+
+  IF NOT FOUND OR v_system.admin_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the thrift system admin can start the next cycle';
+  END IF;
+
+  IF v_system.status <> 'completed' THEN
+    RAISE EXCEPTION 'Close the current cycle before starting the next one';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM thrift_systems WHERE previous_cycle_id = p_thrift_system_id) THEN
+    RAISE EXCEPTION 'The next cycle of this thrift system has already been started';
+  END IF;
+
+  IF p_cycle_start_date IS NULL OR p_cycle_start_date < NOW() THEN
+    RAISE EXCEPTION 'The next cycle must start in the future';
+  END IF;
+
+  INSERT INTO thrift_systems (
+    admin_id, admin_tier_id, name, description, contribution_amount, max_members,
+    payout_schedule, cycle_duration, cycle_start_date, status,
+    payout_schedule_mode, position_assignment_mode, bid_premium_policy, swap_approval_mode,
+    organizer_commission_percent, auction_max_discount_percent,
+    late_grace_days, late_fee_type, late_fee_amount, late_fee_cap,
+    guarantors_required, guarantor_call_days, is_escrow_enabled,
+    cycle_number, previous_cycle_id
+  )
+  VALUES (
+    v_system.admin_id, v_system.admin_tier_id, v_system.name, v_system.description,
+    v_system.contribution_amount, v_system.max_members,
+    v_system.payout_schedule, v_system.cycle_duration, p_cycle_start_date, 'pending',
+    v_system.payout_schedule_mode, v_system.position_assignment_mode,
+    v_system.bid_premium_policy, v_system.swap_approval_mode,
+    v_system.organizer_commission_percent, v_system.auction_max_discount_percent,
+    v_system.late_grace_days, v_system.late_fee_type, v_system.late_fee_amount, v_system.late_fee_cap,
+    v_system.guarantors_required, v_system.guarantor_call_days, v_system.is_escrow_enabled,
+    v_system.cycle_number + 1, p_thrift_system_id
+  )
+  RETURNING id INTO v_next_id;
+
+  INSERT INTO memberships (
+    thrift_system_id, user_id, role, status, join_date, slot_count, wallet_autopay, payout_destination
+  )
+  SELECT
+    v_next_id, user_id, role, 'invited', NOW(), slot_count, wallet_autopay, payout_destination
+  FROM memberships
+  WHERE thrift_system_id = p_thrift_system_id AND status = 'active';
+
+  INSERT INTO notifications (user_id, type, message)
+  SELECT user_id, 'cycle_rollover',
+    'Cycle ' || (v_system.cycle_number + 1) || ' of ' || v_system.name || ' starts '
+      || to_char(p_cycle_start_date, 'YYYY-MM-DD') || '. Let the organizer know whether you are in.'
+  FROM memberships
+  WHERE thrift_system_id = v_next_id;
+
+  RETURN v_next_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A member opts in to (or out of) the next cycle. Members who stayed in
+-- good standing do not need guarantors again.
+CREATE OR REPLACE FUNCTION public.respond_cycle_rollover(
+  p_membership_id UUID,
+  p_join BOOLEAN
+) RETURNS VOID AS $$
+DECLARE
+  v_membership memberships;
+BEGIN
+  SELECT * INTO v_membership FROM memberships WHERE id = p_membership_id FOR UPDATE;
+
+  IF NOT FOUND OR v_membership.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Membership % not found', p_membership_id;
+  END IF;
+
+  IF v_membership.status NOT IN ('invited', 'active', 'declined') THEN
+    RAISE EXCEPTION 'This invitation has already been handled';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = v_membership.thrift_system_id AND previous_cycle_id IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'This membership is not part of a rolled-over cycle';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = v_membership.thrift_system_id AND status <> 'pending'
+  ) THEN
+    RAISE EXCEPTION 'The next cycle has already started';
+  END IF;
+
+  UPDATE memberships
+  SET status = CASE WHEN p_join THEN 'active' ELSE 'declined' END
+  WHERE id = p_membership_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,142 @@
+-- Saved thrift configurations an admin can create new systems from, and
+-- inviting the members of an existing system into a new one
+CREATE TABLE IF NOT EXISTS public.thrift_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  admin_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  contribution_amount NUMERIC NOT NULL CHECK (contribution_amount > 0),
+  payout_schedule TEXT NOT NULL,
+  cycle_duration INTEGER NOT NULL CHECK (cycle_duration > 0),
+  max_members INTEGER NOT NULL CHECK (max_members > 1),
+  is_escrow_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  late_grace_days INTEGER NOT NULL DEFAULT 0 CHECK (late_grace_days >= 0),
+  late_fee_type TEXT NOT NULL DEFAULT 'none' CHECK (late_fee_type IN ('none', 'flat', 'percentage')),
+  late_fee_amount NUMERIC NOT NULL DEFAULT 0 CHECK (late_fee_amount >= 0),
+  late_fee_cap NUMERIC CHECK (late_fee_cap IS NULL OR late_fee_cap >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (admin_id, name)
+);
+
+ALTER TABLE public.thrift_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage their own templates"
+ON public.thrift_templates FOR ALL
+USING (admin_id = auth.uid())
+WITH CHECK (admin_id = auth.uid());
+
+-- The system a member was invited from, either a cloned system or the
+-- previous cycle. Invited members opt in themselves. No foreign key: a
+-- second link to thrift_systems would make `memberships -> thrift_systems`
+-- embeds ambiguous.
+ALTER TABLE public.memberships ADD COLUMN IF NOT EXISTS invited_from UUID;
+
+UPDATE public.memberships m
+SET invited_from = t.previous_cycle_id
+FROM public.thrift_systems t
+WHERE t.id = m.thrift_system_id
+  AND t.previous_cycle_id IS NOT NULL
+  AND m.invited_from IS NULL;
+
+-- Invites the active members of one of the admin's systems into another,
+-- skipping anyone who already has a membership there
+CREATE OR REPLACE FUNCTION public.invite_members_from_system(
+  p_thrift_system_id UUID,
+  p_source_thrift_system_id UUID
+) RETURNS INTEGER AS $$
+DECLARE
+  v_name TEXT;
+  v_invited INTEGER;
+BEGIN
+  SELECT name INTO v_name
+  FROM thrift_systems
+  WHERE id = p_thrift_system_id AND admin_id = auth.uid();
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = p_source_thrift_system_id AND admin_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You can only copy members between your own thrift systems';
+  END IF;
+
+  INSERT INTO memberships (
+    thrift_system_id, user_id, role, status, join_date, slot_count, invited_from
+  )
+  SELECT
+    p_thrift_system_id, source.user_id, source.role, 'invited', NOW(), source.slot_count, p_source_thrift_system_id
+  FROM memberships source
+  WHERE source.thrift_system_id = p_source_thrift_system_id
+    AND source.status = 'active'
+    AND NOT EXISTS (
+      SELECT 1 FROM memberships existing
+      WHERE existing.thrift_system_id = p_thrift_system_id
+        AND existing.user_id = source.user_id
+    );
+
+  GET DIAGNOSTICS v_invited = ROW_COUNT;
+
+  INSERT INTO notifications (user_id, type, message)
+  SELECT user_id, 'membership_invite',
+    'You have been invited to join ' || v_name || '. Let the organizer know whether you are in.'
+  FROM memberships
+  WHERE thrift_system_id = p_thrift_system_id
+    AND invited_from = p_source_thrift_system_id
+    AND status = 'invited';
+
+  RETURN v_invited;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Invitations now come from cloning as well as rolling over, so whether a
+-- member may answer is decided by `invited_from`
+CREATE OR REPLACE FUNCTION public.respond_cycle_rollover(
+  p_membership_id UUID,
+  p_join BOOLEAN
+) RETURNS VOID AS $$
+DECLARE
+  v_membership memberships;
+BEGIN
+  SELECT * INTO v_membership FROM memberships WHERE id = p_membership_id FOR UPDATE;
+
+  IF NOT FOUND OR v_membership.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Membership % not found', p_membership_id;
+  END IF;
+
+  IF v_membership.invited_from IS NULL THEN
+    RAISE EXCEPTION 'This membership was not an invitation';
+  END IF;
+
+  IF v_membership.status NOT IN ('invited', 'active', 'declined') THEN
+    RAISE EXCEPTION 'This invitation has already been handled';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = v_membership.thrift_system_id AND status <> 'pending'
+  ) THEN
+    RAISE EXCEPTION 'This thrift system has already started';
+  END IF;
+
+  UPDATE memberships
+  SET status = CASE WHEN p_join THEN 'active' ELSE 'declined' END
+  WHERE id = p_membership_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Rolled-over members record the cycle they came from
+CREATE OR REPLACE FUNCTION public.stamp_rollover_invitation() RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'invited' AND NEW.invited_from IS NULL THEN
+    SELECT previous_cycle_id INTO NEW.invited_from
+    FROM thrift_systems WHERE id = NEW.thrift_system_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS memberships_stamp_rollover_invitation ON public.memberships;
+
+CREATE TRIGGER memberships_stamp_rollover_invitation
+BEFORE INSERT ON public.memberships
+FOR EACH ROW EXECUTE FUNCTION public.stamp_rollover_invitation();
@@ -0,0 +1,124 @@
+-- Variable contributions: each membership commits its own amount per hand,
+-- and each payout is what that hand pays in over the cycle
+ALTER TABLE public.thrift_systems
+  ADD COLUMN IF NOT EXISTS contribution_mode TEXT NOT NULL DEFAULT 'fixed'
+  CHECK (contribution_mode IN ('fixed', 'variable'));
+
+-- Auction discounts assume every hand bids for the same pot
+ALTER TABLE public.thrift_systems
+  ADD CONSTRAINT thrift_systems_variable_contribution_mode_check
+  CHECK (contribution_mode = 'fixed' OR payout_schedule_mode IS DISTINCT FROM 'auction');
+
+-- Per hand, per period. Falls back to the system's `contribution_amount`
+-- while unset.
+ALTER TABLE public.memberships
+  ADD COLUMN IF NOT EXISTS committed_amount NUMERIC
+  CHECK (committed_amount IS NULL OR committed_amount > 0);
+
+-- A member picks their own commitment, and the admin can set anyone's,
+-- until the cycle starts
+CREATE OR REPLACE FUNCTION public.set_committed_amount(
+  p_membership_id UUID,
+  p_amount NUMERIC
+) RETURNS VOID AS $$
+DECLARE
+  v_membership memberships;
+  v_system thrift_systems;
+BEGIN
+  SELECT * INTO v_membership FROM memberships WHERE id = p_membership_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Membership % not found', p_membership_id;
+  END IF;
+
+  SELECT * INTO v_system FROM thrift_systems WHERE id = v_membership.thrift_system_id;
+
+  IF v_membership.user_id <> auth.uid() AND v_system.admin_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Membership % not found', p_membership_id;
+  END IF;
+
+  IF v_system.contribution_mode <> 'variable' THEN
+    RAISE EXCEPTION 'Every member of % contributes the same amount', v_system.name;
+  END IF;
+
+  IF v_system.status IN ('active', 'completed') THEN
+    RAISE EXCEPTION 'Commitments cannot change once the cycle has started';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Commitment must be greater than zero';
+  END IF;
+
+  UPDATE memberships SET committed_amount = p_amount WHERE id = p_membership_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The next cycle keeps the contribution mode and each member's commitment
+CREATE OR REPLACE FUNCTION public.start_next_cycle(
+  p_thrift_system_id UUID,
+  p_cycle_start_date TIMESTAMPTZ
+) RETURNS UUID AS $$
+DECLARE
+  v_system thrift_systems;
+  v_next_id UUID;
+BEGIN
+  SELECT * INTO v_system FROM thrift_systems WHERE id = p_thrift_system_id FOR UPDATE;
+
+  IF NOT FOUND OR v_system.admin_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the thrift system admin can start the next cycle';
+  END IF;
+
+  IF v_system.status <> 'completed' THEN
+    RAISE EXCEPTION 'Close the current cycle before starting the next one';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM thrift_systems WHERE previous_cycle_id = p_thrift_system_id) THEN
+    RAISE EXCEPTION 'The next cycle of this thrift system has already been started';
+  END IF;
+
+  IF p_cycle_start_date IS NULL OR p_cycle_start_date < NOW() THEN
+    RAISE EXCEPTION 'The next cycle must start in the future';
+  END IF;
+
+  INSERT INTO thrift_systems (
+    admin_id, admin_tier_id, name, description, contribution_amount, contribution_mode, max_members,
+    payout_schedule, cycle_duration, cycle_start_date, status,
+    payout_schedule_mode, position_assignment_mode, bid_premium_policy, swap_approval_mode,
+    organizer_commission_percent, auction_max_discount_percent,
+    late_grace_days, late_fee_type, late_fee_amount, late_fee_cap,
+    guarantors_required, guarantor_call_days, is_escrow_enabled,
+    cycle_number, previous_cycle_id
+  )
+  VALUES (
+    v_system.admin_id, v_system.admin_tier_id, v_system.name, v_system.description,
+    v_system.contribution_amount, v_system.contribution_mode, v_system.max_members,
+    v_system.payout_schedule, v_system.cycle_duration, p_cycle_start_date, 'pending',
+    v_system.payout_schedule_mode, v_system.position_assignment_mode,
+    v_system.bid_premium_policy, v_system.swap_approval_mode,
+    v_system.organizer_commission_percent, v_system.auction_max_discount_percent,
+    v_system.late_grace_days, v_system.late_fee_type, v_system.late_fee_amount, v_system.late_fee_cap,
+    v_system.guarantors_required, v_system.guarantor_call_days, v_system.is_escrow_enabled,
+    v_system.cycle_number + 1, p_thrift_system_id
+  )
+  RETURNING id INTO v_next_id;
+
+  INSERT INTO memberships (
+    thrift_system_id, user_id, role, status, join_date, slot_count, committed_amount,
+    wallet_autopay, payout_destination
+  )
+  SELECT
+    v_next_id, user_id, role, 'invited', NOW(), slot_count, committed_amount,
+    wallet_autopay, payout_destination
+  FROM memberships
+  WHERE thrift_system_id = p_thrift_system_id AND status = 'active';
+
+  INSERT INTO notifications (user_id, type, message)
+  SELECT user_id, 'cycle_rollover',
+    'Cycle ' || (v_system.cycle_number + 1) || ' of ' || v_system.name || ' starts '
+      || to_char(p_cycle_start_date, 'YYYY-MM-DD') || '. Let the organizer know whether you are in.'
+  FROM memberships
+  WHERE thrift_system_id = v_next_id;
+
+  RETURN v_next_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
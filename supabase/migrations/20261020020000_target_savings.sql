@@ -0,0 +1,320 @@
+-- Target-savings groups: instead of rotating a pot, every member saves
+-- towards the same goal by a maturity date and gets their own savings back
+-- then, all at once
+ALTER TABLE public.thrift_systems
+  ADD COLUMN IF NOT EXISTS thrift_type TEXT NOT NULL DEFAULT 'rotating'
+    CHECK (thrift_type IN ('rotating', 'target_savings')),
+  -- Per hand
+  ADD COLUMN IF NOT EXISTS goal_amount NUMERIC CHECK (goal_amount IS NULL OR goal_amount > 0),
+  ADD COLUMN IF NOT EXISTS maturity_date TIMESTAMPTZ,
+  -- Late penalties are shared among the members who reach the goal
+  ADD COLUMN IF NOT EXISTS bonus_pool_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS matured_at TIMESTAMPTZ;
+
+ALTER TABLE public.thrift_systems
+  ADD CONSTRAINT thrift_systems_target_savings_check
+  CHECK (
+    thrift_type = 'rotating'
+    OR (
+      goal_amount IS NOT NULL
+      AND maturity_date IS NOT NULL
+      AND contribution_mode = 'fixed'
+      AND payout_schedule_mode IS DISTINCT FROM 'auction'
+    )
+  );
+
+-- Each member's savings against the goal. Visible to members and the admin.
+CREATE OR REPLACE FUNCTION public.target_savings_progress(p_thrift_system_id UUID) RETURNS JSONB AS $$
+DECLARE
+  v_system thrift_systems;
+BEGIN
+  SELECT * INTO v_system FROM thrift_systems WHERE id = p_thrift_system_id;
+
+  IF NOT FOUND OR (v_system.admin_id <> auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM memberships
+    WHERE thrift_system_id = p_thrift_system_id AND user_id = auth.uid()
+  )) THEN
+    RAISE EXCEPTION 'Thrift system % not found', p_thrift_system_id;
+  END IF;
+
+  IF v_system.thrift_type <> 'target_savings' THEN
+    RAISE EXCEPTION '% is not a target-savings group', v_system.name;
+  END IF;
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(jsonb_build_object(
+      'membership_id', m.id,
+      'member_id', m.user_id,
+      'member_name', p.full_name,
+      'slot_count', m.slot_count,
+      'goal', v_system.goal_amount * m.slot_count,
+      'saved', COALESCE((
+        SELECT SUM(a.amount)
+        FROM payment_allocations a
+        JOIN contributions c ON c.id = a.contribution_id
+        WHERE c.membership_id = m.id AND a.allocation_type = 'principal'
+      ), 0)
+    ) ORDER BY p.full_name)
+    FROM memberships m
+    LEFT JOIN profiles p ON p.id = m.user_id
+    WHERE m.thrift_system_id = p_thrift_system_id
+      AND m.status = 'active'
+  ), '[]'::JSONB);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- At maturity every member is paid what they saved, plus their share of
+-- the bonus pool if they reached the goal. Whatever is still unpaid is
+-- written off so the cycle can close. All payouts fall due at once.
+CREATE OR REPLACE FUNCTION public.mature_target_savings_groups() RETURNS INTEGER AS $$
+DECLARE
+  v_system thrift_systems;
+  v_bonus_kobo BIGINT;
+  v_qualifying_savings NUMERIC;
+  v_matured INTEGER := 0;
+BEGIN
+  FOR v_system IN
+    SELECT * FROM thrift_systems
+    WHERE thrift_type = 'target_savings'
+      AND status = 'active'
+      AND matured_at IS NULL
+      AND maturity_date <= NOW()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    CREATE TEMP TABLE matured_savings AS
+    SELECT
+      m.user_id,
+      v_system.goal_amount * m.slot_count AS goal,
+      COALESCE((
+        SELECT SUM(a.amount)
+        FROM payment_allocations a
+        JOIN contributions c ON c.id = a.contribution_id
+        WHERE c.membership_id = m.id AND a.allocation_type = 'principal'
+      ), 0) AS saved
+    FROM memberships m
+    WHERE m.thrift_system_id = v_system.id
+      AND m.status = 'active';
+
+    v_bonus_kobo := 0;
+    IF v_system.bonus_pool_enabled THEN
+      SELECT floor(COALESCE(SUM(a.amount), 0) * 100) INTO v_bonus_kobo
+      FROM payment_allocations a
+      JOIN contributions c ON c.id = a.contribution_id
+      JOIN memberships m ON m.id = c.membership_id
+      WHERE m.thrift_system_id = v_system.id AND a.allocation_type = 'penalty';
+    END IF;
+
+    SELECT COALESCE(SUM(saved), 0) INTO v_qualifying_savings
+    FROM matured_savings
+    WHERE saved >= goal;
+
+    -- Shares are rounded down to the kobo; the remainder stays with the group
+    INSERT INTO payouts (thrift_system_id, member_id, slot_number, position, amount, scheduled_date, status)
+    SELECT
+      v_system.id,
+      user_id,
+      1,
+      ROW_NUMBER() OVER (ORDER BY user_id),
+      saved + CASE
+        WHEN saved >= goal AND v_qualifying_savings > 0
+          THEN floor(v_bonus_kobo * saved / v_qualifying_savings) / 100.0
+        ELSE 0
+      END,
+      NOW(),
+      'pending'
+    FROM matured_savings
+    WHERE saved > 0;
+
+    UPDATE contributions c
+    SET status = 'written_off'
+    FROM memberships m
+    WHERE m.id = c.membership_id
+      AND m.thrift_system_id = v_system.id
+      AND c.status <> 'completed';
+
+    UPDATE thrift_systems SET matured_at = NOW(), updated_at = NOW() WHERE id = v_system.id;
+
+    INSERT INTO notifications (user_id, type, message)
+    SELECT user_id, 'target_matured',
+      v_system.name || ' has matured. Your savings of ' || saved || ' are being paid out'
+        || CASE WHEN saved >= goal THEN '.' ELSE ', short of the ' || goal || ' goal.' END
+    FROM matured_savings;
+
+    INSERT INTO notifications (user_id, type, message)
+    VALUES (v_system.admin_id, 'target_matured', v_system.name || ' has matured and its payouts have been released.');
+
+    DROP TABLE matured_savings;
+    v_matured := v_matured + 1;
+  END LOOP;
+
+  RETURN v_matured;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.mature_target_savings_groups() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'mature-target-savings-groups',
+  '15 0 * * *',
+  $$SELECT public.mature_target_savings_groups()$$
+);
+
+-- Contributions written off at maturity no longer hold up a payout or
+-- the close of the cycle
+CREATE OR REPLACE FUNCTION public.escrow_payout_shortfall(p_payout_id UUID) RETURNS JSONB AS $$
+DECLARE
+  v_payout payouts;
+  v_mode TEXT;
+  v_needed NUMERIC;
+  v_unpaid_contributions INTEGER;
+  v_balance NUMERIC;
+BEGIN
+  SELECT * INTO v_payout FROM payouts WHERE id = p_payout_id;
+  SELECT payout_schedule_mode INTO v_mode FROM thrift_systems WHERE id = v_payout.thrift_system_id;
+
+  v_needed := v_payout.amount + CASE
+    WHEN v_mode = 'auction' THEN 0
+    ELSE v_payout.bid_premium - v_payout.premium_share
+  END;
+
+  SELECT COUNT(*) INTO v_unpaid_contributions
+  FROM contributions c
+  JOIN memberships m ON m.id = c.membership_id
+  WHERE m.thrift_system_id = v_payout.thrift_system_id
+    AND c.period_number = v_payout.position
+    AND c.status NOT IN ('completed', 'written_off');
+
+  v_balance := escrow_balance(v_payout.thrift_system_id);
+
+  RETURN jsonb_build_object(
+    'unpaid_contributions', v_unpaid_contributions,
+    'balance', v_balance,
+    'shortfall', GREATEST(v_needed - v_balance, 0)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.cycle_settlement_report(p_thrift_system_id UUID) RETURNS JSONB AS $$
+DECLARE
+  v_system thrift_systems;
+  v_unpaid JSONB;
+  v_unsettled JSONB;
+BEGIN
+  SELECT * INTO v_system FROM thrift_systems WHERE id = p_thrift_system_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Thrift system % not found', p_thrift_system_id;
+  END IF;
+
+  IF v_system.admin_id <> auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM memberships
+    WHERE thrift_system_id = p_thrift_system_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only members and the admin can view this settlement report';
+  END IF;
+
+  -- Once closed the report is frozen
+  IF v_system.settlement_report IS NOT NULL THEN
+    RETURN v_system.settlement_report;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'contribution_id', c.id,
+    'member_name', p.full_name,
+    'period_number', c.period_number,
+    'due_date', c.due_date,
+    'owed', c.amount
+      + COALESCE((SELECT SUM(amount) FROM contribution_penalties WHERE contribution_id = c.id), 0)
+      - COALESCE((SELECT SUM(amount) FROM payment_allocations WHERE contribution_id = c.id), 0)
+  ) ORDER BY c.due_date, p.full_name), '[]'::JSONB)
+  INTO v_unpaid
+  FROM contributions c
+  JOIN memberships m ON m.id = c.membership_id
+  LEFT JOIN profiles p ON p.id = m.user_id
+  WHERE m.thrift_system_id = p_thrift_system_id
+    AND c.status NOT IN ('completed', 'written_off');
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'payout_id', po.id,
+    'position', po.position,
+    'member_name', p.full_name,
+    'amount', po.amount,
+    'status', po.status
+  ) ORDER BY po.position), '[]'::JSONB)
+  INTO v_unsettled
+  FROM payouts po
+  LEFT JOIN profiles p ON p.id = po.member_id
+  WHERE po.thrift_system_id = p_thrift_system_id
+    AND po.status <> 'completed';
+
+  RETURN jsonb_build_object(
+    'thrift_system_id', p_thrift_system_id,
+    'cycle_number', v_system.cycle_number,
+    'settled', jsonb_array_length(v_unpaid) = 0
+      AND jsonb_array_length(v_unsettled) = 0
+      AND EXISTS (SELECT 1 FROM payouts WHERE thrift_system_id = p_thrift_system_id),
+    'positions', (SELECT COUNT(*) FROM payouts WHERE thrift_system_id = p_thrift_system_id),
+    'contributions_collected', (
+      SELECT COALESCE(SUM(a.amount), 0)
+      FROM payment_allocations a
+      JOIN contributions c ON c.id = a.contribution_id
+      JOIN memberships m ON m.id = c.membership_id
+      WHERE m.thrift_system_id = p_thrift_system_id AND a.allocation_type = 'principal'
+    ),
+    'penalties_collected', (
+      SELECT COALESCE(SUM(a.amount), 0)
+      FROM payment_allocations a
+      JOIN contributions c ON c.id = a.contribution_id
+      JOIN memberships m ON m.id = c.membership_id
+      WHERE m.thrift_system_id = p_thrift_system_id AND a.allocation_type = 'penalty'
+    ),
+    'paid_out', (
+      SELECT COALESCE(SUM(amount), 0) FROM payouts
+      WHERE thrift_system_id = p_thrift_system_id AND status = 'completed'
+    ),
+    'dividends', (
+      SELECT COALESCE(SUM(amount), 0) FROM dividend_credits
+      WHERE thrift_system_id = p_thrift_system_id
+    ),
+    'organizer_fees', (
+      SELECT COALESCE(SUM(ledger_account_balance(id)), 0) FROM ledger_accounts
+      WHERE thrift_system_id = p_thrift_system_id AND account_type = 'organizer_fees'
+    ),
+    -- What the group is still holding after the last payout, e.g. penalties
+    'remaining_balance', (
+      SELECT COALESCE(SUM(ledger_account_balance(id)), 0) FROM ledger_accounts
+      WHERE thrift_system_id = p_thrift_system_id
+        AND account_type IN ('thrift_pool', 'escrow', 'thrift_premiums')
+    ),
+    'unpaid_contributions', v_unpaid,
+    'unsettled_payouts', v_unsettled,
+    'members', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'membership_id', m.id,
+        'member_name', p.full_name,
+        'status', m.status,
+        'paid', COALESCE((
+          SELECT SUM(a.amount)
+          FROM payment_allocations a
+          JOIN contributions c ON c.id = a.contribution_id
+          WHERE c.membership_id = m.id
+        ), 0),
+        'received', COALESCE((
+          SELECT SUM(amount) FROM payouts
+          WHERE thrift_system_id = p_thrift_system_id
+            AND member_id = m.user_id
+            AND status = 'completed'
+        ), 0) + COALESCE((
+          SELECT SUM(amount) FROM dividend_credits
+          WHERE thrift_system_id = p_thrift_system_id AND member_id = m.user_id
+        ), 0)
+      ) ORDER BY p.full_name)
+      FROM memberships m
+      LEFT JOIN profiles p ON p.id = m.user_id
+      WHERE m.thrift_system_id = p_thrift_system_id
+        AND m.status IN ('active', 'exited')
+    ), '[]'::JSONB),
+    'generated_at', NOW()
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
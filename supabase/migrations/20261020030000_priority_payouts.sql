@@ -0,0 +1,386 @@
+-- Members paying a fee to take an earlier payout position. A cap of 0
+-- turns priority moves off.
+ALTER TABLE public.thrift_systems
+  ADD COLUMN IF NOT EXISTS priority_moves_per_cycle INTEGER NOT NULL DEFAULT 0
+    CHECK (priority_moves_per_cycle >= 0),
+  ADD COLUMN IF NOT EXISTS priority_fee_amount NUMERIC NOT NULL DEFAULT 0
+    CHECK (priority_fee_amount >= 0),
+  ADD COLUMN IF NOT EXISTS priority_fee_policy TEXT NOT NULL DEFAULT 'organizer_fee'
+    CHECK (priority_fee_policy IN ('organizer_fee', 'bonus_pool', 'compensate_displaced'));
+
+-- `priority_fee` is what the payout's member paid to move it up. The bonus
+-- is its share of fees paid into the pool, already included in `amount`
+-- and `premium_share`.
+ALTER TABLE public.payouts
+  ADD COLUMN IF NOT EXISTS priority_moved_from INTEGER,
+  ADD COLUMN IF NOT EXISTS priority_displaced_from INTEGER,
+  ADD COLUMN IF NOT EXISTS priority_bonus NUMERIC NOT NULL DEFAULT 0
+    CHECK (priority_bonus >= 0);
+
+CREATE TABLE IF NOT EXISTS public.priority_payout_moves (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thrift_system_id UUID NOT NULL REFERENCES public.thrift_systems(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES public.profiles(id),
+  payout_id UUID NOT NULL REFERENCES public.payouts(id) ON DELETE CASCADE,
+  displaced_member_id UUID NOT NULL REFERENCES public.profiles(id),
+  displaced_payout_id UUID NOT NULL REFERENCES public.payouts(id) ON DELETE CASCADE,
+  from_position INTEGER NOT NULL,
+  to_position INTEGER NOT NULL,
+  fee NUMERIC NOT NULL CHECK (fee > 0),
+  fee_policy TEXT NOT NULL,
+  swap_id UUID REFERENCES public.position_swaps(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS priority_payout_moves_thrift_system_id_idx
+  ON public.priority_payout_moves (thrift_system_id, created_at DESC);
+
+ALTER TABLE public.priority_payout_moves ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members and admins can view priority payout moves"
+ON public.priority_payout_moves FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE thrift_systems.id = priority_payout_moves.thrift_system_id
+      AND thrift_systems.admin_id = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM memberships
+    WHERE memberships.thrift_system_id = priority_payout_moves.thrift_system_id
+      AND memberships.user_id = auth.uid()
+  )
+);
+
+-- Moves one of the caller's pending payouts into an earlier position held
+-- by another member, paid for from the caller's wallet. The fee goes to the
+-- organizer, into the payouts still to be made, or to the member pushed
+-- back, as the thrift is configured. The trade itself goes through as an
+-- approved position swap.
+CREATE OR REPLACE FUNCTION public.request_priority_payout(
+  p_payout_id UUID,
+  p_target_payout_id UUID
+) RETURNS UUID AS $$
+DECLARE
+  v_mine payouts;
+  v_theirs payouts;
+  v_system thrift_systems;
+  v_account_id UUID;
+  v_balance NUMERIC;
+  v_fee NUMERIC;
+  v_swap_id UUID;
+  v_move_id UUID;
+  v_name TEXT;
+BEGIN
+  SELECT * INTO v_mine FROM payouts WHERE id = p_payout_id;
+  SELECT * INTO v_theirs FROM payouts WHERE id = p_target_payout_id;
+
+  IF v_mine.id IS NULL OR v_theirs.id IS NULL THEN
+    RAISE EXCEPTION 'Payout not found';
+  END IF;
+
+  IF v_mine.member_id <> auth.uid() THEN
+    RAISE EXCEPTION 'You can only move your own payout';
+  END IF;
+
+  IF v_theirs.member_id = auth.uid() THEN
+    RAISE EXCEPTION 'Choose a position held by another member';
+  END IF;
+
+  IF v_mine.thrift_system_id <> v_theirs.thrift_system_id THEN
+    RAISE EXCEPTION 'Both payouts must belong to the same thrift system';
+  END IF;
+
+  IF v_mine.status <> 'pending' OR v_theirs.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only payouts that have not been made yet can be moved';
+  END IF;
+
+  IF v_theirs.position >= v_mine.position THEN
+    RAISE EXCEPTION 'A priority move can only take an earlier position';
+  END IF;
+
+  SELECT * INTO v_system FROM thrift_systems WHERE id = v_mine.thrift_system_id FOR UPDATE;
+
+  IF v_system.payout_schedule_mode = 'auction' OR v_system.thrift_type = 'target_savings' THEN
+    RAISE EXCEPTION '% has no payout order to move up in', v_system.name;
+  END IF;
+
+  IF v_system.priority_moves_per_cycle = 0 OR v_system.priority_fee_amount <= 0 THEN
+    RAISE EXCEPTION 'Priority payouts are not offered in %', v_system.name;
+  END IF;
+
+  IF (SELECT COUNT(*) FROM priority_payout_moves WHERE thrift_system_id = v_system.id)
+      >= v_system.priority_moves_per_cycle THEN
+    RAISE EXCEPTION 'All % priority moves for this cycle have been used', v_system.priority_moves_per_cycle;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM position_swaps
+    WHERE status IN ('proposed', 'accepted')
+      AND (proposer_payout_id IN (v_mine.id, v_theirs.id) OR counterparty_payout_id IN (v_mine.id, v_theirs.id))
+  ) THEN
+    RAISE EXCEPTION 'One of these positions already has a swap in progress';
+  END IF;
+
+  v_fee := v_system.priority_fee_amount;
+
+  v_account_id := ledger_account_id('member_wallet', NULL, auth.uid());
+  PERFORM 1 FROM ledger_accounts WHERE id = v_account_id FOR UPDATE;
+
+  v_balance := ledger_account_balance(v_account_id);
+
+  IF v_fee > v_balance THEN
+    RAISE EXCEPTION 'Your wallet balance of % is not enough to pay the priority fee of %', v_balance, v_fee;
+  END IF;
+
+  INSERT INTO position_swaps (
+    thrift_system_id, proposer_id, proposer_payout_id, counterparty_id, counterparty_payout_id,
+    compensation_amount, message, status, responded_at, decided_at
+  )
+  VALUES (
+    v_system.id, auth.uid(), v_mine.id, v_theirs.member_id, v_theirs.id,
+    CASE WHEN v_system.priority_fee_policy = 'compensate_displaced' THEN v_fee ELSE 0 END,
+    'Priority payout', 'accepted', NOW(), NOW()
+  )
+  RETURNING id INTO v_swap_id;
+
+  PERFORM execute_position_swap(v_swap_id);
+
+  INSERT INTO priority_payout_moves (
+    thrift_system_id, member_id, payout_id, displaced_member_id, displaced_payout_id,
+    from_position, to_position, fee, fee_policy, swap_id
+  )
+  VALUES (
+    v_system.id, auth.uid(), v_mine.id, v_theirs.member_id, v_theirs.id,
+    v_mine.position, v_theirs.position, v_fee, v_system.priority_fee_policy, v_swap_id
+  )
+  RETURNING id INTO v_move_id;
+
+  PERFORM post_ledger_transfer(
+    'fee', v_system.id, auth.uid(),
+    v_account_id,
+    CASE v_system.priority_fee_policy
+      WHEN 'organizer_fee' THEN ledger_account_id('organizer_fees', v_system.id)
+      WHEN 'bonus_pool' THEN ledger_account_id('thrift_premiums', v_system.id)
+      ELSE ledger_account_id('member_wallet', NULL, v_theirs.member_id)
+    END,
+    v_fee, 'Priority fee for position ' || v_theirs.position, 'priority_payout_move', v_move_id
+  );
+
+  -- The pool is split in kobo across every payout still to be made but the
+  -- mover's; the last of them absorbs the rounding
+  IF v_system.priority_fee_policy = 'bonus_pool' THEN
+    WITH sharers AS (
+      SELECT
+        id,
+        ROW_NUMBER() OVER (ORDER BY position) AS rn,
+        COUNT(*) OVER () AS total
+      FROM payouts
+      WHERE thrift_system_id = v_system.id
+        AND status = 'pending'
+        AND position IS NOT NULL
+        AND id <> v_mine.id
+    ),
+    shares AS (
+      SELECT
+        id,
+        CASE
+          WHEN rn = total THEN ROUND(v_fee * 100) - FLOOR(ROUND(v_fee * 100) / total) * (total - 1)
+          ELSE FLOOR(ROUND(v_fee * 100) / total)
+        END / 100 AS share
+      FROM sharers
+    )
+    UPDATE payouts p
+    SET
+      amount = p.amount + shares.share,
+      premium_share = p.premium_share + shares.share,
+      priority_bonus = p.priority_bonus + shares.share
+    FROM shares
+    WHERE p.id = shares.id;
+  END IF;
+
+  UPDATE payouts
+  SET
+    priority_fee = COALESCE(priority_fee, 0) + v_fee,
+    priority_moved_from = COALESCE(priority_moved_from, v_mine.position)
+  WHERE id = v_mine.id;
+
+  UPDATE payouts
+  SET priority_displaced_from = COALESCE(priority_displaced_from, v_theirs.position)
+  WHERE id = v_theirs.id;
+
+  SELECT full_name INTO v_name FROM profiles WHERE id = auth.uid();
+
+  INSERT INTO notifications (user_id, type, message)
+  VALUES
+    (v_theirs.member_id, 'priority_payout',
+      COALESCE(v_name, 'A member') || ' paid a priority fee for your payout position ' || v_theirs.position
+        || ' in ' || v_system.name || '. You now receive your payout at position ' || v_mine.position
+        || CASE v_system.priority_fee_policy
+             WHEN 'compensate_displaced' THEN ', and ' || v_fee || ' has been added to your wallet.'
+             WHEN 'bonus_pool' THEN ', with a share of the fee added to your payout.'
+             ELSE '.'
+           END),
+    (v_system.admin_id, 'priority_payout',
+      COALESCE(v_name, 'A member') || ' paid ' || v_fee || ' to move from position ' || v_mine.position
+        || ' to ' || v_theirs.position || ' in ' || v_system.name || '.');
+
+  RETURN v_move_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- As before, except that a regenerated schedule keeps each position's
+-- share of the priority bonus pool
+CREATE OR REPLACE FUNCTION public.apply_rotation_schedule(
+  p_thrift_system_id UUID,
+  p_schedule JSONB
+) RETURNS INTEGER AS $$
+DECLARE
+  v_payout JSONB;
+  v_contribution JSONB;
+  v_positions INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = p_thrift_system_id AND admin_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the thrift system admin can generate its schedule';
+  END IF;
+
+  v_positions := COALESCE(
+    (p_schedule->>'periods')::INTEGER,
+    jsonb_array_length(p_schedule->'payouts')
+  );
+
+  FOR v_payout IN SELECT * FROM jsonb_array_elements(p_schedule->'payouts') LOOP
+    INSERT INTO payouts (thrift_system_id, member_id, slot_number, position, amount, bid_premium, premium_share, scheduled_date, status)
+    VALUES (
+      p_thrift_system_id,
+      (v_payout->>'member_id')::UUID,
+      COALESCE((v_payout->>'slot_number')::INTEGER, 1),
+      (v_payout->>'position')::INTEGER,
+      (v_payout->>'amount')::NUMERIC,
+      COALESCE((v_payout->>'bid_premium')::NUMERIC, 0),
+      COALESCE((v_payout->>'premium_share')::NUMERIC, 0),
+      (v_payout->>'scheduled_date')::TIMESTAMPTZ,
+      'pending'
+    )
+    ON CONFLICT (thrift_system_id, position) WHERE position IS NOT NULL
+    DO UPDATE SET
+      member_id = EXCLUDED.member_id,
+      slot_number = EXCLUDED.slot_number,
+      amount = EXCLUDED.amount + payouts.priority_bonus,
+      bid_premium = EXCLUDED.bid_premium,
+      premium_share = EXCLUDED.premium_share + payouts.priority_bonus,
+      scheduled_date = EXCLUDED.scheduled_date
+    WHERE payouts.status = 'pending';
+  END LOOP;
+
+  FOR v_contribution IN SELECT * FROM jsonb_array_elements(p_schedule->'contributions') LOOP
+    INSERT INTO contributions (membership_id, slot_number, period_number, amount, due_date, status)
+    VALUES (
+      (v_contribution->>'membership_id')::UUID,
+      COALESCE((v_contribution->>'slot_number')::INTEGER, 1),
+      (v_contribution->>'period_number')::INTEGER,
+      (v_contribution->>'amount')::NUMERIC,
+      (v_contribution->>'due_date')::TIMESTAMPTZ,
+      'pending'
+    )
+    ON CONFLICT (membership_id, slot_number, period_number) WHERE period_number IS NOT NULL
+    DO UPDATE SET
+      amount = EXCLUDED.amount,
+      due_date = EXCLUDED.due_date
+    WHERE contributions.status = 'pending';
+  END LOOP;
+
+  DELETE FROM payouts
+  WHERE thrift_system_id = p_thrift_system_id
+    AND status = 'pending'
+    AND position > v_positions;
+
+  DELETE FROM contributions c
+  USING memberships m
+  WHERE m.id = c.membership_id
+    AND m.thrift_system_id = p_thrift_system_id
+    AND c.status = 'pending'
+    AND (c.period_number > v_positions OR c.slot_number > m.slot_count);
+
+  UPDATE thrift_systems
+  SET status = 'active', updated_at = NOW()
+  WHERE id = p_thrift_system_id;
+
+  RETURN v_positions;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The next cycle offers the same priority moves
+CREATE OR REPLACE FUNCTION public.start_next_cycle(
+  p_thrift_system_id UUID,
+  p_cycle_start_date TIMESTAMPTZ
+) RETURNS UUID AS $$
+DECLARE
+  v_system thrift_systems;
+  v_next_id UUID;
+BEGIN
+  SELECT * INTO v_system FROM thrift_systems WHERE id = p_thrift_system_id FOR UPDATE;
+
+  IF NOT FOUND OR v_system.admin_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the thrift system admin can start the next cycle';
+  END IF;
+
+  IF v_system.status <> 'completed' THEN
+    RAISE EXCEPTION 'Close the current cycle before starting the next one';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM thrift_systems WHERE previous_cycle_id = p_thrift_system_id) THEN
+    RAISE EXCEPTION 'The next cycle of this thrift system has already been started';
+  END IF;
+
+  IF p_cycle_start_date IS NULL OR p_cycle_start_date < NOW() THEN
+    RAISE EXCEPTION 'The next cycle must start in the future';
+  END IF;
+
+  INSERT INTO thrift_systems (
+    admin_id, admin_tier_id, name, description, contribution_amount, contribution_mode, max_members,
+    payout_schedule, cycle_duration, cycle_start_date, status,
+    payout_schedule_mode, position_assignment_mode, bid_premium_policy, swap_approval_mode,
+    organizer_commission_percent, auction_max_discount_percent,
+    late_grace_days, late_fee_type, late_fee_amount, late_fee_cap,
+    guarantors_required, guarantor_call_days, is_escrow_enabled,
+    priority_moves_per_cycle, priority_fee_amount, priority_fee_policy,
+    cycle_number, previous_cycle_id
+  )
+  VALUES (
+    v_system.admin_id, v_system.admin_tier_id, v_system.name, v_system.description,
+    v_system.contribution_amount, v_system.contribution_mode, v_system.max_members,
+    v_system.payout_schedule, v_system.cycle_duration, p_cycle_start_date, 'pending',
+    v_system.payout_schedule_mode, v_system.position_assignment_mode,
+    v_system.bid_premium_policy, v_system.swap_approval_mode,
+    v_system.organizer_commission_percent, v_system.auction_max_discount_percent,
+    v_system.late_grace_days, v_system.late_fee_type, v_system.late_fee_amount, v_system.late_fee_cap,
+    v_system.guarantors_required, v_system.guarantor_call_days, v_system.is_escrow_enabled,
+    v_system.priority_moves_per_cycle, v_system.priority_fee_amount, v_system.priority_fee_policy,
+    v_system.cycle_number + 1, p_thrift_system_id
+  )
+  RETURNING id INTO v_next_id;
+
+  INSERT INTO memberships (
+    thrift_system_id, user_id, role, status, join_date, slot_count, committed_amount,
+    wallet_autopay, payout_destination
+  )
+  SELECT
+    v_next_id, user_id, role, 'invited', NOW(), slot_count, committed_amount,
+    wallet_autopay, payout_destination
+  FROM memberships
+  WHERE thrift_system_id = p_thrift_system_id AND status = 'active';
+
+  INSERT INTO notifications (user_id, type, message)
+  SELECT user_id, 'cycle_rollover',
+    'Cycle ' || (v_system.cycle_number + 1) || ' of ' || v_system.name || ' starts '
+      || to_char(p_cycle_start_date, 'YYYY-MM-DD') || '. Let the organizer know whether you are in.'
+  FROM memberships
+  WHERE thrift_system_id = v_next_id;
+
+  RETURN v_next_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
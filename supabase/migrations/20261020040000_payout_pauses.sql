@@ -0,0 +1,209 @@
+-- Admins holding back payouts, with a reason, an optional date to resume
+-- on by themselves, and a record of every pause and resume
+ALTER TABLE public.payouts
+  ADD COLUMN IF NOT EXISTS admin_paused_until TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS public.payout_pause_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payout_id UUID NOT NULL REFERENCES public.payouts(id) ON DELETE CASCADE,
+  thrift_system_id UUID NOT NULL REFERENCES public.thrift_systems(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('paused', 'resumed')),
+  reason TEXT,
+  resume_at TIMESTAMPTZ,
+  -- NULL when the pause ran out on its own
+  actor_id UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS payout_pause_events_thrift_system_id_idx
+  ON public.payout_pause_events (thrift_system_id, created_at DESC);
+
+ALTER TABLE public.payout_pause_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and the paid member can view payout pauses"
+ON public.payout_pause_events FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE thrift_systems.id = payout_pause_events.thrift_system_id
+      AND thrift_systems.admin_id = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM payouts
+    WHERE payouts.id = payout_pause_events.payout_id
+      AND payouts.member_id = auth.uid()
+  )
+);
+
+-- A paused payout cannot be released, whichever processor picks it up
+CREATE OR REPLACE FUNCTION public.enforce_payout_pause() RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(NEW.admin_paused, FALSE)
+    AND OLD.status = 'pending'
+    AND NEW.status IN ('processing', 'completed') THEN
+    RAISE EXCEPTION 'Payout % is paused by the admin: %', NEW.id, COALESCE(NEW.admin_pause_reason, 'no reason given');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS payouts_enforce_pause ON public.payouts;
+
+CREATE TRIGGER payouts_enforce_pause
+BEFORE UPDATE OF status ON public.payouts
+FOR EACH ROW EXECUTE FUNCTION public.enforce_payout_pause();
+
+-- Pauses one pending payout, or every pending payout of the thrift when no
+-- payout is given. Pausing a paused payout again replaces its reason and
+-- resume date.
+CREATE OR REPLACE FUNCTION public.pause_payouts(
+  p_thrift_system_id UUID,
+  p_reason TEXT,
+  p_payout_id UUID DEFAULT NULL,
+  p_resume_at TIMESTAMPTZ DEFAULT NULL
+) RETURNS INTEGER AS $$
+DECLARE
+  v_name TEXT;
+  v_paused INTEGER;
+BEGIN
+  SELECT name INTO v_name
+  FROM thrift_systems
+  WHERE id = p_thrift_system_id AND admin_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the thrift system admin can pause its payouts';
+  END IF;
+
+  IF NULLIF(btrim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Give a reason for pausing';
+  END IF;
+
+  IF p_resume_at IS NOT NULL AND p_resume_at <= NOW() THEN
+    RAISE EXCEPTION 'The resume date must be in the future';
+  END IF;
+
+  CREATE TEMP TABLE paused_payouts (id UUID, member_id UUID, position INTEGER);
+
+  WITH updated AS (
+    UPDATE payouts
+    SET
+      admin_paused = TRUE,
+      admin_pause_reason = btrim(p_reason),
+      admin_paused_until = p_resume_at
+    WHERE thrift_system_id = p_thrift_system_id
+      AND status = 'pending'
+      AND (p_payout_id IS NULL OR id = p_payout_id)
+    RETURNING id, member_id, position
+  )
+  INSERT INTO paused_payouts SELECT * FROM updated;
+
+  SELECT COUNT(*) INTO v_paused FROM paused_payouts;
+
+  IF v_paused = 0 AND p_payout_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Only payouts that have not been made yet can be paused';
+  END IF;
+
+  INSERT INTO payout_pause_events (payout_id, thrift_system_id, action, reason, resume_at, actor_id)
+  SELECT id, p_thrift_system_id, 'paused', btrim(p_reason), p_resume_at, auth.uid()
+  FROM paused_payouts;
+
+  INSERT INTO notifications (user_id, type, message)
+  SELECT member_id, 'payout_paused',
+    'Your payout for position ' || position || ' in ' || v_name || ' has been paused by the organizer: '
+      || btrim(p_reason)
+      || CASE WHEN p_resume_at IS NOT NULL THEN '. It resumes on ' || to_char(p_resume_at, 'YYYY-MM-DD') || '.' ELSE '.' END
+  FROM paused_payouts;
+
+  DROP TABLE paused_payouts;
+
+  RETURN v_paused;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Lifts the pause on the given payouts and tells their members. A NULL
+-- actor means the pause ran out.
+CREATE OR REPLACE FUNCTION public.release_payout_pauses(
+  p_payout_ids UUID[],
+  p_actor_id UUID
+) RETURNS INTEGER AS $$
+DECLARE
+  v_resumed INTEGER;
+BEGIN
+  CREATE TEMP TABLE resumed_payouts (id UUID, thrift_system_id UUID, member_id UUID, position INTEGER);
+
+  WITH updated AS (
+    UPDATE payouts
+    SET
+      admin_paused = FALSE,
+      admin_pause_reason = NULL,
+      admin_paused_until = NULL
+    WHERE id = ANY(p_payout_ids) AND admin_paused
+    RETURNING id, thrift_system_id, member_id, position
+  )
+  INSERT INTO resumed_payouts SELECT * FROM updated;
+
+  SELECT COUNT(*) INTO v_resumed FROM resumed_payouts;
+
+  INSERT INTO payout_pause_events (payout_id, thrift_system_id, action, actor_id)
+  SELECT id, thrift_system_id, 'resumed', p_actor_id
+  FROM resumed_payouts;
+
+  INSERT INTO notifications (user_id, type, message)
+  SELECT r.member_id, 'payout_paused',
+    'Your payout for position ' || r.position || ' in ' || t.name || ' is no longer paused.'
+  FROM resumed_payouts r
+  JOIN thrift_systems t ON t.id = r.thrift_system_id;
+
+  DROP TABLE resumed_payouts;
+
+  RETURN v_resumed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.release_payout_pauses(UUID[], UUID) FROM PUBLIC, anon, authenticated;
+
+-- Resumes one paused payout, or all of the thrift's when no payout is given
+CREATE OR REPLACE FUNCTION public.resume_payouts(
+  p_thrift_system_id UUID,
+  p_payout_id UUID DEFAULT NULL
+) RETURNS INTEGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = p_thrift_system_id AND admin_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the thrift system admin can resume its payouts';
+  END IF;
+
+  RETURN release_payout_pauses(
+    ARRAY(
+      SELECT id FROM payouts
+      WHERE thrift_system_id = p_thrift_system_id
+        AND admin_paused
+        AND (p_payout_id IS NULL OR id = p_payout_id)
+    ),
+    auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.resume_expired_payout_pauses() RETURNS INTEGER AS $$
+BEGIN
+  RETURN release_payout_pauses(
+    ARRAY(
+      SELECT id FROM payouts
+      WHERE admin_paused AND admin_paused_until <= NOW()
+    ),
+    NULL
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.resume_expired_payout_pauses() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'resume-expired-payout-pauses',
+  '0 * * * *',
+  $$SELECT public.resume_expired_payout_pauses()$$
+);
@@ -0,0 +1,214 @@
+-- Server-side payout processing. A worker claims due payouts with a lease,
+-- sends each through a transfer provider under an idempotency key that stays
+-- the same across retries, and reports back. Failed transfers are retried
+-- with exponential backoff while the payout stays `processing`, so the
+-- released funds are not reversed and re-posted on every attempt.
+ALTER TABLE public.payouts
+  ADD COLUMN IF NOT EXISTS transfer_idempotency_key TEXT,
+  ADD COLUMN IF NOT EXISTS transfer_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS next_transfer_attempt_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS leased_by TEXT,
+  ADD COLUMN IF NOT EXISTS transfer_reference TEXT,
+  ADD COLUMN IF NOT EXISTS failure_reason TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS payouts_transfer_idempotency_key_idx
+  ON public.payouts (transfer_idempotency_key)
+  WHERE transfer_idempotency_key IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.payout_transfer_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payout_id UUID NOT NULL REFERENCES public.payouts(id) ON DELETE CASCADE,
+  attempt_number INTEGER NOT NULL,
+  idempotency_key TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('succeeded', 'failed')),
+  provider_reference TEXT,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (payout_id, attempt_number)
+);
+
+ALTER TABLE public.payout_transfer_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and the paid member can view transfer attempts"
+ON public.payout_transfer_attempts FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM payouts
+    JOIN thrift_systems ON thrift_systems.id = payouts.thrift_system_id
+    WHERE payouts.id = payout_transfer_attempts.payout_id
+      AND (payouts.member_id = auth.uid() OR thrift_systems.admin_id = auth.uid())
+  )
+);
+
+-- Claims up to `p_limit` payouts for one worker: due pending payouts that
+-- are not paused, retries whose backoff has passed, and processing payouts
+-- whose lease ran out. A payout that cannot be released yet, such as one
+-- held in escrow, is left for a later run. Payouts to a wallet complete as
+-- they are claimed and come back `completed`.
+CREATE OR REPLACE FUNCTION public.claim_due_payouts(
+  p_worker TEXT,
+  p_limit INTEGER DEFAULT 20,
+  p_lease_seconds INTEGER DEFAULT 300
+) RETURNS SETOF payouts AS $$
+DECLARE
+  v_candidate payouts;
+  v_claimed payouts;
+BEGIN
+  FOR v_candidate IN
+    SELECT * FROM payouts
+    WHERE (
+        status = 'pending'
+        AND NOT COALESCE(admin_paused, FALSE)
+        AND scheduled_date <= NOW()
+      ) OR (
+        status = 'processing'
+        AND COALESCE(lease_expires_at, '-infinity') < NOW()
+        AND COALESCE(next_transfer_attempt_at, '-infinity') <= NOW()
+      )
+    ORDER BY scheduled_date, position
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      UPDATE payouts
+      SET
+        status = 'processing',
+        transfer_idempotency_key = COALESCE(transfer_idempotency_key, 'payout-' || id),
+        transfer_attempts = transfer_attempts + 1,
+        lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+        leased_by = p_worker,
+        next_transfer_attempt_at = NULL
+      WHERE id = v_candidate.id
+      RETURNING * INTO v_claimed;
+
+      RETURN NEXT v_claimed;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE NOTICE 'Skipping payout %: %', v_candidate.id, SQLERRM;
+    END;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.claim_due_payouts(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Only the worker holding the lease, under the payout's own key, can
+-- report on it
+CREATE OR REPLACE FUNCTION public.leased_payout(
+  p_payout_id UUID,
+  p_idempotency_key TEXT
+) RETURNS payouts AS $$
+DECLARE
+  v_payout payouts;
+BEGIN
+  SELECT * INTO v_payout FROM payouts WHERE id = p_payout_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payout % not found', p_payout_id;
+  END IF;
+
+  IF v_payout.status <> 'processing' OR v_payout.transfer_idempotency_key IS DISTINCT FROM p_idempotency_key THEN
+    RAISE EXCEPTION 'Payout % is not being processed under key %', p_payout_id, p_idempotency_key;
+  END IF;
+
+  RETURN v_payout;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.leased_payout(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.complete_payout_transfer(
+  p_payout_id UUID,
+  p_idempotency_key TEXT,
+  p_provider TEXT,
+  p_provider_reference TEXT
+) RETURNS VOID AS $$
+DECLARE
+  v_payout payouts;
+BEGIN
+  v_payout := leased_payout(p_payout_id, p_idempotency_key);
+
+  INSERT INTO payout_transfer_attempts (payout_id, attempt_number, idempotency_key, provider, status, provider_reference)
+  VALUES (p_payout_id, v_payout.transfer_attempts, p_idempotency_key, p_provider, 'succeeded', p_provider_reference)
+  ON CONFLICT (payout_id, attempt_number) DO NOTHING;
+
+  UPDATE payouts
+  SET
+    status = 'completed',
+    completed_date = NOW(),
+    transfer_reference = p_provider_reference,
+    failure_reason = NULL,
+    lease_expires_at = NULL,
+    leased_by = NULL
+  WHERE id = p_payout_id;
+
+  INSERT INTO notifications (user_id, type, message)
+  SELECT v_payout.member_id, 'payout_sent',
+    'Your payout of ' || v_payout.amount || ' from ' || name || ' has been sent.'
+  FROM thrift_systems WHERE id = v_payout.thrift_system_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.complete_payout_transfer(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Schedules the next attempt `p_base_delay_seconds * 2^(attempts - 1)` from
+-- now, or fails the payout once `p_max_attempts` have been made. Failing it
+-- reverses the release in the ledger.
+CREATE OR REPLACE FUNCTION public.fail_payout_transfer(
+  p_payout_id UUID,
+  p_idempotency_key TEXT,
+  p_provider TEXT,
+  p_error TEXT,
+  p_max_attempts INTEGER DEFAULT 5,
+  p_base_delay_seconds INTEGER DEFAULT 60
+) RETURNS TEXT AS $$
+DECLARE
+  v_payout payouts;
+  v_name TEXT;
+  v_admin_id UUID;
+BEGIN
+  v_payout := leased_payout(p_payout_id, p_idempotency_key);
+
+  INSERT INTO payout_transfer_attempts (payout_id, attempt_number, idempotency_key, provider, status, error)
+  VALUES (p_payout_id, v_payout.transfer_attempts, p_idempotency_key, p_provider, 'failed', p_error)
+  ON CONFLICT (payout_id, attempt_number) DO NOTHING;
+
+  IF v_payout.transfer_attempts < p_max_attempts THEN
+    UPDATE payouts
+    SET
+      next_transfer_attempt_at = NOW()
+        + make_interval(secs => p_base_delay_seconds * power(2, v_payout.transfer_attempts - 1)),
+      failure_reason = p_error,
+      lease_expires_at = NULL,
+      leased_by = NULL
+    WHERE id = p_payout_id;
+
+    RETURN 'retrying';
+  END IF;
+
+  UPDATE payouts
+  SET
+    status = 'failed',
+    failure_reason = p_error,
+    next_transfer_attempt_at = NULL,
+    lease_expires_at = NULL,
+    leased_by = NULL
+  WHERE id = p_payout_id;
+
+  SELECT name, admin_id INTO v_name, v_admin_id FROM thrift_systems WHERE id = v_payout.thrift_system_id;
+
+  INSERT INTO notifications (user_id, type, message)
+  VALUES
+    (v_payout.member_id, 'payout_failed',
+      'Your payout of ' || v_payout.amount || ' from ' || v_name || ' could not be sent: ' || p_error
+        || '. The organizer has been told.'),
+    (v_admin_id, 'payout_failed',
+      'Payout ' || v_payout.position || ' of ' || v_name || ' failed after ' || v_payout.transfer_attempts
+        || ' attempts: ' || p_error || '.');
+
+  RETURN 'failed';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.fail_payout_transfer(UUID, TEXT, TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
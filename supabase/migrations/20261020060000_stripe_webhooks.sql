@@ -0,0 +1,236 @@
+-- Settling contributions from Stripe webhook events. Every event id is
+-- recorded in the same transaction that applies it, so a redelivered event
+-- changes nothing.
+CREATE TABLE IF NOT EXISTS public.stripe_webhook_events (
+  id TEXT PRIMARY KEY,
+  event_type TEXT NOT NULL,
+  payment_intent_id TEXT,
+  outcome TEXT NOT NULL,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.stripe_webhook_events ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.contribution_payments
+  ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC NOT NULL DEFAULT 0;
+
+ALTER TABLE public.contribution_payments
+  ADD CONSTRAINT contribution_payments_refunded_amount_check
+  CHECK (refunded_amount >= 0 AND refunded_amount <= amount);
+
+CREATE INDEX IF NOT EXISTS contribution_payments_reference_idx
+  ON public.contribution_payments (reference);
+
+-- A paid Checkout session. Whatever is still owed on the contribution is
+-- paid; anything beyond that, for instance when the member paid another way
+-- in the meantime, goes to their wallet.
+CREATE OR REPLACE FUNCTION public.settle_stripe_contribution_payment(
+  p_event_id TEXT,
+  p_event_type TEXT,
+  p_contribution_id UUID,
+  p_payment_intent_id TEXT,
+  p_amount NUMERIC
+) RETURNS TEXT AS $$
+DECLARE
+  v_user_id UUID;
+  v_owed NUMERIC;
+  v_applied NUMERIC;
+  v_topup_id UUID;
+BEGIN
+  INSERT INTO stripe_webhook_events (id, event_type, payment_intent_id, outcome)
+  VALUES (p_event_id, p_event_type, p_payment_intent_id, 'settled')
+  ON CONFLICT (id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN 'duplicate';
+  END IF;
+
+  -- Checkout can report the same payment through more than one event type
+  IF EXISTS (SELECT 1 FROM contribution_payments WHERE reference = p_payment_intent_id)
+    OR EXISTS (SELECT 1 FROM wallet_topups WHERE gateway_reference = p_payment_intent_id) THEN
+    UPDATE stripe_webhook_events SET outcome = 'duplicate' WHERE id = p_event_id;
+    RETURN 'duplicate';
+  END IF;
+
+  SELECT m.user_id INTO v_user_id
+  FROM contributions c
+  JOIN memberships m ON m.id = c.membership_id
+  WHERE c.id = p_contribution_id
+  FOR UPDATE OF c;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contribution % not found', p_contribution_id;
+  END IF;
+
+  SELECT
+    c.amount
+    + COALESCE((SELECT SUM(amount) FROM contribution_penalties WHERE contribution_id = c.id), 0)
+    - COALESCE((SELECT SUM(amount) FROM payment_allocations WHERE contribution_id = c.id), 0)
+  INTO v_owed
+  FROM contributions c
+  WHERE c.id = p_contribution_id;
+
+  v_applied := LEAST(p_amount, GREATEST(v_owed, 0));
+
+  IF v_applied > 0 THEN
+    PERFORM apply_contribution_payment(p_contribution_id, v_applied, p_payment_intent_id);
+  END IF;
+
+  UPDATE contributions
+  SET payment_intent_id = p_payment_intent_id, payment_provider = 'stripe'
+  WHERE id = p_contribution_id;
+
+  IF p_amount > v_applied THEN
+    INSERT INTO wallet_topups (user_id, amount, gateway, gateway_reference)
+    VALUES (v_user_id, p_amount - v_applied, 'stripe', p_payment_intent_id)
+    RETURNING id INTO v_topup_id;
+
+    PERFORM post_ledger_transfer(
+      'wallet_topup', NULL, v_user_id,
+      ledger_account_id('cash'),
+      ledger_account_id('member_wallet', NULL, v_user_id),
+      p_amount - v_applied, 'Card payment beyond what was owed', 'wallet_topup', v_topup_id
+    );
+
+    INSERT INTO notifications (user_id, type, message)
+    VALUES (
+      v_user_id, 'wallet',
+      (p_amount - v_applied) || ' of your card payment was more than you owed and has been added to your wallet.'
+    );
+  END IF;
+
+  RETURN 'settled';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.settle_stripe_contribution_payment(TEXT, TEXT, UUID, TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- A declined card leaves the contribution owed as it was; the member is
+-- told why
+CREATE OR REPLACE FUNCTION public.record_stripe_payment_failure(
+  p_event_id TEXT,
+  p_contribution_id UUID,
+  p_payment_intent_id TEXT,
+  p_reason TEXT
+) RETURNS TEXT AS $$
+BEGIN
+  INSERT INTO stripe_webhook_events (id, event_type, payment_intent_id, outcome)
+  VALUES (p_event_id, 'payment_intent.payment_failed', p_payment_intent_id, 'failed')
+  ON CONFLICT (id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN 'duplicate';
+  END IF;
+
+  UPDATE contributions
+  SET payment_intent_id = p_payment_intent_id, payment_provider = 'stripe'
+  WHERE id = p_contribution_id AND status <> 'completed';
+
+  INSERT INTO notifications (user_id, type, message)
+  SELECT m.user_id, 'contribution_due',
+    'Your card payment for the contribution due ' || to_char(c.due_date, 'YYYY-MM-DD')
+      || ' failed: ' || COALESCE(p_reason, 'the payment was declined') || '.'
+  FROM contributions c
+  JOIN memberships m ON m.id = c.membership_id
+  WHERE c.id = p_contribution_id;
+
+  RETURN 'failed';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.record_stripe_payment_failure(TEXT, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Takes refunded money back off the contribution it paid, principal before
+-- penalties. Stripe reports the total refunded so far, so only the part not
+-- yet handled is applied.
+CREATE OR REPLACE FUNCTION public.refund_stripe_contribution_payment(
+  p_event_id TEXT,
+  p_payment_intent_id TEXT,
+  p_amount_refunded NUMERIC
+) RETURNS TEXT AS $$
+DECLARE
+  v_payment contribution_payments;
+  v_allocation RECORD;
+  v_to_refund NUMERIC;
+  v_part NUMERIC;
+  v_contribution_id UUID;
+BEGIN
+  INSERT INTO stripe_webhook_events (id, event_type, payment_intent_id, outcome)
+  VALUES (p_event_id, 'charge.refunded', p_payment_intent_id, 'refunded')
+  ON CONFLICT (id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN 'duplicate';
+  END IF;
+
+  SELECT * INTO v_payment
+  FROM contribution_payments
+  WHERE reference = p_payment_intent_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    UPDATE stripe_webhook_events SET outcome = 'ignored' WHERE id = p_event_id;
+    RETURN 'ignored';
+  END IF;
+
+  v_to_refund := LEAST(p_amount_refunded, v_payment.amount) - v_payment.refunded_amount;
+
+  IF v_to_refund <= 0 THEN
+    RETURN 'refunded';
+  END IF;
+
+  UPDATE contribution_payments
+  SET refunded_amount = refunded_amount + v_to_refund
+  WHERE id = v_payment.id;
+
+  FOR v_allocation IN
+    SELECT a.*, m.thrift_system_id, m.user_id
+    FROM payment_allocations a
+    JOIN contributions c ON c.id = a.contribution_id
+    JOIN memberships m ON m.id = c.membership_id
+    WHERE a.payment_id = v_payment.id
+    ORDER BY CASE WHEN a.allocation_type = 'principal' THEN 0 ELSE 1 END
+  LOOP
+    EXIT WHEN v_to_refund <= 0;
+
+    v_part := LEAST(v_to_refund, v_allocation.amount);
+    v_contribution_id := v_allocation.contribution_id;
+
+    PERFORM post_ledger_transfer(
+      'refund', v_allocation.thrift_system_id, v_allocation.user_id,
+      thrift_holding_account(v_allocation.thrift_system_id, v_allocation.created_at),
+      ledger_account_id('cash'),
+      v_part, 'Card payment refunded', 'payment_allocation', v_allocation.id
+    );
+
+    IF v_part = v_allocation.amount THEN
+      DELETE FROM payment_allocations WHERE id = v_allocation.id;
+    ELSE
+      UPDATE payment_allocations SET amount = amount - v_part WHERE id = v_allocation.id;
+    END IF;
+
+    v_to_refund := v_to_refund - v_part;
+  END LOOP;
+
+  UPDATE contributions c
+  SET
+    status = CASE
+      WHEN EXISTS (SELECT 1 FROM payment_allocations WHERE contribution_id = c.id) THEN 'partially_paid'
+      ELSE 'pending'
+    END,
+    paid_date = NULL
+  WHERE c.id = v_contribution_id;
+
+  INSERT INTO notifications (user_id, type, message)
+  SELECT m.user_id, 'contribution_due',
+    'Your card payment for the contribution due ' || to_char(c.due_date, 'YYYY-MM-DD')
+      || ' was refunded, so it is owed again.'
+  FROM contributions c
+  JOIN memberships m ON m.id = c.membership_id
+  WHERE c.id = v_contribution_id;
+
+  RETURN 'refunded';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.refund_stripe_contribution_payment(TEXT, TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,249 @@
+-- Gateway adapters for Paystack, Flutterwave and Stripe. Each provider's keys
+-- live in `payment_provider_settings.config`:
+--   secret_key      API secret; Paystack also signs its webhooks with it
+--   public_key      safe to hand to the browser
+--   webhook_secret  Flutterwave's secret hash or Stripe's signing secret
+--   base_url        optional, points an adapter at the local stub server
+--   environment     'test' or 'production'
+CREATE TABLE IF NOT EXISTS public.payment_provider_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL,
+  config JSONB NOT NULL,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Secrets are read by edge functions with the service role only
+ALTER TABLE public.payment_provider_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE UNIQUE INDEX IF NOT EXISTS payment_provider_settings_active_provider_idx
+  ON public.payment_provider_settings (provider)
+  WHERE is_active;
+
+CREATE TABLE IF NOT EXISTS public.gateway_webhook_events (
+  provider TEXT NOT NULL,
+  id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  reference TEXT,
+  outcome TEXT NOT NULL,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (provider, id)
+);
+
+ALTER TABLE public.gateway_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- What the browser may know about a provider before starting a payment
+CREATE OR REPLACE FUNCTION public.get_payment_provider_config(p_provider TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_config JSONB;
+BEGIN
+  SELECT config INTO v_config
+  FROM payment_provider_settings
+  WHERE provider = p_provider AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION '% payments are not enabled', p_provider;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'provider', p_provider,
+    'public_key', v_config->>'public_key',
+    'environment', COALESCE(v_config->>'environment', 'test')
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- A confirmed gateway payment for a contribution, from a webhook or from the
+-- member's own verification. Whatever is still owed is paid and anything
+-- beyond it goes to the member's wallet. The reference is applied once no
+-- matter how many times the payment is reported.
+CREATE OR REPLACE FUNCTION public.settle_gateway_contribution_payment(
+  p_provider TEXT,
+  p_contribution_id UUID,
+  p_reference TEXT,
+  p_amount NUMERIC
+) RETURNS TEXT AS $$
+DECLARE
+  v_user_id UUID;
+  v_owed NUMERIC;
+  v_applied NUMERIC;
+  v_topup_id UUID;
+BEGIN
+  SELECT m.user_id INTO v_user_id
+  FROM contributions c
+  JOIN memberships m ON m.id = c.membership_id
+  WHERE c.id = p_contribution_id
+  FOR UPDATE OF c;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contribution % not found', p_contribution_id;
+  END IF;
+
+  -- Checked under the contribution's lock so two reports cannot both apply
+  IF EXISTS (SELECT 1 FROM contribution_payments WHERE reference = p_reference)
+    OR EXISTS (SELECT 1 FROM wallet_topups WHERE gateway_reference = p_reference) THEN
+    RETURN 'duplicate';
+  END IF;
+
+  SELECT
+    c.amount
+    + COALESCE((SELECT SUM(amount) FROM contribution_penalties WHERE contribution_id = c.id), 0)
+    - COALESCE((SELECT SUM(amount) FROM payment_allocations WHERE contribution_id = c.id), 0)
+  INTO v_owed
+  FROM contributions c
+  WHERE c.id = p_contribution_id;
+
+  v_applied := LEAST(p_amount, GREATEST(v_owed, 0));
+
+  IF v_applied > 0 THEN
+    PERFORM apply_contribution_payment(p_contribution_id, v_applied, p_reference);
+  END IF;
+
+  UPDATE contributions
+  SET payment_intent_id = p_reference, payment_provider = p_provider
+  WHERE id = p_contribution_id;
+
+  IF p_amount > v_applied THEN
+    INSERT INTO wallet_topups (user_id, amount, gateway, gateway_reference)
+    VALUES (v_user_id, p_amount - v_applied, p_provider, p_reference)
+    RETURNING id INTO v_topup_id;
+
+    PERFORM post_ledger_transfer(
+      'wallet_topup', NULL, v_user_id,
+      ledger_account_id('cash'),
+      ledger_account_id('member_wallet', NULL, v_user_id),
+      p_amount - v_applied, 'Gateway payment beyond what was owed', 'wallet_topup', v_topup_id
+    );
+
+    INSERT INTO notifications (user_id, type, message)
+    VALUES (
+      v_user_id, 'wallet',
+      (p_amount - v_applied) || ' of your payment was more than you owed and has been added to your wallet.'
+    );
+  END IF;
+
+  RETURN 'settled';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.settle_gateway_contribution_payment(TEXT, UUID, TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- A declined payment leaves the contribution owed as it was; the member is
+-- told why
+CREATE OR REPLACE FUNCTION public.record_gateway_payment_failure(
+  p_provider TEXT,
+  p_contribution_id UUID,
+  p_reference TEXT,
+  p_reason TEXT
+) RETURNS TEXT AS $$
+BEGIN
+  UPDATE contributions
+  SET payment_intent_id = p_reference, payment_provider = p_provider
+  WHERE id = p_contribution_id AND status <> 'completed';
+
+  INSERT INTO notifications (user_id, type, message)
+  SELECT m.user_id, 'contribution_due',
+    'Your payment for the contribution due ' || to_char(c.due_date, 'YYYY-MM-DD')
+      || ' failed: ' || COALESCE(p_reason, 'the payment was declined') || '.'
+  FROM contributions c
+  JOIN memberships m ON m.id = c.membership_id
+  WHERE c.id = p_contribution_id;
+
+  RETURN 'failed';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.record_gateway_payment_failure(TEXT, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Webhook deliveries for Paystack and Flutterwave. The event is recorded in
+-- the same transaction that applies it, so a redelivery changes nothing.
+CREATE OR REPLACE FUNCTION public.apply_gateway_webhook_event(
+  p_provider TEXT,
+  p_event_id TEXT,
+  p_event_type TEXT,
+  p_succeeded BOOLEAN,
+  p_contribution_id UUID,
+  p_reference TEXT,
+  p_amount NUMERIC,
+  p_reason TEXT DEFAULT NULL
+) RETURNS TEXT AS $$
+DECLARE
+  v_outcome TEXT;
+BEGIN
+  INSERT INTO gateway_webhook_events (provider, id, event_type, reference, outcome)
+  VALUES (p_provider, p_event_id, p_event_type, p_reference, 'received')
+  ON CONFLICT (provider, id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN 'duplicate';
+  END IF;
+
+  IF p_succeeded THEN
+    v_outcome := settle_gateway_contribution_payment(p_provider, p_contribution_id, p_reference, p_amount);
+  ELSE
+    v_outcome := record_gateway_payment_failure(p_provider, p_contribution_id, p_reference, p_reason);
+  END IF;
+
+  UPDATE gateway_webhook_events
+  SET outcome = v_outcome
+  WHERE provider = p_provider AND id = p_event_id;
+
+  RETURN v_outcome;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.apply_gateway_webhook_event(TEXT, TEXT, TEXT, BOOLEAN, UUID, TEXT, NUMERIC, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- The Stripe handlers now share the gateway settlement above
+CREATE OR REPLACE FUNCTION public.settle_stripe_contribution_payment(
+  p_event_id TEXT,
+  p_event_type TEXT,
+  p_contribution_id UUID,
+  p_payment_intent_id TEXT,
+  p_amount NUMERIC
+) RETURNS TEXT AS $$
+DECLARE
+  v_outcome TEXT;
+BEGIN
+  INSERT INTO stripe_webhook_events (id, event_type, payment_intent_id, outcome)
+  VALUES (p_event_id, p_event_type, p_payment_intent_id, 'settled')
+  ON CONFLICT (id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN 'duplicate';
+  END IF;
+
+  -- Checkout can report the same payment through more than one event type
+  v_outcome := settle_gateway_contribution_payment('stripe', p_contribution_id, p_payment_intent_id, p_amount);
+
+  IF v_outcome = 'duplicate' THEN
+    UPDATE stripe_webhook_events SET outcome = 'duplicate' WHERE id = p_event_id;
+  END IF;
+
+  RETURN v_outcome;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.settle_stripe_contribution_payment(TEXT, TEXT, UUID, TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.record_stripe_payment_failure(
+  p_event_id TEXT,
+  p_contribution_id UUID,
+  p_payment_intent_id TEXT,
+  p_reason TEXT
+) RETURNS TEXT AS $$
+BEGIN
+  INSERT INTO stripe_webhook_events (id, event_type, payment_intent_id, outcome)
+  VALUES (p_event_id, 'payment_intent.payment_failed', p_payment_intent_id, 'failed')
+  ON CONFLICT (id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN 'duplicate';
+  END IF;
+
+  RETURN record_gateway_payment_failure('stripe', p_contribution_id, p_payment_intent_id, p_reason);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.record_stripe_payment_failure(TEXT, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
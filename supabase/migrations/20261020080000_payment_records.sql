@@ -0,0 +1,254 @@
+-- Saved payment methods and payment attempts, kept in the database instead
+-- of the browser. Cards saved from a gateway checkout carry the provider's
+-- authorization so they can be charged again; members only ever see the
+-- display details.
+CREATE TABLE IF NOT EXISTS public.payment_methods (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('card', 'bank_account', 'mobile_money', 'crypto')),
+  -- The gateway that issued the authorization, if any
+  gateway TEXT,
+  authorization_code TEXT,
+  customer_code TEXT,
+  is_tokenized BOOLEAN GENERATED ALWAYS AS (authorization_code IS NOT NULL) STORED,
+  last4 TEXT NOT NULL,
+  brand TEXT,
+  expiry TEXT,
+  name TEXT,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (authorization_code IS NULL OR gateway IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS payment_methods_authorization_idx
+  ON public.payment_methods (user_id, gateway, authorization_code)
+  WHERE authorization_code IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS payment_methods_default_idx
+  ON public.payment_methods (user_id)
+  WHERE is_default;
+
+CREATE TABLE IF NOT EXISTS public.payment_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  gateway TEXT NOT NULL,
+  -- Ours, what the gateway verifies the attempt by
+  reference TEXT NOT NULL UNIQUE,
+  -- The gateway's, what the money is settled under
+  gateway_reference TEXT,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL,
+  description TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'succeeded', 'failed')),
+  payment_method_id UUID REFERENCES public.payment_methods(id) ON DELETE SET NULL,
+  contribution_id UUID REFERENCES public.contributions(id) ON DELETE SET NULL,
+  checkout_url TEXT,
+  failure_reason TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS payment_attempts_user_id_idx
+  ON public.payment_attempts (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS payment_attempts_gateway_reference_idx
+  ON public.payment_attempts (gateway_reference);
+
+CREATE INDEX IF NOT EXISTS payment_attempts_contribution_id_idx
+  ON public.payment_attempts (contribution_id);
+
+-- Every status an attempt has been in, oldest first
+CREATE TABLE IF NOT EXISTS public.payment_attempt_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_attempt_id UUID NOT NULL REFERENCES public.payment_attempts(id) ON DELETE CASCADE,
+  status TEXT NOT NULL,
+  failure_reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS payment_attempt_events_attempt_id_idx
+  ON public.payment_attempt_events (payment_attempt_id, created_at);
+
+ALTER TABLE public.payment_methods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_attempt_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own payment methods"
+ON public.payment_methods FOR SELECT
+USING (user_id = auth.uid());
+
+-- Authorizations are for the edge functions, which use the service role
+REVOKE SELECT ON public.payment_methods FROM anon, authenticated;
+GRANT SELECT (id, user_id, type, gateway, is_tokenized, last4, brand, expiry, name, is_default, created_at)
+  ON public.payment_methods TO authenticated;
+
+CREATE POLICY "Users can view their own payment attempts"
+ON public.payment_attempts FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view the history of their payment attempts"
+ON public.payment_attempt_events FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM payment_attempts
+    WHERE payment_attempts.id = payment_attempt_events.payment_attempt_id
+    AND payment_attempts.user_id = auth.uid()
+  )
+);
+
+-- Records each status change and keeps a succeeded attempt from being
+-- marked otherwise by a late or repeated report
+CREATE OR REPLACE FUNCTION public.track_payment_attempt_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+      RETURN NEW;
+    END IF;
+
+    IF OLD.status = 'succeeded' THEN
+      RAISE EXCEPTION 'Payment attempt % has already succeeded', OLD.id;
+    END IF;
+
+    NEW.updated_at := NOW();
+  END IF;
+
+  INSERT INTO payment_attempt_events (payment_attempt_id, status, failure_reason)
+  VALUES (NEW.id, NEW.status, NEW.failure_reason);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS track_payment_attempt_status ON public.payment_attempts;
+CREATE TRIGGER track_payment_attempt_status
+BEFORE UPDATE ON public.payment_attempts
+FOR EACH ROW EXECUTE FUNCTION public.track_payment_attempt_status();
+
+-- The history row references the attempt, so inserts are logged afterwards
+DROP TRIGGER IF EXISTS track_new_payment_attempt ON public.payment_attempts;
+CREATE TRIGGER track_new_payment_attempt
+AFTER INSERT ON public.payment_attempts
+FOR EACH ROW EXECUTE FUNCTION public.track_payment_attempt_status();
+
+-- A method entered by hand, for display only; it cannot be charged without
+-- going through checkout. The first method saved becomes the default.
+CREATE OR REPLACE FUNCTION public.add_payment_method(
+  p_type TEXT,
+  p_last4 TEXT,
+  p_brand TEXT DEFAULT NULL,
+  p_expiry TEXT DEFAULT NULL,
+  p_name TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_last4 IS NULL OR p_last4 !~ '^[0-9]{4}$' THEN
+    RAISE EXCEPTION 'Enter the last four digits';
+  END IF;
+
+  PERFORM 1 FROM profiles WHERE id = auth.uid() FOR UPDATE;
+
+  INSERT INTO payment_methods (user_id, type, last4, brand, expiry, name, is_default)
+  VALUES (
+    auth.uid(), p_type, p_last4, p_brand, p_expiry, p_name,
+    NOT EXISTS (SELECT 1 FROM payment_methods WHERE user_id = auth.uid())
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A card authorization from a verified gateway payment. Saving the same
+-- authorization again returns the existing method.
+CREATE OR REPLACE FUNCTION public.save_tokenized_payment_method(
+  p_user_id UUID,
+  p_gateway TEXT,
+  p_authorization_code TEXT,
+  p_customer_code TEXT,
+  p_last4 TEXT,
+  p_brand TEXT,
+  p_expiry TEXT
+) RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  PERFORM 1 FROM profiles WHERE id = p_user_id FOR UPDATE;
+
+  SELECT id INTO v_id
+  FROM payment_methods
+  WHERE user_id = p_user_id AND gateway = p_gateway AND authorization_code = p_authorization_code;
+
+  IF FOUND THEN
+    RETURN v_id;
+  END IF;
+
+  INSERT INTO payment_methods (
+    user_id, type, gateway, authorization_code, customer_code, last4, brand, expiry, is_default
+  )
+  VALUES (
+    p_user_id, 'card', p_gateway, p_authorization_code, p_customer_code,
+    COALESCE(p_last4, '****'), p_brand, p_expiry,
+    NOT EXISTS (SELECT 1 FROM payment_methods WHERE user_id = p_user_id)
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.save_tokenized_payment_method(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.set_default_payment_method(p_payment_method_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM payment_methods WHERE id = p_payment_method_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Payment method not found';
+  END IF;
+
+  UPDATE payment_methods
+  SET is_default = false
+  WHERE user_id = auth.uid() AND is_default AND id <> p_payment_method_id;
+
+  UPDATE payment_methods
+  SET is_default = true
+  WHERE id = p_payment_method_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Removing the default makes the newest remaining method the default.
+-- Past attempts keep their history but lose the link to the method.
+CREATE OR REPLACE FUNCTION public.delete_payment_method(p_payment_method_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_was_default BOOLEAN;
+BEGIN
+  DELETE FROM payment_methods
+  WHERE id = p_payment_method_id AND user_id = auth.uid()
+  RETURNING is_default INTO v_was_default;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment method not found';
+  END IF;
+
+  IF v_was_default THEN
+    UPDATE payment_methods
+    SET is_default = true
+    WHERE id = (
+      SELECT id FROM payment_methods
+      WHERE user_id = auth.uid()
+      ORDER BY created_at DESC
+      LIMIT 1
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,266 @@
+-- Reconciling what the gateways settled against what the app marked as paid.
+-- A settlement report is imported from a provider export or pulled through
+-- its adapter; each line is matched to a payment attempt and contribution by
+-- reference, and anything that does not add up becomes an exception for a
+-- platform admin to resolve.
+CREATE TABLE IF NOT EXISTS public.settlement_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  gateway TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('upload', 'adapter')),
+  file_name TEXT,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  imported_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (period_end >= period_start)
+);
+
+CREATE TABLE IF NOT EXISTS public.settlement_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id UUID NOT NULL REFERENCES public.settlement_reports(id) ON DELETE CASCADE,
+  reference TEXT NOT NULL,
+  amount NUMERIC NOT NULL,
+  fee NUMERIC NOT NULL DEFAULT 0,
+  currency TEXT,
+  settled_at TIMESTAMPTZ,
+  payment_attempt_id UUID REFERENCES public.payment_attempts(id) ON DELETE SET NULL,
+  contribution_id UUID REFERENCES public.contributions(id) ON DELETE SET NULL,
+  -- What the app recorded as paid under this reference
+  recorded_amount NUMERIC NOT NULL DEFAULT 0,
+  match_status TEXT NOT NULL DEFAULT 'unmatched'
+    CHECK (match_status IN ('unmatched', 'matched', 'amount_mismatch', 'no_contribution')),
+  UNIQUE (report_id, reference)
+);
+
+CREATE INDEX IF NOT EXISTS settlement_lines_reference_idx
+  ON public.settlement_lines (reference);
+
+CREATE TABLE IF NOT EXISTS public.reconciliation_exceptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id UUID NOT NULL REFERENCES public.settlement_reports(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('amount_mismatch', 'no_contribution', 'unsettled_contribution')),
+  settlement_line_id UUID REFERENCES public.settlement_lines(id) ON DELETE CASCADE,
+  payment_attempt_id UUID REFERENCES public.payment_attempts(id) ON DELETE SET NULL,
+  contribution_id UUID REFERENCES public.contributions(id) ON DELETE CASCADE,
+  reference TEXT,
+  expected_amount NUMERIC,
+  settled_amount NUMERIC,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+  resolution TEXT CHECK (resolution IN ('accepted', 'corrected', 'written_off', 'settled_later')),
+  resolution_note TEXT,
+  resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS reconciliation_exceptions_report_id_idx
+  ON public.reconciliation_exceptions (report_id, status);
+
+CREATE INDEX IF NOT EXISTS reconciliation_exceptions_contribution_id_idx
+  ON public.reconciliation_exceptions (contribution_id);
+
+ALTER TABLE public.settlement_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.settlement_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.reconciliation_exceptions ENABLE ROW LEVEL SECURITY;
+
+-- Settlements cover the platform's gateway accounts, so only platform admins
+-- see them
+CREATE OR REPLACE FUNCTION public.is_platform_admin()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin');
+$$ LANGUAGE sql SECURITY DEFINER STABLE;
+
+CREATE POLICY "Platform admins can view settlement reports"
+ON public.settlement_reports FOR SELECT
+USING (is_platform_admin());
+
+CREATE POLICY "Platform admins can view settlement lines"
+ON public.settlement_lines FOR SELECT
+USING (is_platform_admin());
+
+CREATE POLICY "Platform admins can view reconciliation exceptions"
+ON public.reconciliation_exceptions FOR SELECT
+USING (is_platform_admin());
+
+-- Matches every line of a report and raises its exceptions. Lines are tied
+-- to an attempt by either of its references, and to a contribution through
+-- the attempt, the reference the contribution was paid under, or the
+-- payment allocated to it.
+CREATE OR REPLACE FUNCTION public.reconcile_settlement_report(p_report_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_report settlement_reports;
+BEGIN
+  SELECT * INTO v_report FROM settlement_reports WHERE id = p_report_id;
+
+  UPDATE settlement_lines l
+  SET payment_attempt_id = (
+    SELECT a.id FROM payment_attempts a
+    WHERE a.gateway = v_report.gateway
+    AND (a.gateway_reference = l.reference OR a.reference = l.reference)
+    ORDER BY a.created_at DESC
+    LIMIT 1
+  )
+  WHERE l.report_id = p_report_id;
+
+  UPDATE settlement_lines l
+  SET
+    contribution_id = COALESCE(
+      (SELECT a.contribution_id FROM payment_attempts a WHERE a.id = l.payment_attempt_id),
+      (SELECT c.id FROM contributions c WHERE c.payment_intent_id = l.reference LIMIT 1),
+      (
+        SELECT pa.contribution_id
+        FROM contribution_payments cp
+        JOIN payment_allocations pa ON pa.payment_id = cp.id
+        WHERE cp.reference = l.reference
+        LIMIT 1
+      )
+    ),
+    recorded_amount =
+      COALESCE((SELECT SUM(cp.amount - cp.refunded_amount) FROM contribution_payments cp WHERE cp.reference = l.reference), 0)
+      + COALESCE((SELECT SUM(w.amount) FROM wallet_topups w WHERE w.gateway_reference = l.reference), 0)
+  WHERE l.report_id = p_report_id;
+
+  UPDATE settlement_lines
+  SET match_status = CASE
+    WHEN contribution_id IS NULL THEN 'no_contribution'
+    WHEN recorded_amount <> amount THEN 'amount_mismatch'
+    ELSE 'matched'
+  END
+  WHERE report_id = p_report_id;
+
+  INSERT INTO reconciliation_exceptions (
+    report_id, kind, settlement_line_id, payment_attempt_id, contribution_id,
+    reference, expected_amount, settled_amount
+  )
+  SELECT
+    p_report_id, l.match_status, l.id, l.payment_attempt_id, l.contribution_id,
+    l.reference, l.recorded_amount, l.amount
+  FROM settlement_lines l
+  WHERE l.report_id = p_report_id
+  AND l.match_status IN ('amount_mismatch', 'no_contribution');
+
+  -- Contributions this gateway completed in the period that no report of
+  -- the gateway has settled. Ones already flagged are not flagged again.
+  INSERT INTO reconciliation_exceptions (
+    report_id, kind, contribution_id, payment_attempt_id, reference, expected_amount, settled_amount
+  )
+  SELECT
+    p_report_id, 'unsettled_contribution', c.id,
+    (SELECT a.id FROM payment_attempts a WHERE a.gateway_reference = c.payment_intent_id LIMIT 1),
+    c.payment_intent_id,
+    COALESCE((SELECT SUM(amount) FROM payment_allocations WHERE contribution_id = c.id), 0),
+    0
+  FROM contributions c
+  WHERE c.status = 'completed'
+  AND c.payment_provider = v_report.gateway
+  AND c.paid_date::date BETWEEN v_report.period_start AND v_report.period_end
+  AND NOT EXISTS (
+    SELECT 1
+    FROM settlement_lines l
+    JOIN settlement_reports r ON r.id = l.report_id
+    WHERE r.gateway = v_report.gateway AND l.reference = c.payment_intent_id
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM reconciliation_exceptions e
+    WHERE e.contribution_id = c.id AND e.kind = 'unsettled_contribution' AND e.status = 'open'
+  );
+
+  -- Earlier exceptions this report settles after all
+  UPDATE reconciliation_exceptions e
+  SET
+    status = 'resolved',
+    resolution = 'settled_later',
+    resolution_note = 'Settled in a later report',
+    resolved_at = NOW()
+  WHERE e.kind = 'unsettled_contribution'
+  AND e.status = 'open'
+  AND e.report_id <> p_report_id
+  AND EXISTS (
+    SELECT 1 FROM settlement_lines l
+    WHERE l.report_id = p_report_id AND l.reference = e.reference
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.reconcile_settlement_report(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Imports a settlement report and reconciles it. Lines are objects with
+-- `reference`, `amount` and optionally `fee`, `currency` and `settled_at`,
+-- amounts in major units. Resolves to the report id.
+CREATE OR REPLACE FUNCTION public.import_settlement_report(
+  p_gateway TEXT,
+  p_source TEXT,
+  p_period_start DATE,
+  p_period_end DATE,
+  p_lines JSONB,
+  p_file_name TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_report_id UUID;
+BEGIN
+  IF NOT is_platform_admin() THEN
+    RAISE EXCEPTION 'Only platform admins can import settlement reports';
+  END IF;
+
+  IF jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'The settlement report has no lines';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_lines) line
+    WHERE COALESCE(line->>'reference', '') = '' OR line->>'amount' IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Every settlement line needs a reference and an amount';
+  END IF;
+
+  INSERT INTO settlement_reports (gateway, source, file_name, period_start, period_end, imported_by)
+  VALUES (p_gateway, p_source, p_file_name, p_period_start, p_period_end, auth.uid())
+  RETURNING id INTO v_report_id;
+
+  -- A reference listed twice is one settlement
+  INSERT INTO settlement_lines (report_id, reference, amount, fee, currency, settled_at)
+  SELECT DISTINCT ON (line.reference)
+    v_report_id, line.reference, line.amount, COALESCE(line.fee, 0), line.currency, line.settled_at
+  FROM jsonb_to_recordset(p_lines) AS line(
+    reference TEXT, amount NUMERIC, fee NUMERIC, currency TEXT, settled_at TIMESTAMPTZ
+  );
+
+  PERFORM reconcile_settlement_report(v_report_id);
+
+  RETURN v_report_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.resolve_reconciliation_exception(
+  p_exception_id UUID,
+  p_resolution TEXT,
+  p_note TEXT
+) RETURNS VOID AS $$
+BEGIN
+  IF NOT is_platform_admin() THEN
+    RAISE EXCEPTION 'Only platform admins can resolve reconciliation exceptions';
+  END IF;
+
+  IF p_resolution NOT IN ('accepted', 'corrected', 'written_off') THEN
+    RAISE EXCEPTION 'Unknown resolution: %', p_resolution;
+  END IF;
+
+  IF COALESCE(trim(p_note), '') = '' THEN
+    RAISE EXCEPTION 'Explain how the exception was resolved';
+  END IF;
+
+  UPDATE reconciliation_exceptions
+  SET
+    status = 'resolved',
+    resolution = p_resolution,
+    resolution_note = trim(p_note),
+    resolved_by = auth.uid(),
+    resolved_at = NOW()
+  WHERE id = p_exception_id AND status = 'open';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Exception not found or already resolved';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,113 @@
+-- Wallet top-ups are only credited once a gateway has confirmed the money
+-- arrived. The browser could call `credit_wallet_topup` with any amount and
+-- any unused reference, so it is replaced by functions only the
+-- `payment-gateway`, `gateway-webhook` and `stripe-webhook` functions call.
+DROP FUNCTION IF EXISTS public.credit_wallet_topup(NUMERIC, TEXT, TEXT);
+
+-- A confirmed gateway payment made to top up a wallet. Like contribution
+-- settlements, the reference is applied once no matter how many times the
+-- payment is reported.
+CREATE OR REPLACE FUNCTION public.credit_gateway_wallet_topup(
+  p_provider TEXT,
+  p_user_id UUID,
+  p_reference TEXT,
+  p_amount NUMERIC
+) RETURNS TEXT AS $$
+DECLARE
+  v_topup_id UUID;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Top-up amount must be greater than zero';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM contribution_payments WHERE reference = p_reference) THEN
+    RETURN 'duplicate';
+  END IF;
+
+  INSERT INTO wallet_topups (user_id, amount, gateway, gateway_reference)
+  VALUES (p_user_id, p_amount, p_provider, p_reference)
+  ON CONFLICT (gateway_reference) DO NOTHING
+  RETURNING id INTO v_topup_id;
+
+  IF v_topup_id IS NULL THEN
+    RETURN 'duplicate';
+  END IF;
+
+  PERFORM post_ledger_transfer(
+    'wallet_topup', NULL, p_user_id,
+    ledger_account_id('cash'),
+    ledger_account_id('member_wallet', NULL, p_user_id),
+    p_amount, 'Top-up via ' || p_provider, 'wallet_topup', v_topup_id
+  );
+
+  INSERT INTO notifications (user_id, type, message)
+  VALUES (p_user_id, 'wallet', p_amount || ' has been added to your wallet.');
+
+  RETURN 'credited';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.credit_gateway_wallet_topup(TEXT, UUID, TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Paystack and Flutterwave webhooks for a top-up, recorded like
+-- `apply_gateway_webhook_event` so a redelivery changes nothing
+CREATE OR REPLACE FUNCTION public.apply_gateway_topup_event(
+  p_provider TEXT,
+  p_event_id TEXT,
+  p_event_type TEXT,
+  p_user_id UUID,
+  p_reference TEXT,
+  p_amount NUMERIC
+) RETURNS TEXT AS $$
+DECLARE
+  v_outcome TEXT;
+BEGIN
+  INSERT INTO gateway_webhook_events (provider, id, event_type, reference, outcome)
+  VALUES (p_provider, p_event_id, p_event_type, p_reference, 'received')
+  ON CONFLICT (provider, id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN 'duplicate';
+  END IF;
+
+  v_outcome := credit_gateway_wallet_topup(p_provider, p_user_id, p_reference, p_amount);
+
+  UPDATE gateway_webhook_events
+  SET outcome = v_outcome
+  WHERE provider = p_provider AND id = p_event_id;
+
+  RETURN v_outcome;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.apply_gateway_topup_event(TEXT, TEXT, TEXT, UUID, TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.credit_stripe_wallet_topup(
+  p_event_id TEXT,
+  p_event_type TEXT,
+  p_user_id UUID,
+  p_payment_intent_id TEXT,
+  p_amount NUMERIC
+) RETURNS TEXT AS $$
+DECLARE
+  v_outcome TEXT;
+BEGIN
+  INSERT INTO stripe_webhook_events (id, event_type, payment_intent_id, outcome)
+  VALUES (p_event_id, p_event_type, p_payment_intent_id, 'credited')
+  ON CONFLICT (id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN 'duplicate';
+  END IF;
+
+  v_outcome := credit_gateway_wallet_topup('stripe', p_user_id, p_payment_intent_id, p_amount);
+
+  IF v_outcome = 'duplicate' THEN
+    UPDATE stripe_webhook_events SET outcome = 'duplicate' WHERE id = p_event_id;
+  END IF;
+
+  RETURN v_outcome;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.credit_stripe_wallet_topup(TEXT, TEXT, UUID, TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
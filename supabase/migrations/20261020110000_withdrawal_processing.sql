@@ -0,0 +1,155 @@
+-- Wallet withdrawals are sent by the `process-payouts` worker alongside
+-- payouts, with the same lease, idempotency key and retry backoff. A
+-- withdrawal that runs out of attempts is failed, which puts the money back
+-- in the wallet through `reverse_failed_withdrawal`.
+ALTER TABLE public.wallet_withdrawals
+  ADD COLUMN IF NOT EXISTS transfer_idempotency_key TEXT,
+  ADD COLUMN IF NOT EXISTS transfer_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS next_transfer_attempt_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS leased_by TEXT,
+  ADD COLUMN IF NOT EXISTS transfer_reference TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS wallet_withdrawals_transfer_idempotency_key_idx
+  ON public.wallet_withdrawals (transfer_idempotency_key)
+  WHERE transfer_idempotency_key IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS wallet_withdrawals_status_idx
+  ON public.wallet_withdrawals (status, created_at)
+  WHERE status IN ('pending', 'processing');
+
+-- Claims up to `p_limit` withdrawals for one worker: new requests, retries
+-- whose backoff has passed, and processing withdrawals whose lease ran out
+CREATE OR REPLACE FUNCTION public.claim_due_withdrawals(
+  p_worker TEXT,
+  p_limit INTEGER DEFAULT 20,
+  p_lease_seconds INTEGER DEFAULT 300
+) RETURNS SETOF wallet_withdrawals AS $$
+  UPDATE wallet_withdrawals w
+  SET
+    status = 'processing',
+    transfer_idempotency_key = COALESCE(w.transfer_idempotency_key, 'withdrawal-' || w.id),
+    transfer_attempts = w.transfer_attempts + 1,
+    lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+    leased_by = p_worker,
+    next_transfer_attempt_at = NULL
+  WHERE w.id IN (
+    SELECT id FROM wallet_withdrawals
+    WHERE status = 'pending'
+      OR (
+        status = 'processing'
+        AND COALESCE(lease_expires_at, '-infinity') < NOW()
+        AND COALESCE(next_transfer_attempt_at, '-infinity') <= NOW()
+      )
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING w.*;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.claim_due_withdrawals(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Only the worker holding the lease, under the withdrawal's own key, can
+-- report on it
+CREATE OR REPLACE FUNCTION public.leased_withdrawal(
+  p_withdrawal_id UUID,
+  p_idempotency_key TEXT
+) RETURNS wallet_withdrawals AS $$
+DECLARE
+  v_withdrawal wallet_withdrawals;
+BEGIN
+  SELECT * INTO v_withdrawal FROM wallet_withdrawals WHERE id = p_withdrawal_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Withdrawal % not found', p_withdrawal_id;
+  END IF;
+
+  IF v_withdrawal.status <> 'processing' OR v_withdrawal.transfer_idempotency_key IS DISTINCT FROM p_idempotency_key THEN
+    RAISE EXCEPTION 'Withdrawal % is not being processed under key %', p_withdrawal_id, p_idempotency_key;
+  END IF;
+
+  RETURN v_withdrawal;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.leased_withdrawal(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.complete_withdrawal_transfer(
+  p_withdrawal_id UUID,
+  p_idempotency_key TEXT,
+  p_provider_reference TEXT
+) RETURNS VOID AS $$
+DECLARE
+  v_withdrawal wallet_withdrawals;
+BEGIN
+  v_withdrawal := leased_withdrawal(p_withdrawal_id, p_idempotency_key);
+
+  UPDATE wallet_withdrawals
+  SET
+    status = 'completed',
+    completed_at = NOW(),
+    transfer_reference = p_provider_reference,
+    failure_reason = NULL,
+    lease_expires_at = NULL,
+    leased_by = NULL
+  WHERE id = p_withdrawal_id;
+
+  INSERT INTO notifications (user_id, type, message)
+  VALUES (
+    v_withdrawal.user_id, 'wallet',
+    'Your withdrawal of ' || v_withdrawal.amount || ' has been sent to your bank account.'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.complete_withdrawal_transfer(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Retries with the same backoff as payouts. Failing the withdrawal returns
+-- the money to the wallet.
+CREATE OR REPLACE FUNCTION public.fail_withdrawal_transfer(
+  p_withdrawal_id UUID,
+  p_idempotency_key TEXT,
+  p_error TEXT,
+  p_max_attempts INTEGER DEFAULT 5,
+  p_base_delay_seconds INTEGER DEFAULT 60
+) RETURNS TEXT AS $$
+DECLARE
+  v_withdrawal wallet_withdrawals;
+BEGIN
+  v_withdrawal := leased_withdrawal(p_withdrawal_id, p_idempotency_key);
+
+  IF v_withdrawal.transfer_attempts < p_max_attempts THEN
+    UPDATE wallet_withdrawals
+    SET
+      next_transfer_attempt_at = NOW()
+        + make_interval(secs => p_base_delay_seconds * power(2, v_withdrawal.transfer_attempts - 1)),
+      failure_reason = p_error,
+      lease_expires_at = NULL,
+      leased_by = NULL
+    WHERE id = p_withdrawal_id;
+
+    RETURN 'retrying';
+  END IF;
+
+  UPDATE wallet_withdrawals
+  SET
+    status = 'failed',
+    failure_reason = p_error,
+    next_transfer_attempt_at = NULL,
+    lease_expires_at = NULL,
+    leased_by = NULL
+  WHERE id = p_withdrawal_id;
+
+  INSERT INTO notifications (user_id, type, message)
+  VALUES (
+    v_withdrawal.user_id, 'wallet',
+    'Your withdrawal of ' || v_withdrawal.amount || ' could not be sent: ' || p_error
+      || '. The money is back in your wallet.'
+  );
+
+  RETURN 'failed';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.fail_withdrawal_transfer(UUID, TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
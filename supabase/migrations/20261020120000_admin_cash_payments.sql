@@ -0,0 +1,37 @@
+-- `record_contribution_payment` no longer takes a member's word that they
+-- paid. Members pay through a gateway or their wallet; this is only for the
+-- thrift system admin to record cash they actually received from someone
+-- else. Guarantor calls are paid by `pay_guarantor_call`.
+CREATE OR REPLACE FUNCTION public.record_contribution_payment(
+  p_contribution_id UUID,
+  p_amount NUMERIC,
+  p_reference TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+  v_membership memberships;
+BEGIN
+  SELECT m.* INTO v_membership
+  FROM contributions c
+  JOIN memberships m ON m.id = c.membership_id
+  WHERE c.id = p_contribution_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contribution % not found', p_contribution_id;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = v_membership.thrift_system_id AND admin_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the thrift system admin can record a cash payment';
+  END IF;
+
+  IF v_membership.user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Pay your own contributions by card, bank transfer or wallet';
+  END IF;
+
+  RETURN apply_contribution_payment(
+    p_contribution_id, p_amount, COALESCE(NULLIF(trim(p_reference), ''), 'Cash')
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,103 @@
+-- A called guarantor pays from their own wallet, the same way a member pays
+-- from theirs, instead of having the contribution marked paid for nothing.
+CREATE OR REPLACE FUNCTION public.pay_guarantor_call(p_call_id UUID) RETURNS JSONB AS $$
+DECLARE
+  v_call guarantor_calls;
+  v_guarantee membership_guarantors;
+  v_debtor_id UUID;
+  v_owed NUMERIC;
+  v_payment JSONB;
+BEGIN
+  SELECT * INTO v_call FROM guarantor_calls WHERE id = p_call_id FOR UPDATE;
+  SELECT * INTO v_guarantee FROM membership_guarantors WHERE id = v_call.guarantee_id;
+
+  IF v_call.id IS NULL OR v_guarantee.guarantor_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the called guarantor can pay this contribution';
+  END IF;
+
+  IF v_call.status <> 'open' THEN
+    RAISE EXCEPTION 'This call is already %', v_call.status;
+  END IF;
+
+  SELECT
+    c.amount
+    + COALESCE((SELECT SUM(amount) FROM contribution_penalties WHERE contribution_id = c.id), 0)
+    - COALESCE((SELECT SUM(amount) FROM payment_allocations WHERE contribution_id = c.id), 0)
+  INTO v_owed
+  FROM contributions c
+  WHERE c.id = v_call.contribution_id;
+
+  v_payment := debit_wallet_for_contribution(auth.uid(), v_call.contribution_id, v_owed);
+
+  UPDATE guarantor_calls SET status = 'paid', paid_at = NOW() WHERE id = p_call_id;
+
+  SELECT user_id INTO v_debtor_id FROM memberships WHERE id = v_guarantee.membership_id;
+
+  INSERT INTO guarantor_receivables (
+    guarantor_id, debtor_id, membership_id, contribution_id, payment_id, amount
+  )
+  VALUES (
+    auth.uid(), v_debtor_id, v_guarantee.membership_id, v_call.contribution_id,
+    (v_payment->>'payment_id')::UUID, v_owed
+  );
+
+  INSERT INTO notifications (user_id, type, message)
+  VALUES (
+    v_debtor_id,
+    'guarantor_call',
+    'Your guarantor paid ' || v_owed || ' for your overdue contribution. You now owe them that amount.'
+  );
+
+  RETURN v_payment || jsonb_build_object('amount', v_owed);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- As before, but without telling the caller whether an email address has an
+-- account
+CREATE OR REPLACE FUNCTION public.nominate_guarantor(
+  p_membership_id UUID,
+  p_email TEXT
+) RETURNS UUID AS $$
+DECLARE
+  v_membership memberships;
+  v_guarantor_id UUID;
+  v_guarantee_id UUID;
+BEGIN
+  SELECT * INTO v_membership FROM memberships WHERE id = p_membership_id;
+
+  IF NOT FOUND OR v_membership.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'You can only nominate guarantors for your own join request';
+  END IF;
+
+  IF v_membership.status NOT IN ('pending', 'waitlisted') THEN
+    RAISE EXCEPTION 'Guarantors can only be added while the request is pending';
+  END IF;
+
+  SELECT id INTO v_guarantor_id FROM auth.users WHERE lower(email) = lower(trim(p_email));
+
+  IF v_guarantor_id IS NULL THEN
+    RAISE EXCEPTION 'This guarantor could not be nominated. Check the email address and ask them to sign up first.';
+  END IF;
+
+  IF v_guarantor_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot be your own guarantor';
+  END IF;
+
+  INSERT INTO membership_guarantors (membership_id, guarantor_id)
+  VALUES (p_membership_id, v_guarantor_id)
+  ON CONFLICT (membership_id, guarantor_id) DO NOTHING
+  RETURNING id INTO v_guarantee_id;
+
+  IF v_guarantee_id IS NULL THEN
+    RAISE EXCEPTION 'This user has already been nominated';
+  END IF;
+
+  INSERT INTO notifications (user_id, type, message)
+  SELECT v_guarantor_id, 'guarantor_request',
+    COALESCE(p.full_name, 'A member') || ' has asked you to guarantee their contributions in ' || t.name || '.'
+  FROM profiles p, thrift_systems t
+  WHERE p.id = auth.uid() AND t.id = v_membership.thrift_system_id;
+
+  RETURN v_guarantee_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
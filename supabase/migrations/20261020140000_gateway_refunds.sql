@@ -0,0 +1,194 @@
+-- Refunds take back the whole refunded amount. Whatever a payment did not
+-- put towards its contribution went to the member's wallet as a top-up, and
+-- refunding it used to leave that wallet credit in place.
+ALTER TABLE public.wallet_topups
+  ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC NOT NULL DEFAULT 0;
+
+ALTER TABLE public.wallet_topups
+  ADD CONSTRAINT wallet_topups_refunded_amount_check
+  CHECK (refunded_amount >= 0 AND refunded_amount <= amount);
+
+-- Brings a gateway payment's refunds up to `p_total_refunded`, the total the
+-- gateway has refunded so far. The contribution is refunded first, principal
+-- before penalties, then the wallet top-up made from the same payment. A
+-- wallet that already spent the money is left owing it.
+CREATE OR REPLACE FUNCTION public.refund_gateway_payment(
+  p_reference TEXT,
+  p_total_refunded NUMERIC
+) RETURNS TEXT AS $$
+DECLARE
+  v_payment contribution_payments;
+  v_topup wallet_topups;
+  v_allocation RECORD;
+  v_to_refund NUMERIC;
+  v_part NUMERIC;
+  v_contribution_id UUID;
+BEGIN
+  SELECT * INTO v_payment
+  FROM contribution_payments
+  WHERE reference = p_reference
+  FOR UPDATE;
+
+  SELECT * INTO v_topup
+  FROM wallet_topups
+  WHERE gateway_reference = p_reference
+  FOR UPDATE;
+
+  IF v_payment.id IS NULL AND v_topup.id IS NULL THEN
+    RETURN 'ignored';
+  END IF;
+
+  IF v_payment.id IS NOT NULL THEN
+    v_to_refund := LEAST(p_total_refunded, v_payment.amount) - v_payment.refunded_amount;
+
+    IF v_to_refund > 0 THEN
+      UPDATE contribution_payments
+      SET refunded_amount = refunded_amount + v_to_refund
+      WHERE id = v_payment.id;
+
+      FOR v_allocation IN
+        SELECT a.*, m.thrift_system_id, m.user_id
+        FROM payment_allocations a
+        JOIN contributions c ON c.id = a.contribution_id
+        JOIN memberships m ON m.id = c.membership_id
+        WHERE a.payment_id = v_payment.id
+        ORDER BY CASE WHEN a.allocation_type = 'principal' THEN 0 ELSE 1 END
+      LOOP
+        EXIT WHEN v_to_refund <= 0;
+
+        v_part := LEAST(v_to_refund, v_allocation.amount);
+        v_contribution_id := v_allocation.contribution_id;
+
+        PERFORM post_ledger_transfer(
+          'refund', v_allocation.thrift_system_id, v_allocation.user_id,
+          thrift_holding_account(v_allocation.thrift_system_id, v_allocation.created_at),
+          ledger_account_id('cash'),
+          v_part, 'Payment refunded', 'payment_allocation', v_allocation.id
+        );
+
+        IF v_part = v_allocation.amount THEN
+          DELETE FROM payment_allocations WHERE id = v_allocation.id;
+        ELSE
+          UPDATE payment_allocations SET amount = amount - v_part WHERE id = v_allocation.id;
+        END IF;
+
+        v_to_refund := v_to_refund - v_part;
+      END LOOP;
+
+      UPDATE contributions c
+      SET
+        status = CASE
+          WHEN EXISTS (SELECT 1 FROM payment_allocations WHERE contribution_id = c.id) THEN 'partially_paid'
+          ELSE 'pending'
+        END,
+        paid_date = NULL
+      WHERE c.id = v_contribution_id;
+
+      INSERT INTO notifications (user_id, type, message)
+      SELECT m.user_id, 'contribution_due',
+        'Your payment for the contribution due ' || to_char(c.due_date, 'YYYY-MM-DD')
+          || ' was refunded, so it is owed again.'
+      FROM contributions c
+      JOIN memberships m ON m.id = c.membership_id
+      WHERE c.id = v_contribution_id;
+    END IF;
+  END IF;
+
+  IF v_topup.id IS NOT NULL THEN
+    v_to_refund := LEAST(
+      GREATEST(p_total_refunded - COALESCE(v_payment.amount, 0), 0),
+      v_topup.amount
+    ) - v_topup.refunded_amount;
+
+    IF v_to_refund > 0 THEN
+      UPDATE wallet_topups
+      SET refunded_amount = refunded_amount + v_to_refund
+      WHERE id = v_topup.id;
+
+      PERFORM post_ledger_transfer(
+        'refund', NULL, v_topup.user_id,
+        ledger_account_id('member_wallet', NULL, v_topup.user_id),
+        ledger_account_id('cash'),
+        v_to_refund, 'Top-up refunded', 'wallet_topup', v_topup.id
+      );
+
+      INSERT INTO notifications (user_id, type, message)
+      VALUES (
+        v_topup.user_id, 'wallet',
+        v_to_refund || ' was refunded to you by ' || v_topup.gateway || ' and taken back out of your wallet.'
+      );
+    END IF;
+  END IF;
+
+  RETURN 'refunded';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.refund_gateway_payment(TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Stripe reports the total refunded on the charge so far
+CREATE OR REPLACE FUNCTION public.refund_stripe_contribution_payment(
+  p_event_id TEXT,
+  p_payment_intent_id TEXT,
+  p_amount_refunded NUMERIC
+) RETURNS TEXT AS $$
+DECLARE
+  v_outcome TEXT;
+BEGIN
+  INSERT INTO stripe_webhook_events (id, event_type, payment_intent_id, outcome)
+  VALUES (p_event_id, 'charge.refunded', p_payment_intent_id, 'refunded')
+  ON CONFLICT (id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN 'duplicate';
+  END IF;
+
+  v_outcome := refund_gateway_payment(p_payment_intent_id, p_amount_refunded);
+
+  IF v_outcome <> 'refunded' THEN
+    UPDATE stripe_webhook_events SET outcome = v_outcome WHERE id = p_event_id;
+  END IF;
+
+  RETURN v_outcome;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.refund_stripe_contribution_payment(TEXT, TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Paystack reports each refund on its own, so it is added to what has been
+-- refunded on the payment already
+CREATE OR REPLACE FUNCTION public.apply_gateway_refund_event(
+  p_provider TEXT,
+  p_event_id TEXT,
+  p_event_type TEXT,
+  p_reference TEXT,
+  p_amount NUMERIC
+) RETURNS TEXT AS $$
+DECLARE
+  v_refunded NUMERIC;
+  v_outcome TEXT;
+BEGIN
+  INSERT INTO gateway_webhook_events (provider, id, event_type, reference, outcome)
+  VALUES (p_provider, p_event_id, p_event_type, p_reference, 'received')
+  ON CONFLICT (provider, id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN 'duplicate';
+  END IF;
+
+  SELECT
+    COALESCE((SELECT SUM(refunded_amount) FROM contribution_payments WHERE reference = p_reference), 0)
+    + COALESCE((SELECT SUM(refunded_amount) FROM wallet_topups WHERE gateway_reference = p_reference), 0)
+  INTO v_refunded;
+
+  v_outcome := refund_gateway_payment(p_reference, v_refunded + p_amount);
+
+  UPDATE gateway_webhook_events
+  SET outcome = v_outcome
+  WHERE provider = p_provider AND id = p_event_id;
+
+  RETURN v_outcome;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.apply_gateway_refund_event(TEXT, TEXT, TEXT, TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
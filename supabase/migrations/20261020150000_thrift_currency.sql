@@ -0,0 +1,5 @@
+-- The currency a thrift system's contributions are paid in. Gateway payments
+-- take it from here rather than from the browser, and a settlement in any
+-- other currency is not applied.
+ALTER TABLE public.thrift_systems
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'NGN';
@@ -0,0 +1,236 @@
+-- Exits settle on contributions alone: late penalties a leaving member paid
+-- are kept by the group. A replacement buys in for the periods the leaving
+-- member already paid, which is what funds their refund. Without one, the
+-- payouts still to come are cut to what each period will now collect, so
+-- none of them is promised more than the group takes in.
+ALTER TABLE public.member_exits
+  ADD COLUMN IF NOT EXISTS buy_in_amount NUMERIC NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.member_exit_settlement(p_membership_id UUID) RETURNS JSONB AS $$
+DECLARE
+  v_membership memberships;
+  v_paid NUMERIC;
+  v_received NUMERIC;
+  v_outstanding NUMERIC;
+  v_open_positions INTEGER;
+BEGIN
+  SELECT * INTO v_membership FROM memberships WHERE id = p_membership_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Membership % not found', p_membership_id;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = v_membership.thrift_system_id AND admin_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the thrift system admin can settle a member exit';
+  END IF;
+
+  SELECT COALESCE(SUM(a.amount), 0) INTO v_paid
+  FROM payment_allocations a
+  JOIN contributions c ON c.id = a.contribution_id
+  WHERE c.membership_id = p_membership_id
+    AND a.allocation_type = 'principal';
+
+  SELECT
+    COALESCE((
+      SELECT SUM(amount) FROM payouts
+      WHERE thrift_system_id = v_membership.thrift_system_id
+        AND member_id = v_membership.user_id
+        AND status = 'completed'
+    ), 0)
+    + COALESCE((
+      SELECT SUM(amount) FROM dividend_credits
+      WHERE thrift_system_id = v_membership.thrift_system_id
+        AND member_id = v_membership.user_id
+    ), 0)
+  INTO v_received;
+
+  SELECT COALESCE(SUM(
+    c.amount
+    + COALESCE((SELECT SUM(amount) FROM contribution_penalties WHERE contribution_id = c.id), 0)
+    - COALESCE((SELECT SUM(amount) FROM payment_allocations WHERE contribution_id = c.id), 0)
+  ), 0) INTO v_outstanding
+  FROM contributions c
+  WHERE c.membership_id = p_membership_id
+    AND c.status <> 'completed'
+    AND c.due_date <= NOW();
+
+  SELECT COUNT(*) INTO v_open_positions
+  FROM payouts
+  WHERE thrift_system_id = v_membership.thrift_system_id
+    AND member_id = v_membership.user_id
+    AND status = 'pending';
+
+  RETURN jsonb_build_object(
+    'paid', v_paid,
+    'received', v_received,
+    'outstanding', v_outstanding,
+    'settlement', v_paid - v_received - v_outstanding,
+    'open_positions', v_open_positions
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- As before, with the replacement's buy-in and the rebased payouts
+CREATE OR REPLACE FUNCTION public.process_member_exit(
+  p_membership_id UUID,
+  p_replacement_membership_id UUID DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+  v_membership memberships;
+  v_replacement memberships;
+  v_settlement JSONB;
+  v_exit_id UUID;
+  v_buy_in NUMERIC := 0;
+  v_buy_in_due TIMESTAMPTZ;
+BEGIN
+  -- Also checks that the caller is the admin
+  v_settlement := member_exit_settlement(p_membership_id);
+
+  SELECT * INTO v_membership FROM memberships WHERE id = p_membership_id FOR UPDATE;
+
+  IF v_membership.status <> 'active' THEN
+    RAISE EXCEPTION 'Only active members can exit';
+  END IF;
+
+  IF p_replacement_membership_id IS NOT NULL THEN
+    SELECT * INTO v_replacement FROM memberships WHERE id = p_replacement_membership_id FOR UPDATE;
+
+    IF NOT FOUND OR v_replacement.thrift_system_id <> v_membership.thrift_system_id THEN
+      RAISE EXCEPTION 'The replacement must have asked to join this thrift system';
+    END IF;
+
+    IF v_replacement.status NOT IN ('pending', 'waitlisted') THEN
+      RAISE EXCEPTION 'The replacement must come from the pending requests or the waitlist';
+    END IF;
+
+    IF (v_settlement->>'open_positions')::INTEGER = 0 THEN
+      RAISE EXCEPTION 'This member has already been paid out; settle their balance instead of replacing them';
+    END IF;
+  END IF;
+
+  -- Offers on positions that are about to change hands no longer stand
+  UPDATE position_swaps
+  SET status = 'cancelled'
+  WHERE thrift_system_id = v_membership.thrift_system_id
+    AND status IN ('proposed', 'accepted')
+    AND v_membership.user_id IN (proposer_id, counterparty_id);
+
+  -- Free the member's slots before the replacement takes them up
+  UPDATE memberships
+  SET status = 'exited', exited_at = NOW()
+  WHERE id = p_membership_id;
+
+  IF p_replacement_membership_id IS NOT NULL THEN
+    UPDATE memberships
+    SET status = 'active', slot_count = v_membership.slot_count
+    WHERE id = p_replacement_membership_id;
+
+    UPDATE payouts
+    SET member_id = v_replacement.user_id
+    WHERE thrift_system_id = v_membership.thrift_system_id
+      AND member_id = v_membership.user_id
+      AND status = 'pending';
+
+    SELECT MIN(due_date) INTO v_buy_in_due
+    FROM contributions
+    WHERE membership_id = p_membership_id
+      AND status = 'pending'
+      AND due_date > NOW();
+
+    UPDATE contributions
+    SET membership_id = p_replacement_membership_id
+    WHERE membership_id = p_membership_id
+      AND status = 'pending'
+      AND due_date > NOW();
+
+    -- The replacement pays back every period the leaving member paid for,
+    -- due with their first regular contribution, which funds the refund
+    INSERT INTO contributions (membership_id, slot_number, period_number, amount, due_date, status)
+    SELECT
+      p_replacement_membership_id, c.slot_number, c.period_number,
+      SUM(a.amount), COALESCE(v_buy_in_due, NOW()), 'pending'
+    FROM contributions c
+    JOIN payment_allocations a ON a.contribution_id = c.id AND a.allocation_type = 'principal'
+    WHERE c.membership_id = p_membership_id
+    GROUP BY c.id, c.slot_number, c.period_number;
+
+    v_buy_in := (v_settlement->>'paid')::NUMERIC;
+
+    UPDATE disbursement_preferences
+    SET member_id = v_replacement.user_id
+    WHERE thrift_system_id = v_membership.thrift_system_id
+      AND member_id = v_membership.user_id;
+
+    INSERT INTO notifications (user_id, type, message)
+    SELECT v_replacement.user_id, 'member_exit',
+      'You have joined ' || name || ' and taken over an open payout position. '
+        || CASE WHEN v_buy_in > 0
+             THEN 'You owe ' || v_buy_in || ' for the periods already paid, due with your first contribution.'
+             ELSE ''
+           END
+    FROM thrift_systems WHERE id = v_membership.thrift_system_id;
+  ELSE
+    -- Each later payout is cut to what its period still collects
+    UPDATE payouts p
+    SET amount = GREATEST(p.amount - leaving.amount, 0)
+    FROM (
+      SELECT period_number, SUM(amount) AS amount
+      FROM contributions
+      WHERE membership_id = p_membership_id
+        AND status = 'pending'
+        AND due_date > NOW()
+        AND period_number IS NOT NULL
+      GROUP BY period_number
+    ) leaving
+    WHERE p.thrift_system_id = v_membership.thrift_system_id
+      AND p.position = leaving.period_number
+      AND p.status = 'pending'
+      AND p.member_id <> v_membership.user_id;
+
+    DELETE FROM contributions
+    WHERE membership_id = p_membership_id
+      AND status = 'pending'
+      AND due_date > NOW();
+
+    DELETE FROM payouts
+    WHERE thrift_system_id = v_membership.thrift_system_id
+      AND member_id = v_membership.user_id
+      AND status = 'pending';
+  END IF;
+
+  INSERT INTO member_exits (
+    thrift_system_id, membership_id, member_id, replacement_membership_id,
+    total_paid, total_received, outstanding, settlement_amount, buy_in_amount, reason, processed_by
+  )
+  VALUES (
+    v_membership.thrift_system_id, p_membership_id, v_membership.user_id, p_replacement_membership_id,
+    (v_settlement->>'paid')::NUMERIC,
+    (v_settlement->>'received')::NUMERIC,
+    (v_settlement->>'outstanding')::NUMERIC,
+    (v_settlement->>'settlement')::NUMERIC,
+    v_buy_in,
+    p_reason,
+    auth.uid()
+  )
+  RETURNING id INTO v_exit_id;
+
+  INSERT INTO notifications (user_id, type, message)
+  VALUES (
+    v_membership.user_id,
+    'member_exit',
+    CASE
+      WHEN (v_settlement->>'settlement')::NUMERIC > 0
+        THEN 'You have left the group. You are owed ' || (v_settlement->>'settlement') || '.'
+      WHEN (v_settlement->>'settlement')::NUMERIC < 0
+        THEN 'You have left the group. You owe ' || abs((v_settlement->>'settlement')::NUMERIC) || '.'
+      ELSE 'You have left the group. Your account is settled.'
+    END
+  );
+
+  RETURN v_settlement || jsonb_build_object('exit_id', v_exit_id, 'buy_in', v_buy_in);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,139 @@
+-- Two things kept cycles from closing cleanly. Contributions a leaving member
+-- still owed stayed unpaid forever, although the exit settlement already
+-- deducted them; they are now written off when the exit is recorded. And
+-- whatever the group still held after the last payout stayed in its
+-- accounts; closing the cycle now shares it out to the members' wallets.
+CREATE OR REPLACE FUNCTION public.write_off_exited_contributions() RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE contributions
+  SET status = 'written_off'
+  WHERE membership_id = NEW.membership_id
+    AND status NOT IN ('completed', 'written_off');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS member_exits_write_off_contributions ON public.member_exits;
+CREATE TRIGGER member_exits_write_off_contributions
+AFTER INSERT ON public.member_exits
+FOR EACH ROW EXECUTE FUNCTION public.write_off_exited_contributions();
+
+UPDATE public.contributions c
+SET status = 'written_off'
+FROM public.member_exits e
+WHERE e.membership_id = c.membership_id
+  AND c.status NOT IN ('completed', 'written_off');
+
+-- As before, then shares what is left in the pool, escrow and premium
+-- accounts among the active members by the contributions each paid. Shares
+-- are rounded down to the kobo; the remainder stays with the group.
+CREATE OR REPLACE FUNCTION public.close_thrift_cycle(p_thrift_system_id UUID) RETURNS JSONB AS $$
+DECLARE
+  v_system thrift_systems;
+  v_report JSONB;
+  v_account RECORD;
+  v_share RECORD;
+  v_total_paid NUMERIC;
+  v_distribution JSONB := '[]'::JSONB;
+BEGIN
+  SELECT * INTO v_system FROM thrift_systems WHERE id = p_thrift_system_id FOR UPDATE;
+
+  IF NOT FOUND OR v_system.admin_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the thrift system admin can close its cycle';
+  END IF;
+
+  IF v_system.status <> 'active' THEN
+    RAISE EXCEPTION 'Only an active thrift system can be closed';
+  END IF;
+
+  v_report := cycle_settlement_report(p_thrift_system_id);
+
+  IF NOT (v_report->>'settled')::BOOLEAN THEN
+    RAISE EXCEPTION 'The cycle cannot close yet: % contributions are unpaid and % payouts have not completed',
+      jsonb_array_length(v_report->'unpaid_contributions'),
+      jsonb_array_length(v_report->'unsettled_payouts');
+  END IF;
+
+  SELECT COALESCE(SUM(a.amount), 0) INTO v_total_paid
+  FROM payment_allocations a
+  JOIN contributions c ON c.id = a.contribution_id
+  JOIN memberships m ON m.id = c.membership_id
+  WHERE m.thrift_system_id = p_thrift_system_id
+    AND m.status = 'active'
+    AND a.allocation_type = 'principal';
+
+  IF v_total_paid > 0 THEN
+    FOR v_account IN
+      SELECT id, ledger_account_balance(id) AS balance
+      FROM ledger_accounts
+      WHERE thrift_system_id = p_thrift_system_id
+        AND account_type IN ('thrift_pool', 'escrow', 'thrift_premiums')
+    LOOP
+      CONTINUE WHEN v_account.balance <= 0;
+
+      FOR v_share IN
+        SELECT
+          m.user_id,
+          floor(v_account.balance * SUM(a.amount) / v_total_paid * 100) / 100.0 AS amount
+        FROM payment_allocations a
+        JOIN contributions c ON c.id = a.contribution_id
+        JOIN memberships m ON m.id = c.membership_id
+        WHERE m.thrift_system_id = p_thrift_system_id
+          AND m.status = 'active'
+          AND a.allocation_type = 'principal'
+        GROUP BY m.user_id
+      LOOP
+        PERFORM post_ledger_transfer(
+          'dividend', p_thrift_system_id, v_share.user_id,
+          ledger_account_id('member_wallet', NULL, v_share.user_id),
+          v_account.id,
+          v_share.amount,
+          'Share of what was left at the end of cycle ' || v_system.cycle_number,
+          'thrift_system', p_thrift_system_id
+        );
+
+        v_distribution := v_distribution || jsonb_build_object('member_id', v_share.user_id, 'amount', v_share.amount);
+      END LOOP;
+    END LOOP;
+  END IF;
+
+  -- One line per member however many accounts their share came from
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'member_id', d.member_id,
+    'member_name', p.full_name,
+    'amount', d.amount
+  ) ORDER BY p.full_name), '[]'::JSONB)
+  INTO v_distribution
+  FROM (
+    SELECT (share->>'member_id')::UUID AS member_id, SUM((share->>'amount')::NUMERIC) AS amount
+    FROM jsonb_array_elements(v_distribution) share
+    GROUP BY 1
+    HAVING SUM((share->>'amount')::NUMERIC) > 0
+  ) d
+  LEFT JOIN profiles p ON p.id = d.member_id;
+
+  v_report := v_report || jsonb_build_object('balance_distribution', v_distribution);
+
+  UPDATE thrift_systems
+  SET
+    status = 'completed',
+    completed_at = NOW(),
+    settlement_report = v_report,
+    updated_at = NOW()
+  WHERE id = p_thrift_system_id;
+
+  INSERT INTO notifications (user_id, type, message)
+  SELECT m.user_id, 'cycle_completed',
+    'Cycle ' || v_system.cycle_number || ' of ' || v_system.name || ' is complete. The final settlement report is ready.'
+      || COALESCE((
+        SELECT ' Your share of ' || (share->>'amount') || ' from what was left has been added to your wallet.'
+        FROM jsonb_array_elements(v_distribution) share
+        WHERE (share->>'member_id')::UUID = m.user_id
+      ), '')
+  FROM memberships m
+  WHERE m.thrift_system_id = p_thrift_system_id AND m.status = 'active';
+
+  RETURN v_report;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,86 @@
+-- The next cycle of a target-savings group kept the contribution settings
+-- but lost its type, goal and bonus pool, so it came back as a rotating
+-- thrift. Those are now carried over, along with the currency, and a
+-- target-savings group has to be given the date its next cycle matures.
+DROP FUNCTION IF EXISTS public.start_next_cycle(UUID, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION public.start_next_cycle(
+  p_thrift_system_id UUID,
+  p_cycle_start_date TIMESTAMPTZ,
+  p_maturity_date TIMESTAMPTZ DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_system thrift_systems;
+  v_next_id UUID;
+BEGIN
+  SELECT * INTO v_system FROM thrift_systems WHERE id = p_thrift_system_id FOR UPDATE;
+
+  IF NOT FOUND OR v_system.admin_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the thrift system admin can start the next cycle';
+  END IF;
+
+  IF v_system.status <> 'completed' THEN
+    RAISE EXCEPTION 'Close the current cycle before starting the next one';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM thrift_systems WHERE previous_cycle_id = p_thrift_system_id) THEN
+    RAISE EXCEPTION 'The next cycle of this thrift system has already been started';
+  END IF;
+
+  IF p_cycle_start_date IS NULL OR p_cycle_start_date < NOW() THEN
+    RAISE EXCEPTION 'The next cycle must start in the future';
+  END IF;
+
+  IF v_system.thrift_type = 'target_savings'
+    AND (p_maturity_date IS NULL OR p_maturity_date <= p_cycle_start_date) THEN
+    RAISE EXCEPTION 'Choose a maturity date after the next cycle starts';
+  END IF;
+
+  INSERT INTO thrift_systems (
+    admin_id, admin_tier_id, name, description, contribution_amount, contribution_mode, max_members,
+    payout_schedule, cycle_duration, cycle_start_date, status,
+    thrift_type, goal_amount, maturity_date, bonus_pool_enabled, currency,
+    payout_schedule_mode, position_assignment_mode, bid_premium_policy, swap_approval_mode,
+    organizer_commission_percent, auction_max_discount_percent,
+    late_grace_days, late_fee_type, late_fee_amount, late_fee_cap,
+    guarantors_required, guarantor_call_days, is_escrow_enabled,
+    priority_moves_per_cycle, priority_fee_amount, priority_fee_policy,
+    cycle_number, previous_cycle_id
+  )
+  VALUES (
+    v_system.admin_id, v_system.admin_tier_id, v_system.name, v_system.description,
+    v_system.contribution_amount, v_system.contribution_mode, v_system.max_members,
+    v_system.payout_schedule, v_system.cycle_duration, p_cycle_start_date, 'pending',
+    v_system.thrift_type, v_system.goal_amount,
+    CASE WHEN v_system.thrift_type = 'target_savings' THEN p_maturity_date END,
+    v_system.bonus_pool_enabled, v_system.currency,
+    v_system.payout_schedule_mode, v_system.position_assignment_mode,
+    v_system.bid_premium_policy, v_system.swap_approval_mode,
+    v_system.organizer_commission_percent, v_system.auction_max_discount_percent,
+    v_system.late_grace_days, v_system.late_fee_type, v_system.late_fee_amount, v_system.late_fee_cap,
+    v_system.guarantors_required, v_system.guarantor_call_days, v_system.is_escrow_enabled,
+    v_system.priority_moves_per_cycle, v_system.priority_fee_amount, v_system.priority_fee_policy,
+    v_system.cycle_number + 1, p_thrift_system_id
+  )
+  RETURNING id INTO v_next_id;
+
+  INSERT INTO memberships (
+    thrift_system_id, user_id, role, status, join_date, slot_count, committed_amount,
+    wallet_autopay, payout_destination
+  )
+  SELECT
+    v_next_id, user_id, role, 'invited', NOW(), slot_count, committed_amount,
+    wallet_autopay, payout_destination
+  FROM memberships
+  WHERE thrift_system_id = p_thrift_system_id AND status = 'active';
+
+  INSERT INTO notifications (user_id, type, message)
+  SELECT user_id, 'cycle_rollover',
+    'Cycle ' || (v_system.cycle_number + 1) || ' of ' || v_system.name || ' starts '
+      || to_char(p_cycle_start_date, 'YYYY-MM-DD') || '. Let the organizer know whether you are in.'
+  FROM memberships
+  WHERE thrift_system_id = v_next_id;
+
+  RETURN v_next_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,71 @@
+-- Payouts that could not be released yet were counted against the batch, so
+-- a run could claim nothing while later payouts were due. The claim now
+-- keeps going until `p_limit` payouts have actually been claimed.
+CREATE OR REPLACE FUNCTION public.claim_due_payouts(
+  p_worker TEXT,
+  p_limit INTEGER DEFAULT 20,
+  p_lease_seconds INTEGER DEFAULT 300
+) RETURNS SETOF payouts AS $$
+DECLARE
+  v_candidate payouts;
+  v_claimed payouts;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_candidate IN
+    SELECT * FROM payouts
+    WHERE (
+        status = 'pending'
+        AND NOT COALESCE(admin_paused, FALSE)
+        AND scheduled_date <= NOW()
+      ) OR (
+        status = 'processing'
+        AND COALESCE(lease_expires_at, '-infinity') < NOW()
+        AND COALESCE(next_transfer_attempt_at, '-infinity') <= NOW()
+      )
+    ORDER BY scheduled_date, position
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    EXIT WHEN v_count >= p_limit;
+
+    BEGIN
+      UPDATE payouts
+      SET
+        status = 'processing',
+        transfer_idempotency_key = COALESCE(transfer_idempotency_key, 'payout-' || id),
+        transfer_attempts = transfer_attempts + 1,
+        lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+        leased_by = p_worker,
+        next_transfer_attempt_at = NULL
+      WHERE id = v_candidate.id
+      RETURNING * INTO v_claimed;
+
+      v_count := v_count + 1;
+      RETURN NEXT v_claimed;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE NOTICE 'Skipping payout %: %', v_candidate.id, SQLERRM;
+    END;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Runs the `process-payouts` worker, which sends payouts and withdrawals,
+-- every five minutes. It reads the project URL and service role key from
+-- Vault; create the `project_url` and `service_role_key` secrets with
+-- `vault.create_secret` before the first run.
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'process-payouts',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/process-payouts',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::JSONB
+  )
+  $$
+);
@@ -0,0 +1,131 @@
+-- Pauses also cover payouts whose transfer failed and is waiting to be
+-- retried. Until now only pending payouts could be held, so a retry went
+-- out whatever the admin wanted. A transfer already in flight cannot be
+-- stopped and still completes.
+CREATE OR REPLACE FUNCTION public.enforce_payout_pause() RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(NEW.admin_paused, FALSE)
+    AND (OLD.status = 'pending' OR (OLD.status = 'processing' AND OLD.next_transfer_attempt_at IS NOT NULL))
+    AND NEW.status IN ('processing', 'completed') THEN
+    RAISE EXCEPTION 'Payout % is paused by the admin: %', NEW.id, COALESCE(NEW.admin_pause_reason, 'no reason given');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Pauses one payout that has not been made yet or is waiting to retry, or
+-- every such payout of the thrift when no payout is given. Pausing a paused
+-- payout again replaces its reason and resume date.
+CREATE OR REPLACE FUNCTION public.pause_payouts(
+  p_thrift_system_id UUID,
+  p_reason TEXT,
+  p_payout_id UUID DEFAULT NULL,
+  p_resume_at TIMESTAMPTZ DEFAULT NULL
+) RETURNS INTEGER AS $$
+DECLARE
+  v_name TEXT;
+  v_paused INTEGER;
+BEGIN
+  SELECT name INTO v_name
+  FROM thrift_systems
+  WHERE id = p_thrift_system_id AND admin_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the thrift system admin can pause its payouts';
+  END IF;
+
+  IF NULLIF(btrim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Give a reason for pausing';
+  END IF;
+
+  IF p_resume_at IS NOT NULL AND p_resume_at <= NOW() THEN
+    RAISE EXCEPTION 'The resume date must be in the future';
+  END IF;
+
+  CREATE TEMP TABLE paused_payouts (id UUID, member_id UUID, position INTEGER);
+
+  WITH updated AS (
+    UPDATE payouts
+    SET
+      admin_paused = TRUE,
+      admin_pause_reason = btrim(p_reason),
+      admin_paused_until = p_resume_at
+    WHERE thrift_system_id = p_thrift_system_id
+      AND (status = 'pending' OR (status = 'processing' AND next_transfer_attempt_at IS NOT NULL))
+      AND (p_payout_id IS NULL OR id = p_payout_id)
+    RETURNING id, member_id, position
+  )
+  INSERT INTO paused_payouts SELECT * FROM updated;
+
+  SELECT COUNT(*) INTO v_paused FROM paused_payouts;
+
+  IF v_paused = 0 AND p_payout_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Only payouts that have not been made yet, or are waiting to retry a transfer, can be paused';
+  END IF;
+
+  INSERT INTO payout_pause_events (payout_id, thrift_system_id, action, reason, resume_at, actor_id)
+  SELECT id, p_thrift_system_id, 'paused', btrim(p_reason), p_resume_at, auth.uid()
+  FROM paused_payouts;
+
+  INSERT INTO notifications (user_id, type, message)
+  SELECT member_id, 'payout_paused',
+    'Your payout for position ' || position || ' in ' || v_name || ' has been paused by the organizer: '
+      || btrim(p_reason)
+      || CASE WHEN p_resume_at IS NOT NULL THEN '. It resumes on ' || to_char(p_resume_at, 'YYYY-MM-DD') || '.' ELSE '.' END
+  FROM paused_payouts;
+
+  DROP TABLE paused_payouts;
+
+  RETURN v_paused;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Retries of paused payouts wait until the pause is lifted
+CREATE OR REPLACE FUNCTION public.claim_due_payouts(
+  p_worker TEXT,
+  p_limit INTEGER DEFAULT 20,
+  p_lease_seconds INTEGER DEFAULT 300
+) RETURNS SETOF payouts AS $$
+DECLARE
+  v_candidate payouts;
+  v_claimed payouts;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_candidate IN
+    SELECT * FROM payouts
+    WHERE (
+        status = 'pending'
+        AND NOT COALESCE(admin_paused, FALSE)
+        AND scheduled_date <= NOW()
+      ) OR (
+        status = 'processing'
+        AND NOT COALESCE(admin_paused, FALSE)
+        AND COALESCE(lease_expires_at, '-infinity') < NOW()
+        AND COALESCE(next_transfer_attempt_at, '-infinity') <= NOW()
+      )
+    ORDER BY scheduled_date, position
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    EXIT WHEN v_count >= p_limit;
+
+    BEGIN
+      UPDATE payouts
+      SET
+        status = 'processing',
+        transfer_idempotency_key = COALESCE(transfer_idempotency_key, 'payout-' || id),
+        transfer_attempts = transfer_attempts + 1,
+        lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+        leased_by = p_worker,
+        next_transfer_attempt_at = NULL
+      WHERE id = v_candidate.id
+      RETURNING * INTO v_claimed;
+
+      v_count := v_count + 1;
+      RETURN NEXT v_claimed;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE NOTICE 'Skipping payout %: %', v_candidate.id, SQLERRM;
+    END;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,294 @@
+-- Swaps now settle the compensation the proposer offered, from their
+-- wallet to the counterparty's, and trade everything that belongs to a
+-- position: the payout amount, the bid premium paid for it, its share of
+-- premiums and of the priority bonus pool. Trades the position and date of
+-- both payouts in one go, pins the new positions on the members'
+-- preferences so a regenerated schedule keeps them, and tells the whole
+-- group.
+CREATE OR REPLACE FUNCTION public.execute_position_swap(p_swap_id UUID) RETURNS VOID AS $$
+DECLARE
+  v_swap position_swaps;
+  v_first payouts;
+  v_second payouts;
+  v_payout payouts;
+  v_new_position INTEGER;
+  v_first_name TEXT;
+  v_second_name TEXT;
+  v_account_id UUID;
+  v_balance NUMERIC;
+BEGIN
+  SELECT * INTO v_swap FROM position_swaps WHERE id = p_swap_id FOR UPDATE;
+
+  SELECT * INTO v_first FROM payouts WHERE id = v_swap.proposer_payout_id FOR UPDATE;
+  SELECT * INTO v_second FROM payouts WHERE id = v_swap.counterparty_payout_id FOR UPDATE;
+
+  IF v_first.status <> 'pending' OR v_second.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only payouts that have not been made yet can be swapped';
+  END IF;
+
+  IF v_swap.compensation_amount > 0 THEN
+    v_account_id := ledger_account_id('member_wallet', NULL, v_swap.proposer_id);
+    PERFORM 1 FROM ledger_accounts WHERE id = v_account_id FOR UPDATE;
+
+    v_balance := ledger_account_balance(v_account_id);
+
+    IF v_swap.compensation_amount > v_balance THEN
+      RAISE EXCEPTION 'The proposer''s wallet balance of % is not enough to pay the compensation of %',
+        v_balance, v_swap.compensation_amount;
+    END IF;
+
+    PERFORM post_ledger_transfer(
+      'fee', v_swap.thrift_system_id, v_swap.proposer_id,
+      v_account_id,
+      ledger_account_id('member_wallet', NULL, v_swap.counterparty_id),
+      v_swap.compensation_amount,
+      'Compensation for swapping payout position ' || v_first.position || ' with ' || v_second.position,
+      'position_swap', v_swap.id
+    );
+  END IF;
+
+  -- Clear one position first so the unique index never sees a duplicate
+  UPDATE payouts SET position = NULL WHERE id = v_first.id;
+
+  UPDATE payouts
+  SET
+    position = v_first.position,
+    scheduled_date = v_first.scheduled_date,
+    amount = v_first.amount,
+    bid_premium = v_first.bid_premium,
+    premium_share = v_first.premium_share,
+    priority_bonus = v_first.priority_bonus
+  WHERE id = v_second.id;
+
+  UPDATE payouts
+  SET
+    position = v_second.position,
+    scheduled_date = v_second.scheduled_date,
+    amount = v_second.amount,
+    bid_premium = v_second.bid_premium,
+    premium_share = v_second.premium_share,
+    priority_bonus = v_second.priority_bonus
+  WHERE id = v_first.id;
+
+  FOREACH v_payout IN ARRAY ARRAY[v_first, v_second] LOOP
+    v_new_position := CASE WHEN v_payout.id = v_first.id THEN v_second.position ELSE v_first.position END;
+
+    UPDATE disbursement_preferences
+    SET actual_position = v_new_position
+    WHERE thrift_system_id = v_swap.thrift_system_id
+      AND member_id = v_payout.member_id
+      AND slot_number = v_payout.slot_number;
+
+    IF NOT FOUND THEN
+      INSERT INTO disbursement_preferences (
+        thrift_system_id, member_id, slot_number, preferred_position, actual_position, bid_amount, status
+      )
+      VALUES (
+        v_swap.thrift_system_id, v_payout.member_id, v_payout.slot_number, v_new_position, v_new_position, 0, 'swapped'
+      );
+    END IF;
+  END LOOP;
+
+  UPDATE position_swaps
+  SET status = 'completed', decided_at = COALESCE(decided_at, NOW())
+  WHERE id = p_swap_id;
+
+  -- Any other open offer on either payout was made for the old positions
+  UPDATE position_swaps
+  SET status = 'cancelled'
+  WHERE id <> p_swap_id
+    AND status IN ('proposed', 'accepted')
+    AND (proposer_payout_id IN (v_first.id, v_second.id) OR counterparty_payout_id IN (v_first.id, v_second.id));
+
+  SELECT full_name INTO v_first_name FROM profiles WHERE id = v_swap.proposer_id;
+  SELECT full_name INTO v_second_name FROM profiles WHERE id = v_swap.counterparty_id;
+
+  INSERT INTO notifications (user_id, type, message)
+  SELECT recipient, 'position_swap',
+    COALESCE(v_first_name, 'A member') || ' and ' || COALESCE(v_second_name, 'a member')
+      || ' swapped payout positions ' || v_first.position || ' and ' || v_second.position || '.'
+  FROM (
+    SELECT user_id AS recipient FROM memberships
+    WHERE thrift_system_id = v_swap.thrift_system_id AND status = 'active'
+    UNION
+    SELECT admin_id FROM thrift_systems WHERE id = v_swap.thrift_system_id
+  ) AS recipients
+  WHERE recipient IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- As before, except that a fee owed to the displaced member now reaches
+-- them through the swap's compensation instead of being posted here too
+CREATE OR REPLACE FUNCTION public.request_priority_payout(
+  p_payout_id UUID,
+  p_target_payout_id UUID
+) RETURNS UUID AS $$
+DECLARE
+  v_mine payouts;
+  v_theirs payouts;
+  v_system thrift_systems;
+  v_account_id UUID;
+  v_balance NUMERIC;
+  v_fee NUMERIC;
+  v_swap_id UUID;
+  v_move_id UUID;
+  v_name TEXT;
+BEGIN
+  SELECT * INTO v_mine FROM payouts WHERE id = p_payout_id;
+  SELECT * INTO v_theirs FROM payouts WHERE id = p_target_payout_id;
+
+  IF v_mine.id IS NULL OR v_theirs.id IS NULL THEN
+    RAISE EXCEPTION 'Payout not found';
+  END IF;
+
+  IF v_mine.member_id <> auth.uid() THEN
+    RAISE EXCEPTION 'You can only move your own payout';
+  END IF;
+
+  IF v_theirs.member_id = auth.uid() THEN
+    RAISE EXCEPTION 'Choose a position held by another member';
+  END IF;
+
+  IF v_mine.thrift_system_id <> v_theirs.thrift_system_id THEN
+    RAISE EXCEPTION 'Both payouts must belong to the same thrift system';
+  END IF;
+
+  IF v_mine.status <> 'pending' OR v_theirs.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only payouts that have not been made yet can be moved';
+  END IF;
+
+  IF v_theirs.position >= v_mine.position THEN
+    RAISE EXCEPTION 'A priority move can only take an earlier position';
+  END IF;
+
+  SELECT * INTO v_system FROM thrift_systems WHERE id = v_mine.thrift_system_id FOR UPDATE;
+
+  IF v_system.payout_schedule_mode = 'auction' OR v_system.thrift_type = 'target_savings' THEN
+    RAISE EXCEPTION '% has no payout order to move up in', v_system.name;
+  END IF;
+
+  IF v_system.priority_moves_per_cycle = 0 OR v_system.priority_fee_amount <= 0 THEN
+    RAISE EXCEPTION 'Priority payouts are not offered in %', v_system.name;
+  END IF;
+
+  IF (SELECT COUNT(*) FROM priority_payout_moves WHERE thrift_system_id = v_system.id)
+      >= v_system.priority_moves_per_cycle THEN
+    RAISE EXCEPTION 'All % priority moves for this cycle have been used', v_system.priority_moves_per_cycle;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM position_swaps
+    WHERE status IN ('proposed', 'accepted')
+      AND (proposer_payout_id IN (v_mine.id, v_theirs.id) OR counterparty_payout_id IN (v_mine.id, v_theirs.id))
+  ) THEN
+    RAISE EXCEPTION 'One of these positions already has a swap in progress';
+  END IF;
+
+  v_fee := v_system.priority_fee_amount;
+
+  v_account_id := ledger_account_id('member_wallet', NULL, auth.uid());
+  PERFORM 1 FROM ledger_accounts WHERE id = v_account_id FOR UPDATE;
+
+  v_balance := ledger_account_balance(v_account_id);
+
+  IF v_fee > v_balance THEN
+    RAISE EXCEPTION 'Your wallet balance of % is not enough to pay the priority fee of %', v_balance, v_fee;
+  END IF;
+
+  INSERT INTO position_swaps (
+    thrift_system_id, proposer_id, proposer_payout_id, counterparty_id, counterparty_payout_id,
+    compensation_amount, message, status, responded_at, decided_at
+  )
+  VALUES (
+    v_system.id, auth.uid(), v_mine.id, v_theirs.member_id, v_theirs.id,
+    CASE WHEN v_system.priority_fee_policy = 'compensate_displaced' THEN v_fee ELSE 0 END,
+    'Priority payout', 'accepted', NOW(), NOW()
+  )
+  RETURNING id INTO v_swap_id;
+
+  PERFORM execute_position_swap(v_swap_id);
+
+  INSERT INTO priority_payout_moves (
+    thrift_system_id, member_id, payout_id, displaced_member_id, displaced_payout_id,
+    from_position, to_position, fee, fee_policy, swap_id
+  )
+  VALUES (
+    v_system.id, auth.uid(), v_mine.id, v_theirs.member_id, v_theirs.id,
+    v_mine.position, v_theirs.position, v_fee, v_system.priority_fee_policy, v_swap_id
+  )
+  RETURNING id INTO v_move_id;
+
+  -- A fee owed to the member pushed back was paid as the swap's compensation
+  IF v_system.priority_fee_policy <> 'compensate_displaced' THEN
+    PERFORM post_ledger_transfer(
+      'fee', v_system.id, auth.uid(),
+      v_account_id,
+      CASE v_system.priority_fee_policy
+        WHEN 'organizer_fee' THEN ledger_account_id('organizer_fees', v_system.id)
+        ELSE ledger_account_id('thrift_premiums', v_system.id)
+      END,
+      v_fee, 'Priority fee for position ' || v_theirs.position, 'priority_payout_move', v_move_id
+    );
+  END IF;
+
+  -- The pool is split in kobo across every payout still to be made but the
+  -- mover's; the last of them absorbs the rounding
+  IF v_system.priority_fee_policy = 'bonus_pool' THEN
+    WITH sharers AS (
+      SELECT
+        id,
+        ROW_NUMBER() OVER (ORDER BY position) AS rn,
+        COUNT(*) OVER () AS total
+      FROM payouts
+      WHERE thrift_system_id = v_system.id
+        AND status = 'pending'
+        AND position IS NOT NULL
+        AND id <> v_mine.id
+    ),
+    shares AS (
+      SELECT
+        id,
+        CASE
+          WHEN rn = total THEN ROUND(v_fee * 100) - FLOOR(ROUND(v_fee * 100) / total) * (total - 1)
+          ELSE FLOOR(ROUND(v_fee * 100) / total)
+        END / 100 AS share
+      FROM sharers
+    )
+    UPDATE payouts p
+    SET
+      amount = p.amount + shares.share,
+      premium_share = p.premium_share + shares.share,
+      priority_bonus = p.priority_bonus + shares.share
+    FROM shares
+    WHERE p.id = shares.id;
+  END IF;
+
+  UPDATE payouts
+  SET
+    priority_fee = COALESCE(priority_fee, 0) + v_fee,
+    priority_moved_from = COALESCE(priority_moved_from, v_mine.position)
+  WHERE id = v_mine.id;
+
+  UPDATE payouts
+  SET priority_displaced_from = COALESCE(priority_displaced_from, v_theirs.position)
+  WHERE id = v_theirs.id;
+
+  SELECT full_name INTO v_name FROM profiles WHERE id = auth.uid();
+
+  INSERT INTO notifications (user_id, type, message)
+  VALUES
+    (v_theirs.member_id, 'priority_payout',
+      COALESCE(v_name, 'A member') || ' paid a priority fee for your payout position ' || v_theirs.position
+        || ' in ' || v_system.name || '. You now receive your payout at position ' || v_mine.position
+        || CASE v_system.priority_fee_policy
+             WHEN 'compensate_displaced' THEN ', and ' || v_fee || ' has been added to your wallet.'
+             WHEN 'bonus_pool' THEN ', with a share of the fee added to your payout.'
+             ELSE '.'
+           END),
+    (v_system.admin_id, 'priority_payout',
+      COALESCE(v_name, 'A member') || ' paid ' || v_fee || ' to move from position ' || v_mine.position
+        || ' to ' || v_theirs.position || ' in ' || v_system.name || '.');
+
+  RETURN v_move_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,139 @@
+-- Schedules are built in the admin's browser, so nothing in them is taken
+-- on trust any more: every payout and contribution has to be for an active
+-- member of this thrift system, within their slots. Pending payouts and
+-- contributions of members who have left, or who are no longer in the
+-- schedule, are removed. As before, a regenerated schedule keeps each
+-- position's share of the priority bonus pool.
+CREATE OR REPLACE FUNCTION public.apply_rotation_schedule(
+  p_thrift_system_id UUID,
+  p_schedule JSONB
+) RETURNS INTEGER AS $$
+DECLARE
+  v_payout JSONB;
+  v_contribution JSONB;
+  v_positions INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = p_thrift_system_id AND admin_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the thrift system admin can generate its schedule';
+  END IF;
+
+  v_positions := COALESCE(
+    (p_schedule->>'periods')::INTEGER,
+    jsonb_array_length(p_schedule->'payouts')
+  );
+
+  FOR v_payout IN SELECT * FROM jsonb_array_elements(p_schedule->'payouts') LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM memberships
+      WHERE thrift_system_id = p_thrift_system_id
+        AND user_id = (v_payout->>'member_id')::UUID
+        AND status = 'active'
+        AND slot_count >= COALESCE((v_payout->>'slot_number')::INTEGER, 1)
+    ) THEN
+      RAISE EXCEPTION 'Payout position % is not for an active member of this thrift system', v_payout->>'position';
+    END IF;
+
+    INSERT INTO payouts (thrift_system_id, member_id, slot_number, position, amount, bid_premium, premium_share, scheduled_date, status)
+    VALUES (
+      p_thrift_system_id,
+      (v_payout->>'member_id')::UUID,
+      COALESCE((v_payout->>'slot_number')::INTEGER, 1),
+      (v_payout->>'position')::INTEGER,
+      (v_payout->>'amount')::NUMERIC,
+      COALESCE((v_payout->>'bid_premium')::NUMERIC, 0),
+      COALESCE((v_payout->>'premium_share')::NUMERIC, 0),
+      (v_payout->>'scheduled_date')::TIMESTAMPTZ,
+      'pending'
+    )
+    ON CONFLICT (thrift_system_id, position) WHERE position IS NOT NULL
+    DO UPDATE SET
+      member_id = EXCLUDED.member_id,
+      slot_number = EXCLUDED.slot_number,
+      amount = EXCLUDED.amount + payouts.priority_bonus,
+      bid_premium = EXCLUDED.bid_premium,
+      premium_share = EXCLUDED.premium_share + payouts.priority_bonus,
+      scheduled_date = EXCLUDED.scheduled_date
+    WHERE payouts.status = 'pending';
+  END LOOP;
+
+  FOR v_contribution IN SELECT * FROM jsonb_array_elements(p_schedule->'contributions') LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM memberships
+      WHERE id = (v_contribution->>'membership_id')::UUID
+        AND thrift_system_id = p_thrift_system_id
+        AND status = 'active'
+        AND slot_count >= COALESCE((v_contribution->>'slot_number')::INTEGER, 1)
+    ) THEN
+      RAISE EXCEPTION 'Contribution for period % is not for an active member of this thrift system', v_contribution->>'period_number';
+    END IF;
+
+    INSERT INTO contributions (membership_id, slot_number, period_number, amount, due_date, status)
+    VALUES (
+      (v_contribution->>'membership_id')::UUID,
+      COALESCE((v_contribution->>'slot_number')::INTEGER, 1),
+      (v_contribution->>'period_number')::INTEGER,
+      (v_contribution->>'amount')::NUMERIC,
+      (v_contribution->>'due_date')::TIMESTAMPTZ,
+      'pending'
+    )
+    ON CONFLICT (membership_id, slot_number, period_number) WHERE period_number IS NOT NULL
+    DO UPDATE SET
+      amount = EXCLUDED.amount,
+      due_date = EXCLUDED.due_date
+    WHERE contributions.status = 'pending';
+  END LOOP;
+
+  DELETE FROM payouts
+  WHERE thrift_system_id = p_thrift_system_id
+    AND status = 'pending'
+    AND position > v_positions;
+
+  -- Members who are no longer active, or no longer in the schedule, keep
+  -- nothing still to be paid
+  DELETE FROM payouts p
+  WHERE p.thrift_system_id = p_thrift_system_id
+    AND p.status = 'pending'
+    AND (
+      NOT EXISTS (
+        SELECT 1 FROM memberships m
+        WHERE m.thrift_system_id = p_thrift_system_id
+          AND m.user_id = p.member_id
+          AND m.status = 'active'
+          AND m.slot_count >= p.slot_number
+      )
+      OR (
+        jsonb_array_length(COALESCE(p_schedule->'payouts', '[]'::JSONB)) > 0
+        AND NOT EXISTS (
+          SELECT 1 FROM jsonb_array_elements(p_schedule->'payouts') s
+          WHERE (s->>'member_id')::UUID = p.member_id
+            AND COALESCE((s->>'slot_number')::INTEGER, 1) = p.slot_number
+        )
+      )
+    );
+
+  DELETE FROM contributions c
+  USING memberships m
+  WHERE m.id = c.membership_id
+    AND m.thrift_system_id = p_thrift_system_id
+    AND c.status = 'pending'
+    AND (
+      c.period_number > v_positions
+      OR c.slot_number > m.slot_count
+      OR m.status <> 'active'
+      OR NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_schedule->'contributions') s
+        WHERE (s->>'membership_id')::UUID = c.membership_id
+          AND COALESCE((s->>'slot_number')::INTEGER, 1) = c.slot_number
+      )
+    );
+
+  UPDATE thrift_systems
+  SET status = 'active', updated_at = NOW()
+  WHERE id = p_thrift_system_id;
+
+  RETURN v_positions;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,106 @@
+-- Bids are resolved here rather than trusting assignments worked out in the
+-- admin's browser, and bidding can only be closed once. The rules are those
+-- of resolveBids (src/lib/bid-resolution.ts), which still previews them:
+-- each contested position goes to its highest bidder, then the earliest
+-- request, who pays their bid; everyone else is placed, best bid first, in
+-- the free position nearest the one they asked for. Positions whose payout
+-- has already been made are never handed out, and preferences left by
+-- members who are no longer active, or for slots they no longer hold, are
+-- ignored.
+DROP FUNCTION IF EXISTS public.close_disbursement_bidding(UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION public.close_disbursement_bidding(p_thrift_system_id UUID) RETURNS VOID AS $$
+DECLARE
+  v_system thrift_systems;
+  v_slots INTEGER;
+  v_taken INTEGER[];
+  v_preference RECORD;
+  v_position INTEGER;
+BEGIN
+  SELECT * INTO v_system FROM thrift_systems WHERE id = p_thrift_system_id FOR UPDATE;
+
+  IF NOT FOUND OR v_system.admin_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the thrift system admin can close bidding';
+  END IF;
+
+  IF v_system.bidding_closed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Bidding for % closed on %', v_system.name, to_char(v_system.bidding_closed_at, 'YYYY-MM-DD');
+  END IF;
+
+  SELECT COALESCE(SUM(slot_count), 0) INTO v_slots
+  FROM memberships
+  WHERE thrift_system_id = p_thrift_system_id AND status = 'active';
+
+  v_taken := ARRAY(
+    SELECT position FROM payouts
+    WHERE thrift_system_id = p_thrift_system_id
+      AND status <> 'pending'
+      AND position IS NOT NULL
+  );
+
+  -- Winners, and members who were alone in asking for their position, come
+  -- first; everyone else then takes the nearest free position, best bid
+  -- first. Only active members' slots take part.
+  FOR v_preference IN
+    WITH ranked_bids AS (
+      SELECT
+        dp.id,
+        dp.preferred_position,
+        COALESCE(dp.bid_amount, 0) AS bid_amount,
+        dp.created_at,
+        ROW_NUMBER() OVER (
+          PARTITION BY dp.preferred_position
+          ORDER BY COALESCE(dp.bid_amount, 0) DESC, dp.created_at NULLS FIRST, dp.id
+        ) AS rank,
+        COUNT(*) OVER (PARTITION BY dp.preferred_position) AS bidders
+      FROM disbursement_preferences dp
+      JOIN memberships m
+        ON m.thrift_system_id = dp.thrift_system_id
+        AND m.user_id = dp.member_id
+        AND m.status = 'active'
+        AND dp.slot_number <= m.slot_count
+      WHERE dp.thrift_system_id = p_thrift_system_id
+    )
+    SELECT
+      *,
+      rank = 1
+        AND preferred_position BETWEEN 1 AND v_slots
+        AND NOT preferred_position = ANY(v_taken) AS wins
+    FROM ranked_bids
+    ORDER BY wins DESC, bid_amount DESC, created_at NULLS FIRST, id
+  LOOP
+    IF v_preference.wins THEN
+      v_taken := v_taken || v_preference.preferred_position;
+
+      UPDATE disbursement_preferences
+      SET
+        actual_position = v_preference.preferred_position,
+        status = CASE WHEN v_preference.bidders > 1 THEN 'won' ELSE 'assigned' END,
+        bid_premium = CASE WHEN v_preference.bidders > 1 THEN v_preference.bid_amount ELSE 0 END
+      WHERE id = v_preference.id;
+
+      CONTINUE;
+    END IF;
+
+    SELECT slot INTO v_position
+    FROM generate_series(1, v_slots) AS slot
+    WHERE NOT slot = ANY(v_taken)
+    ORDER BY abs(slot - v_preference.preferred_position), slot
+    LIMIT 1;
+
+    IF v_position IS NULL THEN
+      RAISE EXCEPTION 'There are more preferences than open positions';
+    END IF;
+
+    v_taken := v_taken || v_position;
+
+    UPDATE disbursement_preferences
+    SET actual_position = v_position, status = 'outbid', bid_premium = 0
+    WHERE id = v_preference.id;
+  END LOOP;
+
+  UPDATE thrift_systems
+  SET bidding_closed_at = NOW(), updated_at = NOW()
+  WHERE id = p_thrift_system_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,240 @@
+-- A committed draw whose seed was never revealed blocked every later draw
+-- for good. Draws now expire 24 hours after they are committed, and the
+-- admin can cancel one before then. Both are kept on the draw, so members
+-- auditing it can see why it was never revealed.
+ALTER TABLE public.position_draws
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ,
+  -- NULL when the draw expired
+  ADD COLUMN IF NOT EXISTS cancelled_by UUID REFERENCES public.profiles(id),
+  ADD COLUMN IF NOT EXISTS cancel_reason TEXT;
+
+UPDATE public.position_draws
+SET expires_at = committed_at + INTERVAL '24 hours'
+WHERE expires_at IS NULL;
+
+ALTER TABLE public.position_draws
+  ALTER COLUMN expires_at SET DEFAULT NOW() + INTERVAL '24 hours',
+  ALTER COLUMN expires_at SET NOT NULL;
+
+-- Cancels the given unrevealed draws and tells the admin. A NULL actor
+-- means the draw expired.
+CREATE OR REPLACE FUNCTION public.cancel_position_draws(
+  p_draw_ids UUID[],
+  p_actor_id UUID,
+  p_reason TEXT
+) RETURNS INTEGER AS $$
+DECLARE
+  v_cancelled INTEGER;
+BEGIN
+  WITH cancelled AS (
+    UPDATE position_draws
+    SET cancelled_at = NOW(), cancelled_by = p_actor_id, cancel_reason = p_reason
+    WHERE id = ANY(p_draw_ids) AND revealed_at IS NULL AND cancelled_at IS NULL
+    RETURNING thrift_system_id
+  ),
+  notified AS (
+    INSERT INTO notifications (user_id, type, message)
+    SELECT t.admin_id, 'position_draw',
+      'The position draw for ' || t.name || ' was cancelled: ' || p_reason || '. Commit a new draw to assign positions.'
+    FROM cancelled c
+    JOIN thrift_systems t ON t.id = c.thrift_system_id
+    WHERE p_actor_id IS NULL
+  )
+  SELECT COUNT(*) INTO v_cancelled FROM cancelled;
+
+  RETURN v_cancelled;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_position_draws(UUID[], UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.cancel_position_draw(
+  p_draw_id UUID,
+  p_reason TEXT
+) RETURNS VOID AS $$
+DECLARE
+  v_draw position_draws;
+BEGIN
+  SELECT * INTO v_draw FROM position_draws WHERE id = p_draw_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = v_draw.thrift_system_id AND admin_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the thrift system admin can cancel a draw';
+  END IF;
+
+  IF NULLIF(btrim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Give a reason for cancelling the draw';
+  END IF;
+
+  IF v_draw.revealed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'A revealed draw cannot be cancelled';
+  END IF;
+
+  IF v_draw.cancelled_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This draw has already been cancelled';
+  END IF;
+
+  PERFORM cancel_position_draws(ARRAY[p_draw_id], auth.uid(), btrim(p_reason));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.expire_position_draws() RETURNS INTEGER AS $$
+BEGIN
+  RETURN cancel_position_draws(
+    ARRAY(
+      SELECT id FROM position_draws
+      WHERE revealed_at IS NULL AND cancelled_at IS NULL AND expires_at <= NOW()
+    ),
+    NULL,
+    'Not revealed in time'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.expire_position_draws() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'expire-position-draws',
+  '30 * * * *',
+  $$SELECT public.expire_position_draws()$$
+);
+
+-- Draws that expired are cancelled first, so only a draw still waiting to
+-- be revealed blocks a new one
+CREATE OR REPLACE FUNCTION public.commit_position_draw(
+  p_thrift_system_id UUID,
+  p_seed_hash TEXT
+) RETURNS UUID AS $$
+DECLARE
+  v_draw_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = p_thrift_system_id AND admin_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the thrift system admin can run a draw';
+  END IF;
+
+  PERFORM cancel_position_draws(
+    ARRAY(
+      SELECT id FROM position_draws
+      WHERE thrift_system_id = p_thrift_system_id
+        AND revealed_at IS NULL
+        AND cancelled_at IS NULL
+        AND expires_at <= NOW()
+    ),
+    NULL,
+    'Not revealed in time'
+  );
+
+  IF EXISTS (
+    SELECT 1 FROM position_draws
+    WHERE thrift_system_id = p_thrift_system_id AND revealed_at IS NULL AND cancelled_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'A committed draw is waiting to be revealed';
+  END IF;
+
+  INSERT INTO position_draws (thrift_system_id, seed_hash, participants, created_by)
+  SELECT
+    p_thrift_system_id,
+    lower(p_seed_hash),
+    COALESCE(jsonb_agg(m.user_id::TEXT || ':' || slot ORDER BY m.user_id::TEXT, slot), '[]'::JSONB),
+    auth.uid()
+  FROM memberships m
+  CROSS JOIN LATERAL generate_series(1, m.slot_count) AS slot
+  WHERE m.thrift_system_id = p_thrift_system_id AND m.status = 'active'
+  RETURNING id INTO v_draw_id;
+
+  RETURN v_draw_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Cancelled and expired draws cannot be revealed
+CREATE OR REPLACE FUNCTION public.reveal_position_draw(
+  p_draw_id UUID,
+  p_seed TEXT
+) RETURNS JSONB AS $$
+DECLARE
+  v_draw position_draws;
+  v_result JSONB;
+BEGIN
+  SELECT * INTO v_draw FROM position_draws WHERE id = p_draw_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Draw % not found', p_draw_id;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = v_draw.thrift_system_id AND admin_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the thrift system admin can reveal a draw';
+  END IF;
+
+  IF v_draw.revealed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This draw has already been revealed';
+  END IF;
+
+  IF v_draw.cancelled_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This draw was cancelled: %', v_draw.cancel_reason;
+  END IF;
+
+  IF v_draw.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'This draw expired on %; commit a new one', to_char(v_draw.expires_at, 'YYYY-MM-DD HH24:MI');
+  END IF;
+
+  IF encode(extensions.digest(p_seed, 'sha256'), 'hex') <> v_draw.seed_hash THEN
+    RAISE EXCEPTION 'Seed does not match the committed hash';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(participant ORDER BY encode(extensions.digest(p_seed || ':' || participant, 'sha256'), 'hex') COLLATE "C"), '[]'::JSONB)
+  INTO v_result
+  FROM jsonb_array_elements_text(v_draw.participants) AS participant;
+
+  UPDATE position_draws
+  SET seed = p_seed, result = v_result, revealed_at = NOW()
+  WHERE id = p_draw_id;
+
+  -- Record the drawn positions the same way resolved bids are recorded
+  UPDATE disbursement_preferences dp
+  SET
+    preferred_position = drawn.position,
+    actual_position = drawn.position,
+    bid_amount = 0,
+    bid_premium = 0,
+    status = 'drawn'
+  FROM (
+    SELECT
+      split_part(participant, ':', 1)::UUID AS member_id,
+      COALESCE(NULLIF(split_part(participant, ':', 2), ''), '1')::INTEGER AS slot_number,
+      position::INTEGER AS position
+    FROM jsonb_array_elements_text(v_result) WITH ORDINALITY AS drawn(participant, position)
+  ) AS drawn
+  WHERE dp.thrift_system_id = v_draw.thrift_system_id
+    AND dp.member_id = drawn.member_id
+    AND dp.slot_number = drawn.slot_number;
+
+  INSERT INTO disbursement_preferences (
+    thrift_system_id, member_id, slot_number, preferred_position, actual_position, bid_amount, status
+  )
+  SELECT v_draw.thrift_system_id, drawn.member_id, drawn.slot_number, drawn.position, drawn.position, 0, 'drawn'
+  FROM (
+    SELECT
+      split_part(participant, ':', 1)::UUID AS member_id,
+      COALESCE(NULLIF(split_part(participant, ':', 2), ''), '1')::INTEGER AS slot_number,
+      position::INTEGER AS position
+    FROM jsonb_array_elements_text(v_result) WITH ORDINALITY AS drawn(participant, position)
+  ) AS drawn
+  WHERE NOT EXISTS (
+    SELECT 1 FROM disbursement_preferences dp
+    WHERE dp.thrift_system_id = v_draw.thrift_system_id
+      AND dp.member_id = drawn.member_id
+      AND dp.slot_number = drawn.slot_number
+  );
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,127 @@
+-- A round nobody bid in could only close when one member was left to be
+-- paid. It now goes to the member who has waited longest, the earliest to
+-- join among those with a slot still unpaid, at no discount: they take the
+-- pot less commission and there is no dividend. As before, dividends are
+-- shared per slot: every slot except the winning one gets an equal share.
+CREATE OR REPLACE FUNCTION public.close_auction_round(
+  p_round_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+  v_round auction_rounds;
+  v_winner UUID;
+  v_winner_slot INTEGER;
+  v_take NUMERIC;
+  v_recipients INTEGER;
+  v_dividend_kobo BIGINT;
+  v_payout_id UUID;
+BEGIN
+  SELECT * INTO v_round FROM auction_rounds WHERE id = p_round_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Auction round % not found', p_round_id;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = v_round.thrift_system_id AND admin_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the thrift system admin can close an auction round';
+  END IF;
+
+  IF v_round.status <> 'open' THEN
+    RAISE EXCEPTION 'This auction round is already closed';
+  END IF;
+
+  SELECT member_id, take_amount INTO v_winner, v_take
+  FROM auction_bids
+  WHERE round_id = p_round_id
+  ORDER BY take_amount, created_at, id
+  LIMIT 1;
+
+  IF v_winner IS NULL THEN
+    SELECT unpaid.user_id INTO v_winner
+    FROM (
+      SELECT m.user_id, m.join_date, m.slot_count - (
+        SELECT COUNT(*) FROM payouts p
+        WHERE p.thrift_system_id = v_round.thrift_system_id AND p.member_id = m.user_id
+      ) AS slots
+      FROM memberships m
+      WHERE m.thrift_system_id = v_round.thrift_system_id
+        AND m.status = 'active'
+    ) AS unpaid
+    WHERE unpaid.slots > 0
+    ORDER BY unpaid.join_date, unpaid.user_id
+    LIMIT 1;
+
+    IF v_winner IS NULL THEN
+      RAISE EXCEPTION 'Every slot in this auction has already been paid out';
+    END IF;
+
+    v_take := v_round.pot_amount - v_round.commission_amount;
+  END IF;
+
+  SELECT COUNT(*) + 1 INTO v_winner_slot
+  FROM payouts
+  WHERE thrift_system_id = v_round.thrift_system_id AND member_id = v_winner;
+
+  INSERT INTO payouts (thrift_system_id, member_id, slot_number, position, amount, bid_premium, scheduled_date, status)
+  VALUES (
+    v_round.thrift_system_id,
+    v_winner,
+    v_winner_slot,
+    v_round.period_number,
+    v_take,
+    v_round.pot_amount - v_take,
+    NOW(),
+    'pending'
+  )
+  RETURNING id INTO v_payout_id;
+
+  SELECT COALESCE(SUM(slot_count), 0) - 1 INTO v_recipients
+  FROM memberships
+  WHERE thrift_system_id = v_round.thrift_system_id AND status = 'active';
+
+  v_dividend_kobo := round((v_round.pot_amount - v_take - v_round.commission_amount) * 100);
+
+  -- Split in kobo per slot; leftover kobo go to the first slots by member id
+  IF v_recipients > 0 AND v_dividend_kobo > 0 THEN
+    INSERT INTO dividend_credits (thrift_system_id, round_id, member_id, amount)
+    SELECT
+      v_round.thrift_system_id,
+      p_round_id,
+      user_id,
+      SUM(v_dividend_kobo / v_recipients
+        + CASE WHEN rank <= v_dividend_kobo % v_recipients THEN 1 ELSE 0 END) / 100.0
+    FROM (
+      SELECT m.user_id, ROW_NUMBER() OVER (ORDER BY m.user_id, slot) AS rank
+      FROM memberships m
+      CROSS JOIN LATERAL generate_series(1, m.slot_count) AS slot
+      WHERE m.thrift_system_id = v_round.thrift_system_id
+        AND m.status = 'active'
+        AND NOT (m.user_id = v_winner AND slot = v_winner_slot)
+    ) AS dividend_slots
+    GROUP BY user_id;
+  END IF;
+
+  UPDATE auction_rounds
+  SET
+    status = 'closed',
+    winner_id = v_winner,
+    winning_take = v_take,
+    dividend_amount = CASE
+      WHEN v_recipients > 0 THEN floor(v_dividend_kobo / v_recipients) / 100.0
+      ELSE 0
+    END,
+    payout_id = v_payout_id,
+    closed_at = NOW()
+  WHERE id = p_round_id;
+
+  RETURN jsonb_build_object(
+    'winner_id', v_winner,
+    'winning_take', v_take,
+    'unbid', NOT EXISTS (SELECT 1 FROM auction_bids WHERE round_id = p_round_id),
+    'payout_id', v_payout_id,
+    'dividend_recipients', v_recipients
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,208 @@
+-- Reconciliation missed a few things. Settlements in another currency than
+-- the payment attempt matched as long as the number agreed; a reference
+-- listed twice kept only one of its lines; refunded top-ups still counted as
+-- recorded; and contributions paid without a gateway were never looked at.
+ALTER TABLE public.settlement_lines DROP CONSTRAINT IF EXISTS settlement_lines_match_status_check;
+
+ALTER TABLE public.settlement_lines ADD CONSTRAINT settlement_lines_match_status_check
+  CHECK (match_status IN ('unmatched', 'matched', 'amount_mismatch', 'currency_mismatch', 'no_contribution'));
+
+ALTER TABLE public.reconciliation_exceptions DROP CONSTRAINT IF EXISTS reconciliation_exceptions_kind_check;
+
+ALTER TABLE public.reconciliation_exceptions ADD CONSTRAINT reconciliation_exceptions_kind_check
+  CHECK (kind IN (
+    'amount_mismatch', 'currency_mismatch', 'no_contribution', 'unsettled_contribution', 'unverified_payment'
+  ));
+
+-- As before, with a currency check against the attempt, refunds of top-ups
+-- taken off what was recorded, and payments that bypassed every gateway
+-- flagged for review
+CREATE OR REPLACE FUNCTION public.reconcile_settlement_report(p_report_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_report settlement_reports;
+BEGIN
+  SELECT * INTO v_report FROM settlement_reports WHERE id = p_report_id;
+
+  UPDATE settlement_lines l
+  SET payment_attempt_id = (
+    SELECT a.id FROM payment_attempts a
+    WHERE a.gateway = v_report.gateway
+    AND (a.gateway_reference = l.reference OR a.reference = l.reference)
+    ORDER BY a.created_at DESC
+    LIMIT 1
+  )
+  WHERE l.report_id = p_report_id;
+
+  UPDATE settlement_lines l
+  SET
+    contribution_id = COALESCE(
+      (SELECT a.contribution_id FROM payment_attempts a WHERE a.id = l.payment_attempt_id),
+      (SELECT c.id FROM contributions c WHERE c.payment_intent_id = l.reference LIMIT 1),
+      (
+        SELECT pa.contribution_id
+        FROM contribution_payments cp
+        JOIN payment_allocations pa ON pa.payment_id = cp.id
+        WHERE cp.reference = l.reference
+        LIMIT 1
+      )
+    ),
+    recorded_amount =
+      COALESCE((SELECT SUM(cp.amount - cp.refunded_amount) FROM contribution_payments cp WHERE cp.reference = l.reference), 0)
+      + COALESCE((SELECT SUM(w.amount - w.refunded_amount) FROM wallet_topups w WHERE w.gateway_reference = l.reference), 0)
+  WHERE l.report_id = p_report_id;
+
+  UPDATE settlement_lines l
+  SET match_status = CASE
+    WHEN l.contribution_id IS NULL THEN 'no_contribution'
+    WHEN EXISTS (
+      SELECT 1 FROM payment_attempts a
+      WHERE a.id = l.payment_attempt_id
+        AND upper(a.currency) IS DISTINCT FROM upper(COALESCE(l.currency, a.currency))
+    ) THEN 'currency_mismatch'
+    WHEN l.recorded_amount <> l.amount THEN 'amount_mismatch'
+    ELSE 'matched'
+  END
+  WHERE l.report_id = p_report_id;
+
+  INSERT INTO reconciliation_exceptions (
+    report_id, kind, settlement_line_id, payment_attempt_id, contribution_id,
+    reference, expected_amount, settled_amount
+  )
+  SELECT
+    p_report_id, l.match_status, l.id, l.payment_attempt_id, l.contribution_id,
+    l.reference, l.recorded_amount, l.amount
+  FROM settlement_lines l
+  WHERE l.report_id = p_report_id
+  AND l.match_status IN ('amount_mismatch', 'currency_mismatch', 'no_contribution');
+
+  -- Contributions this gateway completed in the period that no report of
+  -- the gateway has settled. Ones already flagged are not flagged again.
+  INSERT INTO reconciliation_exceptions (
+    report_id, kind, contribution_id, payment_attempt_id, reference, expected_amount, settled_amount
+  )
+  SELECT
+    p_report_id, 'unsettled_contribution', c.id,
+    (SELECT a.id FROM payment_attempts a WHERE a.gateway_reference = c.payment_intent_id LIMIT 1),
+    c.payment_intent_id,
+    COALESCE((SELECT SUM(amount) FROM payment_allocations WHERE contribution_id = c.id), 0),
+    0
+  FROM contributions c
+  WHERE c.status = 'completed'
+  AND c.payment_provider = v_report.gateway
+  AND c.paid_date::date BETWEEN v_report.period_start AND v_report.period_end
+  AND NOT EXISTS (
+    SELECT 1
+    FROM settlement_lines l
+    JOIN settlement_reports r ON r.id = l.report_id
+    WHERE r.gateway = v_report.gateway AND l.reference = c.payment_intent_id
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM reconciliation_exceptions e
+    WHERE e.contribution_id = c.id AND e.kind = 'unsettled_contribution' AND e.status = 'open'
+  );
+
+  -- Contributions completed in the period without going through a gateway,
+  -- the admin's cash book or a wallet: payments members recorded for
+  -- themselves before that was stopped. Nothing settles these, so each is
+  -- only ever flagged once.
+  INSERT INTO reconciliation_exceptions (
+    report_id, kind, contribution_id, reference, expected_amount, settled_amount
+  )
+  SELECT
+    p_report_id, 'unverified_payment', c.id,
+    (
+      SELECT string_agg(DISTINCT cp.reference, ', ')
+      FROM payment_allocations pa
+      JOIN contribution_payments cp ON cp.id = pa.payment_id
+      WHERE pa.contribution_id = c.id
+    ),
+    COALESCE((SELECT SUM(amount) FROM payment_allocations WHERE contribution_id = c.id), 0),
+    0
+  FROM contributions c
+  WHERE c.status = 'completed'
+  AND c.payment_provider IS NULL
+  AND c.paid_date::date BETWEEN v_report.period_start AND v_report.period_end
+  AND (
+    NOT EXISTS (SELECT 1 FROM payment_allocations pa WHERE pa.contribution_id = c.id)
+    OR EXISTS (
+      SELECT 1
+      FROM payment_allocations pa
+      JOIN contribution_payments cp ON cp.id = pa.payment_id
+      WHERE pa.contribution_id = c.id
+        AND COALESCE(cp.reference, '') NOT IN ('Cash', 'Wallet')
+    )
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM reconciliation_exceptions e
+    WHERE e.contribution_id = c.id AND e.kind = 'unverified_payment'
+  );
+
+  -- Earlier exceptions this report settles after all
+  UPDATE reconciliation_exceptions e
+  SET
+    status = 'resolved',
+    resolution = 'settled_later',
+    resolution_note = 'Settled in a later report',
+    resolved_at = NOW()
+  WHERE e.kind = 'unsettled_contribution'
+  AND e.status = 'open'
+  AND e.report_id <> p_report_id
+  AND EXISTS (
+    SELECT 1 FROM settlement_lines l
+    WHERE l.report_id = p_report_id AND l.reference = e.reference
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Imports a settlement report and reconciles it. Lines are objects with
+-- `reference`, `amount` and optionally `fee`, `currency` and `settled_at`,
+-- amounts in major units. Resolves to the report id.
+CREATE OR REPLACE FUNCTION public.import_settlement_report(
+  p_gateway TEXT,
+  p_source TEXT,
+  p_period_start DATE,
+  p_period_end DATE,
+  p_lines JSONB,
+  p_file_name TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_report_id UUID;
+BEGIN
+  IF NOT is_platform_admin() THEN
+    RAISE EXCEPTION 'Only platform admins can import settlement reports';
+  END IF;
+
+  IF jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'The settlement report has no lines';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_lines) line
+    WHERE COALESCE(line->>'reference', '') = '' OR line->>'amount' IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Every settlement line needs a reference and an amount';
+  END IF;
+
+  INSERT INTO settlement_reports (gateway, source, file_name, period_start, period_end, imported_by)
+  VALUES (p_gateway, p_source, p_file_name, p_period_start, p_period_end, auth.uid())
+  RETURNING id INTO v_report_id;
+
+  -- A reference listed more than once is summed into one line, so a split
+  -- or repeated settlement shows up as an amount that does not match.
+  -- Currencies that differ between the parts are kept side by side and
+  -- never match an attempt.
+  INSERT INTO settlement_lines (report_id, reference, amount, fee, currency, settled_at)
+  SELECT
+    v_report_id, line.reference, SUM(line.amount), SUM(COALESCE(line.fee, 0)),
+    string_agg(DISTINCT upper(line.currency), ','), MAX(line.settled_at)
+  FROM jsonb_to_recordset(p_lines) AS line(
+    reference TEXT, amount NUMERIC, fee NUMERIC, currency TEXT, settled_at TIMESTAMPTZ
+  )
+  GROUP BY line.reference;
+
+  PERFORM reconcile_settlement_report(v_report_id);
+
+  RETURN v_report_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,62 @@
+-- Creating a thrift system took three round trips: the create procedure,
+-- an update for the settings it does not take, and copying members over
+-- from a cloned system. A failure after the first left a half-configured
+-- system behind, and trying again created a second one. This does all three
+-- in one transaction.
+CREATE OR REPLACE FUNCTION public.create_configured_thrift_system(
+  p_name TEXT,
+  p_contribution_amount NUMERIC,
+  p_payout_schedule TEXT,
+  p_max_members INTEGER,
+  p_cycle_duration INTEGER,
+  p_cycle_start_date TIMESTAMPTZ,
+  p_description TEXT DEFAULT NULL,
+  p_is_escrow_enabled BOOLEAN DEFAULT FALSE,
+  p_late_grace_days INTEGER DEFAULT 0,
+  p_late_fee_type TEXT DEFAULT 'none',
+  p_late_fee_amount NUMERIC DEFAULT 0,
+  p_late_fee_cap NUMERIC DEFAULT NULL,
+  p_thrift_type TEXT DEFAULT 'rotating',
+  p_goal_amount NUMERIC DEFAULT NULL,
+  p_maturity_date TIMESTAMPTZ DEFAULT NULL,
+  p_bonus_pool_enabled BOOLEAN DEFAULT FALSE,
+  p_source_thrift_system_id UUID DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_thrift_system_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to create a thrift system';
+  END IF;
+
+  v_thrift_system_id := create_thrift_system_with_membership(
+    p_name => p_name,
+    p_contribution_amount => p_contribution_amount,
+    p_payout_schedule => p_payout_schedule,
+    p_max_members => p_max_members,
+    p_cycle_duration => p_cycle_duration,
+    p_cycle_start_date => p_cycle_start_date,
+    p_description => p_description,
+    p_admin_id => auth.uid()
+  );
+
+  UPDATE thrift_systems
+  SET
+    is_escrow_enabled = p_is_escrow_enabled,
+    late_grace_days = p_late_grace_days,
+    late_fee_type = p_late_fee_type,
+    late_fee_amount = p_late_fee_amount,
+    late_fee_cap = p_late_fee_cap,
+    thrift_type = p_thrift_type,
+    goal_amount = CASE WHEN p_thrift_type = 'target_savings' THEN p_goal_amount END,
+    maturity_date = CASE WHEN p_thrift_type = 'target_savings' THEN p_maturity_date END,
+    bonus_pool_enabled = p_thrift_type = 'target_savings' AND p_bonus_pool_enabled
+  WHERE id = v_thrift_system_id;
+
+  IF p_source_thrift_system_id IS NOT NULL THEN
+    PERFORM invite_members_from_system(v_thrift_system_id, p_source_thrift_system_id);
+  END IF;
+
+  RETURN v_thrift_system_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,322 @@
+-- The admin chose the seed, so they could try seeds offline until one gave
+-- them the order they wanted, and cancelling or letting a draw expire gave
+-- them another go. The order now also depends on a salt the server picks
+-- when the seed is revealed, so nobody knows it before the draw is final.
+-- A cancelled draw is announced to every member, and the admin can only
+-- commit a new one once most active members have agreed to it.
+ALTER TABLE public.position_draws
+  -- NULL on draws revealed before salts were added
+  ADD COLUMN IF NOT EXISTS salt TEXT;
+
+CREATE TABLE IF NOT EXISTS public.position_draw_consents (
+  draw_id UUID NOT NULL REFERENCES public.position_draws(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (draw_id, member_id)
+);
+
+ALTER TABLE public.position_draw_consents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members and admins can see who agreed to a new draw"
+ON public.position_draw_consents FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM position_draws d
+    JOIN thrift_systems t ON t.id = d.thrift_system_id
+    WHERE d.id = position_draw_consents.draw_id
+      AND (
+        t.admin_id = auth.uid()
+        OR EXISTS (
+          SELECT 1 FROM memberships m
+          WHERE m.thrift_system_id = t.id AND m.user_id = auth.uid()
+        )
+      )
+  )
+);
+
+-- Cancels the given unrevealed draws and tells the thrift's active members,
+-- and the admin when the draw expired. A NULL actor means the draw expired.
+CREATE OR REPLACE FUNCTION public.cancel_position_draws(
+  p_draw_ids UUID[],
+  p_actor_id UUID,
+  p_reason TEXT
+) RETURNS INTEGER AS $$
+DECLARE
+  v_cancelled INTEGER;
+BEGIN
+  WITH cancelled AS (
+    UPDATE position_draws
+    SET cancelled_at = NOW(), cancelled_by = p_actor_id, cancel_reason = p_reason
+    WHERE id = ANY(p_draw_ids) AND revealed_at IS NULL AND cancelled_at IS NULL
+    RETURNING thrift_system_id
+  ),
+  recipients AS (
+    SELECT m.user_id, t.name
+    FROM cancelled c
+    JOIN thrift_systems t ON t.id = c.thrift_system_id
+    JOIN memberships m ON m.thrift_system_id = c.thrift_system_id AND m.status = 'active'
+    UNION
+    SELECT t.admin_id, t.name
+    FROM cancelled c
+    JOIN thrift_systems t ON t.id = c.thrift_system_id
+    WHERE p_actor_id IS NULL
+  ),
+  notified AS (
+    INSERT INTO notifications (user_id, type, message)
+    SELECT user_id, 'position_draw',
+      'The position draw for ' || name || ' was cancelled before it was revealed: ' || p_reason
+      || '. A new draw can be committed once most members agree to it.'
+    FROM recipients
+  )
+  SELECT COUNT(*) INTO v_cancelled FROM cancelled;
+
+  RETURN v_cancelled;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_position_draws(UUID[], UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- How many active members agreed to replace a cancelled draw, and how many
+-- are needed: more than half of them
+CREATE OR REPLACE FUNCTION public.get_position_draw_consents(
+  p_draw_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+  v_draw position_draws;
+  v_members INTEGER;
+  v_agreed INTEGER;
+BEGIN
+  SELECT * INTO v_draw FROM position_draws WHERE id = p_draw_id;
+
+  IF NOT FOUND OR NOT (
+    EXISTS (
+      SELECT 1 FROM thrift_systems
+      WHERE id = v_draw.thrift_system_id AND admin_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM memberships
+      WHERE thrift_system_id = v_draw.thrift_system_id AND user_id = auth.uid()
+    )
+  ) THEN
+    RAISE EXCEPTION 'Draw % not found', p_draw_id;
+  END IF;
+
+  SELECT COUNT(DISTINCT user_id) INTO v_members
+  FROM memberships
+  WHERE thrift_system_id = v_draw.thrift_system_id AND status = 'active';
+
+  SELECT COUNT(*) INTO v_agreed
+  FROM position_draw_consents c
+  WHERE c.draw_id = p_draw_id
+    AND EXISTS (
+      SELECT 1 FROM memberships m
+      WHERE m.thrift_system_id = v_draw.thrift_system_id
+        AND m.user_id = c.member_id
+        AND m.status = 'active'
+    );
+
+  RETURN jsonb_build_object(
+    'agreed', v_agreed,
+    'needed', v_members / 2 + 1,
+    'agreed_by_me', EXISTS (
+      SELECT 1 FROM position_draw_consents
+      WHERE draw_id = p_draw_id AND member_id = auth.uid()
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- An active member agrees that the admin may replace the thrift's latest
+-- draw, which must have been cancelled
+CREATE OR REPLACE FUNCTION public.agree_to_new_position_draw(
+  p_draw_id UUID
+) RETURNS VOID AS $$
+DECLARE
+  v_draw position_draws;
+BEGIN
+  SELECT * INTO v_draw FROM position_draws WHERE id = p_draw_id;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM memberships
+    WHERE thrift_system_id = v_draw.thrift_system_id
+      AND user_id = auth.uid()
+      AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'Only active members can agree to a new draw';
+  END IF;
+
+  IF v_draw.cancelled_at IS NULL THEN
+    RAISE EXCEPTION 'Only a cancelled draw can be replaced';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM position_draws
+    WHERE thrift_system_id = v_draw.thrift_system_id AND committed_at > v_draw.committed_at
+  ) THEN
+    RAISE EXCEPTION 'This draw has already been replaced';
+  END IF;
+
+  INSERT INTO position_draw_consents (draw_id, member_id)
+  VALUES (p_draw_id, auth.uid())
+  ON CONFLICT (draw_id, member_id) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- As before, but a cancelled draw is only replaced once most active members
+-- have agreed to it
+CREATE OR REPLACE FUNCTION public.commit_position_draw(
+  p_thrift_system_id UUID,
+  p_seed_hash TEXT
+) RETURNS UUID AS $$
+DECLARE
+  v_draw_id UUID;
+  v_latest position_draws;
+  v_consents JSONB;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = p_thrift_system_id AND admin_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the thrift system admin can run a draw';
+  END IF;
+
+  PERFORM cancel_position_draws(
+    ARRAY(
+      SELECT id FROM position_draws
+      WHERE thrift_system_id = p_thrift_system_id
+        AND revealed_at IS NULL
+        AND cancelled_at IS NULL
+        AND expires_at <= NOW()
+    ),
+    NULL,
+    'Not revealed in time'
+  );
+
+  IF EXISTS (
+    SELECT 1 FROM position_draws
+    WHERE thrift_system_id = p_thrift_system_id AND revealed_at IS NULL AND cancelled_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'A committed draw is waiting to be revealed';
+  END IF;
+
+  SELECT * INTO v_latest
+  FROM position_draws
+  WHERE thrift_system_id = p_thrift_system_id
+  ORDER BY committed_at DESC
+  LIMIT 1;
+
+  IF FOUND AND v_latest.cancelled_at IS NOT NULL THEN
+    v_consents := get_position_draw_consents(v_latest.id);
+
+    IF (v_consents->>'agreed')::INTEGER < (v_consents->>'needed')::INTEGER THEN
+      RAISE EXCEPTION 'The last draw was cancelled; % of the % members needed have agreed to a new one',
+        v_consents->>'agreed', v_consents->>'needed';
+    END IF;
+  END IF;
+
+  INSERT INTO position_draws (thrift_system_id, seed_hash, participants, created_by)
+  SELECT
+    p_thrift_system_id,
+    lower(p_seed_hash),
+    COALESCE(jsonb_agg(m.user_id::TEXT || ':' || slot ORDER BY m.user_id::TEXT, slot), '[]'::JSONB),
+    auth.uid()
+  FROM memberships m
+  CROSS JOIN LATERAL generate_series(1, m.slot_count) AS slot
+  WHERE m.thrift_system_id = p_thrift_system_id AND m.status = 'active'
+  RETURNING id INTO v_draw_id;
+
+  RETURN v_draw_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Participants are now sorted by sha256(seed || ':' || salt || ':' ||
+-- participant), with the salt drawn here. The same computation runs in the
+-- browser (src/lib/position-draw.ts).
+CREATE OR REPLACE FUNCTION public.reveal_position_draw(
+  p_draw_id UUID,
+  p_seed TEXT
+) RETURNS JSONB AS $$
+DECLARE
+  v_draw position_draws;
+  v_salt TEXT;
+  v_result JSONB;
+BEGIN
+  SELECT * INTO v_draw FROM position_draws WHERE id = p_draw_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Draw % not found', p_draw_id;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM thrift_systems
+    WHERE id = v_draw.thrift_system_id AND admin_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the thrift system admin can reveal a draw';
+  END IF;
+
+  IF v_draw.revealed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This draw has already been revealed';
+  END IF;
+
+  IF v_draw.cancelled_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This draw was cancelled: %', v_draw.cancel_reason;
+  END IF;
+
+  IF v_draw.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'This draw expired on %; commit a new one', to_char(v_draw.expires_at, 'YYYY-MM-DD HH24:MI');
+  END IF;
+
+  IF encode(extensions.digest(p_seed, 'sha256'), 'hex') <> v_draw.seed_hash THEN
+    RAISE EXCEPTION 'Seed does not match the committed hash';
+  END IF;
+
+  v_salt := encode(extensions.gen_random_bytes(32), 'hex');
+
+  SELECT COALESCE(jsonb_agg(participant ORDER BY encode(extensions.digest(p_seed || ':' || v_salt || ':' || participant, 'sha256'), 'hex') COLLATE "C"), '[]'::JSONB)
+  INTO v_result
+  FROM jsonb_array_elements_text(v_draw.participants) AS participant;
+
+  UPDATE position_draws
+  SET seed = p_seed, salt = v_salt, result = v_result, revealed_at = NOW()
+  WHERE id = p_draw_id;
+
+  -- Record the drawn positions the same way resolved bids are recorded
+  UPDATE disbursement_preferences dp
+  SET
+    preferred_position = drawn.position,
+    actual_position = drawn.position,
+    bid_amount = 0,
+    bid_premium = 0,
+    status = 'drawn'
+  FROM (
+    SELECT
+      split_part(participant, ':', 1)::UUID AS member_id,
+      COALESCE(NULLIF(split_part(participant, ':', 2), ''), '1')::INTEGER AS slot_number,
+      position::INTEGER AS position
+    FROM jsonb_array_elements_text(v_result) WITH ORDINALITY AS drawn(participant, position)
+  ) AS drawn
+  WHERE dp.thrift_system_id = v_draw.thrift_system_id
+    AND dp.member_id = drawn.member_id
+    AND dp.slot_number = drawn.slot_number;
+
+  INSERT INTO disbursement_preferences (
+    thrift_system_id, member_id, slot_number, preferred_position, actual_position, bid_amount, status
+  )
+  SELECT v_draw.thrift_system_id, drawn.member_id, drawn.slot_number, drawn.position, drawn.position, 0, 'drawn'
+  FROM (
+    SELECT
+      split_part(participant, ':', 1)::UUID AS member_id,
+      COALESCE(NULLIF(split_part(participant, ':', 2), ''), '1')::INTEGER AS slot_number,
+      position::INTEGER AS position
+    FROM jsonb_array_elements_text(v_result) WITH ORDINALITY AS drawn(participant, position)
+  ) AS drawn
+  WHERE NOT EXISTS (
+    SELECT 1 FROM disbursement_preferences dp
+    WHERE dp.thrift_system_id = v_draw.thrift_system_id
+      AND dp.member_id = drawn.member_id
+      AND dp.slot_number = drawn.slot_number
+  );
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
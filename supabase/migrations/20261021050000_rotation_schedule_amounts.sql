@@ -0,0 +1,233 @@
+-- The browser still chose what each payout and contribution was worth. The
+-- amounts are now worked out here from the members' commitments and their
+-- settled bid premiums, the same way `buildRotationSchedule` previews them
+-- (src/lib/rotation-schedule.ts), and any amounts in the schedule are
+-- ignored. A rotating schedule must also run one period per active slot,
+-- with exactly one payout per position.
+CREATE OR REPLACE FUNCTION public.apply_rotation_schedule(
+  p_thrift_system_id UUID,
+  p_schedule JSONB
+) RETURNS INTEGER AS $$
+DECLARE
+  v_system thrift_systems;
+  v_payout JSONB;
+  v_contribution JSONB;
+  v_positions INTEGER;
+  v_slots INTEGER;
+  v_premiums NUMERIC[];
+  v_shares BIGINT[];
+  v_premium BIGINT;
+  v_base BIGINT;
+  v_remainder BIGINT;
+  v_slot_amount NUMERIC;
+  v_position INTEGER;
+  v_goal_kobo BIGINT;
+  v_period INTEGER;
+BEGIN
+  SELECT * INTO v_system FROM thrift_systems
+  WHERE id = p_thrift_system_id AND admin_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the thrift system admin can generate its schedule';
+  END IF;
+
+  v_positions := COALESCE(
+    (p_schedule->>'periods')::INTEGER,
+    jsonb_array_length(p_schedule->'payouts')
+  );
+
+  IF v_positions IS NULL OR v_positions < 1 THEN
+    RAISE EXCEPTION 'The schedule has no periods';
+  END IF;
+
+  SELECT COALESCE(SUM(slot_count), 0) INTO v_slots
+  FROM memberships
+  WHERE thrift_system_id = p_thrift_system_id AND status = 'active';
+
+  IF v_system.thrift_type <> 'target_savings' AND v_positions <> v_slots THEN
+    RAISE EXCEPTION 'The schedule runs for % periods but active members hold % slots', v_positions, v_slots;
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_schedule->'payouts', '[]'::JSONB)) > 0 AND (
+    SELECT array_agg((s->>'position')::INTEGER ORDER BY (s->>'position')::INTEGER)
+    FROM jsonb_array_elements(p_schedule->'payouts') s
+  ) IS DISTINCT FROM ARRAY(SELECT generate_series(1, v_positions)) THEN
+    RAISE EXCEPTION 'The schedule needs exactly one payout for each of the % positions', v_positions;
+  END IF;
+
+  -- Each position's settled bid premium, then where those premiums go under
+  -- the thrift's policy, in kobo as `distributeBidPremiums` does
+  v_premiums := array_fill(0::NUMERIC, ARRAY[v_positions]);
+  v_shares := array_fill(0::BIGINT, ARRAY[v_positions]);
+
+  FOR v_payout IN SELECT * FROM jsonb_array_elements(p_schedule->'payouts') LOOP
+    v_premiums[(v_payout->>'position')::INTEGER] := COALESCE((
+      SELECT bid_premium FROM disbursement_preferences
+      WHERE thrift_system_id = p_thrift_system_id
+        AND member_id = (v_payout->>'member_id')::UUID
+        AND slot_number = COALESCE((v_payout->>'slot_number')::INTEGER, 1)
+        AND actual_position IS NOT NULL
+    ), 0);
+  END LOOP;
+
+  FOR v_position IN 1..v_positions LOOP
+    v_premium := round(v_premiums[v_position] * 100);
+    CONTINUE WHEN v_premium <= 0;
+
+    IF v_system.bid_premium_policy = 'organizer_fee' THEN
+      CONTINUE;
+    ELSIF v_system.bid_premium_policy = 'last_payout' THEN
+      v_shares[v_positions] := v_shares[v_positions] + v_premium;
+    ELSIF v_position = v_positions THEN
+      -- Nobody is paid after the last position, so its premium comes back
+      v_shares[v_position] := v_shares[v_position] + v_premium;
+    ELSE
+      -- Split among the later positions; leftover kobo go to the latest
+      v_base := v_premium / (v_positions - v_position);
+      v_remainder := v_premium - v_base * (v_positions - v_position);
+      FOR v_period IN REVERSE v_positions..v_position + 1 LOOP
+        v_shares[v_period] := v_shares[v_period] + v_base + CASE WHEN v_remainder > 0 THEN 1 ELSE 0 END;
+        v_remainder := v_remainder - 1;
+      END LOOP;
+    END IF;
+  END LOOP;
+
+  FOR v_payout IN SELECT * FROM jsonb_array_elements(p_schedule->'payouts') LOOP
+    SELECT CASE
+      WHEN v_system.contribution_mode = 'variable' THEN COALESCE(committed_amount, v_system.contribution_amount)
+      ELSE v_system.contribution_amount
+    END
+    INTO v_slot_amount
+    FROM memberships
+    WHERE thrift_system_id = p_thrift_system_id
+      AND user_id = (v_payout->>'member_id')::UUID
+      AND status = 'active'
+      AND slot_count >= COALESCE((v_payout->>'slot_number')::INTEGER, 1);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Payout position % is not for an active member of this thrift system', v_payout->>'position';
+    END IF;
+
+    v_position := (v_payout->>'position')::INTEGER;
+
+    INSERT INTO payouts (thrift_system_id, member_id, slot_number, position, amount, bid_premium, premium_share, scheduled_date, status)
+    VALUES (
+      p_thrift_system_id,
+      (v_payout->>'member_id')::UUID,
+      COALESCE((v_payout->>'slot_number')::INTEGER, 1),
+      v_position,
+      v_slot_amount * v_positions - v_premiums[v_position] + v_shares[v_position] / 100.0,
+      v_premiums[v_position],
+      v_shares[v_position] / 100.0,
+      (v_payout->>'scheduled_date')::TIMESTAMPTZ,
+      'pending'
+    )
+    ON CONFLICT (thrift_system_id, position) WHERE position IS NOT NULL
+    DO UPDATE SET
+      member_id = EXCLUDED.member_id,
+      slot_number = EXCLUDED.slot_number,
+      amount = EXCLUDED.amount + payouts.priority_bonus,
+      bid_premium = EXCLUDED.bid_premium,
+      premium_share = EXCLUDED.premium_share + payouts.priority_bonus,
+      scheduled_date = EXCLUDED.scheduled_date
+    WHERE payouts.status = 'pending';
+  END LOOP;
+
+  -- Target savings split each hand's goal into instalments in kobo, the
+  -- last one taking the rounding, as `splitSavingsGoal` does
+  v_goal_kobo := round(COALESCE(v_system.goal_amount, 0) * 100);
+
+  FOR v_contribution IN SELECT * FROM jsonb_array_elements(p_schedule->'contributions') LOOP
+    v_period := (v_contribution->>'period_number')::INTEGER;
+
+    SELECT CASE
+      WHEN v_system.thrift_type = 'target_savings' THEN
+        CASE WHEN v_period = v_positions
+          THEN v_goal_kobo - (v_goal_kobo / v_positions) * (v_positions - 1)
+          ELSE v_goal_kobo / v_positions
+        END / 100.0
+      WHEN v_system.contribution_mode = 'variable' THEN COALESCE(committed_amount, v_system.contribution_amount)
+      ELSE v_system.contribution_amount
+    END
+    INTO v_slot_amount
+    FROM memberships
+    WHERE id = (v_contribution->>'membership_id')::UUID
+      AND thrift_system_id = p_thrift_system_id
+      AND status = 'active'
+      AND slot_count >= COALESCE((v_contribution->>'slot_number')::INTEGER, 1);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Contribution for period % is not for an active member of this thrift system', v_period;
+    END IF;
+
+    IF v_period IS NULL OR v_period < 1 OR v_period > v_positions THEN
+      RAISE EXCEPTION 'Contribution period % is outside the % periods of the schedule', v_period, v_positions;
+    END IF;
+
+    INSERT INTO contributions (membership_id, slot_number, period_number, amount, due_date, status)
+    VALUES (
+      (v_contribution->>'membership_id')::UUID,
+      COALESCE((v_contribution->>'slot_number')::INTEGER, 1),
+      v_period,
+      v_slot_amount,
+      (v_contribution->>'due_date')::TIMESTAMPTZ,
+      'pending'
+    )
+    ON CONFLICT (membership_id, slot_number, period_number) WHERE period_number IS NOT NULL
+    DO UPDATE SET
+      amount = EXCLUDED.amount,
+      due_date = EXCLUDED.due_date
+    WHERE contributions.status = 'pending';
+  END LOOP;
+
+  DELETE FROM payouts
+  WHERE thrift_system_id = p_thrift_system_id
+    AND status = 'pending'
+    AND position > v_positions;
+
+  -- Members who are no longer active, or no longer in the schedule, keep
+  -- nothing still to be paid
+  DELETE FROM payouts p
+  WHERE p.thrift_system_id = p_thrift_system_id
+    AND p.status = 'pending'
+    AND (
+      NOT EXISTS (
+        SELECT 1 FROM memberships m
+        WHERE m.thrift_system_id = p_thrift_system_id
+          AND m.user_id = p.member_id
+          AND m.status = 'active'
+          AND m.slot_count >= p.slot_number
+      )
+      OR (
+        jsonb_array_length(COALESCE(p_schedule->'payouts', '[]'::JSONB)) > 0
+        AND NOT EXISTS (
+          SELECT 1 FROM jsonb_array_elements(p_schedule->'payouts') s
+          WHERE (s->>'member_id')::UUID = p.member_id
+            AND COALESCE((s->>'slot_number')::INTEGER, 1) = p.slot_number
+        )
+      )
+    );
+
+  DELETE FROM contributions c
+  USING memberships m
+  WHERE m.id = c.membership_id
+    AND m.thrift_system_id = p_thrift_system_id
+    AND c.status = 'pending'
+    AND (
+      c.period_number > v_positions
+      OR c.slot_number > m.slot_count
+      OR m.status <> 'active'
+      OR NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_schedule->'contributions') s
+        WHERE (s->>'membership_id')::UUID = c.membership_id
+          AND COALESCE((s->>'slot_number')::INTEGER, 1) = c.slot_number
+      )
+    );
+
+  UPDATE thrift_systems
+  SET status = 'active', updated_at = NOW()
+  WHERE id = p_thrift_system_id;
+
+  RETURN v_positions;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,131 @@
+-- Nominating an email address without an account still failed, so a member
+-- could find out who has one. Such a nomination is now kept as an
+-- invitation and succeeds like any other; it becomes a guarantee request
+-- when someone signs up with that address.
+CREATE TABLE IF NOT EXISTS public.guarantor_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  membership_id UUID NOT NULL REFERENCES public.memberships(id) ON DELETE CASCADE,
+  -- Stored trimmed and lower-cased
+  email TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (membership_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS guarantor_invitations_email_idx
+  ON public.guarantor_invitations (email);
+
+ALTER TABLE public.guarantor_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view the guarantors they invited"
+ON public.guarantor_invitations FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM memberships
+    WHERE memberships.id = guarantor_invitations.membership_id
+      AND memberships.user_id = auth.uid()
+  )
+);
+
+-- As before, but an unknown email address is invited instead of refused,
+-- and nominating someone twice is not an error, so the result is the same
+-- whether or not the address has an account
+CREATE OR REPLACE FUNCTION public.nominate_guarantor(
+  p_membership_id UUID,
+  p_email TEXT
+) RETURNS UUID AS $$
+DECLARE
+  v_membership memberships;
+  v_email TEXT := lower(trim(p_email));
+  v_guarantor_id UUID;
+  v_guarantee_id UUID;
+BEGIN
+  SELECT * INTO v_membership FROM memberships WHERE id = p_membership_id;
+
+  IF NOT FOUND OR v_membership.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'You can only nominate guarantors for your own join request';
+  END IF;
+
+  IF v_membership.status NOT IN ('pending', 'waitlisted') THEN
+    RAISE EXCEPTION 'Guarantors can only be added while the request is pending';
+  END IF;
+
+  IF COALESCE(v_email, '') !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Enter a valid email address';
+  END IF;
+
+  SELECT id INTO v_guarantor_id FROM auth.users WHERE lower(email) = v_email;
+
+  IF v_guarantor_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot be your own guarantor';
+  END IF;
+
+  IF v_guarantor_id IS NULL THEN
+    INSERT INTO guarantor_invitations (membership_id, email)
+    VALUES (p_membership_id, v_email)
+    ON CONFLICT (membership_id, email) DO UPDATE SET email = EXCLUDED.email
+    RETURNING id INTO v_guarantee_id;
+
+    RETURN v_guarantee_id;
+  END IF;
+
+  INSERT INTO membership_guarantors (membership_id, guarantor_id)
+  VALUES (p_membership_id, v_guarantor_id)
+  ON CONFLICT (membership_id, guarantor_id) DO NOTHING
+  RETURNING id INTO v_guarantee_id;
+
+  IF v_guarantee_id IS NULL THEN
+    SELECT id INTO v_guarantee_id FROM membership_guarantors
+    WHERE membership_id = p_membership_id AND guarantor_id = v_guarantor_id;
+
+    RETURN v_guarantee_id;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, message)
+  SELECT v_guarantor_id, 'guarantor_request',
+    COALESCE(p.full_name, 'A member') || ' has asked you to guarantee their contributions in ' || t.name || '.'
+  FROM profiles p, thrift_systems t
+  WHERE p.id = auth.uid() AND t.id = v_membership.thrift_system_id;
+
+  RETURN v_guarantee_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- When someone signs up, invitations sent to their email address become
+-- guarantee requests, for join requests that are still pending
+CREATE OR REPLACE FUNCTION public.claim_guarantor_invitations() RETURNS TRIGGER AS $$
+DECLARE
+  v_email TEXT;
+BEGIN
+  SELECT lower(email) INTO v_email FROM auth.users WHERE id = NEW.id;
+
+  WITH claimed AS (
+    DELETE FROM guarantor_invitations i
+    WHERE i.email = v_email
+    RETURNING i.membership_id
+  ),
+  nominated AS (
+    INSERT INTO membership_guarantors (membership_id, guarantor_id)
+    SELECT c.membership_id, NEW.id
+    FROM claimed c
+    JOIN memberships m ON m.id = c.membership_id
+    WHERE m.status IN ('pending', 'waitlisted') AND m.user_id <> NEW.id
+    ON CONFLICT (membership_id, guarantor_id) DO NOTHING
+    RETURNING membership_id
+  )
+  INSERT INTO notifications (user_id, type, message)
+  SELECT NEW.id, 'guarantor_request',
+    COALESCE(p.full_name, 'A member') || ' has asked you to guarantee their contributions in ' || t.name || '.'
+  FROM nominated n
+  JOIN memberships m ON m.id = n.membership_id
+  JOIN thrift_systems t ON t.id = m.thrift_system_id
+  LEFT JOIN profiles p ON p.id = m.user_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS claim_guarantor_invitations ON public.profiles;
+
+CREATE TRIGGER claim_guarantor_invitations
+AFTER INSERT ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.claim_guarantor_invitations();